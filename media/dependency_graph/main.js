@@ -0,0 +1,519 @@
+// @ts-check
+
+/**
+ * Dependency Graph WebView JavaScript
+ * Draws the ext_resource references between resources as columns of boxes, references pointing right
+ */
+
+(function () {
+	// @ts-ignore
+	const vscode = acquireVsCodeApi();
+
+	const COLUMN_WIDTH = 260;
+	const NODE_WIDTH = 200;
+	const NODE_HEIGHT = 26;
+	const ROW_GAP = 10;
+	const PADDING = 16;
+
+	const KIND_LABELS = {
+		scene: "Scenes",
+		resource: "Resources",
+		script: "Scripts",
+		asset: "Assets",
+	};
+
+	/** @type {string} */
+	let darkIconsBaseUri = "";
+
+	/** @type {any} - The last graph received */
+	let current = null;
+
+	/** @type {string | undefined} - res:// path of the selected resource */
+	let selected;
+
+	/** @type {Map<string, HTMLElement>} */
+	const nodeElements = new Map();
+
+	/** @type {Map<string, SVGPathElement[]>} - res:// path -> its edges */
+	const edgeElements = new Map();
+
+	const canvas = document.getElementById("graphCanvas");
+	const details = document.getElementById("graphDetails");
+	const summary = document.getElementById("graphSummary");
+	const filterInput = /** @type {HTMLInputElement} */ (document.getElementById("filterInput"));
+	const kindFilters = document.getElementById("kindFilters");
+	const depthSelect = /** @type {HTMLSelectElement} */ (document.getElementById("depthSelect"));
+	const directionSelect = /** @type {HTMLSelectElement} */ (document.getElementById("directionSelect"));
+
+	/** @type {Map<string, HTMLInputElement>} */
+	const kindCheckboxes = new Map();
+	for (const [kind, label] of Object.entries(KIND_LABELS)) {
+		const element = document.createElement("label");
+		element.className = "graph-kind";
+		const checkbox = document.createElement("input");
+		checkbox.type = "checkbox";
+		checkbox.checked = true;
+		checkbox.addEventListener("change", setOptions);
+		element.appendChild(checkbox);
+		element.appendChild(document.createTextNode(label));
+		kindFilters.appendChild(element);
+		kindCheckboxes.set(kind, checkbox);
+	}
+
+	/** @type {number | undefined} */
+	let filterTimer;
+	filterInput.addEventListener("input", () => {
+		clearTimeout(filterTimer);
+		filterTimer = setTimeout(setOptions, 300);
+	});
+	depthSelect.addEventListener("change", setOptions);
+	directionSelect.addEventListener("change", setOptions);
+	document.getElementById("showAllButton").addEventListener("click", () => {
+		vscode.postMessage({ type: "showAll" });
+	});
+	document.getElementById("refreshButton").addEventListener("click", () => {
+		vscode.postMessage({ type: "refresh" });
+	});
+
+	window.addEventListener("message", (event) => {
+		const message = event.data;
+		switch (message.type) {
+			case "updateGraph":
+				darkIconsBaseUri = message.darkIconsBaseUri;
+				current = message;
+				showOptions(message.options, message.focus);
+				renderSummary(message);
+				renderGraph(message);
+				select(message.nodes.some((node) => node.resPath === selected) ? selected : message.focus);
+				break;
+		}
+	});
+
+	function setOptions() {
+		vscode.postMessage({
+			type: "setOptions",
+			options: {
+				text: filterInput.value.trim(),
+				kinds: [...kindCheckboxes].filter(([, checkbox]) => checkbox.checked).map(([kind]) => kind),
+				depth: Number(depthSelect.value),
+				direction: directionSelect.value,
+			},
+		});
+	}
+
+	/**
+	 * @param {any} options
+	 * @param {string | undefined} focus
+	 */
+	function showOptions(options, focus) {
+		if (document.activeElement !== filterInput) {
+			filterInput.value = options.text;
+		}
+		for (const [kind, checkbox] of kindCheckboxes) {
+			checkbox.checked = options.kinds.includes(kind);
+		}
+		depthSelect.value = String(options.depth);
+		directionSelect.value = options.direction;
+		// Depth and direction only apply around a focused resource
+		depthSelect.disabled = !focus;
+		directionSelect.disabled = !focus;
+	}
+
+	/**
+	 * @param {any} message
+	 */
+	function renderSummary(message) {
+		summary.innerHTML = "";
+		const parts = [];
+		if (message.load) {
+			const { total, counts, heaviest } = message.load;
+			const kinds = Object.entries(counts).map(([kind, count]) => `${count} ${KIND_LABELS[kind].toLowerCase()}`);
+			parts.push(
+				document.createTextNode(
+					`Loading ${basename(message.focus)} loads ${total} resources${kinds.length ? ` (${kinds.join(", ")})` : ""}.`,
+				),
+			);
+			if (heaviest.length) {
+				parts.push(document.createTextNode(" Most of it comes through "));
+				heaviest.forEach((entry, i) => {
+					if (i) parts.push(document.createTextNode(", "));
+					parts.push(
+						createLink(`${basename(entry.resPath)} (${entry.weight})`, entry.resPath, () =>
+							select(entry.resPath),
+						),
+					);
+				});
+				parts.push(document.createTextNode("."));
+			}
+		} else if (message.focus) {
+			parts.push(document.createTextNode(`References of ${basename(message.focus)}.`));
+		} else {
+			parts.push(
+				document.createTextNode(
+					"The whole project. Select a resource and focus on it to see its neighbourhood.",
+				),
+			);
+		}
+
+		if (message.total > message.nodes.length) {
+			parts.push(
+				document.createTextNode(
+					` Showing ${message.nodes.length} of ${message.total} resources, filter to see the rest.`,
+				),
+			);
+		}
+
+		const cycles = message.cycles;
+		if (cycles.length) {
+			const element = document.createElement("span");
+			element.className = "graph-cycles";
+			element.appendChild(
+				document.createTextNode(` ${cycles.length} ${cycles.length === 1 ? "cycle" : "cycles"}: `),
+			);
+			cycles.forEach((cycle, i) => {
+				if (i) element.appendChild(document.createTextNode(", "));
+				const label = cycle.map(basename).join(" ↔ ");
+				element.appendChild(
+					createLink(label, cycle[0], () => vscode.postMessage({ type: "focus", resPath: cycle[0] })),
+				);
+			});
+			parts.push(element);
+		}
+		for (const part of parts) {
+			summary.appendChild(part);
+		}
+	}
+
+	/**
+	 * @param {any} message
+	 */
+	function renderGraph(message) {
+		canvas.innerHTML = "";
+		nodeElements.clear();
+		edgeElements.clear();
+		if (!message.nodes.length) {
+			const element = document.createElement("div");
+			element.className = "welcome-message";
+			element.textContent = "No resources match the filter";
+			canvas.appendChild(element);
+			return;
+		}
+
+		const positions = layout(message.nodes, message.edges);
+		let width = 0;
+		let height = 0;
+		for (const { x, y } of positions.values()) {
+			width = Math.max(width, x + NODE_WIDTH + PADDING);
+			height = Math.max(height, y + NODE_HEIGHT + PADDING);
+		}
+
+		const surface = document.createElement("div");
+		surface.className = "graph-surface";
+		surface.style.width = `${width + COLUMN_WIDTH - NODE_WIDTH}px`;
+		surface.style.height = `${height}px`;
+
+		const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+		svg.setAttribute("class", "graph-edges");
+		svg.setAttribute("width", String(width + COLUMN_WIDTH - NODE_WIDTH));
+		svg.setAttribute("height", String(height));
+		svg.innerHTML =
+			'<defs><marker id="arrow" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M0,0 L8,4 L0,8 z"></path></marker></defs>';
+		for (const edge of message.edges) {
+			const path = createEdge(edge, positions.get(edge.from), positions.get(edge.to));
+			svg.appendChild(path);
+			for (const end of [edge.from, edge.to]) {
+				if (!edgeElements.has(end)) edgeElements.set(end, []);
+				edgeElements.get(end).push(path);
+			}
+		}
+		surface.appendChild(svg);
+
+		for (const node of message.nodes) {
+			const element = createNode(node, node.resPath === message.focus);
+			const { x, y } = positions.get(node.resPath);
+			element.style.left = `${x}px`;
+			element.style.top = `${y}px`;
+			surface.appendChild(element);
+			nodeElements.set(node.resPath, element);
+		}
+		canvas.appendChild(surface);
+	}
+
+	/**
+	 * Puts each column's boxes in the order of the boxes referencing them, to keep lines short
+	 * @param {any[]} nodes
+	 * @param {any[]} edges
+	 * @returns {Map<string, {x: number, y: number}>}
+	 */
+	function layout(nodes, edges) {
+		/** @type {any[][]} */
+		const columns = [];
+		for (const node of nodes) {
+			(columns[node.layer] ??= []).push(node);
+		}
+
+		/** @type {Map<string, string[]>} */
+		const referencedBy = new Map();
+		for (const edge of edges) {
+			if (!referencedBy.has(edge.to)) referencedBy.set(edge.to, []);
+			referencedBy.get(edge.to).push(edge.from);
+		}
+
+		/** @type {Map<string, number>} */
+		const rows = new Map();
+		/** @type {Map<string, {x: number, y: number}>} */
+		const positions = new Map();
+		columns.forEach((column, layer) => {
+			if (!column) return;
+			const order = (node) => {
+				const parents = (referencedBy.get(node.resPath) ?? []).filter((parent) => rows.has(parent));
+				return parents.length
+					? parents.reduce((sum, parent) => sum + rows.get(parent), 0) / parents.length
+					: Infinity;
+			};
+			column
+				.map((node) => ({ node, order: order(node) }))
+				.sort((a, b) => a.order - b.order || a.node.resPath.localeCompare(b.node.resPath))
+				.forEach(({ node }, row) => {
+					rows.set(node.resPath, row);
+					positions.set(node.resPath, {
+						x: PADDING + layer * COLUMN_WIDTH,
+						y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+					});
+				});
+		});
+		return positions;
+	}
+
+	/**
+	 * @param {any} edge
+	 * @param {{x: number, y: number}} from
+	 * @param {{x: number, y: number}} to
+	 * @returns {SVGPathElement}
+	 */
+	function createEdge(edge, from, to) {
+		const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
+		const startY = from.y + NODE_HEIGHT / 2;
+		const endY = to.y + NODE_HEIGHT / 2;
+		let d;
+		if (to.x > from.x) {
+			const startX = from.x + NODE_WIDTH;
+			const middle = (startX + to.x) / 2;
+			d = `M${startX},${startY} C${middle},${startY} ${middle},${endY} ${to.x},${endY}`;
+		} else {
+			// Resources loading each other share a column: loop around its right side
+			const right = Math.max(from.x, to.x) + NODE_WIDTH;
+			const bulge = right + 24 + Math.min(Math.abs(endY - startY) / 4, 30);
+			d = `M${from.x + NODE_WIDTH},${startY} C${bulge},${startY} ${bulge},${endY} ${to.x + NODE_WIDTH},${endY}`;
+		}
+		path.setAttribute("d", d);
+		path.setAttribute("class", `graph-edge${edge.cyclic ? " cyclic" : ""}`);
+		path.setAttribute("marker-end", "url(#arrow)");
+		const title = document.createElementNS("http://www.w3.org/2000/svg", "title");
+		title.textContent = `${basename(edge.from)} loads ${basename(edge.to)} (${edge.type})`;
+		path.appendChild(title);
+		path.addEventListener("click", () =>
+			vscode.postMessage({ type: "openReference", from: edge.from, to: edge.to }),
+		);
+		return path;
+	}
+
+	/**
+	 * @param {any} node
+	 * @param {boolean} focused
+	 * @returns {HTMLElement}
+	 */
+	function createNode(node, focused) {
+		const element = document.createElement("div");
+		element.className = `graph-node kind-${node.kind}`;
+		if (focused) element.classList.add("focused");
+		if (node.missing) element.classList.add("missing");
+		if (node.cycle !== undefined) element.classList.add("in-cycle");
+		element.title = node.missing ? `${node.resPath} (missing)` : node.resPath;
+
+		// @ts-ignore - defined by node_icons.js
+		element.appendChild(GodotNodeIcons.createIconElement(darkIconsBaseUri, node.icon));
+		const label = document.createElement("span");
+		label.className = "graph-node-label";
+		label.textContent = basename(node.resPath);
+		element.appendChild(label);
+		if (node.weight > 1) {
+			const weight = document.createElement("span");
+			weight.className = "graph-node-weight";
+			weight.textContent = String(node.weight);
+			weight.title = `Loading it loads ${node.weight - 1} more resources`;
+			element.appendChild(weight);
+		}
+
+		element.addEventListener("click", () => select(node.resPath));
+		element.addEventListener("dblclick", () => {
+			if (!node.missing) vscode.postMessage({ type: "open", resPath: node.resPath });
+		});
+		return element;
+	}
+
+	/**
+	 * Highlights a resource and its references, and shows its details
+	 * @param {string | undefined} resPath
+	 */
+	function select(resPath) {
+		selected = resPath;
+		for (const [key, element] of nodeElements) {
+			element.classList.toggle("selected", key === resPath);
+		}
+		for (const paths of edgeElements.values()) {
+			for (const path of paths) path.classList.remove("highlighted");
+		}
+		for (const path of edgeElements.get(resPath) ?? []) {
+			path.classList.add("highlighted");
+		}
+		nodeElements.get(resPath)?.scrollIntoView({ block: "nearest", inline: "nearest" });
+		renderDetails(current?.nodes.find((node) => node.resPath === resPath));
+	}
+
+	/**
+	 * @param {any} node
+	 */
+	function renderDetails(node) {
+		details.innerHTML = "";
+		if (!node) {
+			details.classList.add("empty");
+			return;
+		}
+		details.classList.remove("empty");
+
+		const title = document.createElement("div");
+		title.className = "details-title";
+		title.textContent = basename(node.resPath);
+		details.appendChild(title);
+		appendText("details-path", node.resPath);
+		appendText(
+			"details-type",
+			node.missing ? `${node.type ?? node.kind}, missing from the project` : (node.type ?? node.kind),
+		);
+
+		const actions = document.createElement("div");
+		actions.className = "details-actions";
+		if (!node.missing) {
+			actions.appendChild(
+				createButton("go-to-file", "Open", () => vscode.postMessage({ type: "open", resPath: node.resPath })),
+			);
+		}
+		if (node.resPath !== current.focus && !node.missing) {
+			actions.appendChild(
+				createButton("target", "Focus", () => vscode.postMessage({ type: "focus", resPath: node.resPath })),
+			);
+		}
+		details.appendChild(actions);
+
+		if (node.cycle !== undefined) {
+			const cycle = current.cycles[node.cycle];
+			appendText(
+				"details-cycle",
+				`In a cycle with ${cycle
+					.filter((member) => member !== node.resPath)
+					.map(basename)
+					.join(", ")}`,
+			);
+		}
+		if (node.weight !== undefined) {
+			appendText("details-weight", `Loading it loads ${node.weight - 1} more resources`);
+		}
+		if (node.chain?.length > 1) {
+			appendHeading(`Why ${basename(current.focus)} loads it`);
+			const list = document.createElement("div");
+			list.className = "details-list";
+			for (let i = 1; i < node.chain.length; i++) {
+				const from = node.chain[i - 1];
+				const to = node.chain[i];
+				list.appendChild(
+					createLink(`${basename(from)} → ${basename(to)}`, `Open the reference in ${from}`, () =>
+						vscode.postMessage({ type: "openReference", from, to }),
+					),
+				);
+			}
+			details.appendChild(list);
+		}
+
+		const loads = current.edges.filter((edge) => edge.from === node.resPath);
+		const loadedBy = current.edges.filter((edge) => edge.to === node.resPath);
+		appendReferences("Loads", loads, (edge) => edge.to);
+		appendReferences("Loaded by", loadedBy, (edge) => edge.from);
+	}
+
+	/**
+	 * @param {string} heading
+	 * @param {any[]} edges
+	 * @param {(edge: any) => string} other
+	 */
+	function appendReferences(heading, edges, other) {
+		if (!edges.length) return;
+		appendHeading(`${heading} (${edges.length})`);
+		const list = document.createElement("div");
+		list.className = "details-list";
+		for (const edge of edges) {
+			list.appendChild(
+				createLink(`${basename(other(edge))} (${edge.type})`, `Open the reference in ${edge.from}`, () =>
+					vscode.postMessage({ type: "openReference", from: edge.from, to: edge.to }),
+				),
+			);
+		}
+		details.appendChild(list);
+	}
+
+	/**
+	 * @param {string} className
+	 * @param {string} text
+	 */
+	function appendText(className, text) {
+		const element = document.createElement("div");
+		element.className = className;
+		element.textContent = text;
+		details.appendChild(element);
+	}
+
+	/**
+	 * @param {string} text
+	 */
+	function appendHeading(text) {
+		appendText("details-heading", text);
+	}
+
+	/**
+	 * @param {string} text
+	 * @param {string} title
+	 * @param {() => void} onClick
+	 * @returns {HTMLElement}
+	 */
+	function createLink(text, title, onClick) {
+		const element = document.createElement("a");
+		element.className = "graph-link";
+		element.textContent = text;
+		element.title = title;
+		element.addEventListener("click", onClick);
+		return element;
+	}
+
+	/**
+	 * @param {string} icon
+	 * @param {string} text
+	 * @param {() => void} onClick
+	 * @returns {HTMLElement}
+	 */
+	function createButton(icon, text, onClick) {
+		const element = document.createElement("button");
+		element.className = "details-button";
+		element.innerHTML = `<span class="codicon codicon-${icon}"></span>`;
+		element.appendChild(document.createTextNode(text));
+		element.addEventListener("click", onClick);
+		return element;
+	}
+
+	/**
+	 * @param {string} resPath
+	 * @returns {string}
+	 */
+	function basename(resPath) {
+		return resPath.slice(resPath.lastIndexOf("/") + 1);
+	}
+})();
@@ -0,0 +1,253 @@
+// @ts-check
+
+/**
+ * Godot Monitors WebView JavaScript
+ * Draws a graph of each selected performance monitor, with its alert thresholds
+ */
+
+(function () {
+	// @ts-ignore
+	const vscode = acquireVsCodeApi();
+
+	const CHART_HEIGHT = 70;
+	/** Horizontal distance between samples, the latest ones that fit are drawn */
+	const SAMPLE_WIDTH = 3;
+
+	/** @type {{id: string, name: string, category: string, unit: string, custom?: boolean}[]} */
+	let monitors = [];
+	/** @type {string[]} */
+	let selected = [];
+	/** @type {Record<string, {above?: number, below?: number}>} */
+	let thresholds = {};
+	/** @type {{time: number, values: Record<string, number>}[]} */
+	let samples = [];
+	let maxSamples = 3600;
+	let connected = false;
+	let paused = false;
+
+	const charts = document.getElementById("charts");
+	const picker = document.getElementById("picker");
+	const status = document.getElementById("status");
+	const pauseButton = document.getElementById("pauseButton");
+	const pauseLabel = document.getElementById("pauseLabel");
+
+	pauseButton.addEventListener("click", () => {
+		paused = !paused;
+		pauseLabel.textContent = paused ? "Resume" : "Pause";
+		pauseButton.querySelector(".codicon").className =
+			`codicon ${paused ? "codicon-debug-continue" : "codicon-debug-pause"}`;
+		renderCharts();
+		renderStatus();
+	});
+	document.getElementById("clearButton").addEventListener("click", () => vscode.postMessage({ type: "clear" }));
+	document.getElementById("exportButton").addEventListener("click", () => vscode.postMessage({ type: "export" }));
+
+	window.addEventListener("resize", renderCharts);
+
+	window.addEventListener("message", (event) => {
+		const message = event.data;
+		switch (message.type) {
+			case "monitors":
+				monitors = message.monitors;
+				selected = message.selected;
+				thresholds = message.thresholds;
+				renderPicker();
+				renderCharts();
+				break;
+			case "samples":
+				maxSamples = message.max_samples;
+				samples = message.reset ? message.samples : samples.concat(message.samples);
+				if (samples.length > maxSamples) {
+					samples = samples.slice(samples.length - maxSamples);
+				}
+				// Paused graphs keep the samples, they're drawn on resume
+				if (!paused || message.reset) {
+					renderCharts();
+				}
+				renderStatus();
+				break;
+			case "state":
+				connected = message.connected;
+				renderStatus();
+				break;
+		}
+	});
+
+	/** @param {number} value */
+	function format(value) {
+		return Number.isInteger(value) ? `${value}` : value.toFixed(2);
+	}
+
+	/** @param {string} name @param {string} fallback */
+	function themeColor(name, fallback) {
+		return getComputedStyle(document.body).getPropertyValue(name).trim() || fallback;
+	}
+
+	function renderStatus() {
+		const state = connected ? (paused ? "Paused" : "Running") : "Not connected";
+		status.textContent =
+			samples.length === 0
+				? connected
+					? "Waiting for the game..."
+					: "Run the game with a debug session or the Scene Tree Monitor."
+				: `${state}, ${samples.length} samples`;
+	}
+
+	function renderPicker() {
+		picker.replaceChildren();
+		let category = "";
+		for (const monitor of monitors) {
+			if (monitor.category !== category) {
+				category = monitor.category;
+				const heading = document.createElement("div");
+				heading.className = "monitors-picker-category";
+				heading.textContent = category;
+				picker.appendChild(heading);
+			}
+			const label = document.createElement("label");
+			const checkbox = document.createElement("input");
+			checkbox.type = "checkbox";
+			checkbox.checked = selected.includes(monitor.id);
+			checkbox.addEventListener("change", () => {
+				selected = checkbox.checked ? [...selected, monitor.id] : selected.filter((id) => id !== monitor.id);
+				vscode.postMessage({ type: "select", selected: selected });
+				renderCharts();
+			});
+			label.append(checkbox, ` ${monitor.name}`);
+			picker.appendChild(label);
+		}
+	}
+
+	function renderCharts() {
+		charts.replaceChildren();
+		const shown = monitors.filter((monitor) => selected.includes(monitor.id));
+		if (shown.length === 0) {
+			const hint = document.createElement("div");
+			hint.className = "monitors-hint";
+			hint.textContent = "Choose the monitors to show.";
+			charts.appendChild(hint);
+			return;
+		}
+		for (const monitor of shown) {
+			charts.appendChild(renderChart(monitor));
+		}
+	}
+
+	/** @param {{id: string, name: string, category: string, unit: string}} monitor */
+	function renderChart(monitor) {
+		const card = document.createElement("div");
+		card.className = "monitor";
+		const threshold = thresholds[monitor.id] ?? {};
+
+		const header = document.createElement("div");
+		header.className = "monitor-header";
+		const title = document.createElement("span");
+		title.className = "monitor-title";
+		title.textContent = `${monitor.category} / ${monitor.name}`;
+		const current = document.createElement("span");
+		current.className = "monitor-value";
+		header.append(title, current);
+
+		const canvas = document.createElement("canvas");
+		const alerts = document.createElement("div");
+		alerts.className = "monitor-alerts";
+		alerts.append(
+			thresholdInput(monitor, "below", threshold.below),
+			thresholdInput(monitor, "above", threshold.above),
+		);
+		card.append(header, canvas, alerts);
+
+		// Laid out first, the canvas takes the card's width
+		requestAnimationFrame(() => {
+			const values = drawChart(canvas, card.clientWidth - 16, monitor, threshold);
+			if (values.length > 0) {
+				const last = values[values.length - 1];
+				const outside =
+					(threshold.above !== undefined && last > threshold.above) ||
+					(threshold.below !== undefined && last < threshold.below);
+				current.textContent = `${format(last)} ${monitor.unit}`;
+				current.title = `Min ${format(Math.min(...values))}, max ${format(Math.max(...values))}`;
+				card.classList.toggle("alert", outside);
+			}
+		});
+		return card;
+	}
+
+	/**
+	 * @param {{id: string}} monitor
+	 * @param {"above" | "below"} key
+	 * @param {number | undefined} value
+	 */
+	function thresholdInput(monitor, key, value) {
+		const label = document.createElement("label");
+		const input = document.createElement("input");
+		input.type = "number";
+		input.className = "monitor-threshold";
+		input.placeholder = "none";
+		input.value = value === undefined ? "" : `${value}`;
+		input.addEventListener("change", () => {
+			const next = { ...(thresholds[monitor.id] ?? {}) };
+			next[key] = input.value === "" ? undefined : Number(input.value);
+			vscode.postMessage({ type: "threshold", id: monitor.id, above: next.above, below: next.below });
+		});
+		label.append(`Alert ${key} `, input);
+		return label;
+	}
+
+	/**
+	 * @param {HTMLCanvasElement} canvas
+	 * @param {number} width
+	 * @param {{id: string}} monitor
+	 * @param {{above?: number, below?: number}} threshold
+	 * @returns {number[]} the values drawn
+	 */
+	function drawChart(canvas, width, monitor, threshold) {
+		const ratio = window.devicePixelRatio || 1;
+		canvas.width = width * ratio;
+		canvas.height = CHART_HEIGHT * ratio;
+		canvas.style.width = `${width}px`;
+		canvas.style.height = `${CHART_HEIGHT}px`;
+		const context = canvas.getContext("2d");
+		context.scale(ratio, ratio);
+
+		const count = Math.max(2, Math.floor(width / SAMPLE_WIDTH));
+		const values = samples
+			.slice(-count)
+			.map((sample) => sample.values[monitor.id])
+			.filter((value) => value !== undefined);
+		const limits = [threshold.above, threshold.below].filter((value) => value !== undefined);
+		const top = Math.max(...values, ...limits, 0) * 1.1 || 1;
+		const bottom = Math.min(...values, ...limits, 0);
+		const y = (/** @type {number} */ value) =>
+			CHART_HEIGHT - 2 - ((value - bottom) / (top - bottom)) * (CHART_HEIGHT - 4);
+
+		context.strokeStyle = themeColor("--vscode-editorError-foreground", "#f14c4c");
+		context.setLineDash([4, 4]);
+		for (const limit of limits) {
+			context.beginPath();
+			context.moveTo(0, y(limit));
+			context.lineTo(width, y(limit));
+			context.stroke();
+		}
+
+		context.setLineDash([]);
+		context.strokeStyle = themeColor("--vscode-charts-blue", "#3794ff");
+		context.lineWidth = 1.5;
+		context.beginPath();
+		const start = width - (values.length - 1) * SAMPLE_WIDTH;
+		values.forEach((value, i) => {
+			const x = start + i * SAMPLE_WIDTH;
+			if (i === 0) {
+				context.moveTo(x, y(value));
+			} else {
+				context.lineTo(x, y(value));
+			}
+		});
+		context.stroke();
+		return values;
+	}
+
+	renderPicker();
+	renderCharts();
+	renderStatus();
+})();
@@ -0,0 +1,262 @@
+// @ts-check
+
+/**
+ * Godot Profiler WebView JavaScript
+ * Draws the frame times as a timeline, the selected frame's flame graph and a sortable table of function times
+ */
+
+(function () {
+	// @ts-ignore
+	const vscode = acquireVsCodeApi();
+
+	const BAR_WIDTH = 3;
+	const TIMELINE_HEIGHT = 90;
+	const FLAME_ROW_HEIGHT = 20;
+	/** Frame times drawn as guides, in ms: 60 and 30 FPS */
+	const GUIDES = [1000 / 60, 1000 / 30];
+
+	/** @type {{number: number, frame_time: number, process_time: number, physics_time: number, script_time: number}[]} */
+	let frames = [];
+	let maxFrames = 3600;
+	let running = false;
+
+	/** @type {number | undefined} - Number of the selected frame */
+	let selected;
+
+	/** @type {any[]} - Function times of the selected frame, or all frames */
+	let functions = [];
+	let frameCount = 0;
+
+	/** @type {{key: string, descending: boolean}} */
+	const sort = { key: "self", descending: true };
+
+	const timeline = document.getElementById("timeline");
+	const flame = document.getElementById("flame");
+	const status = document.getElementById("status");
+	const table = document.getElementById("functions");
+	const tableBody = table.querySelector("tbody");
+	const startButton = /** @type {HTMLButtonElement} */ (document.getElementById("startButton"));
+	const stopButton = /** @type {HTMLButtonElement} */ (document.getElementById("stopButton"));
+
+	const canvas = document.createElement("canvas");
+	timeline.appendChild(canvas);
+
+	startButton.addEventListener("click", () => vscode.postMessage({ type: "start" }));
+	stopButton.addEventListener("click", () => vscode.postMessage({ type: "stop" }));
+	document.getElementById("clearButton").addEventListener("click", () => vscode.postMessage({ type: "clear" }));
+	document.getElementById("allFramesButton").addEventListener("click", () => select(undefined));
+
+	for (const header of table.querySelectorAll("th")) {
+		header.addEventListener("click", () => {
+			const key = header.dataset.sort;
+			sort.descending = sort.key === key ? !sort.descending : key !== "name" && key !== "file";
+			sort.key = key;
+			renderTable();
+		});
+	}
+
+	canvas.addEventListener("click", (event) => {
+		const frame = frameAt(event.offsetX);
+		if (frame) {
+			select(frame.number);
+		}
+	});
+
+	canvas.addEventListener("mousemove", (event) => {
+		const frame = frameAt(event.offsetX);
+		canvas.title = frame
+			? `Frame ${frame.number}: ${ms(frame.frame_time)} ms, scripts ${ms(frame.script_time)} ms, physics ${ms(frame.physics_time)} ms`
+			: "";
+	});
+
+	window.addEventListener("resize", renderTimeline);
+
+	window.addEventListener("message", (event) => {
+		const message = event.data;
+		switch (message.type) {
+			case "frames":
+				maxFrames = message.max_frames;
+				frames = message.reset ? message.frames : frames.concat(message.frames);
+				if (frames.length > maxFrames) {
+					frames = frames.slice(frames.length - maxFrames);
+				}
+				renderTimeline();
+				renderStatus();
+				break;
+			case "state":
+				running = message.running;
+				startButton.disabled = running;
+				stopButton.disabled = !running;
+				renderStatus();
+				break;
+			case "details":
+				selected = message.selected;
+				functions = message.functions;
+				frameCount = message.frame_count;
+				renderFlame(message.flame);
+				renderTable();
+				renderTimeline();
+				renderStatus();
+				break;
+		}
+	});
+
+	/** @param {number | undefined} number */
+	function select(number) {
+		selected = number;
+		vscode.postMessage({ type: "select", number: number });
+		renderTimeline();
+	}
+
+	/** @param {number} seconds */
+	function ms(seconds) {
+		return (seconds * 1000).toFixed(2);
+	}
+
+	/** The frames that fit in the timeline, the latest ones */
+	function visibleFrames() {
+		const count = Math.max(1, Math.floor(timeline.clientWidth / BAR_WIDTH));
+		return frames.slice(-count);
+	}
+
+	/** @param {number} x */
+	function frameAt(x) {
+		return visibleFrames()[Math.floor(x / BAR_WIDTH)];
+	}
+
+	/** @param {string} name @param {string} fallback */
+	function themeColor(name, fallback) {
+		return getComputedStyle(document.body).getPropertyValue(name).trim() || fallback;
+	}
+
+	function renderTimeline() {
+		const width = timeline.clientWidth;
+		const ratio = window.devicePixelRatio || 1;
+		canvas.width = width * ratio;
+		canvas.height = TIMELINE_HEIGHT * ratio;
+		canvas.style.width = `${width}px`;
+		canvas.style.height = `${TIMELINE_HEIGHT}px`;
+		const context = canvas.getContext("2d");
+		context.scale(ratio, ratio);
+		context.clearRect(0, 0, width, TIMELINE_HEIGHT);
+
+		const visible = visibleFrames();
+		const longest = Math.max(GUIDES[0], ...visible.map((frame) => frame.frame_time * 1000));
+		const scale = (TIMELINE_HEIGHT - 4) / longest;
+
+		const frameColor = themeColor("--vscode-charts-blue", "#3794ff");
+		const scriptColor = themeColor("--vscode-charts-orange", "#d18616");
+		const selectedColor = themeColor("--vscode-charts-yellow", "#cca700");
+		visible.forEach((frame, i) => {
+			const x = i * BAR_WIDTH;
+			const height = frame.frame_time * 1000 * scale;
+			context.fillStyle = frame.number === selected ? selectedColor : frameColor;
+			context.fillRect(x, TIMELINE_HEIGHT - height, BAR_WIDTH - 1, height);
+			const scriptHeight = Math.min(frame.script_time * 1000 * scale, height);
+			context.fillStyle = scriptColor;
+			context.fillRect(x, TIMELINE_HEIGHT - scriptHeight, BAR_WIDTH - 1, scriptHeight);
+		});
+
+		context.strokeStyle = themeColor("--vscode-editorWarning-foreground", "#cca700");
+		context.setLineDash([4, 4]);
+		for (const guide of GUIDES) {
+			if (guide <= longest) {
+				const y = TIMELINE_HEIGHT - guide * scale;
+				context.beginPath();
+				context.moveTo(0, y);
+				context.lineTo(width, y);
+				context.stroke();
+			}
+		}
+	}
+
+	function renderStatus() {
+		if (frames.length === 0) {
+			status.textContent = running ? "Waiting for frames..." : "Start profiling while the game runs.";
+			return;
+		}
+		const average = frames.reduce((sum, frame) => sum + frame.frame_time, 0) / frames.length;
+		const range = selected === undefined ? `all ${frameCount} frames` : `frame ${selected}`;
+		status.textContent = `${frames.length} frames, ${ms(average)} ms on average. Showing ${range}.`;
+	}
+
+	/** @param {any[] | undefined} nodes - Boxes of the selected frame's flame graph */
+	function renderFlame(nodes) {
+		flame.replaceChildren();
+		flame.style.height = "";
+		if (!nodes || nodes.length === 0) {
+			const hint = document.createElement("div");
+			hint.className = "profiler-hint";
+			hint.textContent = "Select a frame in the timeline to see its flame graph.";
+			flame.appendChild(hint);
+			return;
+		}
+		const span = Math.max(...nodes.map((node) => node.start + node.duration));
+		const depth = Math.max(...nodes.map((node) => node.depth)) + 1;
+		flame.style.height = `${depth * FLAME_ROW_HEIGHT}px`;
+		for (const node of nodes) {
+			const box = document.createElement("div");
+			box.className = `flame-box flame-depth-${node.depth}`;
+			box.style.left = `${(node.start / span) * 100}%`;
+			box.style.width = `${(node.duration / span) * 100}%`;
+			box.style.top = `${node.depth * FLAME_ROW_HEIGHT}px`;
+			box.textContent = node.name;
+			box.title =
+				node.total === undefined
+					? `${node.name}: ${ms(node.duration)} ms`
+					: `${node.name}: ${ms(node.duration)} ms self, ${ms(node.total)} ms total${node.file ? `\n${node.file}:${node.line}` : ""}`;
+			if (node.file) {
+				box.classList.add("clickable");
+				box.addEventListener("click", () =>
+					vscode.postMessage({ type: "open", file: node.file, line: node.line }),
+				);
+			}
+			flame.appendChild(box);
+		}
+	}
+
+	function renderTable() {
+		for (const header of table.querySelectorAll("th")) {
+			header.classList.toggle("sorted", header.dataset.sort === sort.key);
+			header.classList.toggle("descending", header.dataset.sort === sort.key && sort.descending);
+		}
+		const totalSelf = functions.reduce((sum, f) => sum + f.self, 0) || 1;
+		const sign = sort.descending ? -1 : 1;
+		const rows = [...functions].sort((a, b) => {
+			const x = a[sort.key];
+			const y = b[sort.key];
+			return sign * (typeof x === "string" ? x.localeCompare(y) : x - y);
+		});
+
+		tableBody.replaceChildren();
+		for (const f of rows) {
+			const row = document.createElement("tr");
+			const cells = [
+				f.name,
+				f.file ? `${f.file.replace("res://", "")}:${f.line}` : "native",
+				`${f.calls}`,
+				ms(f.self),
+				ms(f.total),
+				`${((f.self / totalSelf) * 100).toFixed(1)}%`,
+			];
+			cells.forEach((text, i) => {
+				const cell = document.createElement("td");
+				cell.textContent = text;
+				if (i >= 2) {
+					cell.className = "number";
+				}
+				row.appendChild(cell);
+			});
+			if (f.file) {
+				row.classList.add("clickable");
+				row.title = "Open in the script";
+				row.addEventListener("click", () => vscode.postMessage({ type: "open", file: f.file, line: f.line }));
+			}
+			tableBody.appendChild(row);
+		}
+	}
+
+	renderFlame(undefined);
+	renderStatus();
+	renderTimeline();
+})();
@@ -0,0 +1,256 @@
+// @ts-check
+
+/**
+ * Scene Diff WebView JavaScript
+ * Renders the structural diff of a scene against HEAD as a tree, using the Scene Preview styles
+ */
+
+(function () {
+	// @ts-ignore
+	const vscode = acquireVsCodeApi();
+
+	/** @type {string} */
+	let darkIconsBaseUri = "";
+
+	/** @type {Set<string>} - Tracks COLLAPSED nodes (all expanded by default) */
+	const collapsedNodes = new Set();
+
+	const treeContainer = document.getElementById("treeContainer");
+	const summaryElement = document.getElementById("diffSummary");
+
+	const STATUS_LABELS = {
+		added: "Added",
+		removed: "Removed",
+		changed: "Modified",
+	};
+
+	document.getElementById("refreshButton").addEventListener("click", () => {
+		vscode.postMessage({ type: "refresh" });
+	});
+	document.getElementById("textDiffButton").addEventListener("click", () => {
+		vscode.postMessage({ type: "openTextDiff" });
+	});
+
+	window.addEventListener("message", (event) => {
+		const message = event.data;
+		switch (message.type) {
+			case "updateDiff":
+				darkIconsBaseUri = message.darkIconsBaseUri;
+				renderDiff(message.diff);
+				break;
+			case "error":
+				summaryElement.textContent = "";
+				treeContainer.innerHTML = "";
+				treeContainer.appendChild(createMessage(message.message));
+				break;
+		}
+	});
+
+	/**
+	 * @param {string} text
+	 * @returns {HTMLElement}
+	 */
+	function createMessage(text) {
+		const element = document.createElement("div");
+		element.className = "welcome-message";
+		element.textContent = text;
+		return element;
+	}
+
+	/**
+	 * @param {any} diff
+	 */
+	function renderDiff(diff) {
+		const { added, removed, moved, renamed, changed } = diff.summary;
+		const parts = [];
+		if (added) parts.push(`${added} added`);
+		if (removed) parts.push(`${removed} removed`);
+		if (moved) parts.push(`${moved} moved`);
+		if (renamed) parts.push(`${renamed} renamed`);
+		if (changed) parts.push(`${changed} modified`);
+		summaryElement.textContent = parts.length ? parts.join(", ") : "No structural changes";
+
+		treeContainer.innerHTML = "";
+		if (!diff.root) {
+			treeContainer.appendChild(createMessage("The scene has no nodes"));
+			return;
+		}
+		treeContainer.appendChild(createTreeNode(diff.root));
+
+		if (diff.resources.added.length || diff.resources.removed.length) {
+			treeContainer.appendChild(createResourceList(diff.resources));
+		}
+	}
+
+	/**
+	 * @param {any} node
+	 * @returns {boolean}
+	 */
+	function isModified(node) {
+		return node.status !== "unchanged" || !!node.movedFrom || !!node.renamedFrom || !!node.script;
+	}
+
+	/**
+	 * Create a tree node element, laid out like the Scene Preview tree
+	 * @param {any} node
+	 * @returns {HTMLElement}
+	 */
+	function createTreeNode(node) {
+		const key = `${node.status}:${node.path}`;
+		const nodeElement = document.createElement("div");
+		nodeElement.className = "tree-node";
+
+		const contentElement = document.createElement("div");
+		contentElement.className = `tree-node-content diff-${node.status}`;
+
+		const hasChildren = node.children.length > 0;
+		const hasDetails = node.changes.length > 0 || !!node.script;
+		const expandIcon = document.createElement("span");
+		expandIcon.className = "expand-icon";
+		if (hasChildren || hasDetails) {
+			expandIcon.className += collapsedNodes.has(key) ? " collapsed" : "";
+			expandIcon.innerHTML = '<span class="codicon codicon-chevron-down"></span>';
+			expandIcon.addEventListener("click", (e) => {
+				e.stopPropagation();
+				if (collapsedNodes.has(key)) {
+					collapsedNodes.delete(key);
+				} else {
+					collapsedNodes.add(key);
+				}
+				expandIcon.classList.toggle("collapsed");
+				childrenContainer.classList.toggle("collapsed");
+			});
+		} else {
+			expandIcon.className += " no-children";
+		}
+		contentElement.appendChild(expandIcon);
+
+		// @ts-ignore - defined by node_icons.js
+		contentElement.appendChild(GodotNodeIcons.createIconElement(darkIconsBaseUri, node.type));
+
+		const labelElement = document.createElement("span");
+		labelElement.className = "node-label";
+		labelElement.textContent = node.name;
+		contentElement.appendChild(labelElement);
+
+		const typeElement = document.createElement("span");
+		typeElement.className = "node-type";
+		typeElement.textContent = `(${node.type})`;
+		contentElement.appendChild(typeElement);
+
+		const badgesElement = document.createElement("span");
+		badgesElement.className = "node-badges";
+		if (STATUS_LABELS[node.status]) {
+			badgesElement.appendChild(createBadge(STATUS_LABELS[node.status], `diff-badge ${node.status}`));
+		}
+		if (node.renamedFrom) {
+			badgesElement.appendChild(createBadge(`was ${node.renamedFrom}`, "diff-badge renamed"));
+		}
+		if (node.movedFrom) {
+			badgesElement.appendChild(createBadge(`moved from ${node.movedFrom}`, "diff-badge moved"));
+		}
+		contentElement.appendChild(badgesElement);
+
+		if (node.status !== "removed") {
+			contentElement.title = "Open in the scene file";
+			contentElement.addEventListener("click", () => {
+				vscode.postMessage({ type: "openNode", path: node.path });
+			});
+		}
+		if (!isModified(node)) {
+			contentElement.classList.add("diff-unchanged");
+		}
+		nodeElement.appendChild(contentElement);
+
+		const childrenContainer = document.createElement("div");
+		childrenContainer.className = "tree-children" + (collapsedNodes.has(key) ? " collapsed" : "");
+		if (node.script) {
+			childrenContainer.appendChild(createChange(node.script, "codicon-file-code"));
+		}
+		for (const change of node.changes) {
+			childrenContainer.appendChild(createChange(change, "codicon-symbol-property"));
+		}
+		for (const child of node.children) {
+			childrenContainer.appendChild(createTreeNode(child));
+		}
+		nodeElement.appendChild(childrenContainer);
+
+		return nodeElement;
+	}
+
+	/**
+	 * @param {string} text
+	 * @param {string} className
+	 * @returns {HTMLElement}
+	 */
+	function createBadge(text, className) {
+		const badge = document.createElement("span");
+		badge.className = `badge ${className}`;
+		badge.textContent = text;
+		return badge;
+	}
+
+	/**
+	 * A property change line: `key: before → after`
+	 * @param {{key: string, before?: string, after?: string}} change
+	 * @param {string} icon
+	 * @returns {HTMLElement}
+	 */
+	function createChange(change, icon) {
+		const element = document.createElement("div");
+		element.className = "diff-change";
+
+		const iconElement = document.createElement("span");
+		iconElement.className = `codicon ${icon}`;
+		element.appendChild(iconElement);
+
+		const keyElement = document.createElement("span");
+		keyElement.className = "diff-change-key";
+		keyElement.textContent = change.key;
+		element.appendChild(keyElement);
+
+		if (change.before !== undefined) {
+			const before = document.createElement("span");
+			before.className = "diff-value removed";
+			before.textContent = change.before;
+			element.appendChild(before);
+		}
+		if (change.before !== undefined && change.after !== undefined) {
+			const arrow = document.createElement("span");
+			arrow.className = "diff-arrow";
+			arrow.textContent = "→";
+			element.appendChild(arrow);
+		}
+		if (change.after !== undefined) {
+			const after = document.createElement("span");
+			after.className = "diff-value added";
+			after.textContent = change.after;
+			element.appendChild(after);
+		}
+		return element;
+	}
+
+	/**
+	 * @param {{added: string[], removed: string[]}} resources
+	 * @returns {HTMLElement}
+	 */
+	function createResourceList(resources) {
+		const element = document.createElement("div");
+		element.className = "diff-resources";
+
+		const title = document.createElement("div");
+		title.className = "diff-resources-title";
+		title.textContent = "External resources";
+		element.appendChild(title);
+
+		const addItem = (/** @type {string} */ resource, /** @type {string} */ status) => {
+			const item = document.createElement("div");
+			item.className = `diff-value ${status}`;
+			item.textContent = `${status === "added" ? "+" : "−"} ${resource}`;
+			element.appendChild(item);
+		};
+		resources.removed.forEach((resource) => addItem(resource, "removed"));
+		resources.added.forEach((resource) => addItem(resource, "added"));
+		return element;
+	}
+})();
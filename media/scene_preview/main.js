@@ -18,9 +18,21 @@
 	/** @type {string} */
 	let currentSearchQuery = "";
 
-	/** @type {any} */
+	/** @type {any} - The node last clicked, which the keyboard shortcuts and context menu act on */
 	let selectedNode = null;
 
+	/** @type {Map<string, any>} - All selected nodes by path, for dragging several nodes at once */
+	const selectedNodes = new Map();
+
+	/** @type {string | null} - Path of the node a Shift+click selects a range from */
+	let selectionAnchor = null;
+
+	/** @type {any[]} - Nodes of the search results shown */
+	let currentSearchResults = [];
+
+	/** @type {any} - Node being dragged inside the tree, for reparenting */
+	let draggedNode = null;
+
 	/** @type {Set<string>} - Tracks COLLAPSED nodes (all expanded by default) */
 	const collapsedNodes = new Set();
 
@@ -161,6 +173,28 @@
 			}
 		});
 
+		// Keyboard shortcuts for editing the selected node, matching the Godot editor
+		document.addEventListener("keydown", (e) => {
+			if (!selectedNode || selectedNode.readOnly || e.target instanceof HTMLInputElement) {
+				return;
+			}
+			const isRoot = !selectedNode.relativePath;
+			let action = "";
+			if (e.key === "F2") {
+				action = "renameNode";
+			} else if (e.key === "Delete" && !isRoot) {
+				action = "deleteNode";
+			} else if (e.key === "d" && (e.ctrlKey || e.metaKey) && !isRoot) {
+				action = "duplicateNode";
+			} else if (e.key === "a" && (e.ctrlKey || e.metaKey)) {
+				action = "addChildNode";
+			}
+			if (action) {
+				e.preventDefault();
+				vscode.postMessage({ type: "contextMenu", node: selectedNode, action });
+			}
+		});
+
 		// Rebuild C# banner button
 		document.getElementById("rebuildBannerButton").addEventListener("click", () => {
 			vscode.postMessage({ type: "rebuildCSharp" });
@@ -180,6 +214,10 @@
 	function handleMessage(message) {
 		switch (message.type) {
 			case "updateTree":
+				if (message.scenePath !== currentScenePath) {
+					selectedNodes.clear();
+					selectionAnchor = null;
+				}
 				currentTreeData = message.tree;
 				currentScenePath = message.scenePath;
 				updateSelectorLabel(message.sceneTitle || "", message.scenePath || "");
@@ -191,7 +229,11 @@
 			case "searchResults":
 				darkIconsBaseUri = message.darkIconsBaseUri || darkIconsBaseUri;
 				lightIconsBaseUri = message.lightIconsBaseUri || lightIconsBaseUri;
-				renderSearchResults(message.results, message.query);
+				renderSearchResults(message.results, message.highlight ?? message.query);
+				break;
+
+			case "revealNode":
+				revealNode(message.path);
 				break;
 
 			case "clear":
@@ -228,43 +270,14 @@
 		}
 	}
 
-	/**
-	 * Get icon URI for a Godot class name
-	 * @param {string} className
-	 * @returns {string|null}
-	 */
-	function getIconUri(className) {
-		if (!darkIconsBaseUri) return null;
-		return `${darkIconsBaseUri}/${className}.svg`;
-	}
-
 	/**
 	 * Create icon element with fallback
 	 * @param {string} className
 	 * @returns {HTMLElement}
 	 */
 	function createIconElement(className) {
-		const iconElement = document.createElement("span");
-		iconElement.className = "node-icon";
-
-		const iconUri = getIconUri(className);
-		if (iconUri) {
-			const img = document.createElement("img");
-			img.src = iconUri;
-			img.alt = className;
-			img.onerror = () => {
-				// Fallback to codicon if icon doesn't exist
-				img.style.display = "none";
-				const fallback = document.createElement("span");
-				fallback.className = "codicon codicon-symbol-class";
-				iconElement.appendChild(fallback);
-			};
-			iconElement.appendChild(img);
-		} else {
-			iconElement.innerHTML = '<span class="codicon codicon-symbol-class"></span>';
-		}
-
-		return iconElement;
+		// @ts-ignore - defined by node_icons.js
+		return GodotNodeIcons.createIconElement(darkIconsBaseUri, className);
 	}
 
 	/**
@@ -301,12 +314,22 @@
 
 		const contentElement = document.createElement("div");
 		contentElement.className = "tree-node-content" + (node.fromInstance ? " from-instance" : "");
+		if (selectedNodes.has(node.path)) {
+			// Keep the selection, with the node as the scene is now
+			selectedNodes.set(node.path, node);
+			contentElement.classList.add("selected");
+		}
+		contentElement.dataset.path = node.path;
 		contentElement.draggable = true;
+		if (node.readOnly) {
+			contentElement.title = `Read-only: declared in ${getFileName(node.sourceScene)}`;
+		}
 
 		// Expand icon
+		const connections = node.connections || [];
 		const expandIcon = document.createElement("span");
 		expandIcon.className = "expand-icon";
-		if (node.hasChildren) {
+		if (node.hasChildren || connections.length > 0) {
 			// All nodes expanded by default - collapsedNodes tracks which are collapsed
 			const isExpanded = !collapsedNodes.has(node.path);
 			expandIcon.className += isExpanded ? "" : " collapsed";
@@ -353,6 +376,13 @@
 			badge.title = "Has script";
 			badgesElement.appendChild(badge);
 		}
+		if (node.groups && node.groups.length > 0) {
+			const badge = document.createElement("span");
+			badge.className = "badge groups";
+			badge.innerHTML = '<span class="codicon codicon-symbol-namespace"></span>';
+			badge.title = `Groups: ${node.groups.join(", ")}`;
+			badgesElement.appendChild(badge);
+		}
 		if (node.isInstanced) {
 			const badge = document.createElement("span");
 			badge.className = "badge instanced";
@@ -360,19 +390,32 @@
 			badge.title = "Instanced scene";
 			badgesElement.appendChild(badge);
 		}
+		if (connections.length > 0) {
+			const broken = connections.some((c) => c.problem);
+			const badge = document.createElement("span");
+			badge.className = "badge signals" + (broken ? " broken" : "");
+			badge.innerHTML = '<span class="codicon codicon-symbol-event"></span>';
+			badge.title = `${connections.length} signal connection${connections.length === 1 ? "" : "s"}`;
+			if (broken) {
+				badge.title += " (some call missing methods)";
+			}
+			badgesElement.appendChild(badge);
+		}
 		if (badgesElement.children.length > 0) {
 			contentElement.appendChild(badgesElement);
 		}
 
-		// Click handler
-		contentElement.addEventListener("click", () => {
-			selectNode(contentElement, node);
+		// Click handler: Ctrl+click adds to the selection, Shift+click selects a range
+		contentElement.addEventListener("click", (e) => {
+			clickNode(e, contentElement, node);
 		});
 
 		// Context menu
 		contentElement.addEventListener("contextmenu", (e) => {
 			e.preventDefault();
-			selectNode(contentElement, node);
+			if (!selectedNodes.has(node.path)) {
+				selectNode(contentElement, node);
+			}
 			showContextMenu(e, node);
 		});
 
@@ -381,8 +424,8 @@
 
 		nodeElement.appendChild(contentElement);
 
-		// Children container
-		if (node.hasChildren && node.children) {
+		// Children container, with the node's signal connections first
+		if ((node.hasChildren && node.children) || connections.length > 0) {
 			const childrenContainer = document.createElement("div");
 			childrenContainer.className = "tree-children";
 			// All nodes expanded by default - collapsedNodes tracks which are collapsed
@@ -390,7 +433,10 @@
 			if (!isExpanded) {
 				childrenContainer.className += " collapsed";
 			}
-			for (const child of node.children) {
+			for (const connection of connections) {
+				childrenContainer.appendChild(createConnectionRow(node, connection));
+			}
+			for (const child of node.children || []) {
 				childrenContainer.appendChild(createTreeNode(child, depth + 1));
 			}
 			nodeElement.appendChild(childrenContainer);
@@ -399,6 +445,41 @@
 		return nodeElement;
 	}
 
+	/**
+	 * Create a row for a signal connection of a node. Clicking it opens the handler method.
+	 * @param {any} node
+	 * @param {any} connection
+	 */
+	function createConnectionRow(node, connection) {
+		const row = document.createElement("div");
+		row.className = "signal-connection" + (connection.problem ? " broken" : "");
+		row.title = connection.problem || `Go to ${connection.method}`;
+
+		const icon = document.createElement("span");
+		icon.className = `codicon codicon-${connection.problem ? "warning" : "symbol-event"}`;
+		row.appendChild(icon);
+
+		const signal = document.createElement("span");
+		signal.className = "signal-name";
+		signal.textContent = connection.signal;
+		row.appendChild(signal);
+
+		const method = document.createElement("span");
+		method.className = "signal-method";
+		method.textContent = `→ ${connection.target}.${connection.method}`;
+		row.appendChild(method);
+
+		row.addEventListener("click", () => {
+			vscode.postMessage({ type: "contextMenu", node, connection, action: "goToHandler" });
+		});
+		row.addEventListener("contextmenu", (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			showContextMenu(e, node, connection);
+		});
+		return row;
+	}
+
 	/**
 	 * Toggle node expansion
 	 * @param {string} path
@@ -427,10 +508,11 @@
 	/**
 	 * Render flat search results
 	 * @param {any[]} results
-	 * @param {string} query
+	 * @param {string} query - The part of the query to highlight in names and types
 	 */
 	function renderSearchResults(results, query) {
 		treeContainer.innerHTML = "";
+		currentSearchResults = results;
 
 		if (results.length === 0) {
 			treeContainer.innerHTML = '<div class="empty-state">No matching nodes found</div>';
@@ -464,7 +546,14 @@
 	function createSearchResultItem(node, query) {
 		const itemElement = document.createElement("div");
 		itemElement.className = "search-result-item" + (node.fromInstance ? " from-instance" : "");
+		if (selectedNodes.has(node.path)) {
+			itemElement.classList.add("selected");
+		}
+		itemElement.dataset.path = node.path;
 		itemElement.draggable = true;
+		if (node.readOnly) {
+			itemElement.title = `Read-only: declared in ${getFileName(node.sourceScene)}`;
+		}
 		itemElement.dataset.path = node.path;
 
 		// Main row
@@ -521,15 +610,17 @@
 		pathRow.textContent = node.relativePath || "(root)";
 		itemElement.appendChild(pathRow);
 
-		// Click handler
-		itemElement.addEventListener("click", () => {
-			selectSearchResult(itemElement, node);
+		// Click handler: Ctrl+click adds to the selection, Shift+click selects a range
+		itemElement.addEventListener("click", (e) => {
+			clickNode(e, itemElement, node);
 		});
 
 		// Context menu
 		itemElement.addEventListener("contextmenu", (e) => {
 			e.preventDefault();
-			selectSearchResult(itemElement, node);
+			if (!selectedNodes.has(node.path)) {
+				selectSearchResult(itemElement, node);
+			}
 			showContextMenu(e, node);
 		});
 
@@ -570,6 +661,15 @@
 		return result;
 	}
 
+	/**
+	 * Get the file name from a file system path
+	 * @param {string} fsPath
+	 * @returns {string}
+	 */
+	function getFileName(fsPath) {
+		return (fsPath || "").split(/[\\/]/).pop();
+	}
+
 	/**
 	 * Escape HTML special characters
 	 * @param {string} text
@@ -594,9 +694,118 @@
 
 		element.classList.add("selected");
 		selectedNode = node;
+		selectedNodes.clear();
+		selectedNodes.set(node.path, node);
+		selectionAnchor = node.path;
 		vscode.postMessage({ type: "nodeClick", node });
 	}
 
+	/**
+	 * Select a node of the tree or the search results, adding to the selection with Ctrl
+	 * (Cmd on macOS) and selecting the range from the last clicked node with Shift
+	 * @param {MouseEvent} e
+	 * @param {HTMLElement} element
+	 * @param {any} node
+	 */
+	function clickNode(e, element, node) {
+		const isSearchResult = element.classList.contains("search-result-item");
+		if (!e.ctrlKey && !e.metaKey && !e.shiftKey) {
+			if (isSearchResult) {
+				selectSearchResult(element, node);
+			} else {
+				selectNode(element, node);
+			}
+			return;
+		}
+
+		const elements = /** @type {HTMLElement[]} */ ([
+			...treeContainer.querySelectorAll(isSearchResult ? ".search-result-item" : ".tree-node-content"),
+		]);
+		const anchorIndex = elements.findIndex((el) => el.dataset.path === selectionAnchor);
+		if (e.shiftKey && anchorIndex !== -1) {
+			const index = elements.indexOf(element);
+			const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+			if (!e.ctrlKey && !e.metaKey) {
+				selectedNodes.clear();
+			}
+			for (const el of elements.slice(start, end + 1)) {
+				const rangeNode = isSearchResult ? findSearchResult(el.dataset.path) : findTreeNode(currentTreeData, el.dataset.path);
+				if (rangeNode) {
+					selectedNodes.set(rangeNode.path, rangeNode);
+				}
+			}
+		} else if (selectedNodes.has(node.path)) {
+			selectedNodes.delete(node.path);
+			selectionAnchor = node.path;
+		} else {
+			selectedNodes.set(node.path, node);
+			selectionAnchor = node.path;
+		}
+
+		selectedNode = selectedNodes.has(node.path) ? node : [...selectedNodes.values()].pop() || null;
+		for (const el of elements) {
+			el.classList.toggle("selected", selectedNodes.has(el.dataset.path));
+		}
+	}
+
+	/**
+	 * @param {string | undefined} path
+	 * @returns {any}
+	 */
+	function findSearchResult(path) {
+		return currentSearchResults.find((node) => node.path === path) || null;
+	}
+
+	/**
+	 * The selected nodes in the order they appear in the tree or the search results
+	 * @returns {any[]}
+	 */
+	function orderedSelection() {
+		const elements = /** @type {HTMLElement[]} */ ([
+			...treeContainer.querySelectorAll(".tree-node-content, .search-result-item"),
+		]);
+		return elements.map((el) => selectedNodes.get(el.dataset.path)).filter(Boolean);
+	}
+
+	/**
+	 * Show a node in the tree: clear the search, expand its ancestors, then select it
+	 * @param {string} path
+	 */
+	function revealNode(path) {
+		searchInput.value = "";
+		currentSearchQuery = "";
+		clearButton.style.opacity = "0";
+
+		for (const collapsed of [...collapsedNodes]) {
+			if (path.startsWith(`${collapsed}/`)) {
+				collapsedNodes.delete(collapsed);
+			}
+		}
+		renderTree();
+
+		for (const nodeElement of treeContainer.querySelectorAll(".tree-node")) {
+			if (/** @type {HTMLElement} */ (nodeElement).dataset.path !== path) continue;
+			const contentElement = /** @type {HTMLElement} */ (nodeElement.querySelector(".tree-node-content"));
+			selectNode(contentElement, findTreeNode(currentTreeData, path));
+			contentElement.scrollIntoView({ block: "center" });
+			break;
+		}
+	}
+
+	/**
+	 * @param {any} node
+	 * @param {string} path
+	 * @returns {any}
+	 */
+	function findTreeNode(node, path) {
+		if (!node || node.path === path) return node;
+		for (const child of node.children || []) {
+			const found = findTreeNode(child, path);
+			if (found) return found;
+		}
+		return null;
+	}
+
 	/**
 	 * Select a search result
 	 * @param {HTMLElement} element
@@ -609,6 +818,9 @@
 
 		element.classList.add("selected");
 		selectedNode = node;
+		selectedNodes.clear();
+		selectedNodes.set(node.path, node);
+		selectionAnchor = node.path;
 		vscode.postMessage({ type: "nodeClick", node });
 	}
 
@@ -624,13 +836,20 @@
 			// Check for Ctrl modifier to use secondary style (Shift conflicts with VSCode drag behavior)
 			const useSecondaryStyle = e.ctrlKey;
 
+			// Dragging a node of a multi-selection drags the whole selection
+			const dragged = selectedNodes.has(node.path) && selectedNodes.size > 1 ? orderedSelection() : [node];
+			const describe = (/** @type {any} */ n) => ({
+				name: n.label,
+				type: n.className,
+				path: n.path,
+				relativePath: n.relativePath,
+				unique: n.unique,
+			});
+
 			// Create drag data for the DocumentDropEditProvider
 			const dragData = JSON.stringify({
-				name: node.label,
-				type: node.className,
-				path: node.path,
-				relativePath: node.relativePath,
-				unique: node.unique,
+				...describe(node),
+				nodes: dragged.length > 1 ? dragged.map(describe) : undefined,
 				scenePath: currentScenePath,
 				useSecondaryStyle: useSecondaryStyle,
 			});
@@ -638,7 +857,8 @@
 			// Set the custom MIME type that DocumentDropEditProvider will read
 			e.dataTransfer.setData("application/vnd.code.tree.godotToolsCsharp.scenePreview", dragData);
 			e.dataTransfer.setData("text/plain", node.label);
-			e.dataTransfer.effectAllowed = "copy";
+			e.dataTransfer.effectAllowed = "copyMove";
+			draggedNode = node;
 
 			// Create a drag image with visual feedback for secondary style
 			const dragImage = document.createElement("div");
@@ -652,9 +872,10 @@
 				pointer-events: none;
 				z-index: 10000;
 			`;
-			dragImage.textContent = useSecondaryStyle
-				? `${node.label} (${node.className}) [Alt Style]`
-				: `${node.label} (${node.className})`;
+			dragImage.textContent = dragged.length > 1 ? `${dragged.length} nodes` : `${node.label} (${node.className})`;
+			if (useSecondaryStyle) {
+				dragImage.textContent += " [Alt Style]";
+			}
 			document.body.appendChild(dragImage);
 			e.dataTransfer.setDragImage(dragImage, 0, 0);
 
@@ -666,18 +887,68 @@
 
 		element.addEventListener("dragend", () => {
 			element.classList.remove("dragging");
+			draggedNode = null;
 		});
+
+		// Dropping a node onto another node of the tree reparents it
+		element.addEventListener("dragover", (e) => {
+			if (!canReparent(draggedNode, node)) {
+				return;
+			}
+			e.preventDefault();
+			e.dataTransfer.dropEffect = "move";
+			element.classList.add("drop-target");
+		});
+
+		element.addEventListener("dragleave", () => {
+			element.classList.remove("drop-target");
+		});
+
+		element.addEventListener("drop", (e) => {
+			element.classList.remove("drop-target");
+			if (!canReparent(draggedNode, node)) {
+				return;
+			}
+			e.preventDefault();
+			vscode.postMessage({ type: "reparentNode", node: draggedNode, target: node });
+			draggedNode = null;
+		});
+	}
+
+	/**
+	 * Whether `node` can be moved under `target` within the current scene
+	 * @param {any} node
+	 * @param {any} target
+	 * @returns {boolean}
+	 */
+	function canReparent(node, target) {
+		if (!node || !target || node.readOnly || target.readOnly || !node.relativePath) {
+			return false;
+		}
+		const nodeParent = node.relativePath.includes("/")
+			? node.relativePath.slice(0, node.relativePath.lastIndexOf("/"))
+			: "";
+		if (target.relativePath === nodeParent) {
+			return false;
+		}
+		return target.relativePath !== node.relativePath && !target.relativePath.startsWith(`${node.relativePath}/`);
 	}
 
 	/**
-	 * Show context menu
+	 * Show context menu, for a node or for one of its signal connections
 	 * @param {MouseEvent} e
 	 * @param {any} node
+	 * @param {any} [connection]
 	 */
-	function showContextMenu(e, node) {
+	function showContextMenu(e, node, connection) {
 		contextMenu.innerHTML = "";
+		const isRoot = !node.relativePath;
 
-		const menuItems = [
+		const menuItems = connection ? [
+			{ label: "Go to Handler", action: "goToHandler", enabled: true },
+			{ separator: true },
+			{ label: "Disconnect", action: "disconnectSignal", enabled: true },
+		] : [
 			{ label: "Go to Definition", action: "goToDefinition", enabled: true },
 			{ label: "Open Documentation", action: "openDocumentation", enabled: true },
 			{ separator: true },
@@ -686,6 +957,25 @@
 			{ separator: true },
 			{ label: "Open Scene", action: "openScene", enabled: !!node.resourcePath && node.resourcePath.endsWith(".tscn") },
 			{ label: "Open Script", action: "openScript", enabled: node.hasScript },
+			{ separator: true },
+			{ label: "Add Child Node...", action: "addChildNode", enabled: !node.readOnly },
+			{ label: "Rename...", action: "renameNode", enabled: !node.readOnly },
+			{ label: "Duplicate", action: "duplicateNode", enabled: !node.readOnly && !isRoot },
+			{
+				label: node.unique ? "Revoke Unique Name" : "Access as Unique Name",
+				action: "toggleUniqueName",
+				enabled: !node.readOnly,
+			},
+			{ label: "Delete Node", action: "deleteNode", enabled: !node.readOnly && !isRoot },
+			{ separator: true },
+			{
+				label: node.hasScript ? "Replace Script..." : "Attach Script...",
+				action: "attachScript",
+				enabled: !node.readOnly,
+			},
+			{ label: "Detach Script", action: "detachScript", enabled: !node.readOnly && node.hasScript },
+			{ separator: true },
+			{ label: "Connect Signal...", action: "connectSignal", enabled: !node.readOnly },
 		];
 
 		for (const item of menuItems) {
@@ -705,6 +995,7 @@
 						vscode.postMessage({
 							type: "contextMenu",
 							node: node,
+							connection: connection,
 							action: item.action,
 						});
 					}
@@ -0,0 +1,39 @@
+// @ts-check
+
+/**
+ * Godot class icons, shared by the webviews that render scene trees
+ * (Scene Preview and Scene Diff) and the Dependency Graph
+ */
+
+(function () {
+	/**
+	 * Create icon element with fallback
+	 * @param {string} iconsBaseUri - Webview URI of resources/godot_icons/dark, or "" when unknown
+	 * @param {string} className
+	 * @returns {HTMLElement}
+	 */
+	function createIconElement(iconsBaseUri, className) {
+		const iconElement = document.createElement("span");
+		iconElement.className = "node-icon";
+
+		if (iconsBaseUri) {
+			const img = document.createElement("img");
+			img.src = `${iconsBaseUri}/${className}.svg`;
+			img.alt = className;
+			img.onerror = () => {
+				// Fallback to codicon if icon doesn't exist
+				img.style.display = "none";
+				const fallback = document.createElement("span");
+				fallback.className = "codicon codicon-symbol-class";
+				iconElement.appendChild(fallback);
+			};
+			iconElement.appendChild(img);
+		} else {
+			iconElement.innerHTML = '<span class="codicon codicon-symbol-class"></span>';
+		}
+
+		return iconElement;
+	}
+
+	/** @type {any} */ (window).GodotNodeIcons = { createIconElement };
+})();
@@ -0,0 +1,23 @@
+import { expect } from "chai";
+import { GodotDebugData } from "./debug_runtime";
+
+suite("GodotDebugData", () => {
+	test("sets the first breakpoints of a file and returns them in the order sent", () => {
+		const data = new GodotDebugData(undefined);
+		const bps = data.sync_breakpoints("/project/player.gd", [{ line: 12, condition: "health < 10" }, { line: 4 }]);
+		expect(bps.map((bp) => bp?.line)).to.deep.equal([12, 4]);
+		expect(bps[0]).to.include({ file: "/project/player.gd", condition: "health < 10", hits: 0 });
+		expect(data.get_breakpoints("/project/player.gd")).to.have.members(bps);
+	});
+
+	test("removes the breakpoints not sent and updates the others", () => {
+		const data = new GodotDebugData(undefined);
+		data.projectPath = "/project";
+		const [first] = data.sync_breakpoints("/project/player.gd", [{ line: 4, hitCondition: "3" }, { line: 12 }]);
+		first.hits = 2;
+		const bps = data.sync_breakpoints("/project/player.gd", [{ line: 4, hitCondition: "5" }, { line: 20 }]);
+		expect(bps[0]).to.equal(first);
+		expect(first).to.include({ hitCondition: "5", hits: 0 });
+		expect(data.get_breakpoints("/project/player.gd").map((bp) => bp.line)).to.deep.equal([4, 20]);
+	});
+});
@@ -9,8 +9,18 @@ export interface GodotBreakpoint {
 	file: string;
 	id: number;
 	line: number;
+	/** Expression that has to be true for the breakpoint to stop */
+	condition?: string;
+	/** How many hits to ignore, see parse_hit_condition */
+	hitCondition?: string;
+	/** Logpoints print this message instead of stopping */
+	logMessage?: string;
+	/** Times the breakpoint was reached with its condition true */
+	hits?: number;
 }
 
+export type GodotBreakpointOptions = Pick<GodotBreakpoint, "condition" | "hitCondition" | "logMessage">;
+
 export interface GodotStackFrame {
 	file: string;
 	function: string;
@@ -94,11 +104,13 @@ export class GodotDebugData {
 		this.session = session;
 	}
 
-	public set_breakpoint(path_to: string, line: number) {
-		const bp = {
+	public set_breakpoint(path_to: string, line: number, options: GodotBreakpointOptions = {}) {
+		const bp: GodotBreakpoint = {
 			file: path_to.replace(/\\/g, "/"),
 			line: line,
 			id: this.breakpoint_id++,
+			...options,
+			hits: 0,
 		};
 
 		let bps: GodotBreakpoint[] = this.breakpoints.get(bp.file);
@@ -132,6 +144,43 @@ export class GodotDebugData {
 		}
 	}
 
+	/**
+	 * Makes a file's breakpoints the ones VS Code sent: sets the new ones, removes the others,
+	 * and updates the options of those Godot already has.
+	 * @returns the breakpoint at each line sent, in the same order
+	 */
+	public sync_breakpoints(
+		path_to: string,
+		sent: ({ line: number } & GodotBreakpointOptions)[],
+	): GodotBreakpoint[] {
+		for (const bp of [...this.get_breakpoints(path_to)]) {
+			if (!sent.some((sent_bp) => sent_bp.line === bp.line)) {
+				this.remove_breakpoint(path_to, bp.line);
+			}
+		}
+		for (const sent_bp of sent) {
+			const options: GodotBreakpointOptions = {
+				condition: sent_bp.condition,
+				hitCondition: sent_bp.hitCondition,
+				logMessage: sent_bp.logMessage,
+			};
+			const bp = this.get_breakpoints(path_to).find((bp_at_line) => bp_at_line.line === sent_bp.line);
+			if (!bp) {
+				this.set_breakpoint(path_to, sent_bp.line, options);
+				continue;
+			}
+			// Godot already has the breakpoint, only the way it's checked changes
+			if (bp.condition !== options.condition || bp.hitCondition !== options.hitCondition) {
+				bp.hits = 0;
+			}
+			Object.assign(bp, options);
+		}
+
+		// Fetched again: a file without breakpoints only gets its list when the first one is set
+		const bps = this.get_breakpoints(path_to);
+		return sent.map((sent_bp) => bps.find((bp) => bp.line === sent_bp.line));
+	}
+
 	public get_all_breakpoints(): GodotBreakpoint[] {
 		const output: GodotBreakpoint[] = [];
 		for (const bp_array of Array.from(this.breakpoints.values())) {
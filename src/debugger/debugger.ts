@@ -27,6 +27,8 @@ import { GodotDebugSession as Godot4DebugSession } from "./godot4/debug_session"
 import { GodotObject } from "./godot4/variables/godot_object_promise";
 import { InspectorProvider, RemoteProperty } from "./inspector_provider";
 import { InspectorWebView } from "./inspector_webview";
+import { GodotMonitorsViewer } from "./monitors_viewer";
+import { GodotProfilerViewer, ProfilerToggle } from "./profiler_viewer";
 import { SceneNode, SceneTreeProvider } from "./scene_tree_provider";
 import { SceneTreeMonitor } from "./scene_tree_monitor";
 import { GameDebugControlsProvider } from "./game_debug_controls_provider";
@@ -88,6 +90,8 @@ export class GodotDebugger implements DebugAdapterDescriptorFactory, DebugConfig
 	public inspectorWebView: InspectorWebView;
 	public gameDebugControls = new GameDebugControlsProvider();
 	public sceneTreeMonitor: SceneTreeMonitor;
+	public profiler: GodotProfilerViewer;
+	public monitors: GodotMonitorsViewer;
 
 	fileDecorations = new GDFileDecorationProvider();
 
@@ -102,6 +106,10 @@ export class GodotDebugger implements DebugAdapterDescriptorFactory, DebugConfig
 		// Initialize Scene Tree Monitor for C# projects
 		this.sceneTreeMonitor = new SceneTreeMonitor(this.sceneTree, this.inspectorWebView, this.gameDebugControls);
 
+		// Profiler for Godot 4 debug sessions and the Scene Tree Monitor
+		this.profiler = new GodotProfilerViewer(context, this.get_profiler_toggle.bind(this));
+		this.monitors = new GodotMonitorsViewer(context);
+
 		// Set up the edit callbacks for the WebView inspector
 		this.inspectorWebView.setEditCallback(this.handleWebViewEdit.bind(this));
 		this.inspectorWebView.setEditCompoundCallback(this.handleWebViewCompoundEdit.bind(this));
@@ -135,6 +143,22 @@ export class GodotDebugger implements DebugAdapterDescriptorFactory, DebugConfig
 			register_command("debugger.nextFrame", this.next_frame.bind(this)),
 			// Auto-start Scene Tree Monitor for C# debug sessions
 			debug.onDidStartDebugSession(this.on_debug_session_start.bind(this)),
+			// Feed the profiler and the monitors from the Scene Tree Monitor, debug sessions feed them directly
+			this.sceneTreeMonitor.onProfilerMessage(
+				(message) =>
+					this.profiler.handle_message(message.command, message.parameters) ||
+					this.monitors.handle_message(message.command, message.parameters),
+			),
+			this.sceneTreeMonitor.onDisconnected(() => {
+				this.profiler.stopped();
+				this.monitors.stopped();
+			}),
+			debug.onDidTerminateDebugSession((session) => {
+				if (session.type === "godot") {
+					this.profiler.stopped();
+					this.monitors.stopped();
+				}
+			}),
 			this.sceneTree.view,
 			this.gameDebugControls.view,
 		);
@@ -154,6 +178,10 @@ export class GodotDebugger implements DebugAdapterDescriptorFactory, DebugConfig
 
 		this.session.sceneTree = this.sceneTree;
 		this.session.inspector = this.inspectorOld; // Session still uses old provider for internal logic
+		if (this.session instanceof Godot4DebugSession) {
+			this.session.profiler = this.profiler;
+			this.session.monitors = this.monitors;
+		}
 
 		this.sceneTree.clear();
 		this.inspectorWebView.clear();
@@ -366,6 +394,20 @@ export class GodotDebugger implements DebugAdapterDescriptorFactory, DebugConfig
 	}
 
 	// Debug control methods (Tier 1 features)
+	/**
+	 * The game the profiler can be started in: the Godot 4 debug session's, or else the Scene Tree Monitor's.
+	 */
+	private get_profiler_toggle(): ProfilerToggle | undefined {
+		const session = this.session;
+		if (session instanceof Godot4DebugSession && debug.activeDebugSession?.type === "godot") {
+			return (name, enable, options) => session.controller.toggle_profiler(name, enable, options);
+		}
+		if (this.sceneTreeMonitor.isConnected) {
+			return (name, enable, options) => this.sceneTreeMonitor.toggleProfiler(name, enable, options);
+		}
+		return undefined;
+	}
+
 	public pause_game() {
 		this.sceneTreeMonitor.pause();
 	}
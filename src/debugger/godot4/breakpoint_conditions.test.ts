@@ -0,0 +1,25 @@
+import { expect } from "chai";
+import { interpolate_log_message, parse_hit_condition } from "./breakpoint_conditions";
+
+suite("Breakpoint conditions", () => {
+	test("parses hit counts", () => {
+		const hits = [1, 2, 3, 4, 5, 6];
+		const matching = (text: string) => hits.filter(parse_hit_condition(text));
+		expect(matching("3")).to.deep.equal([3, 4, 5, 6]);
+		expect(matching("== 3")).to.deep.equal([3]);
+		expect(matching(">4")).to.deep.equal([5, 6]);
+		expect(matching("<= 2")).to.deep.equal([1, 2]);
+		expect(matching("%2")).to.deep.equal([2, 4, 6]);
+		expect(parse_hit_condition("% 0")).to.be.undefined;
+		expect(parse_hit_condition("health > 3")).to.be.undefined;
+	});
+
+	test("interpolates logpoint messages", async () => {
+		const values: Record<string, string> = { health: "25", "position.x": "3" };
+		const message = await interpolate_log_message(
+			"hp={health} at { position.x } {{literal}}",
+			async (expression) => (expression in values ? values[expression] : "<?>"),
+		);
+		expect(message).to.equal("hp=25 at 3 {literal}");
+	});
+});
@@ -0,0 +1,48 @@
+/**
+ * Parses a breakpoint's hit condition: `== 5`, `> 5`, `>= 5`, `< 5`, `<= 5`, or `% 5` for every
+ * fifth hit. A plain `5` stops from the fifth hit on. Undefined when the condition isn't one of these.
+ */
+export function parse_hit_condition(text: string): ((hits: number) => boolean) | undefined {
+	const match = /^\s*(==|>=|<=|>|<|%)?\s*(\d+)\s*$/.exec(text);
+	if (!match) {
+		return undefined;
+	}
+	const count = Number(match[2]);
+	switch (match[1]) {
+		case "==":
+			return (hits) => hits === count;
+		case ">":
+			return (hits) => hits > count;
+		case "<":
+			return (hits) => hits < count;
+		case "<=":
+			return (hits) => hits <= count;
+		case "%":
+			return count > 0 ? (hits) => hits % count === 0 : undefined;
+		default:
+			return (hits) => hits >= count;
+	}
+}
+
+/**
+ * The text a logpoint prints: each `{expression}` in the message replaced by its value.
+ * `{{` and `}}` stand for literal braces.
+ */
+export async function interpolate_log_message(
+	message: string,
+	evaluate: (expression: string) => Promise<string>,
+): Promise<string> {
+	const parts = message.split(/(\{\{|\}\}|\{[^{}]*\})/);
+	const values = await Promise.all(
+		parts.map((part) => {
+			if (part === "{{" || part === "}}") {
+				return part[0];
+			}
+			if (part.startsWith("{") && part.endsWith("}")) {
+				return evaluate(part.slice(1, -1).trim());
+			}
+			return part;
+		}),
+	);
+	return values.join("");
+}
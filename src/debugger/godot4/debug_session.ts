@@ -10,11 +10,15 @@ import { DebugProtocol } from "@vscode/debugprotocol";
 import { Subject } from "await-notify";
 import * as fs from "node:fs";
 import { createLogger } from "../../utils";
-import { GodotDebugData } from "../debug_runtime";
+import { GodotBreakpoint, GodotDebugData } from "../debug_runtime";
 import { AttachRequestArguments, LaunchRequestArguments } from "../debugger";
 import { InspectorProvider } from "../inspector_provider";
+import { GodotMonitorsViewer } from "../monitors_viewer";
+import { GodotProfilerViewer } from "../profiler_viewer";
 import { SceneTreeProvider } from "../scene_tree_provider";
+import { interpolate_log_message, parse_hit_condition } from "./breakpoint_conditions";
 import { ServerController } from "./server_controller";
+import { format_value, is_truthy, parse_expression } from "./variables/expressions";
 import { VariablesManager } from "./variables/variables_manager";
 
 const log = createLogger("debugger.session", { output: "Godot Debugger" });
@@ -24,6 +28,8 @@ export class GodotDebugSession extends LoggingDebugSession {
 	public debug_data = new GodotDebugData(this);
 	public sceneTree: SceneTreeProvider;
 	public inspector: InspectorProvider;
+	public profiler?: GodotProfilerViewer;
+	public monitors?: GodotMonitorsViewer;
 	private configuration_done: Subject = new Subject();
 	private mode: "launch" | "attach" | "" = "";
 
@@ -51,7 +57,7 @@ export class GodotDebugSession extends LoggingDebugSession {
 
 		response.body.supportsConfigurationDoneRequest = true;
 		response.body.supportsTerminateRequest = true;
-		response.body.supportsEvaluateForHovers = false;
+		response.body.supportsEvaluateForHovers = true;
 		response.body.supportsStepBack = false;
 		response.body.supportsGotoTargetsRequest = false;
 		response.body.supportsCancelRequest = false;
@@ -59,14 +65,15 @@ export class GodotDebugSession extends LoggingDebugSession {
 		response.body.supportsFunctionBreakpoints = false;
 		response.body.supportsDataBreakpoints = false;
 		response.body.supportsBreakpointLocationsRequest = false;
-		response.body.supportsConditionalBreakpoints = false;
-		response.body.supportsHitConditionalBreakpoints = false;
-		response.body.supportsLogPoints = false;
+		response.body.supportsConditionalBreakpoints = true;
+		response.body.supportsHitConditionalBreakpoints = true;
+		response.body.supportsLogPoints = true;
 		response.body.supportsModulesRequest = false;
 		response.body.supportsReadMemoryRequest = false;
 		response.body.supportsRestartFrame = false;
 		response.body.supportsRestartRequest = false;
-		response.body.supportsSetExpression = false;
+		response.body.supportsSetExpression = true;
+		response.body.supportsSetVariable = true;
 		response.body.supportsStepInTargetsRequest = false;
 		response.body.supportsTerminateThreadsRequest = false;
 
@@ -132,33 +139,24 @@ export class GodotDebugSession extends LoggingDebugSession {
 	) {
 		log.info("setBreakPointsRequest", args);
 		const path = (args.source.path as string).replace(/\\/g, "/");
-		const client_lines = args.lines || [];
+		const client_bps: DebugProtocol.SourceBreakpoint[] =
+			args.breakpoints ?? (args.lines ?? []).map((line) => ({ line }));
 
 		if (fs.existsSync(path)) {
-			let bps = this.debug_data.get_breakpoints(path);
-			const bp_lines = bps.map((bp) => bp.line);
-
-			for (const bp of bps) {
-				if (client_lines.indexOf(bp.line) === -1) {
-					this.debug_data.remove_breakpoint(path, bp.line);
-				}
-			}
-			for (const l of client_lines) {
-				if (bp_lines.indexOf(l) === -1) {
-					const bp = args.breakpoints.find((bp_at_line) => bp_at_line.line === l);
-					if (!bp.condition) {
-						this.debug_data.set_breakpoint(path, l);
-					}
-				}
-			}
-
-			bps = this.debug_data.get_breakpoints(path);
-			// Sort to ensure breakpoints aren't out-of-order, which would confuse VS Code.
-			bps.sort((a, b) => (a.line < b.line ? -1 : 1));
+			const bps = this.debug_data.sync_breakpoints(path, client_bps);
 
+			// VS Code matches the breakpoints with the ones it sent by their order
 			response.body = {
 				breakpoints: bps.map((bp) => {
-					return new Breakpoint(true, bp.line, 1, new Source(bp.file.split("/").reverse()[0], bp.file));
+					const problem = this.breakpoint_problem(bp);
+					const breakpoint: DebugProtocol.Breakpoint = new Breakpoint(
+						!problem,
+						bp.line,
+						1,
+						new Source(bp.file.split("/").reverse()[0], bp.file),
+					);
+					breakpoint.message = problem;
+					return breakpoint;
 				}),
 			};
 
@@ -166,6 +164,64 @@ export class GodotDebugSession extends LoggingDebugSession {
 		}
 	}
 
+	/** Why a breakpoint's condition or hit count can't be checked, if it can't */
+	private breakpoint_problem(bp: GodotBreakpoint): string | undefined {
+		// Godot 4.3+ evaluates conditions itself, and its expressions can call functions. Until the
+		// version is known, as for breakpoints set before launching, conditions are left to the game
+		if (bp.condition && this.controller.knows_version() && !this.controller.can_evaluate()) {
+			try {
+				parse_expression(bp.condition);
+			} catch (error) {
+				return `Invalid condition: ${error.message}`;
+			}
+		}
+		if (bp.hitCondition && !parse_hit_condition(bp.hitCondition)) {
+			return "Invalid hit count: expected a number, optionally after ==, >, >=, <, <= or %";
+		}
+		return undefined;
+	}
+
+	/**
+	 * Whether to stay stopped at a breakpoint Godot broke at. Godot knows nothing about
+	 * conditions, hit counts and logpoints, so they're checked here against the top frame:
+	 * false when the condition is false or the hit count isn't reached, and for logpoints,
+	 * which print their message instead.
+	 */
+	public async should_stop_at(bp: GodotBreakpoint): Promise<boolean> {
+		if (bp.condition) {
+			try {
+				if (!is_truthy(await this.variables_manager.evaluate(bp.condition, 0))) {
+					return false;
+				}
+			} catch (error) {
+				this.controller.stderr(`Breakpoint condition '${bp.condition}' failed: ${error.message ?? error}\n`);
+				return true;
+			}
+		}
+
+		bp.hits = (bp.hits ?? 0) + 1;
+		const hit_condition = bp.hitCondition && parse_hit_condition(bp.hitCondition);
+		if (hit_condition && !hit_condition(bp.hits)) {
+			return false;
+		}
+
+		if (bp.logMessage) {
+			const message = await interpolate_log_message(bp.logMessage, async (expression) => {
+				try {
+					return format_value(await this.variables_manager.evaluate(expression, 0));
+				} catch (error) {
+					return `<${error.message ?? error}>`;
+				}
+			});
+			this.controller.stdout(`${message}\n`, {
+				source: new Source(bp.file.split("/").reverse()[0], bp.file),
+				line: bp.line,
+			});
+			return false;
+		}
+		return true;
+	}
+
 	protected stepInRequest(response: DebugProtocol.StepInResponse, args: DebugProtocol.StepInArguments) {
 		log.info("stepInRequest", args);
 		this.controller.step();
@@ -261,14 +317,72 @@ export class GodotDebugSession extends LoggingDebugSession {
 		this.sendResponse(response);
 	}
 
+	protected async setVariableRequest(
+		response: DebugProtocol.SetVariableResponse,
+		args: DebugProtocol.SetVariableArguments,
+	) {
+		log.info("setVariableRequest", args);
+
+		try {
+			const godot_id_with_path = this.variables_manager.godot_id_to_vscode_id_mapper.get_godot_id_with_path(
+				args.variablesReference,
+			);
+			if (godot_id_with_path === undefined) {
+				throw new Error(`Unknown variablesReference ${args.variablesReference}`);
+			}
+			const variable = await this.variables_manager.set_variable(
+				godot_id_with_path.godot_id,
+				[...godot_id_with_path.path, args.name],
+				args.value,
+			);
+			response.body = {
+				value: variable.value,
+				variablesReference: variable.variablesReference,
+			};
+		} catch (error) {
+			response.success = false;
+			response.message = error.message ?? error.toString();
+		}
+
+		log.info("setVariableRequest response", response);
+		this.sendResponse(response);
+	}
+
+	/** Changes a variable from the Watch view, which only works for variable paths like `position.x` */
+	protected async setExpressionRequest(
+		response: DebugProtocol.SetExpressionResponse,
+		args: DebugProtocol.SetExpressionArguments,
+	) {
+		log.info("setExpressionRequest", args);
+
+		try {
+			const path = args.expression.trim().split(".");
+			if (!path.every((name) => /^[A-Za-z_]\w*$/.test(name))) {
+				throw new Error(`'${args.expression}' isn't a variable, only variables and their components can be changed`);
+			}
+			const found = await this.variables_manager.find_frame_variable(path[0], args.frameId ?? 0);
+			if (found === undefined) {
+				throw new Error(`'${path[0]}' isn't a local, member or global variable`);
+			}
+			const variable = await this.variables_manager.set_variable(found.scope_godot_id, path, args.value);
+			response.body = {
+				value: variable.value,
+				variablesReference: variable.variablesReference,
+			};
+		} catch (error) {
+			response.success = false;
+			response.message = error.message ?? error.toString();
+		}
+
+		log.info("setExpressionRequest response", response);
+		this.sendResponse(response);
+	}
+
 	protected async evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments) {
 		log.info("evaluateRequest", args);
 
 		try {
-			const parsed_variable = await this.variables_manager.get_vscode_variable_by_name(
-				args.expression,
-				args.frameId,
-			);
+			const parsed_variable = await this.evaluate_variable(args.expression, args.frameId ?? 0, args.context);
 			response.body = {
 				result: parsed_variable.value,
 				variablesReference: parsed_variable.variablesReference,
@@ -285,4 +399,25 @@ export class GodotDebugSession extends LoggingDebugSession {
 		log.info("evaluateRequest response", response);
 		this.sendResponse(response);
 	}
+
+	/**
+	 * Evaluates an expression from the Watch view, Debug Console or a hover. Variable paths
+	 * like `position.x` are looked up; anything else is evaluated, without calling functions
+	 * for hovers, see {@link VariablesManager.evaluate}
+	 */
+	private async evaluate_variable(
+		expression: string,
+		stack_frame_id: number,
+		context?: string,
+	): Promise<DebugProtocol.Variable> {
+		if (/^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/.test(expression)) {
+			try {
+				return await this.variables_manager.get_vscode_variable_by_name(expression, stack_frame_id);
+			} catch (error) {
+				log.info(`'${expression}' isn't a variable, evaluating it:`, error.message);
+			}
+		}
+		const value = await this.variables_manager.evaluate(expression, stack_frame_id, context !== "hover");
+		return this.variables_manager.get_vscode_variable_for_value(expression, value);
+	}
 }
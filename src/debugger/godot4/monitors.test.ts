@@ -0,0 +1,55 @@
+import { expect } from "chai";
+import {
+	BUILTIN_MONITORS,
+	custom_monitor_info,
+	display_value,
+	monitors_csv,
+	parse_monitor_names,
+	parse_monitor_values,
+	threshold_crossed,
+} from "./monitors";
+import { StringName } from "./variables/variants";
+
+suite("Monitors", () => {
+	test("parses built-in and custom monitor values", () => {
+		const names = parse_monitor_names([new StringName("game/enemies"), "score"]);
+		expect(names).to.deep.equal(["game/enemies", "score"]);
+		expect(custom_monitor_info(names[0])).to.include({ name: "enemies", category: "game", custom: true });
+		expect(custom_monitor_info(names[1])).to.include({ name: "score", category: "Custom" });
+
+		// a newer Godot sends more built-in monitors than are known
+		const builtins = new Array(BUILTIN_MONITORS.length + 3).fill(0);
+		builtins[0] = 60;
+		builtins[9] = 120;
+		const values = parse_monitor_values([...builtins, 12, 3400], names);
+		expect(values).to.include({ "0": 60, "9": 120, "game/enemies": 12, score: 3400 });
+		expect(Object.keys(values)).to.have.length(BUILTIN_MONITORS.length + 2);
+		expect(BUILTIN_MONITORS[13]).to.include({ name: "Total Draw Calls", category: "Raster" });
+	});
+
+	test("converts units and raises alerts once per crossing", () => {
+		expect(display_value("seconds", 0.0165)).to.be.closeTo(16.5, 1e-9);
+		expect(display_value("bytes", 3 * 1024 * 1024)).to.equal(3);
+		expect(display_value("fps", 60)).to.equal(60);
+
+		const fps = { below: 30 };
+		expect([60, 25, 20, 45, 10].map((value, i, all) => threshold_crossed(fps, all[i - 1], value))).to.deep.equal([
+			false,
+			true,
+			false,
+			false,
+			true,
+		]);
+		expect(threshold_crossed({ above: 100 }, undefined, 150)).to.equal(true);
+		expect(threshold_crossed({}, 0, 150)).to.equal(false);
+	});
+
+	test("exports samples as CSV", () => {
+		const monitors = [BUILTIN_MONITORS[0], custom_monitor_info('game/"boss", hp')];
+		const csv = monitors_csv(monitors, [
+			{ time: 1000, values: { "0": 60, 'game/"boss", hp': 5 } },
+			{ time: 2500, values: { "0": 58.5 } },
+		]);
+		expect(csv).to.equal('Time (s),Time/FPS,"game/""boss"", hp"\n0.000,60,5\n1.500,58.5,\n');
+	});
+});
@@ -0,0 +1,137 @@
+/**
+ * Decoding the performance monitors Godot sends every second in `performance:profile_frame`: the
+ * values of the built-in monitors in the order of `Performance.Monitor`, then of the custom monitors
+ * named by the last `performance:profile_names`.
+ */
+
+export type MonitorUnit = "count" | "fps" | "seconds" | "bytes";
+
+export interface MonitorInfo {
+	/** The built-in monitor's index, or the custom monitor's `category/name` */
+	id: string;
+	name: string;
+	category: string;
+	unit: MonitorUnit;
+	custom?: boolean;
+}
+
+/** One `performance:profile_frame`: `time` is when it was received, in ms */
+export interface MonitorSample {
+	time: number;
+	values: Record<string, number>;
+}
+
+/** Alert when a monitor goes above or below a value, in the unit it's shown in, see {@link display_value} */
+export interface MonitorThreshold {
+	above?: number;
+	below?: number;
+}
+
+/** The built-in monitors, in the order Godot 4 sends them. Later ones, which differ between versions, aren't shown */
+export const BUILTIN_MONITORS: MonitorInfo[] = [
+	["FPS", "Time", "fps"],
+	["Process", "Time", "seconds"],
+	["Physics Process", "Time", "seconds"],
+	["Navigation Process", "Time", "seconds"],
+	["Static", "Memory", "bytes"],
+	["Static Max", "Memory", "bytes"],
+	["Message Buffer Max", "Memory", "bytes"],
+	["Objects", "Object", "count"],
+	["Resources", "Object", "count"],
+	["Nodes", "Object", "count"],
+	["Orphan Nodes", "Object", "count"],
+	["Total Objects Drawn", "Raster", "count"],
+	["Total Primitives Drawn", "Raster", "count"],
+	["Total Draw Calls", "Raster", "count"],
+	["Video Memory", "Video", "bytes"],
+	["Texture Memory", "Video", "bytes"],
+	["Buffer Memory", "Video", "bytes"],
+	["Active Objects", "Physics 2D", "count"],
+	["Collision Pairs", "Physics 2D", "count"],
+	["Islands", "Physics 2D", "count"],
+	["Active Objects", "Physics 3D", "count"],
+	["Collision Pairs", "Physics 3D", "count"],
+	["Islands", "Physics 3D", "count"],
+	["Output Latency", "Audio", "seconds"],
+].map(([name, category, unit], index) => ({ id: `${index}`, name, category, unit: unit as MonitorUnit }));
+
+/** Shown when the Monitors view is first opened */
+export const DEFAULT_MONITORS = ["0", "1", "4", "7", "9", "13", "17", "20"];
+
+/** Custom monitors are named `category/name`, or just `name` in the Custom category */
+export function custom_monitor_info(id: string): MonitorInfo {
+	const separator = id.lastIndexOf("/");
+	return {
+		id: id,
+		name: separator >= 0 ? id.slice(separator + 1) : id,
+		category: separator >= 0 ? id.slice(0, separator) : "Custom",
+		unit: "count",
+		custom: true,
+	};
+}
+
+/** Parses `performance:profile_names`, which Godot sends as StringNames */
+export function parse_monitor_names(params: any[]): string[] {
+	return params.map((name) => `${name?.value ?? name}`);
+}
+
+/** Parses `performance:profile_frame` */
+export function parse_monitor_values(params: any[], custom_names: string[]): Record<string, number> {
+	const values: Record<string, number> = {};
+	const builtin_count = params.length - custom_names.length;
+	for (let i = 0; i < Math.min(builtin_count, BUILTIN_MONITORS.length); i++) {
+		values[BUILTIN_MONITORS[i].id] = Number(params[i]);
+	}
+	custom_names.forEach((name, i) => {
+		values[name] = Number(params[builtin_count + i]);
+	});
+	return values;
+}
+
+/** A monitor's value in the unit it's shown in: ms for times, MiB for memory */
+export function display_value(unit: MonitorUnit, value: number): number {
+	switch (unit) {
+		case "seconds":
+			return value * 1000;
+		case "bytes":
+			return value / (1024 * 1024);
+		default:
+			return value;
+	}
+}
+
+export function display_unit(unit: MonitorUnit): string {
+	return { count: "", fps: "FPS", seconds: "ms", bytes: "MiB" }[unit];
+}
+
+/**
+ * Whether a value went over a threshold, or under it: only when the previous one didn't,
+ * so an alert is raised once each time, not every second.
+ */
+export function threshold_crossed(threshold: MonitorThreshold, previous: number | undefined, value: number): boolean {
+	const outside = (v: number) =>
+		(threshold.above !== undefined && v > threshold.above) ||
+		(threshold.below !== undefined && v < threshold.below);
+	return outside(value) && (previous === undefined || !outside(previous));
+}
+
+/** The samples as CSV: a column per monitor, values as Godot sends them, in seconds and bytes */
+export function monitors_csv(monitors: MonitorInfo[], samples: MonitorSample[]): string {
+	const start = samples[0]?.time ?? 0;
+	const header = ["Time (s)", ...monitors.map((monitor) => csv_field(monitor_label(monitor)))];
+	const rows = samples.map((sample) =>
+		[
+			((sample.time - start) / 1000).toFixed(3),
+			...monitors.map((monitor) => `${sample.values[monitor.id] ?? ""}`),
+		].join(","),
+	);
+	return `${[header.join(","), ...rows].join("\n")}\n`;
+}
+
+export function monitor_label(monitor: MonitorInfo): string {
+	return `${monitor.category}/${monitor.name}`;
+}
+
+function csv_field(text: string): string {
+	return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
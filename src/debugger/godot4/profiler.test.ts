@@ -0,0 +1,90 @@
+import { expect } from "chai";
+import {
+	type ProfiledFunction,
+	aggregate_functions,
+	flame_graph,
+	parse_function_signature,
+	parse_profiler_frame,
+	script_function_fields,
+} from "./profiler";
+
+const SIGNATURES = new Map<number, ProfiledFunction>(
+	[
+		["res://player.gd::12::_process", 0],
+		["res://enemy.gd::40::take_damage", 1],
+	].map((params) => {
+		const { id, function: profiled } = parse_function_signature(params);
+		return [id, profiled];
+	}),
+);
+
+// frame number and times, a physics server with two functions, then two script functions of 5 values
+const FRAME_43: any[] = [
+	...[7, 0.016, 0.01, 0.004, 0.002, 0.003],
+	...[1, "physics_2d", 4, "step", 0.0015, "sync", 0.0005],
+	...[10, 0, 1, 0.001, 0.003, 0, 1, 4, 0.002, 0.002, 0.0001],
+];
+
+suite("Profiler", () => {
+	test("parses function signatures", () => {
+		expect(SIGNATURES.get(0)).to.deep.equal({
+			signature: "res://player.gd::12::_process",
+			name: "_process",
+			file: "res://player.gd",
+			line: 12,
+		});
+		expect(parse_function_signature(["::0::Node::get_node", 5]).function).to.include({
+			name: "Node::get_node",
+			file: "",
+		});
+	});
+
+	test("parses frames sent before and after Godot 4.3", () => {
+		expect(script_function_fields("4.2")).to.equal(4);
+		expect(script_function_fields("4.3")).to.equal(5);
+		const frame = parse_profiler_frame(FRAME_43, 5);
+		expect(frame).to.deep.include({ number: 7, frame_time: 0.016, script_time: 0.003 });
+		expect(frame.servers).to.deep.equal([
+			{
+				name: "physics_2d",
+				functions: [
+					{ name: "step", time: 0.0015 },
+					{ name: "sync", time: 0.0005 },
+				],
+			},
+		]);
+		expect(frame.functions).to.deep.equal([
+			{ sig_id: 0, calls: 1, self: 0.001, total: 0.003 },
+			{ sig_id: 1, calls: 4, self: 0.002, total: 0.002 },
+		]);
+
+		const old_frame = parse_profiler_frame([1, 0.016, 0.01, 0.004, 0.002, 0.001, 0, 4, 0, 2, 0.001, 0.001], 4);
+		expect(old_frame.functions).to.deep.equal([{ sig_id: 0, calls: 2, self: 0.001, total: 0.001 }]);
+	});
+
+	test("sums functions over frames and lays out a frame's flame graph", () => {
+		const frame = parse_profiler_frame(FRAME_43, 5);
+		const stats = aggregate_functions([frame, { ...frame, functions: frame.functions.slice(0, 1) }], SIGNATURES);
+		expect(stats.map(({ name, calls, frames }) => ({ name, calls, frames }))).to.deep.equal([
+			{ name: "_process", calls: 2, frames: 2 },
+			{ name: "take_damage", calls: 4, frames: 1 },
+		]);
+		expect(stats[0].self).to.be.closeTo(0.002, 1e-9);
+
+		const flame = flame_graph(frame, SIGNATURES).map(({ name, depth, start, duration }) => [
+			name,
+			depth,
+			+(start * 1000).toFixed(3),
+			+(duration * 1000).toFixed(3),
+		]);
+		expect(flame).to.deep.equal([
+			["Frame", 0, 0, 16],
+			["Scripts", 1, 0, 3],
+			["take_damage", 2, 0, 2],
+			["_process", 2, 2, 1],
+			["physics_2d", 1, 3, 2],
+			["step", 2, 3, 1.5],
+			["sync", 2, 4.5, 0.5],
+		]);
+	});
+});
@@ -0,0 +1,186 @@
+/**
+ * Decoding and summarizing the frames Godot's script profiler sends once `profiler:servers` is
+ * enabled: `servers:function_signature` names each profiled function once, then every frame sends
+ * `servers:profile_frame` with the time spent in servers and script functions. All times are in seconds.
+ */
+
+/** A profiled function, from its signature `res://player.gd::12::_process` */
+export interface ProfiledFunction {
+	signature: string;
+	name: string;
+	/** res:// path of the script, empty for native functions */
+	file: string;
+	line: number;
+}
+
+export interface FunctionTime {
+	sig_id: number;
+	calls: number;
+	self: number;
+	total: number;
+}
+
+export interface ServerTime {
+	name: string;
+	functions: { name: string; time: number }[];
+}
+
+export interface ProfilerFrame {
+	number: number;
+	frame_time: number;
+	process_time: number;
+	physics_time: number;
+	physics_frame_time: number;
+	/** The self time of all script functions */
+	script_time: number;
+	servers: ServerTime[];
+	functions: FunctionTime[];
+}
+
+/** A function's times summed over frames */
+export interface FunctionStats extends ProfiledFunction {
+	calls: number;
+	self: number;
+	total: number;
+	/** The frames it was called in */
+	frames: number;
+}
+
+/** A box of the flame graph, `start` and `duration` being times within the frame */
+export interface FlameNode {
+	name: string;
+	depth: number;
+	start: number;
+	duration: number;
+	/** For functions, their total time, of which `duration` is the self time */
+	total?: number;
+	file?: string;
+	line?: number;
+}
+
+/** How many values Godot sends per script function: 4.3 added the time spent in native calls */
+export function script_function_fields(version: string): number {
+	const [major, minor] = version.split(".").map(Number);
+	return major > 4 || (major === 4 && minor >= 3) ? 5 : 4;
+}
+
+/** The options of `profiler:servers`: the number of functions to send per frame, and whether to profile native calls */
+export function profiler_options(max_functions: number, native_calls: boolean): any[] {
+	return [Math.min(Math.max(max_functions, 16), 512), native_calls];
+}
+
+/** Parses `servers:function_signature`: `[signature, id]` */
+export function parse_function_signature(params: any[]): { id: number; function: ProfiledFunction } {
+	const signature: string = params[0];
+	const [file, line, ...name] = signature.split("::");
+	return {
+		id: Number(params[1]),
+		function: {
+			signature: signature,
+			name: name.length > 0 ? name.join("::") : signature,
+			file: file,
+			line: Number(line) || 0,
+		},
+	};
+}
+
+/** Parses `servers:profile_frame` and `servers:profile_total`, see {@link script_function_fields} */
+export function parse_profiler_frame(params: any[], fields_per_function: number): ProfilerFrame {
+	let i = 0;
+	const next = () => params[i++];
+	const frame: ProfilerFrame = {
+		number: Number(next()),
+		frame_time: next(),
+		process_time: next(),
+		physics_time: next(),
+		physics_frame_time: next(),
+		script_time: next(),
+		servers: [],
+		functions: [],
+	};
+
+	const server_count: number = next();
+	for (let s = 0; s < server_count; s++) {
+		const server: ServerTime = { name: next(), functions: [] };
+		const size: number = next();
+		for (let f = 0; f < size / 2; f++) {
+			server.functions.push({ name: next(), time: next() });
+		}
+		frame.servers.push(server);
+	}
+
+	const size: number = next() ?? 0;
+	for (let f = 0; f < size / fields_per_function; f++) {
+		const start = i;
+		frame.functions.push({ sig_id: Number(next()), calls: Number(next()), self: next(), total: next() });
+		i = start + fields_per_function;
+	}
+	return frame;
+}
+
+/** Each function's times summed over the frames, slowest first */
+export function aggregate_functions(
+	frames: ProfilerFrame[],
+	signatures: Map<number, ProfiledFunction>,
+): FunctionStats[] {
+	const stats = new Map<number, FunctionStats>();
+	for (const frame of frames) {
+		for (const time of frame.functions) {
+			let function_stats = stats.get(time.sig_id);
+			if (function_stats === undefined) {
+				const profiled = signatures.get(time.sig_id) ?? unknown_function(time.sig_id);
+				function_stats = { ...profiled, calls: 0, self: 0, total: 0, frames: 0 };
+				stats.set(time.sig_id, function_stats);
+			}
+			function_stats.calls += time.calls;
+			function_stats.self += time.self;
+			function_stats.total += time.total;
+			function_stats.frames++;
+		}
+	}
+	return [...stats.values()].sort((a, b) => b.self - a.self);
+}
+
+/**
+ * The flame graph of a frame. Godot reports each function's self and total time but not its callers,
+ * so the frame is split into scripts and servers, and those into their functions by self time, which
+ * adds up to the script time. Functions slower than the rest come first.
+ */
+export function flame_graph(frame: ProfilerFrame, signatures: Map<number, ProfiledFunction>): FlameNode[] {
+	const nodes: FlameNode[] = [{ name: "Frame", depth: 0, start: 0, duration: frame.frame_time }];
+	let start = 0;
+
+	const functions = [...frame.functions].sort((a, b) => b.self - a.self);
+	nodes.push({ name: "Scripts", depth: 1, start: start, duration: frame.script_time });
+	let function_start = start;
+	for (const time of functions) {
+		const profiled = signatures.get(time.sig_id) ?? unknown_function(time.sig_id);
+		nodes.push({
+			name: profiled.name,
+			depth: 2,
+			start: function_start,
+			duration: time.self,
+			total: time.total,
+			file: profiled.file || undefined,
+			line: profiled.line,
+		});
+		function_start += time.self;
+	}
+	start += frame.script_time;
+
+	for (const server of frame.servers) {
+		const duration = server.functions.reduce((sum, f) => sum + f.time, 0);
+		nodes.push({ name: server.name, depth: 1, start: start, duration: duration });
+		let server_start = start;
+		for (const f of [...server.functions].sort((a, b) => b.time - a.time)) {
+			nodes.push({ name: f.name, depth: 2, start: server_start, duration: f.time });
+			server_start += f.time;
+		}
+		start += duration;
+	}
+	return nodes.filter((node) => node.duration > 0);
+}
+
+function unknown_function(sig_id: number): ProfiledFunction {
+	return { signature: `${sig_id}`, name: `<function ${sig_id}>`, file: "", line: 0 };
+}
@@ -74,6 +74,8 @@ export class ServerController {
 	private server?: net.Server;
 	private socket?: net.Socket;
 	private steppingOut = false;
+	/** Set from a step until the next continue: a step landing on a breakpoint stops there regardless */
+	private stepping = false;
 	private didFirstOutput = false;
 	private partialStackVars: GodotPartialStackVars;
 	private projectVersionMajor: number;
@@ -94,19 +96,23 @@ export class ServerController {
 	}
 
 	public continue() {
+		this.stepping = false;
 		this.send_command("continue");
 	}
 
 	public next() {
+		this.stepping = true;
 		this.send_command("next");
 	}
 
 	public step() {
+		this.stepping = true;
 		this.send_command("step");
 	}
 
 	public step_out() {
 		this.steppingOut = true;
+		this.stepping = true;
 		this.send_command("next");
 	}
 
@@ -141,6 +147,24 @@ export class ServerController {
 		this.send_command("get_stack_frame_vars", [stack_frame_id]);
 	}
 
+	/** Whether the version of Godot is known yet: it is once a launch has checked the executable */
+	public knows_version(): boolean {
+		return this.projectVersionMajor !== undefined;
+	}
+
+	/** Whether Godot can evaluate expressions itself, which it does since 4.3 */
+	public can_evaluate(): boolean {
+		return this.projectVersionMajor > 4 || (this.projectVersionMajor === 4 && this.projectVersionMinor >= 3);
+	}
+
+	public request_evaluate(expression: string, stack_frame_id: number) {
+		this.send_command("evaluate", [expression, stack_frame_id]);
+	}
+
+	public toggle_profiler(name: string, enable: boolean, options?: any[]) {
+		this.send_command(`profiler:${name}`, enable && options ? [enable, options] : [enable]);
+	}
+
 	public set_object_property(objectId: bigint, label: string, newParsedValue) {
 		this.send_command("scene:set_object_property", [objectId, label, newParsedValue]);
 	}
@@ -415,7 +439,13 @@ export class ServerController {
 				// TODO: what is this?
 				break;
 			case "performance:profile_frame":
-				// TODO: what is this?
+			case "performance:profile_names":
+				this.session.monitors?.handle_message(command.command, command.parameters);
+				break;
+			case "servers:function_signature":
+			case "servers:profile_frame":
+			case "servers:profile_total":
+				this.session.profiler?.handle_message(command.command, command.parameters);
 				break;
 			case "set_pid":
 				this.threadId = command.threadId;
@@ -541,6 +571,21 @@ export class ServerController {
 				}
 				break;
 			}
+			case "evaluation_return": {
+				/** response to {@link request_evaluate}, a stack variable named after the expression */
+				const name: string = command.parameters[0];
+				const value: any = command.parameters[3];
+				try {
+					this.session.variables_manager?.resolve_evaluation({
+						name,
+						value,
+						sub_values: get_sub_values(value),
+					});
+				} catch (error) {
+					log.error("Race condition error in evaluation_return", error);
+				}
+				break;
+			}
 			case "output": {
 				if (!this.didFirstOutput) {
 					this.didFirstOutput = true;
@@ -697,6 +742,8 @@ export class ServerController {
 		this.session.debug_data.stack_count = stackCount;
 		this.session.debug_data.last_frame = stackFrames[0];
 		this.session.debug_data.last_frames = stackFrames;
+		// Variables fetched at the previous stop are out of date
+		this.session.variables_manager.clear_cache();
 
 		if (continueStepping) {
 			this.next();
@@ -709,6 +756,30 @@ export class ServerController {
 			return sf.file;
 		});
 
+		const breakpoint = this.stepping
+			? undefined
+			: this.session.debug_data.get_breakpoints(file).find((bp) => bp.line === line);
+		if (
+			this.exception.length === 0 &&
+			(breakpoint?.condition || breakpoint?.hitCondition || breakpoint?.logMessage)
+		) {
+			this.session
+				.should_stop_at(breakpoint)
+				.then((stop) => {
+					if (stop) {
+						this.session.sendEvent(new StoppedEvent("breakpoint", 0));
+					} else {
+						this.continue();
+					}
+				})
+				.catch((error) => {
+					// Stay stopped rather than leave the game paused with nothing to show it
+					log.error("Checking the breakpoint's condition, hit count or log message failed", error);
+					this.session.sendEvent(new StoppedEvent("breakpoint", 0));
+				});
+			return;
+		}
+
 		if (this.exception.length === 0) {
 			this.session.sendEvent(new StoppedEvent("breakpoint", 0));
 		} else {
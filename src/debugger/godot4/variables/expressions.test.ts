@@ -0,0 +1,83 @@
+import { expect } from "chai";
+import type { GodotVariable } from "../../debug_runtime";
+import { type ExpressionScope, evaluate_expression, format_value, is_truthy, parse_expression } from "./expressions";
+import { ObjectId, RawObject, Vector2 } from "./variants";
+
+const PLAYER = new ObjectId(42n);
+
+const VARIABLES: GodotVariable[] = [
+	{ name: "health", value: 25 },
+	{ name: "speed", value: 2.5 },
+	{ name: "name", value: "Player" },
+	{ name: "position", value: new Vector2(3, -4) },
+	{ name: "items", value: ["sword", "shield"] },
+	{
+		name: "stats",
+		value: new Map<any, any>([
+			["level", 3],
+			[1, "one"],
+		]),
+	},
+	{ name: "target", value: PLAYER },
+	{ name: "frames", value: 9007199254740993n },
+];
+
+const scope: ExpressionScope = {
+	lookup: async (name) => VARIABLES.find((variable) => variable.name === name),
+	properties: async (object) => (object.id === PLAYER.id ? [{ name: "health", value: 100 }] : []),
+};
+
+function evaluate(text: string) {
+	return evaluate_expression(parse_expression(text), scope);
+}
+
+async function error_of(text: string): Promise<string> {
+	try {
+		await evaluate(text);
+	} catch (error) {
+		return error.message;
+	}
+	return "no error";
+}
+
+suite("Debugger expressions", () => {
+	test("evaluates operators with GDScript precedence", async () => {
+		expect(await evaluate("health * 2 + 1")).to.equal(51);
+		expect(await evaluate("-(health - 5) / 4")).to.equal(-5);
+		expect(await evaluate("health > 20 and not speed >= 3")).to.equal(true);
+		expect(await evaluate("health < 10 || name == 'Player'")).to.equal(true);
+		expect(await evaluate('"Play" + "er" != name')).to.equal(false);
+		expect(await evaluate("frames == 9007199254740993 or frames % 2 == 1")).to.equal(true);
+	});
+
+	test("reads members, indices and object properties", async () => {
+		expect(await evaluate("position.x - position.y")).to.equal(7);
+		expect(await evaluate("items[-1]")).to.equal("shield");
+		expect(await evaluate('stats.level + stats["level"]')).to.equal(6);
+		expect(await evaluate('stats[1] == "one"')).to.equal(true);
+		expect(await evaluate('"shield" in items and not "bow" in items')).to.equal(true);
+		expect(await evaluate('"axe" not in items')).to.equal(true);
+		expect(await evaluate("target.health")).to.equal(100);
+	});
+
+	test("reports what it can't evaluate", async () => {
+		expect(() => parse_expression("get_node('Player')")).to.throw("Function calls");
+		expect(() => parse_expression("health >")).to.throw("Unexpected end of expression");
+		expect(() => parse_expression("health 2")).to.throw("Unexpected '2' at 8");
+		expect(await error_of("mana > 0")).to.contain("'mana' isn't a local, member or global variable");
+		expect(await error_of("items[2]")).to.contain("out of bounds");
+		expect(await error_of("position.z")).to.contain("Invalid access to property 'z' on Vector2");
+		expect(await error_of("name * 2")).to.contain("Invalid operands String and int for '*'");
+	});
+
+	test("tests and formats values like GDScript", () => {
+		expect([0, 0n, "", [], new Map(), undefined, new ObjectId(0n)].map(is_truthy)).to.deep.equal(
+			new Array(7).fill(false),
+		);
+		expect([1, "a", [0], new RawObject("Node"), PLAYER].every(is_truthy)).to.equal(true);
+		expect(format_value(["a", 1.123456, undefined, new Vector2(1, 2)])).to.equal(
+			"[a, 1.12346, null, Vector2(1, 2)]",
+		);
+		expect(format_value(new Map<any, any>([["hp", 3]]))).to.equal("{hp: 3}");
+	});
+});
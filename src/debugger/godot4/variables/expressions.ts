@@ -0,0 +1,469 @@
+import type { GodotVariable } from "../../debug_runtime";
+import { ObjectId, RID, RawObject } from "./variants";
+
+/**
+ * A GDScript expression over the variables of a paused frame: literals, variables, member
+ * access, indexing and operators. Calls aren't supported, they would need to run in the engine.
+ */
+export type Expression =
+	| { kind: "literal"; value: any }
+	| { kind: "identifier"; name: string }
+	| { kind: "member"; object: Expression; name: string }
+	| { kind: "index"; object: Expression; index: Expression }
+	| { kind: "unary"; operator: string; operand: Expression }
+	| { kind: "binary"; operator: string; left: Expression; right: Expression };
+
+/** Where the variables of an expression come from */
+export interface ExpressionScope {
+	/** The local, member or global variable with that name, in that order */
+	lookup(name: string): Promise<GodotVariable | undefined>;
+	/** The properties of an object the debugger only has the id of */
+	properties(object: ObjectId): Promise<GodotVariable[]>;
+}
+
+export class ExpressionError extends Error {}
+
+interface Token {
+	type: "number" | "string" | "identifier" | "operator" | "end";
+	text: string;
+	value?: any;
+	offset: number;
+}
+
+const TOKEN_PATTERN =
+	/\s*(?:(\d[\d_]*(?:\.[\d_]*)?(?:e[+-]?\d+)?|\.\d[\d_]*(?:e[+-]?\d+)?)|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|([A-Za-z_]\w*)|(==|!=|<=|>=|&&|\|\||[-+*/%<>!.[\]()]))/y;
+
+const KEYWORD_OPERATORS = new Set(["and", "or", "not", "in"]);
+
+/** Binary operators from the loosest to the tightest binding */
+const PRECEDENCE: Record<string, number> = {
+	or: 1,
+	"||": 1,
+	and: 2,
+	"&&": 2,
+	in: 4,
+	"<": 4,
+	">": 4,
+	"<=": 4,
+	">=": 4,
+	"==": 4,
+	"!=": 4,
+	"+": 5,
+	"-": 5,
+	"*": 6,
+	"/": 6,
+	"%": 6,
+};
+/** `not` binds looser than comparisons: `not a == b` is `not (a == b)` */
+const NOT_PRECEDENCE = 3;
+const UNARY_PRECEDENCE = 7;
+
+function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+	TOKEN_PATTERN.lastIndex = 0;
+	while (TOKEN_PATTERN.lastIndex < text.length) {
+		const rest = text.slice(TOKEN_PATTERN.lastIndex);
+		if (!rest.trim()) {
+			break;
+		}
+		const offset = text.length - rest.trimStart().length;
+		const match = TOKEN_PATTERN.exec(text);
+		if (!match) {
+			throw new ExpressionError(`Unexpected character '${text[offset]}' at ${offset + 1}`);
+		}
+		const [, number, string, identifier, operator] = match;
+		if (number !== undefined) {
+			tokens.push({ type: "number", text: number, value: Number(number.replace(/_/g, "")), offset });
+		} else if (string !== undefined) {
+			tokens.push({ type: "string", text: string, value: unescape_string(string.slice(1, -1)), offset });
+		} else if (KEYWORD_OPERATORS.has(identifier)) {
+			tokens.push({ type: "operator", text: identifier, offset });
+		} else if (identifier !== undefined) {
+			tokens.push({ type: "identifier", text: identifier, offset });
+		} else {
+			tokens.push({ type: "operator", text: operator, offset });
+		}
+	}
+	tokens.push({ type: "end", text: "", offset: text.length });
+	return tokens;
+}
+
+function unescape_string(text: string): string {
+	const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", "0": "\0" };
+	return text.replace(/\\(.)/g, (_, char) => escapes[char] ?? char);
+}
+
+/** Parses an expression, throwing an ExpressionError when it isn't one this module can evaluate */
+export function parse_expression(text: string): Expression {
+	const tokens = tokenize(text);
+	let position = 0;
+	const peek = () => tokens[position];
+	const next = () => tokens[position++];
+	const expect = (text: string) => {
+		const token = next();
+		if (token.text !== text) {
+			throw new ExpressionError(`Expected '${text}' at ${token.offset + 1}`);
+		}
+	};
+
+	const parse_binary = (min_precedence: number): Expression => {
+		let left = parse_unary();
+		for (;;) {
+			// `not in` is the one two-word operator
+			const not_in = peek().text === "not" && tokens[position + 1].text === "in";
+			const operator = not_in ? "not in" : peek().text;
+			const precedence = peek().type === "operator" ? PRECEDENCE[not_in ? "in" : operator] : undefined;
+			if (precedence === undefined || precedence < min_precedence) {
+				return left;
+			}
+			position += not_in ? 2 : 1;
+			left = { kind: "binary", operator, left, right: parse_binary(precedence + 1) };
+		}
+	};
+
+	const parse_unary = (): Expression => {
+		const token = peek();
+		if (token.type === "operator" && ["not", "!"].includes(token.text)) {
+			next();
+			return { kind: "unary", operator: "not", operand: parse_binary(NOT_PRECEDENCE) };
+		}
+		if (token.type === "operator" && ["-", "+"].includes(token.text)) {
+			next();
+			return { kind: "unary", operator: token.text, operand: parse_binary(UNARY_PRECEDENCE) };
+		}
+		return parse_postfix(parse_primary());
+	};
+
+	const parse_postfix = (expression: Expression): Expression => {
+		let result = expression;
+		for (;;) {
+			const token = peek();
+			if (token.text === ".") {
+				next();
+				const name = next();
+				if (name.type !== "identifier") {
+					throw new ExpressionError(`Expected a property name at ${name.offset + 1}`);
+				}
+				result = { kind: "member", object: result, name: name.text };
+			} else if (token.text === "[") {
+				next();
+				const index = parse_binary(1);
+				expect("]");
+				result = { kind: "index", object: result, index };
+			} else if (token.text === "(") {
+				throw new ExpressionError("Function calls can't be evaluated by the debugger");
+			} else {
+				return result;
+			}
+		}
+	};
+
+	const parse_primary = (): Expression => {
+		const token = next();
+		switch (token.type) {
+			case "number":
+			case "string":
+				return { kind: "literal", value: token.value };
+			case "identifier":
+				if (token.text === "true" || token.text === "false") {
+					return { kind: "literal", value: token.text === "true" };
+				}
+				if (token.text === "null") {
+					return { kind: "literal", value: undefined };
+				}
+				return { kind: "identifier", name: token.text };
+			case "operator":
+				if (token.text === "(") {
+					const expression = parse_binary(1);
+					expect(")");
+					return expression;
+				}
+				break;
+		}
+		throw new ExpressionError(
+			token.type === "end" ? "Unexpected end of expression" : `Unexpected '${token.text}' at ${token.offset + 1}`,
+		);
+	};
+
+	const expression = parse_binary(1);
+	const rest = peek();
+	if (rest.type !== "end") {
+		throw new ExpressionError(`Unexpected '${rest.text}' at ${rest.offset + 1}`);
+	}
+	return expression;
+}
+
+/**
+ * Evaluates an expression against a paused frame. Values are the ones VariantDecoder
+ * produces: numbers and bigints, strings, arrays, Maps, ObjectIds and the variant classes.
+ * Integers and floats both decode to numbers, so `/` always divides as floats.
+ */
+export async function evaluate_expression(expression: Expression, scope: ExpressionScope): Promise<any> {
+	switch (expression.kind) {
+		case "literal":
+			return expression.value;
+		case "identifier": {
+			const variable = await scope.lookup(expression.name);
+			if (!variable) {
+				throw new ExpressionError(`'${expression.name}' isn't a local, member or global variable`);
+			}
+			return variable.value;
+		}
+		case "member":
+			return get_member(await evaluate_expression(expression.object, scope), expression.name, scope);
+		case "index":
+			return get_index(
+				await evaluate_expression(expression.object, scope),
+				await evaluate_expression(expression.index, scope),
+				scope,
+			);
+		case "unary": {
+			const operand = await evaluate_expression(expression.operand, scope);
+			if (expression.operator === "not") {
+				return !is_truthy(operand);
+			}
+			if (typeof operand === "bigint") {
+				return expression.operator === "-" ? -operand : operand;
+			}
+			if (typeof operand !== "number") {
+				throw new ExpressionError(`Can't apply unary '${expression.operator}' to ${type_of(operand)}`);
+			}
+			return expression.operator === "-" ? -operand : operand;
+		}
+		case "binary": {
+			const left = await evaluate_expression(expression.left, scope);
+			// `and` and `or` don't evaluate their right side when the left one decides
+			if (expression.operator === "and" || expression.operator === "&&") {
+				return is_truthy(left) && is_truthy(await evaluate_expression(expression.right, scope));
+			}
+			if (expression.operator === "or" || expression.operator === "||") {
+				return is_truthy(left) || is_truthy(await evaluate_expression(expression.right, scope));
+			}
+			return apply_operator(expression.operator, left, await evaluate_expression(expression.right, scope));
+		}
+	}
+}
+
+/** Whether a value counts as true in an `if`, like GDScript */
+export function is_truthy(value: any): boolean {
+	if (value === undefined || value === null) {
+		return false;
+	}
+	if (typeof value === "bigint") {
+		return value !== 0n;
+	}
+	if (typeof value === "number" || typeof value === "boolean" || typeof value === "string") {
+		return Boolean(value);
+	}
+	if (Array.isArray(value)) {
+		return value.length > 0;
+	}
+	if (value instanceof ObjectId) {
+		return value.id !== 0n;
+	}
+	if (value instanceof Map && !(value instanceof RawObject)) {
+		return value.size > 0;
+	}
+	return true;
+}
+
+/** A value as the debug console shows it */
+export function format_value(value: any): string {
+	if (value === undefined || value === null) {
+		return "null";
+	}
+	if (typeof value === "number") {
+		return Number.isInteger(value) ? `${value}` : `${Number.parseFloat(value.toFixed(5))}`;
+	}
+	if (typeof value === "bigint" || typeof value === "boolean" || typeof value === "string") {
+		return `${value}`;
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map(format_value).join(", ")}]`;
+	}
+	if (value instanceof RawObject) {
+		return value.class_name;
+	}
+	if (value instanceof Map) {
+		const entries = [...value.entries()].map(([key, item]) => `${format_value(key)}: ${format_value(item)}`);
+		return `{${entries.join(", ")}}`;
+	}
+	if (typeof value.stringify_value === "function") {
+		return `${value.type_name()}${value.stringify_value()}`;
+	}
+	return `${value}`;
+}
+
+async function get_member(value: any, name: string, scope: ExpressionScope): Promise<any> {
+	if (value instanceof ObjectId && !(value instanceof RID)) {
+		const property = (await scope.properties(value)).find((variable) => variable.name === name);
+		if (!property) {
+			throw new ExpressionError(`The object has no property '${name}'`);
+		}
+		return property.value;
+	}
+	if (value instanceof Map) {
+		if (!value.has(name)) {
+			throw new ExpressionError(`Invalid access to key '${name}' on ${type_of(value)}`);
+		}
+		return value.get(name);
+	}
+	if (value && typeof value.sub_values === "function") {
+		const member = value.sub_values().find((variable: GodotVariable) => variable.name === name);
+		if (member) {
+			return member.value;
+		}
+	}
+	throw new ExpressionError(`Invalid access to property '${name}' on ${type_of(value)}`);
+}
+
+async function get_index(value: any, key: any, scope: ExpressionScope): Promise<any> {
+	if (Array.isArray(value) || typeof value === "string") {
+		if (!is_number(key) || !Number.isInteger(Number(key))) {
+			throw new ExpressionError(`Invalid index ${format_value(key)} on ${type_of(value)}`);
+		}
+		const index = Number(key) < 0 ? value.length + Number(key) : Number(key);
+		if (index < 0 || index >= value.length) {
+			throw new ExpressionError(`Index ${format_value(key)} is out of bounds (size ${value.length})`);
+		}
+		return value[index];
+	}
+	if (value instanceof Map && !(value instanceof RawObject)) {
+		for (const [entry_key, entry] of value) {
+			if (values_equal(entry_key, key)) {
+				return entry;
+			}
+		}
+		throw new ExpressionError(`Invalid access to key ${format_value(key)} on Dictionary`);
+	}
+	if (typeof key === "string") {
+		return get_member(value, key, scope);
+	}
+	throw new ExpressionError(`Invalid index ${format_value(key)} on ${type_of(value)}`);
+}
+
+function apply_operator(operator: string, left: any, right: any): any {
+	switch (operator) {
+		case "==":
+			return values_equal(left, right);
+		case "!=":
+			return !values_equal(left, right);
+		case "in":
+			return contains(right, left);
+		case "not in":
+			return !contains(right, left);
+	}
+
+	if (typeof left === "string" && typeof right === "string") {
+		switch (operator) {
+			case "+":
+				return left + right;
+			case "<":
+				return left < right;
+			case ">":
+				return left > right;
+			case "<=":
+				return left <= right;
+			case ">=":
+				return left >= right;
+		}
+	}
+	if (!is_number(left) || !is_number(right)) {
+		throw new ExpressionError(`Invalid operands ${type_of(left)} and ${type_of(right)} for '${operator}'`);
+	}
+
+	// Stay in bigints while both sides are 64 bit integers, so large ids compare exactly
+	const both_big = typeof left === "bigint" && typeof right === "bigint";
+	const a: any = both_big ? left : Number(left);
+	const b: any = both_big ? right : Number(right);
+	switch (operator) {
+		case "+":
+			return a + b;
+		case "-":
+			return a - b;
+		case "*":
+			return a * b;
+		case "/":
+		case "%":
+			if (both_big && b === 0n) {
+				throw new ExpressionError("Division by zero");
+			}
+			return operator === "/" ? a / b : a % b;
+		case "<":
+			return a < b;
+		case ">":
+			return a > b;
+		case "<=":
+			return a <= b;
+		case ">=":
+			return a >= b;
+	}
+	throw new ExpressionError(`Unknown operator '${operator}'`);
+}
+
+function values_equal(left: any, right: any): boolean {
+	if (is_number(left) && is_number(right)) {
+		return Number(left) === Number(right);
+	}
+	if ((left ?? null) === null || (right ?? null) === null) {
+		return (left ?? null) === (right ?? null);
+	}
+	if (left instanceof ObjectId && right instanceof ObjectId) {
+		return left.id === right.id;
+	}
+	if (Array.isArray(left) && Array.isArray(right)) {
+		return left.length === right.length && left.every((item, i) => values_equal(item, right[i]));
+	}
+	if (typeof left.stringify_value === "function" && typeof right.stringify_value === "function") {
+		return left.type_name() === right.type_name() && left.stringify_value() === right.stringify_value();
+	}
+	return left === right;
+}
+
+function contains(container: any, item: any): boolean {
+	if (typeof container === "string") {
+		return typeof item === "string" && container.includes(item);
+	}
+	if (Array.isArray(container)) {
+		return container.some((element) => values_equal(element, item));
+	}
+	if (container instanceof Map) {
+		return [...container.keys()].some((key) => values_equal(key, item));
+	}
+	throw new ExpressionError(`Can't use 'in' on ${type_of(container)}`);
+}
+
+function is_number(value: any): value is number | bigint {
+	return typeof value === "number" || typeof value === "bigint";
+}
+
+function type_of(value: any): string {
+	if (value === undefined || value === null) {
+		return "null";
+	}
+	if (typeof value === "bigint" || (typeof value === "number" && Number.isInteger(value))) {
+		return "int";
+	}
+	if (typeof value === "number") {
+		return "float";
+	}
+	if (typeof value === "boolean") {
+		return "bool";
+	}
+	if (typeof value === "string") {
+		return "String";
+	}
+	if (Array.isArray(value)) {
+		return "Array";
+	}
+	if (value instanceof RawObject) {
+		return value.class_name;
+	}
+	if (value instanceof ObjectId && !(value instanceof RID)) {
+		return "Object";
+	}
+	if (value instanceof Map) {
+		return "Dictionary";
+	}
+	return typeof value.type_name === "function" ? value.type_name() : typeof value;
+}
@@ -19,6 +19,8 @@ export class GodotObjectPromise {
 	private _resolve!: (value: GodotObject | PromiseLike<GodotObject>) => void;
 	private _reject!: (reason?: any) => void;
 	public promise: Promise<GodotObject>;
+	/** Whether it was resolved or rejected */
+	public settled = false;
 	private timeoutId?: NodeJS.Timeout;
 
 	constructor(timeoutMs?: number) {
@@ -28,6 +30,7 @@ export class GodotObjectPromise {
 
 			if (timeoutMs !== undefined) {
 				this.timeoutId = setTimeout(() => {
+					this.settled = true;
 					reject_arg(new Error("GodotObjectPromise timed out"));
 				}, timeoutMs);
 			}
@@ -39,6 +42,7 @@ export class GodotObjectPromise {
 			clearTimeout(this.timeoutId);
 			this.timeoutId = undefined;
 		}
+		this.settled = true;
 		await this._resolve(value);
 	}
 
@@ -47,6 +51,7 @@ export class GodotObjectPromise {
 			clearTimeout(this.timeoutId);
 			this.timeoutId = undefined;
 		}
+		this.settled = true;
 		await this._reject(reason);
 	}
 }
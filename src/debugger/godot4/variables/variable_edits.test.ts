@@ -0,0 +1,48 @@
+import { expect } from "chai";
+import { parse_edited_value, with_component } from "./variable_edits";
+import { Color, Rect2, StringName, Vector2, Vector2i, Vector3 } from "./variants";
+
+suite("Variable edits", () => {
+	test("parses typed text into the variable's type", () => {
+		expect(parse_edited_value(" 2.5 ", 1)).to.equal(2.5);
+		expect(parse_edited_value("12345678901234567890", 1n)).to.equal(12345678901234567890n);
+		expect(parse_edited_value("false", true)).to.equal(false);
+		expect(parse_edited_value("1", false)).to.equal(true);
+		expect(parse_edited_value("Player", "Enemy")).to.equal("Player");
+		expect(parse_edited_value('"say \\"hi\\""', "")).to.equal('say "hi"');
+		expect(parse_edited_value("&idle", new StringName("run"))).to.deep.equal(new StringName("idle"));
+		expect(parse_edited_value("Vector2(1, -2.5)", new Vector2())).to.deep.equal(new Vector2(1, -2.5));
+		expect(parse_edited_value("(1.7, 2)", new Vector2i()))
+			.to.be.instanceOf(Vector2i)
+			.and.deep.include({ x: 1, y: 2 });
+		expect(parse_edited_value("1, 0, 0", new Color(0, 0, 0, 0.5))).to.deep.equal(new Color(1, 0, 0));
+	});
+
+	test("rejects text that doesn't fit the type", () => {
+		expect(() => parse_edited_value("fast", 1)).to.throw("'fast' isn't a number");
+		expect(() => parse_edited_value("yes", true)).to.throw("isn't true or false");
+		expect(() => parse_edited_value("(1, 2)", new Vector3())).to.throw("Expected 3 numbers for a Vector3");
+		expect(() => parse_edited_value("[]", [1])).to.throw("Only numbers, booleans, strings");
+	});
+
+	test("replaces nested components without changing the original", () => {
+		const rect = new Rect2(new Vector2(1, 2), new Vector2(3, 4));
+		const changed = with_component(rect, ["size", "x"], 10);
+		expect(changed)
+			.to.be.instanceOf(Rect2)
+			.and.deep.equal(new Rect2(new Vector2(1, 2), new Vector2(10, 4)));
+		expect(rect.size.x).to.equal(3);
+
+		const items = [new Color(1, 1, 1), "b"];
+		expect(with_component(items, ["0", "a"], 0.5)).to.deep.equal([new Color(1, 1, 1, 0.5), "b"]);
+		const speed = new StringName("speed");
+		const stats = new Map<any, any>([
+			["hp", 3],
+			[speed, new Vector2(0, 1)],
+		]);
+		expect(with_component(stats, ["StringNamespeed", "y"], 2).get(speed)).to.deep.equal(new Vector2(0, 2));
+		expect(stats.get(speed).y).to.equal(1);
+		expect(() => with_component(items, ["2"], 1)).to.throw("Index 2 is out of bounds");
+		expect(() => with_component(new Vector2(), ["z"], 1)).to.throw("Can't change 'z' of Vector2");
+	});
+});
@@ -0,0 +1,105 @@
+import { Color, Plane, Quat, StringName, Vector2, Vector2i, Vector3, Vector3i, Vector4, Vector4i } from "./variants";
+
+/** The types whose components can all be typed in at once, like `(1, 2)` for a Vector2 */
+const NUMBER_TUPLES = [Vector2, Vector2i, Vector3, Vector3i, Vector4, Vector4i, Color, Quat, Plane];
+const INTEGER_TUPLES: unknown[] = [Vector2i, Vector3i, Vector4i];
+
+/**
+ * Parses the text typed in the Variables or Watch view into a value of the same type as the
+ * variable's current one. Vectors, Colors, Quats and Planes take their numbers, like `(1, 2)`
+ * or `Vector2(1, 2)`; a Color's alpha can be left out.
+ */
+export function parse_edited_value(text: string, previous: any): any {
+	const trimmed = text.trim();
+	switch (typeof previous) {
+		case "number":
+			return parse_number(trimmed);
+		case "bigint":
+			try {
+				return BigInt(trimmed);
+			} catch {
+				throw new Error(`'${trimmed}' isn't an integer`);
+			}
+		case "boolean":
+			if (trimmed === "true" || trimmed === "1") {
+				return true;
+			}
+			if (trimmed === "false" || trimmed === "0") {
+				return false;
+			}
+			throw new Error(`'${trimmed}' isn't true or false`);
+		case "string":
+			return unquote(trimmed);
+	}
+	if (previous instanceof StringName) {
+		return new StringName(unquote(trimmed.replace(/^&/, "")));
+	}
+	const tuple = NUMBER_TUPLES.find((type) => previous?.constructor === type);
+	if (tuple) {
+		const type_name: string = previous.type_name();
+		const match = new RegExp(`^(?:${type_name})?\\s*\\(?([^()]*)\\)?$`).exec(trimmed);
+		const numbers = match ? match[1].split(",").map((part) => parse_number(part.trim())) : [];
+		const count = previous.sub_values().length;
+		if (numbers.length !== count && !(tuple === Color && numbers.length === 3)) {
+			throw new Error(
+				`Expected ${count} numbers for a ${type_name}, like ${type_name}${previous.stringify_value()}`,
+			);
+		}
+		const components = INTEGER_TUPLES.includes(tuple) ? numbers.map(Math.trunc) : numbers;
+		return new (tuple as new (...args: number[]) => any)(...components);
+	}
+	throw new Error("Only numbers, booleans, strings, vectors and colors can be changed, or their components");
+}
+
+/**
+ * A copy of a value with one of its nested components replaced, the path naming components like
+ * the Variables view does: `x` of a Vector2, `0` of an Array, or a Dictionary's key
+ */
+export function with_component(value: any, path: string[], component: any): any {
+	if (path.length === 0) {
+		return component;
+	}
+	const [name, ...rest] = path;
+	if (Array.isArray(value)) {
+		const index = Number(name);
+		if (!Number.isInteger(index) || index < 0 || index >= value.length) {
+			throw new Error(`Index ${name} is out of bounds`);
+		}
+		const copy = [...value];
+		copy[index] = with_component(value[index], rest, component);
+		return copy;
+	}
+	if (value instanceof Map) {
+		const key = [...value.keys()].find((key) => key_name(key) === name);
+		if (key === undefined) {
+			throw new Error(`Key '${name}' not found`);
+		}
+		const copy = new Map(value);
+		copy.set(key, with_component(value.get(key), rest, component));
+		return copy;
+	}
+	if (typeof value?.sub_values === "function" && value.sub_values().some((sub_value) => sub_value.name === name)) {
+		const copy = Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+		copy[name] = with_component(value[name], rest, component);
+		return copy;
+	}
+	throw new Error(`Can't change '${name}' of ${value?.type_name?.() ?? typeof value}`);
+}
+
+/** How a Dictionary key is named in the Variables view, see file://../helpers.ts get_sub_values */
+function key_name(key: any): string {
+	return typeof key?.stringify_value === "function" ? `${key.type_name()}${key.stringify_value()}` : `${key}`;
+}
+
+function parse_number(text: string): number {
+	const value = text === "" ? Number.NaN : Number(text);
+	if (Number.isNaN(value)) {
+		throw new Error(`'${text}' isn't a number`);
+	}
+	return value;
+}
+
+function unquote(text: string): string {
+	const match = /^(["'])(.*)\1$/s.exec(text);
+	return match ? match[2].replace(/\\(.)/g, (_, char) => ({ n: "\n", t: "\t" })[char] ?? char) : text;
+}
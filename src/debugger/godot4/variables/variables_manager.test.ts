@@ -0,0 +1,25 @@
+import { expect } from "chai";
+import { ServerController } from "../server_controller";
+import { VariablesManager } from "./variables_manager";
+
+suite("VariablesManager", () => {
+	test("forgets fetched objects at a new stop, and still resolves those being fetched", async () => {
+		const requested: bigint[] = [];
+		const controller = {
+			request_inspect_object: (id: bigint) => requested.push(id),
+		} as unknown as ServerController;
+		const manager = new VariablesManager(controller);
+
+		const fetched = manager.get_godot_object(1n);
+		manager.resolve_variable(1n, "Node", []);
+		await fetched;
+		const pending = manager.get_godot_object(2n);
+
+		manager.clear_cache();
+		manager.resolve_variable(2n, "Sprite2D", []);
+		expect(await pending).to.include({ godot_id: 2n, type: "Sprite2D" });
+
+		manager.get_godot_object(1n);
+		expect(requested).to.deep.equal([1n, 2n, 1n]);
+	});
+});
@@ -1,10 +1,34 @@
 import { DebugProtocol } from "@vscode/debugprotocol";
 import { GodotVariable } from "../../debug_runtime";
+import { get_sub_values } from "../helpers";
 import { ServerController } from "../server_controller";
+import { evaluate_expression, parse_expression } from "./expressions";
 import { GodotIdToVscodeIdMapper, GodotIdWithPath } from "./godot_id_to_vscode_id_mapper";
 import { GodotObject, GodotObjectPromise } from "./godot_object_promise";
+import { parse_edited_value, with_component } from "./variable_edits";
 import { ObjectId } from "./variants";
 
+/** How long to wait for Godot to evaluate an expression before evaluating it here instead */
+const EVALUATION_TIMEOUT_MS = 2000;
+
+/**
+ * godot_id of the pseudo object holding the values of evaluated expressions, so they can be
+ * expanded like variables. Far below the scopes' godot_ids, see {@link VariablesManager.get_or_create_frame_scopes}
+ */
+const EVALUATIONS_GODOT_ID = -(2n ** 62n);
+
+/** Where a variable is stored in Godot, to change it */
+interface VariableLocation {
+	/** The object it's a property of, or a component of a property of */
+	object_id: bigint;
+	property: string;
+	/** The property's current value */
+	value: any;
+	/** The path to the variable within the property's value, empty for the property itself */
+	components: string[];
+	variable: GodotVariable;
+}
+
 export interface VsCodeScopeIDs {
 	Locals: number;
 	Members: number;
@@ -21,6 +45,24 @@ export class VariablesManager {
 
 	private frame_id_to_scopes_map: Map<number, VsCodeScopeIDs> = new Map();
 
+	/** Pending {@link request_evaluation}s, by expression */
+	private evaluation_requests: Map<string, ((variable: GodotVariable) => void)[]> = new Map();
+	private evaluations: GodotVariable[] = [];
+
+	/**
+	 * Forgets the objects and evaluations fetched at the previous stop, which are out of date.
+	 * Those still being fetched are kept: Godot's replies come after the stop and resolve them
+	 * for whoever is waiting, rather than finding nothing to resolve.
+	 */
+	public clear_cache() {
+		for (const [godot_id, variable_promise] of this.godot_object_promises) {
+			if (variable_promise.settled) {
+				this.godot_object_promises.delete(godot_id);
+			}
+		}
+		this.evaluations = [];
+	}
+
 	/**
 	 * Returns Locals, Members, and Globals vscode_ids
 	 * @param stack_frame_id the id of the stack frame
@@ -157,21 +199,9 @@ export class VariablesManager {
 
 		for (let i = 0; i < variable_names.length; i++) {
 			if (i === 0) {
-				// find the first part of variable_name in scopes. Locals first, then Members, then Globals
-				const vscode_scope_ids = this.get_or_create_frame_scopes(stack_frame_id);
-				const vscode_ids = [vscode_scope_ids.Locals, vscode_scope_ids.Members, vscode_scope_ids.Globals];
-				const godot_ids = vscode_ids
-					.map((vscode_id) => this.godot_id_to_vscode_id_mapper.get_godot_id_with_path(vscode_id))
-					.map((godot_id_with_path) => godot_id_with_path.godot_id);
-				for (const godot_id of godot_ids) {
-					// check each scope for requested variable
-					const scope = await this.get_godot_object(godot_id);
-					variable = scope.sub_values.find((sv) => sv.name === variable_names[0]);
-					if (variable !== undefined) {
-						parent_id = godot_id;
-						break;
-					}
-				}
+				const found = await this.find_frame_variable(variable_names[0], stack_frame_id);
+				variable = found?.variable;
+				parent_id = found?.scope_godot_id;
 			} else {
 				// just look up the subpath using the current variable
 				if (variable.value instanceof ObjectId) {
@@ -188,6 +218,37 @@ export class VariablesManager {
 			}
 		}
 
+		return this.parse_top_variable(variable, parent_id);
+	}
+
+	/**
+	 * Parses the value of an evaluated expression into a variable named after it, which can be
+	 * expanded in the Watch and Debug Console like the variables of a scope
+	 */
+	public async get_vscode_variable_for_value(expression: string, value: any): Promise<DebugProtocol.Variable> {
+		const variable: GodotVariable = {
+			name: `${this.evaluations.length}`,
+			value: value,
+			sub_values: get_sub_values(value),
+		};
+		this.evaluations.push(variable);
+		if (!this.godot_object_promises.has(EVALUATIONS_GODOT_ID)) {
+			const variable_promise = new GodotObjectPromise();
+			this.godot_object_promises.set(EVALUATIONS_GODOT_ID, variable_promise);
+			variable_promise.resolve({
+				godot_id: EVALUATIONS_GODOT_ID,
+				type: "Evaluations",
+				sub_values: this.evaluations,
+			});
+		}
+
+		const parsed_variable = await this.parse_top_variable(variable, EVALUATIONS_GODOT_ID);
+		parsed_variable.name = expression;
+		return parsed_variable;
+	}
+
+	/** Parses a variable found directly in a scope or object, following object ids to the object */
+	private async parse_top_variable(variable: GodotVariable, parent_id: bigint): Promise<DebugProtocol.Variable> {
 		const parsed_variable = await this.parse_variable(
 			variable,
 			undefined,
@@ -207,6 +268,166 @@ export class VariablesManager {
 		return parsed_variable;
 	}
 
+	/**
+	 * Finds a variable of a stack frame by name, in its Locals first, then Members, then Globals
+	 * @returns the variable and the godot_id of the scope it was found in
+	 */
+	public async find_frame_variable(
+		variable_name: string,
+		stack_frame_id: number,
+	): Promise<{ variable: GodotVariable; scope_godot_id: bigint } | undefined> {
+		const vscode_scope_ids = this.get_or_create_frame_scopes(stack_frame_id);
+		const vscode_ids = [vscode_scope_ids.Locals, vscode_scope_ids.Members, vscode_scope_ids.Globals];
+		const godot_ids = vscode_ids
+			.map((vscode_id) => this.godot_id_to_vscode_id_mapper.get_godot_id_with_path(vscode_id))
+			.map((godot_id_with_path) => godot_id_with_path.godot_id);
+		for (const godot_id of godot_ids) {
+			// check each scope for requested variable
+			const scope = await this.get_godot_object(godot_id);
+			const variable = scope.sub_values.find((sv) => sv.name === variable_name);
+			if (variable !== undefined) {
+				return { variable, scope_godot_id: godot_id };
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Evaluates an expression in a stack frame. Godot 4.3+ evaluates it itself, which can call
+	 * functions. Otherwise, or when Godot answers null, which it also does for expressions it
+	 * failed to evaluate, it's evaluated here from the frame's variables, see {@link evaluate_expression}
+	 * @param allow_calls false to only evaluate here, where functions can't be called
+	 * @returns the decoded value of the expression
+	 */
+	public async evaluate(expression: string, stack_frame_id: number, allow_calls = true): Promise<any> {
+		if (!allow_calls || !this.controller.can_evaluate()) {
+			return this.evaluate_here(expression, stack_frame_id);
+		}
+		const variable = await this.request_evaluation(expression, stack_frame_id);
+		if (variable?.value !== undefined) {
+			return variable.value;
+		}
+		try {
+			return await this.evaluate_here(expression, stack_frame_id);
+		} catch (error) {
+			if (variable !== undefined) {
+				// Godot evaluated what can't be evaluated here, to null
+				return undefined;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Asks Godot to evaluate an expression in a stack frame
+	 * @returns the result, or undefined when Godot doesn't answer in time
+	 */
+	public async request_evaluation(expression: string, stack_frame_id: number): Promise<GodotVariable | undefined> {
+		const requests = this.evaluation_requests.get(expression) ?? [];
+		this.evaluation_requests.set(expression, requests);
+		let timeout: NodeJS.Timeout;
+		const variable = await new Promise<GodotVariable | undefined>((resolve) => {
+			requests.push(resolve);
+			timeout = setTimeout(() => {
+				requests.splice(requests.indexOf(resolve), 1);
+				resolve(undefined);
+			}, EVALUATION_TIMEOUT_MS);
+			// Godot answers with 'evaluation_return', see file://../server_controller.ts
+			this.controller.request_evaluate(expression, stack_frame_id);
+		});
+		clearTimeout(timeout);
+		return variable;
+	}
+
+	public resolve_evaluation(variable: GodotVariable) {
+		const resolve = this.evaluation_requests.get(variable.name)?.shift();
+		if (resolve === undefined) {
+			throw new Error(
+				`Received 'evaluation_return' for '${variable.name}' but no evaluation request to resolve found`,
+			);
+		}
+		resolve(variable);
+	}
+
+	private async evaluate_here(expression: string, stack_frame_id: number): Promise<any> {
+		return evaluate_expression(parse_expression(expression), {
+			lookup: async (name) => (await this.find_frame_variable(name, stack_frame_id))?.variable,
+			properties: async (object) => (await this.get_godot_object(object.id)).sub_values,
+		});
+	}
+
+	/**
+	 * Changes a variable, parsing the text typed for it into a value of its current type, see
+	 * {@link parse_edited_value}. Only object properties can be changed, members being properties of
+	 * `self`; components of Vectors, Colors, Arrays and Dictionaries are changed by setting the property.
+	 * @param godot_id the godot_id of the scope or object to start from
+	 * @param path the names leading from it to the variable
+	 * @returns the changed variable
+	 */
+	public async set_variable(godot_id: bigint, path: string[], text: string): Promise<DebugProtocol.Variable> {
+		const location = await this.find_variable_location(godot_id, path);
+		const value = parse_edited_value(text, location.variable.value);
+		const property_value = with_component(location.value, location.components, value);
+		this.controller.set_object_property(location.object_id, location.property, property_value);
+		// Godot answers in order, so the object fetched again has the new value
+		await this.get_godot_object(location.object_id, true);
+
+		const variable: GodotVariable = {
+			name: path[path.length - 1],
+			value: value,
+			sub_values: get_sub_values(value),
+		};
+		return this.parse_variable(variable, 0, godot_id, path.slice(0, -1), this.godot_id_to_vscode_id_mapper);
+	}
+
+	private async find_variable_location(godot_id: bigint, path: string[]): Promise<VariableLocation> {
+		let object_id = godot_id;
+		let property_index = 0;
+		let sub_values = (await this.get_godot_object(godot_id)).sub_values;
+		let variable: GodotVariable;
+		let property: GodotVariable;
+		for (const [idx, name] of path.entries()) {
+			if (variable?.value instanceof ObjectId) {
+				// the rest of the path is in another object
+				object_id = variable.value.id;
+				property_index = idx;
+				sub_values = (await this.get_godot_object(object_id)).sub_values;
+			}
+			variable = sub_values?.find((sv) => sv.name === name);
+			if (variable === undefined) {
+				throw new Error(`Cannot change '${path.join(".")}'. Following subpath not found: '${name}'`);
+			}
+			if (idx === property_index) {
+				property = variable;
+			}
+			sub_values = variable.sub_values;
+		}
+
+		if (object_id < 0) {
+			const scope =
+				object_id === EVALUATIONS_GODOT_ID
+					? undefined
+					: ["Locals", "Members", "Globals"][Number((-object_id - 1n) % 3n)];
+			const self = (await this.get_godot_object(object_id)).sub_values.find((sv) => sv.name === "self");
+			if (scope !== "Members" || !(self?.value instanceof ObjectId) || property === self) {
+				throw new Error(
+					scope === undefined
+						? "Evaluated values can't be changed, only the variables they were read from"
+						: `Godot's debugger can't change ${scope.toLowerCase()}, only members and object properties`,
+				);
+			}
+			object_id = self.value.id;
+		}
+
+		return {
+			object_id: object_id,
+			property: property.name,
+			value: property.value,
+			components: path.slice(property_index + 1),
+			variable: variable,
+		};
+	}
+
 	private async parse_variable(
 		va: GodotVariable,
 		vscode_id?: number,
@@ -0,0 +1,285 @@
+import * as vscode from "vscode";
+import { createLogger, get_nonce, register_command } from "../utils";
+import {
+	BUILTIN_MONITORS,
+	DEFAULT_MONITORS,
+	type MonitorInfo,
+	type MonitorSample,
+	type MonitorThreshold,
+	custom_monitor_info,
+	display_unit,
+	display_value,
+	monitor_label,
+	monitors_csv,
+	parse_monitor_names,
+	parse_monitor_values,
+	threshold_crossed,
+} from "./godot4/monitors";
+
+const log = createLogger("debugger.monitors", { output: "Godot Debugger" });
+
+/** An hour, Godot sends the monitors every second */
+const MAX_SAMPLES = 3600;
+const SELECTED_KEY = "godotToolsCsharp.monitors.selected";
+const THRESHOLDS_KEY = "godotToolsCsharp.monitors.thresholds";
+
+/**
+ * "Show Monitors": plots the performance monitors a running game sends to the debugger, the
+ * built-in ones and those added with `Performance.add_custom_monitor()`, and warns when one
+ * crosses a threshold. Samples are kept while the panel is closed.
+ */
+export class GodotMonitorsViewer {
+	private panel?: vscode.WebviewPanel;
+	private samples: MonitorSample[] = [];
+	private custom_names: string[] = [];
+	/** Whether the game that sent the samples is still running, the next one starts over */
+	private connected = false;
+
+	constructor(private context: vscode.ExtensionContext) {
+		context.subscriptions.push(
+			register_command("debugger.showMonitors", this.show.bind(this)),
+			register_command("debugger.exportMonitors", this.export.bind(this)),
+		);
+	}
+
+	/**
+	 * Handles a performance monitors message from the game
+	 * @returns whether it was one
+	 */
+	public handle_message(command: string, parameters: any[]): boolean {
+		switch (command) {
+			case "performance:profile_names":
+				this.start_if_needed();
+				this.custom_names = parse_monitor_names(parameters);
+				this.post_monitors();
+				return true;
+			case "performance:profile_frame": {
+				this.start_if_needed();
+				const sample = { time: Date.now(), values: parse_monitor_values(parameters, this.custom_names) };
+				this.check_thresholds(this.samples[this.samples.length - 1], sample);
+				this.samples.push(sample);
+				if (this.samples.length > MAX_SAMPLES) {
+					this.samples.splice(0, this.samples.length - MAX_SAMPLES);
+				}
+				this.post_samples([sample], false);
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/** The game was closed */
+	public stopped() {
+		this.connected = false;
+		this.panel?.webview.postMessage({ type: "state", connected: false });
+	}
+
+	private start_if_needed() {
+		if (this.connected) {
+			return;
+		}
+		this.connected = true;
+		this.samples = [];
+		this.custom_names = [];
+		this.post_monitors();
+		this.post_samples([], true);
+		this.panel?.webview.postMessage({ type: "state", connected: true });
+	}
+
+	private get monitors(): MonitorInfo[] {
+		return [...BUILTIN_MONITORS, ...this.custom_names.map(custom_monitor_info)];
+	}
+
+	private get selected(): string[] {
+		return this.context.workspaceState.get<string[]>(SELECTED_KEY, DEFAULT_MONITORS);
+	}
+
+	private get thresholds(): Record<string, MonitorThreshold> {
+		return this.context.workspaceState.get<Record<string, MonitorThreshold>>(THRESHOLDS_KEY, {});
+	}
+
+	private check_thresholds(previous: MonitorSample | undefined, sample: MonitorSample) {
+		for (const [id, threshold] of Object.entries(this.thresholds)) {
+			const monitor = this.monitors.find((monitor) => monitor.id === id);
+			const raw = sample.values[id];
+			if (!monitor || raw === undefined) {
+				continue;
+			}
+			const value = display_value(monitor.unit, raw);
+			const last = previous?.values[id];
+			const last_value = last === undefined ? undefined : display_value(monitor.unit, last);
+			if (!threshold_crossed(threshold, last_value, value)) {
+				continue;
+			}
+			const limit =
+				threshold.above !== undefined && value > threshold.above
+					? `above ${threshold.above}`
+					: `below ${threshold.below}`;
+			const message = `${monitor_label(monitor)} is ${format_number(value)} ${display_unit(monitor.unit)}, ${limit}`;
+			log.warn(`Monitor alert: ${message}`);
+			vscode.window.showWarningMessage(`Godot monitor: ${message}`, "Show Monitors").then((choice) => {
+				if (choice) {
+					this.show();
+				}
+			});
+		}
+	}
+
+	private async show(): Promise<void> {
+		if (this.panel) {
+			this.panel.reveal();
+			return;
+		}
+
+		this.panel = vscode.window.createWebviewPanel(
+			"godotToolsCsharp.monitors",
+			"Godot Monitors",
+			vscode.ViewColumn.Active,
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true,
+				localResourceRoots: [this.context.extensionUri],
+			},
+		);
+		this.panel.iconPath = new vscode.ThemeIcon("graph-line");
+		this.panel.webview.html = this.get_html(this.panel.webview);
+		this.panel.webview.onDidReceiveMessage((message) => this.handle_webview_message(message));
+		this.panel.onDidDispose(() => {
+			this.panel = undefined;
+		});
+		this.post_monitors();
+		this.post_samples(this.samples, true);
+		this.panel.webview.postMessage({ type: "state", connected: this.connected });
+	}
+
+	private async export(): Promise<void> {
+		if (this.samples.length === 0) {
+			vscode.window.showInformationMessage("There are no monitor samples to export, run the game first.");
+			return;
+		}
+		const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+		const uri = await vscode.window.showSaveDialog({
+			defaultUri: folder && vscode.Uri.joinPath(folder, "godot_monitors.csv"),
+			filters: { CSV: ["csv"] },
+			title: "Export Godot Monitors",
+		});
+		if (!uri) {
+			return;
+		}
+		const monitors = this.monitors.filter((monitor) => this.samples.some((sample) => monitor.id in sample.values));
+		await vscode.workspace.fs.writeFile(uri, Buffer.from(monitors_csv(monitors, this.samples), "utf-8"));
+		log.info(`Exported ${this.samples.length} monitor samples to ${uri.fsPath}`);
+	}
+
+	/** The monitors the webview can show, with units as they're shown, the selected ones, and the thresholds */
+	private post_monitors() {
+		this.panel?.webview.postMessage({
+			type: "monitors",
+			monitors: this.monitors.map((monitor) => ({ ...monitor, unit: display_unit(monitor.unit) })),
+			selected: this.selected,
+			thresholds: this.thresholds,
+		});
+	}
+
+	/** Sends samples to the webview in the unit they're shown in, replacing the ones it has when `reset` */
+	private post_samples(samples: MonitorSample[], reset: boolean) {
+		if (!this.panel) {
+			return;
+		}
+		const units = new Map(this.monitors.map((monitor) => [monitor.id, monitor.unit]));
+		this.panel.webview.postMessage({
+			type: "samples",
+			reset: reset,
+			samples: samples.map((sample) => ({
+				time: sample.time,
+				values: Object.fromEntries(
+					Object.entries(sample.values).map(([id, value]) => [
+						id,
+						display_value(units.get(id) ?? "count", value),
+					]),
+				),
+			})),
+			max_samples: MAX_SAMPLES,
+		});
+	}
+
+	private async handle_webview_message(message: any): Promise<void> {
+		switch (message.type) {
+			case "select":
+				await this.context.workspaceState.update(SELECTED_KEY, message.selected);
+				break;
+			case "threshold": {
+				const thresholds = { ...this.thresholds };
+				const threshold: MonitorThreshold = {};
+				if (Number.isFinite(message.above)) {
+					threshold.above = message.above;
+				}
+				if (Number.isFinite(message.below)) {
+					threshold.below = message.below;
+				}
+				if (threshold.above === undefined && threshold.below === undefined) {
+					delete thresholds[message.id];
+				} else {
+					thresholds[message.id] = threshold;
+				}
+				await this.context.workspaceState.update(THRESHOLDS_KEY, thresholds);
+				this.post_monitors();
+				break;
+			}
+			case "export":
+				await this.export();
+				break;
+			case "clear":
+				this.samples = [];
+				this.post_samples([], true);
+				break;
+		}
+	}
+
+	private get_html(webview: vscode.Webview): string {
+		const nonce = get_nonce();
+		const media = (...segments: string[]) =>
+			webview.asWebviewUri(vscode.Uri.joinPath(this.context.extensionUri, "media", ...segments));
+		const codiconsUri = webview.asWebviewUri(
+			vscode.Uri.joinPath(this.context.extensionUri, "node_modules", "@vscode/codicons", "dist", "codicon.css"),
+		);
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource};">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<link href="${codiconsUri}" rel="stylesheet">
+	<link href="${media("monitors", "styles.css")}" rel="stylesheet">
+	<title>Godot Monitors</title>
+</head>
+<body>
+	<div class="monitors">
+		<div class="monitors-toolbar">
+			<button class="monitors-button" id="pauseButton" title="Pause the Graphs">
+				<span class="codicon codicon-debug-pause"></span> <span id="pauseLabel">Pause</span>
+			</button>
+			<button class="monitors-button" id="clearButton" title="Clear Samples">
+				<span class="codicon codicon-clear-all"></span>
+			</button>
+			<button class="monitors-button" id="exportButton" title="Export to CSV">
+				<span class="codicon codicon-export"></span> CSV
+			</button>
+			<details class="monitors-picker">
+				<summary class="monitors-button">Monitors</summary>
+				<div class="monitors-picker-list" id="picker"></div>
+			</details>
+			<span class="monitors-status" id="status"></span>
+		</div>
+		<div class="monitors-charts" id="charts"></div>
+	</div>
+	<script nonce="${nonce}" src="${media("monitors", "main.js")}"></script>
+</body>
+</html>`;
+	}
+}
+
+function format_number(value: number): string {
+	return Number.isInteger(value) ? `${value}` : value.toFixed(2);
+}
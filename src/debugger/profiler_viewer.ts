@@ -0,0 +1,303 @@
+import * as vscode from "vscode";
+import { convert_resource_path_to_uri, createLogger, get_nonce, get_project_version, register_command } from "../utils";
+import {
+	type ProfiledFunction,
+	type ProfilerFrame,
+	aggregate_functions,
+	flame_graph,
+	parse_function_signature,
+	parse_profiler_frame,
+	profiler_options,
+	script_function_fields,
+} from "./godot4/profiler";
+
+const log = createLogger("debugger.profiler", { output: "Godot Debugger" });
+
+/** A minute at 60 FPS */
+const MAX_FRAMES = 3600;
+/** Script functions Godot sends per frame, the slowest ones. The Godot editor's default */
+const MAX_FUNCTIONS_PER_FRAME = 64;
+/** Frames arrive every frame, the webview is updated at most this often */
+const UPDATE_INTERVAL_MS = 250;
+
+/**
+ * Sends `profiler:<name>` to the profiled game: a Godot 4 debug session's, or the Scene Tree
+ * Monitor's for C# projects
+ */
+export type ProfilerToggle = (name: string, enable: boolean, options?: any[]) => void;
+
+/**
+ * "Show Profiler": starts Godot's script profiler in the running game and shows the frame times,
+ * the time spent in each function, and a flame graph of the selected frame.
+ */
+export class GodotProfilerViewer {
+	private panel?: vscode.WebviewPanel;
+	private frames: ProfilerFrame[] = [];
+	private signatures = new Map<number, ProfiledFunction>();
+	private fields_per_function = 5;
+	private running = false;
+	/** Number of the selected frame, or undefined for all frames */
+	private selected?: number;
+	/** Frames received since the webview was last updated */
+	private new_frames: ProfilerFrame[] = [];
+	private update_timer?: NodeJS.Timeout;
+
+	constructor(
+		private context: vscode.ExtensionContext,
+		private get_toggle: () => ProfilerToggle | undefined,
+	) {
+		context.subscriptions.push(
+			register_command("debugger.showProfiler", this.show.bind(this)),
+			register_command("debugger.startProfiler", this.start.bind(this)),
+			register_command("debugger.stopProfiler", this.stop.bind(this)),
+			{ dispose: () => clearTimeout(this.update_timer) },
+		);
+	}
+
+	/**
+	 * Handles a profiler message from the game
+	 * @returns whether it was one
+	 */
+	public handle_message(command: string, parameters: any[]): boolean {
+		switch (command) {
+			case "servers:function_signature": {
+				const { id, function: profiled } = parse_function_signature(parameters);
+				this.signatures.set(id, profiled);
+				return true;
+			}
+			case "servers:profile_frame":
+			case "servers:profile_total": {
+				if (!this.running) {
+					return true;
+				}
+				const frame = parse_profiler_frame(parameters, this.fields_per_function);
+				this.frames.push(frame);
+				if (this.frames.length > MAX_FRAMES) {
+					this.frames.splice(0, this.frames.length - MAX_FRAMES);
+				}
+				this.new_frames.push(frame);
+				this.schedule_update();
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/** The profiled game was closed */
+	public stopped() {
+		if (this.running) {
+			this.running = false;
+			this.post_state();
+		}
+	}
+
+	private async show(): Promise<void> {
+		if (this.panel) {
+			this.panel.reveal();
+			return;
+		}
+
+		this.panel = vscode.window.createWebviewPanel(
+			"godotToolsCsharp.profiler",
+			"Godot Profiler",
+			vscode.ViewColumn.Active,
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true,
+				localResourceRoots: [this.context.extensionUri],
+			},
+		);
+		this.panel.iconPath = new vscode.ThemeIcon("pulse");
+		this.panel.webview.html = this.get_html(this.panel.webview);
+		this.panel.webview.onDidReceiveMessage((message) => this.handle_webview_message(message));
+		this.panel.onDidDispose(() => {
+			this.panel = undefined;
+			clearTimeout(this.update_timer);
+			this.update_timer = undefined;
+		});
+		this.update(true);
+	}
+
+	private async start(): Promise<void> {
+		const toggle = this.get_toggle();
+		if (!toggle) {
+			vscode.window.showWarningMessage(
+				"Start a Godot 4 debug session or the Scene Tree Monitor to profile the game.",
+			);
+			return;
+		}
+		const version = await get_project_version();
+		this.fields_per_function = script_function_fields(version ?? "4");
+		// Godot numbers functions again each time the profiler starts
+		this.signatures.clear();
+		this.frames = [];
+		this.new_frames = [];
+		this.selected = undefined;
+		this.running = true;
+		toggle("servers", true, profiler_options(MAX_FUNCTIONS_PER_FRAME, false));
+		log.info("Profiler started");
+
+		if (this.panel) {
+			this.update(true);
+		} else {
+			await this.show();
+		}
+	}
+
+	private stop() {
+		if (this.running) {
+			this.get_toggle()?.("servers", false);
+			log.info("Profiler stopped");
+		}
+		this.running = false;
+		this.post_state();
+	}
+
+	private schedule_update() {
+		if (this.panel && this.update_timer === undefined) {
+			this.update_timer = setTimeout(() => {
+				this.update_timer = undefined;
+				this.update(false);
+			}, UPDATE_INTERVAL_MS);
+		}
+	}
+
+	/** Sends the new frames to the webview, or all of them when `reset` */
+	private update(reset: boolean) {
+		if (!this.panel) {
+			return;
+		}
+		const frames = reset ? this.frames : this.new_frames;
+		this.new_frames = [];
+		this.panel.webview.postMessage({
+			type: "frames",
+			reset: reset,
+			frames: frames.map((frame) => ({
+				number: frame.number,
+				frame_time: frame.frame_time,
+				process_time: frame.process_time,
+				physics_time: frame.physics_time,
+				script_time: frame.script_time,
+			})),
+			max_frames: MAX_FRAMES,
+		});
+		this.post_state();
+		// The selected frame doesn't change, the totals of all frames do
+		if (reset || this.selected === undefined) {
+			this.post_details();
+		}
+	}
+
+	private post_state() {
+		this.panel?.webview.postMessage({ type: "state", running: this.running });
+	}
+
+	/** The function times of the selected frame, or of all frames, and the selected frame's flame graph */
+	private post_details() {
+		const frame =
+			this.selected === undefined ? undefined : this.frames.find((frame) => frame.number === this.selected);
+		if (this.selected !== undefined && frame === undefined) {
+			// dropped as newer frames came
+			this.selected = undefined;
+		}
+		this.panel?.webview.postMessage({
+			type: "details",
+			selected: frame?.number,
+			frame_count: frame ? 1 : this.frames.length,
+			functions: aggregate_functions(frame ? [frame] : this.frames, this.signatures),
+			flame: frame && flame_graph(frame, this.signatures),
+		});
+	}
+
+	private async handle_webview_message(message: any): Promise<void> {
+		switch (message.type) {
+			case "start":
+				await this.start();
+				break;
+			case "stop":
+				this.stop();
+				break;
+			case "clear":
+				this.frames = [];
+				this.new_frames = [];
+				this.selected = undefined;
+				this.update(true);
+				break;
+			case "select":
+				this.selected = message.number ?? undefined;
+				this.post_details();
+				break;
+			case "open":
+				await this.open(message.file, message.line);
+				break;
+		}
+	}
+
+	private async open(file: string, line: number): Promise<void> {
+		if (!file?.startsWith("res://")) {
+			return;
+		}
+		const uri = await convert_resource_path_to_uri(file);
+		const position = new vscode.Position(Math.max(line - 1, 0), 0);
+		await vscode.window.showTextDocument(uri, {
+			selection: new vscode.Range(position, position),
+			viewColumn: vscode.ViewColumn.Beside,
+		});
+	}
+
+	private get_html(webview: vscode.Webview): string {
+		const nonce = get_nonce();
+		const media = (...segments: string[]) =>
+			webview.asWebviewUri(vscode.Uri.joinPath(this.context.extensionUri, "media", ...segments));
+		const codiconsUri = webview.asWebviewUri(
+			vscode.Uri.joinPath(this.context.extensionUri, "node_modules", "@vscode/codicons", "dist", "codicon.css"),
+		);
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource};">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<link href="${codiconsUri}" rel="stylesheet">
+	<link href="${media("profiler", "styles.css")}" rel="stylesheet">
+	<title>Godot Profiler</title>
+</head>
+<body>
+	<div class="profiler">
+		<div class="profiler-toolbar">
+			<button class="profiler-button" id="startButton" title="Start Profiling">
+				<span class="codicon codicon-debug-start"></span> Start
+			</button>
+			<button class="profiler-button" id="stopButton" title="Stop Profiling">
+				<span class="codicon codicon-debug-stop"></span> Stop
+			</button>
+			<button class="profiler-button" id="clearButton" title="Clear Frames">
+				<span class="codicon codicon-clear-all"></span>
+			</button>
+			<button class="profiler-button" id="allFramesButton" title="Show the Times of All Frames">All Frames</button>
+			<span class="profiler-status" id="status"></span>
+		</div>
+		<div class="profiler-timeline" id="timeline" title="Frame times, click to select a frame"></div>
+		<div class="profiler-flame" id="flame"></div>
+		<div class="profiler-table-container">
+			<table class="profiler-table" id="functions">
+				<thead>
+					<tr>
+						<th data-sort="name">Function</th>
+						<th data-sort="file">Source</th>
+						<th data-sort="calls" class="number">Calls</th>
+						<th data-sort="self" class="number">Self (ms)</th>
+						<th data-sort="total" class="number">Total (ms)</th>
+						<th data-sort="self" class="number">Self %</th>
+					</tr>
+				</thead>
+				<tbody></tbody>
+			</table>
+		</div>
+	</div>
+	<script nonce="${nonce}" src="${media("profiler", "main.js")}"></script>
+</body>
+</html>`;
+	}
+}
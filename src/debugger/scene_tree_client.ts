@@ -16,6 +16,15 @@ export interface InspectedObject {
 	properties: RawObject;
 }
 
+/**
+ * A message of one of the engine's profilers, sent while it's enabled. The performance
+ * monitors' profiler is always enabled.
+ */
+export interface ProfilerMessage {
+	command: string;
+	parameters: any[];
+}
+
 const log = createLogger("debugger.scene_tree_client", { output: "Godot Scene Tree" });
 
 /**
@@ -56,6 +65,9 @@ export class SceneTreeClient {
 	private _onPauseStateChanged = new EventEmitter<boolean>();
 	public readonly onPauseStateChanged = this._onPauseStateChanged.event;
 
+	private _onProfilerMessage = new EventEmitter<ProfilerMessage>();
+	public readonly onProfilerMessage = this._onProfilerMessage.event;
+
 	// Debug control state
 	private _isPaused = false;
 
@@ -327,6 +339,17 @@ export class SceneTreeClient {
 		this.sendCommand("scene:set_object_property", [objectId, property, value]);
 	}
 
+	/**
+	 * Enable or disable one of the engine's profilers, e.g. "servers" for script function timings.
+	 */
+	public toggleProfiler(name: string, enable: boolean, options?: any[]): void {
+		if (!this._isConnected) {
+			log.warn("Cannot toggle profiler: not connected");
+			return;
+		}
+		this.sendCommand(`profiler:${name}`, enable && options ? [enable, options] : [enable]);
+	}
+
 	private onData(buffer: Buffer): void {
 		if (this.stash) {
 			buffer = Buffer.concat([this.stash, buffer]);
@@ -454,7 +477,14 @@ export class SceneTreeClient {
 				this._onPauseStateChanged.fire(false);
 				break;
 			}
+			case "servers:function_signature":
+			case "servers:profile_frame":
+			case "servers:profile_total":
 			case "performance:profile_frame":
+			case "performance:profile_names": {
+				this._onProfilerMessage.fire({ command, parameters });
+				break;
+			}
 			case "message:click_ctrl":
 			case "stack_dump":
 			case "stack_frame_vars":
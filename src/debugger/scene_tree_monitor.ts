@@ -8,7 +8,7 @@ import {
 import { GodotVariable } from "./debug_runtime";
 import { GameDebugControlsProvider } from "./game_debug_controls_provider";
 import { killSubProcesses } from "../utils/subspawn";
-import { InspectedObject, SceneTreeClient } from "./scene_tree_client";
+import { InspectedObject, ProfilerMessage, SceneTreeClient } from "./scene_tree_client";
 import { SceneTreeProvider } from "./scene_tree_provider";
 
 /**
@@ -105,6 +105,15 @@ export class SceneTreeMonitor {
 		return this.client.isPaused;
 	}
 
+	/** Messages of the engine's profilers, see {@link toggleProfiler} */
+	public get onProfilerMessage(): vscode.Event<ProfilerMessage> {
+		return this.client.onProfilerMessage;
+	}
+
+	public get onDisconnected(): vscode.Event<void> {
+		return this.client.onDisconnected;
+	}
+
 	// ========================================
 	// Debug Control Methods (Tier 1 Features)
 	// ========================================
@@ -162,6 +171,17 @@ export class SceneTreeMonitor {
 		this.client.setObjectProperty(objectId, property, value);
 	}
 
+	/**
+	 * Enable or disable one of the engine's profilers in the connected game.
+	 */
+	public toggleProfiler(name: string, enable: boolean, options?: any[]): void {
+		if (!this.client.isConnected) {
+			log.warn("Cannot toggle profiler: not connected");
+			return;
+		}
+		this.client.toggleProfiler(name, enable, options);
+	}
+
 	/**
 	 * Start the Scene Tree Monitor.
 	 * Starts a TCP server that waits for Godot to connect via --remote-debug.
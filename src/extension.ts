@@ -11,11 +11,24 @@ import {
 	GDCompletionItemProvider,
 	GDDocumentationProvider,
 	GDDefinitionProvider,
+	GDReferenceProvider,
+	GDFileRenameProvider,
+	GDSceneDiagnosticsProvider,
+	GDGroupDiagnosticsProvider,
+	GDNodePathDiagnosticsProvider,
 	GDTaskProvider,
 } from "./providers";
 import { DotnetWatchManager } from "./providers/document_drops";
+import { NodeBindingsGenerator } from "./providers/node_bindings";
 import { ClientConnectionManager } from "./lsp";
-import { ScenePreviewWebviewProvider } from "./scene_tools";
+import {
+	ProjectIndex,
+	ProjectNodeSearch,
+	SceneConflictResolver,
+	SceneDependencyGraphViewer,
+	SceneDiffViewer,
+	ScenePreviewWebviewProvider,
+} from "./scene_tools";
 import { GodotDebugger } from "./debugger";
 import { FormattingProvider } from "./formatter";
 import {
@@ -37,14 +50,25 @@ interface Extension {
 	context?: vscode.ExtensionContext;
 	lsp?: ClientConnectionManager;
 	debug?: GodotDebugger;
+	projectIndex?: ProjectIndex;
 	scenePreviewProvider?: ScenePreviewWebviewProvider;
+	sceneDiffViewer?: SceneDiffViewer;
+	dependencyGraphViewer?: SceneDependencyGraphViewer;
+	sceneConflictResolver?: SceneConflictResolver;
+	projectNodeSearch?: ProjectNodeSearch;
 	linkProvider?: GDDocumentLinkProvider;
 	dropsProvider?: GDDocumentDropEditProvider;
+	nodeBindingsGenerator?: NodeBindingsGenerator;
 	hoverProvider?: GDHoverProvider;
 	inlayProvider?: GDInlayHintsProvider;
 	formattingProvider?: FormattingProvider;
 	docsProvider?: GDDocumentationProvider;
 	definitionProvider?: GDDefinitionProvider;
+	referenceProvider?: GDReferenceProvider;
+	fileRenameProvider?: GDFileRenameProvider;
+	sceneDiagnosticsProvider?: GDSceneDiagnosticsProvider;
+	groupDiagnosticsProvider?: GDGroupDiagnosticsProvider;
+	nodePathDiagnosticsProvider?: GDNodePathDiagnosticsProvider;
 	semanticTokensProvider?: GDSemanticTokensProvider;
 	completionProvider?: GDCompletionItemProvider;
 	tasksProvider?: GDTaskProvider;
@@ -59,6 +83,7 @@ export function activate(context: vscode.ExtensionContext) {
 	globals.context = context;
 	globals.lsp = new ClientConnectionManager(context);
 	globals.debug = new GodotDebugger(context);
+	globals.projectIndex = new ProjectIndex(context);
 
 	// Register the Scene Preview WebView
 	globals.scenePreviewProvider = new ScenePreviewWebviewProvider(context);
@@ -68,10 +93,15 @@ export function activate(context: vscode.ExtensionContext) {
 			globals.scenePreviewProvider,
 		),
 	);
+	globals.sceneDiffViewer = new SceneDiffViewer(context);
+	globals.dependencyGraphViewer = new SceneDependencyGraphViewer(context);
+	globals.sceneConflictResolver = new SceneConflictResolver(context);
+	globals.projectNodeSearch = new ProjectNodeSearch(context);
 
 	globals.linkProvider = new GDDocumentLinkProvider(context);
 	globals.dropsProvider = new GDDocumentDropEditProvider(context);
 	globals.dropsProvider.scenePreview = globals.scenePreviewProvider;
+	globals.nodeBindingsGenerator = new NodeBindingsGenerator(context);
 
 	// Start dotnet watch build if enabled
 	globals.dotnetWatch = new DotnetWatchManager();
@@ -96,8 +126,13 @@ export function activate(context: vscode.ExtensionContext) {
 	globals.formattingProvider = new FormattingProvider(context);
 	globals.docsProvider = new GDDocumentationProvider(context);
 	globals.definitionProvider = new GDDefinitionProvider(context);
+	globals.referenceProvider = new GDReferenceProvider(context);
+	globals.fileRenameProvider = new GDFileRenameProvider(context);
+	globals.sceneDiagnosticsProvider = new GDSceneDiagnosticsProvider(context);
+	globals.groupDiagnosticsProvider = new GDGroupDiagnosticsProvider(context);
+	globals.nodePathDiagnosticsProvider = new GDNodePathDiagnosticsProvider(context);
 	// globals.semanticTokensProvider = new GDSemanticTokensProvider(context);
-	// globals.completionProvider = new GDCompletionItemProvider(context);
+	globals.completionProvider = new GDCompletionItemProvider(context);
 	// globals.tasksProvider = new GDTaskProvider(context);
 
 	// Reset provider state when LSP disconnects
@@ -1,3 +1,5 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
 import * as vscode from "vscode";
 import {
 	Uri,
@@ -10,9 +12,24 @@ import {
 	CompletionList,
 	CompletionItem,
 	CompletionItemProvider,
+	CompletionItemKind,
 	ExtensionContext,
+	MarkdownString,
+	ColorThemeKind,
+	TextEdit,
 } from "vscode";
-import { createLogger } from "../utils";
+import { globals } from "../extension";
+import {
+	type NodePathArgument,
+	type PathNode,
+	formatNodePathReference,
+	groupArgumentAt,
+	nodePathArgumentAt,
+	relativeNodePath,
+	scriptLanguage,
+	toPathNodes,
+} from "../scene_tools";
+import { createLogger, get_extension_uri } from "../utils";
 
 const log = createLogger("providers.completions");
 
@@ -22,9 +39,12 @@ export class GDCompletionItemProvider implements CompletionItemProvider {
 			{ language: "gdresource", scheme: "file" },
 			{ language: "gdscene", scheme: "file" },
 			{ language: "gdscript", scheme: "file" },
+			{ language: "csharp", scheme: "file" },
 		];
 		context.subscriptions.push(
-			vscode.languages.registerCompletionItemProvider(selector, this),
+			// Quotes open the group name argument of `is_in_group("...")` and friends, and
+			// the path of `GetNode("...")`; `$`, `%` and `/` start or continue a node path
+			vscode.languages.registerCompletionItemProvider(selector, this, '"', "'", "$", "%", "/"),
 		);
 	}
 
@@ -36,6 +56,109 @@ export class GDCompletionItemProvider implements CompletionItemProvider {
 		log.debug("provideCompletionItems");
 		log.debug("linePrefix", linePrefix);
 
+		const group = groupArgumentAt(linePrefix);
+		if (group !== undefined) {
+			items.push(...this.group_completions(new Range(position.translate(0, -group.length), position)));
+		}
+
+		const language = scriptLanguage(document.uri.fsPath);
+		const nodePath = language && nodePathArgumentAt(linePrefix, language);
+		if (nodePath) {
+			return this.node_path_completions(document, position, nodePath);
+		}
+
 		return items;
 	}
+
+	/**
+	 * Paths from the node the script runs on to the other nodes of the scenes using it,
+	 * and the `%Name` of their unique nodes.
+	 */
+	private async node_path_completions(document: TextDocument, position: Position, argument: NodePathArgument): Promise<CompletionItem[]> {
+		const index = globals.projectIndex;
+		await index?.ready;
+		const resPath = index?.toResPath(document.uri.fsPath);
+		if (!resPath) {
+			return [];
+		}
+
+		const range = new Range(position.translate(0, -argument.typed.length), position);
+		const items = new Map<string, CompletionItem>();
+		for (const context of await index.getScriptContexts(resPath)) {
+			const { nodes, owner } = toPathNodes(context.scene.nodes.values(), context.owner);
+			for (const node of nodes) {
+				if (node === owner || node.relativePath === owner.relativePath) {
+					continue;
+				}
+				const paths = [];
+				if (argument.form !== "unique") {
+					paths.push(relativeNodePath(owner, node));
+				}
+				// `%Name` only reaches the unique nodes of the script's own scene file
+				if (argument.form !== "shorthand" && node.unique && node.declared && owner.declared) {
+					paths.push(`%${path.basename(node.relativePath)}`);
+				}
+				for (const nodePath of paths) {
+					if (!items.has(nodePath)) {
+						items.set(nodePath, this.node_path_item(nodePath, node, argument, range, path.basename(context.fsPath)));
+					}
+				}
+			}
+		}
+		return [...items.values()];
+	}
+
+	private node_path_item(nodePath: string, node: PathNode, argument: NodePathArgument, range: Range, sceneName: string): CompletionItem {
+		// Names with spaces or `..` need the quoted `$"..."` form
+		const text = argument.form === "string" ? nodePath : formatNodePathReference({ shorthand: true }, nodePath);
+
+		const item = new CompletionItem({ label: nodePath, description: node.className }, CompletionItemKind.Reference);
+		item.range = range;
+		item.insertText = text;
+		item.filterText = text;
+		// Children before the nodes further away
+		const depth = nodePath.split("/").length + (nodePath.startsWith("..") ? 100 : 0);
+		item.sortText = `${String(depth).padStart(3, "0")}${nodePath}`;
+
+		const script = node.scriptPath && path.basename(node.scriptPath);
+		item.detail = script ? `${node.className} (${script})` : node.className;
+		item.documentation = new MarkdownString(`![${node.className}](${this.class_icon(node.className)}|width=16,height=16) \`${node.relativePath || "."}\` in ${sceneName}`);
+
+		if (argument.typeArgument) {
+			// C# scripts are classes named after their file
+			const typeName = node.scriptPath?.endsWith(".cs") ? path.basename(node.scriptPath, ".cs") : node.className;
+			const line = range.start.line;
+			item.additionalTextEdits = [
+				TextEdit.replace(new Range(line, argument.typeArgument.start, line, argument.typeArgument.end), `<${typeName}>`),
+			];
+		}
+		return item;
+	}
+
+	/** The editor icon of a class, for the current theme */
+	private class_icon(className: string): string {
+		const kind = vscode.window.activeColorTheme.kind;
+		const theme = kind === ColorThemeKind.Light || kind === ColorThemeKind.HighContrastLight ? "light" : "dark";
+		const icon = get_extension_uri("resources", "godot_icons", theme, `${className}.svg`);
+		return (fs.existsSync(icon.fsPath) ? icon : get_extension_uri("resources", "godot_icons", theme, "Node.svg")).toString();
+	}
+
+	private group_completions(range: Range): CompletionItem[] {
+		const groups = globals.projectIndex?.getGroups() ?? new Map();
+		return [...groups.values()].map((group) => {
+			const item = new CompletionItem(group.name, CompletionItemKind.EnumMember);
+			item.range = range;
+			item.detail = group.global ? "Global group" : "Group";
+			const documentation = new MarkdownString();
+			if (group.description) {
+				documentation.appendText(group.description);
+				documentation.appendMarkdown("\n\n");
+			}
+			if (group.usedBy.length) {
+				documentation.appendMarkdown(`Used in ${group.usedBy.map((resPath) => `\`${resPath}\``).join(", ")}`);
+			}
+			item.documentation = documentation;
+			return item;
+		});
+	}
 }
@@ -14,7 +14,11 @@ import {
 	TextDocument,
 	Uri,
 } from "vscode";
-import { SceneParser } from "../scene_tools/parser";
+import { globals } from "../extension";
+import { bindingMemberName } from "../scene_tools/node_bindings";
+import { getProperty } from "../scene_tools/resource_parser";
+import { SceneEditor } from "../scene_tools/scene_editor";
+import { toScenePath } from "../scene_tools/scene_edits";
 import { ScenePreviewWebviewProvider } from "../scene_tools/scene_preview_webview";
 import { createLogger, node_name_to_snake, node_name_to_pascal, node_name_to_camel, get_project_version, get_project_dir, convert_uri_to_resource_path } from "../utils";
 import { subProcess, killSubProcesses } from "../utils/subspawn";
@@ -22,19 +26,19 @@ import { SceneNode } from "../scene_tools/types";
 
 const log = createLogger("providers.drops");
 
-interface CSharpStyleResult {
+export interface CSharpStyleResult {
 	edit: string | vscode.SnippetString;
 	/** The exact C# property/field name for scene file NodePath assignment. Undefined = no scene modification. */
 	scenePropertyName?: string;
 }
 
-interface CSharpStyleOption {
+export interface CSharpStyleOption {
 	label: string;
 	description: string;
 	generator: (className: string, propertyName: string, fieldName: string, nodePath: string) => CSharpStyleResult;
 }
 
-const CSHARP_STYLE_OPTIONS: Record<string, CSharpStyleOption> = {
+export const CSHARP_STYLE_OPTIONS: Record<string, CSharpStyleOption> = {
 	exportPrivate: {
 		label: "[Export] private property",
 		description: "Private auto-property with underscore prefix",
@@ -74,13 +78,38 @@ const CSHARP_STYLE_OPTIONS: Record<string, CSharpStyleOption> = {
 };
 
 /** Default style key */
-const DEFAULT_CSHARP_STYLE = "exportPublic";
+export const DEFAULT_CSHARP_STYLE = "exportPublic";
+
+/** A style's declaration as plain text, with its placeholders filled in with their defaults */
+export function csharpStyleText(result: CSharpStyleResult): string {
+	if (typeof result.edit === "string") {
+		return result.edit;
+	}
+	return result.edit.value.replace(/\$\{\d+:((?:[^}\\]|\\.)*)\}/g, "$1").replace(/\\([$}\\])/g, "$1");
+}
+
+/** A node dragged from the Scene Preview, as the webview describes it */
+interface DroppedNode {
+	name: string;
+	type: string;
+	path: string;
+	relativePath: string;
+	unique: boolean;
+}
+
+/** The path from the node a script runs on to another node of its scene */
+function pathFromOwner(owner: SceneNode, nodePath: string): string {
+	return path.normalize(path.relative(owner.path, nodePath)).split(path.sep).join(path.posix.sep);
+}
 
 export class GDDocumentDropEditProvider implements DocumentDropEditProvider {
-	public parser = new SceneParser();
 	public scenePreview?: ScenePreviewWebviewProvider;
+	private editor: SceneEditor;
+	/** Scenes drops assigned NodePaths in since the last rebuild, which may still be unsaved */
+	private modifiedScenes = new Set<string>();
 
 	constructor(private context: ExtensionContext) {
+		this.editor = new SceneEditor(context);
 		const dropEditSelector = [
 			{ language: "csharp", scheme: "file" },
 			{ language: "gdscript", scheme: "file" },
@@ -116,30 +145,9 @@ export class GDDocumentDropEditProvider implements DocumentDropEditProvider {
 		const originUri = vscode.Uri.file(originFsPath);
 
 		const originDocument = await vscode.workspace.openTextDocument(originUri);
-		const scene = await this.parser.parse_scene(originDocument);
+		const scene = await globals.projectIndex.parser.parse_scene(originDocument);
 
-		let scriptId = "";
-		for (const res of scene.externalResources.values()) {
-			if (res.path === targetResPath) {
-				scriptId = res.id;
-				break;
-			}
-		}
-
-		let nodePathOfTarget: SceneNode;
-		if (scriptId) {
-			const find_node = () => {
-				if (scene.root.scriptId === scriptId) {
-					return scene.root;
-				}
-				for (const node of scene.nodes.values()) {
-					if (node.scriptId === scriptId) {
-						return node;
-					}
-				}
-			};
-			nodePathOfTarget = find_node();
-		}
+		const nodePathOfTarget = targetResPath && globals.projectIndex.findScriptOwner(scene, targetResPath);
 
 		const className: string = dataTransfer.get("godot/class")?.value;
 		if (className) {
@@ -149,8 +157,7 @@ export class GDDocumentDropEditProvider implements DocumentDropEditProvider {
 			const label: string = dataTransfer.get("godot/label")?.value;
 
 			if (nodePathOfTarget) {
-				const targetPath = path.normalize(path.relative(nodePathOfTarget?.path, nodePath));
-				relativePath = targetPath.split(path.sep).join(path.posix.sep);
+				relativePath = pathFromOwner(nodePathOfTarget, nodePath);
 			}
 
 			// For the root node, the path is empty and needs to be replaced with the node name
@@ -237,50 +244,19 @@ export class GDDocumentDropEditProvider implements DocumentDropEditProvider {
 			const targetResPath = await convert_uri_to_resource_path(document.uri);
 			const originUri = vscode.Uri.file(scenePath);
 			const originDocument = await vscode.workspace.openTextDocument(originUri);
-			const scene = await this.parser.parse_scene(originDocument);
-
-			// Find the script ID for the target document
-			let scriptId = "";
-			for (const res of scene.externalResources.values()) {
-				if (res.path === targetResPath) {
-					scriptId = res.id;
-					break;
-				}
-			}
+			const scene = await globals.projectIndex.parser.parse_scene(originDocument);
 
 			// Find the node that has this script attached
-			// Pass 1: Direct script in scene ext_resources
-			let nodePathOfTarget: SceneNode;
-			if (scriptId) {
-				if (scene.root?.scriptId === scriptId) {
-					nodePathOfTarget = scene.root;
-				} else {
-					for (const node of scene.nodes.values()) {
-						if (node.scriptId === scriptId) {
-							nodePathOfTarget = node;
-							break;
-						}
-					}
-				}
-			}
+			const nodePathOfTarget = targetResPath && globals.projectIndex.findScriptOwner(scene, targetResPath);
 
-			// Pass 2: Check instanced scene root scripts (e.g., ChildScene.tscn whose root has the script)
-			if (!nodePathOfTarget && targetResPath) {
-				for (const node of scene.nodes.values()) {
-					if (node.resourcePath?.endsWith(".tscn")) {
-						const rootScript = this.parser.getRootScriptFromSceneSync(node.resourcePath);
-						if (rootScript === targetResPath) {
-							nodePathOfTarget = node;
-							break;
-						}
-					}
-				}
+			// A multi-selection drags all the selected nodes, the one dragged included
+			if (Array.isArray(nodeData.nodes) && nodeData.nodes.length > 1) {
+				return this.dropNodes(document, nodeData.nodes, scenePath, nodePathOfTarget, useSecondaryStyle);
 			}
 
 			// If we found the target node, compute relative path from target to dragged node
 			if (nodePathOfTarget) {
-				const targetPath = path.normalize(path.relative(nodePathOfTarget.path, nodeData.path));
-				relativePath = targetPath.split(path.sep).join(path.posix.sep);
+				relativePath = pathFromOwner(nodePathOfTarget, nodeData.path);
 			}
 
 			// For the root node, the path is empty and needs to be replaced with the node name
@@ -326,14 +302,14 @@ export class GDDocumentDropEditProvider implements DocumentDropEditProvider {
 					const style = CSHARP_STYLE_OPTIONS[styleKey] || CSHARP_STYLE_OPTIONS[DEFAULT_CSHARP_STYLE];
 					const result = style.generator(className, propertyName, fieldName, nodePath);
 
-					// For export styles: if script is in the scene, immediately modify the .tscn
+					// For export styles: if script is in the scene, modify the .tscn along with the drop
+					const drop = new vscode.DocumentDropEdit(result.edit);
 					if (result.scenePropertyName && nodePathOfTarget) {
-						this.applySceneModification(scenePath, nodePathOfTarget.text, nodePathOfTarget.label, result.scenePropertyName, nodePath)
-							.catch(err => log.error("Failed to apply scene modification:", err));
-						this.scenePreview?.showRebuildBanner();
+						drop.additionalEdit = await this.sceneModificationEdit(scenePath, nodePathOfTarget, [
+							[result.scenePropertyName, nodePath],
+						]);
 					}
-
-					return new vscode.DocumentDropEdit(result.edit);
+					return drop;
 				}
 
 				return new vscode.DocumentDropEdit(`GetNode<${className}>("${nodePath}")`);
@@ -356,6 +332,15 @@ export class GDDocumentDropEditProvider implements DocumentDropEditProvider {
 			return;
 		}
 
+		// Scene edits applied with a drop leave the scene modified when it's open in an editor,
+		// and Godot only sees the NodePaths once it's saved
+		for (const document of vscode.workspace.textDocuments) {
+			if (document.isDirty && this.modifiedScenes.has(document.uri.fsPath)) {
+				await document.save();
+			}
+		}
+		this.modifiedScenes.clear();
+
 		const slnFiles = await vscode.workspace.findFiles("**/*.sln", null, 1);
 		const buildTarget = slnFiles.length > 0 ? `"${slnFiles[0].fsPath}"` : ".";
 		const buildCommand = `dotnet build ${buildTarget}`;
@@ -385,75 +370,103 @@ export class GDDocumentDropEditProvider implements DocumentDropEditProvider {
 	}
 
 	/**
-	 * Modify a .tscn scene file to add a NodePath assignment for an exported variable.
-	 * Adds the property name to node_paths=PackedStringArray(...) and inserts the NodePath property.
+	 * The edit to a .tscn scene file adding NodePath assignments for exported variables.
+	 * Adds the property names to node_paths=PackedStringArray(...) and inserts the NodePath properties.
+	 *
+	 * It's applied with the drop, so undoing the drop undoes it too, and shown in the refactor
+	 * preview first when `csharp.previewSceneChanges` is on.
+	 *
+	 * @param properties Property names and the node paths to assign them
 	 */
-	private async applySceneModification(
+	private async sceneModificationEdit(
 		sceneFsPath: string,
-		targetNodeText: string,
-		targetNodeLabel: string,
-		propertyName: string,
-		nodePath: string,
-	): Promise<void> {
-		const sceneUri = vscode.Uri.file(sceneFsPath);
-		const doc = await vscode.workspace.openTextDocument(sceneUri);
-		const text = doc.getText();
-
-		// Find the target node's [node ...] line by matching its exact text
-		const nodeIndex = text.indexOf(targetNodeText);
-		if (nodeIndex < 0) {
-			log.warn(`Could not find node line in scene file: ${targetNodeText}`);
-			return;
-		}
-
-		const nodeLineStart = doc.positionAt(nodeIndex);
-		const nodeLineEnd = doc.positionAt(nodeIndex + targetNodeText.length);
-
-		// Determine the node's body (between this [node] and next [section])
-		const nextSectionRegex = /\n\[/;
-		const bodyStart = nodeIndex + targetNodeText.length;
-		const nextSectionMatch = text.slice(bodyStart).match(nextSectionRegex);
-		const bodyEnd = nextSectionMatch
-			? bodyStart + nextSectionMatch.index
-			: text.length;
-		const nodeBody = text.slice(bodyStart, bodyEnd);
-
-		// Check for duplicate property
-		const propRegex = new RegExp(`^${propertyName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*=`, "m");
-		if (propRegex.test(nodeBody)) {
-			log.debug(`Property ${propertyName} already exists on node, skipping`);
-			return;
+		targetNode: SceneNode,
+		properties: [string, string][],
+	): Promise<vscode.WorkspaceEdit | undefined> {
+		const preview = vscode.workspace
+			.getConfiguration("godotToolsCsharp.csharp")
+			.get<boolean>("previewSceneChanges", false);
+		const metadata = {
+			label: `Assign NodePaths in ${path.basename(sceneFsPath)}`,
+			description: properties.map(([propertyName]) => propertyName).join(", "),
+			needsConfirmation: preview,
+		};
+		const edit = await this.editor.createSceneEdit(sceneFsPath, (builder) => {
+			const node = builder.findNode(toScenePath(targetNode.relativePath));
+			if (!node) {
+				log.warn(`Could not find node in scene file: ${targetNode.text}`);
+				return undefined;
+			}
+			const missing = properties.filter(([propertyName]) => !getProperty(node.section, propertyName));
+			if (missing.length < properties.length) {
+				log.debug(`${properties.length - missing.length} properties already exist on node, skipping them`);
+			}
+			return builder.addNodePathProperties(node.path, missing);
+		}, metadata);
+		if (edit) {
+			const assignments = properties.map(([propertyName, nodePath]) => `${propertyName} = NodePath("${nodePath}")`);
+			log.info(`Modifying scene file: adding ${assignments.join(", ")} to node ${targetNode.label}`);
+			this.modifiedScenes.add(sceneFsPath);
+			this.scenePreview?.showRebuildBanner();
 		}
+		return edit;
+	}
 
-		const edit = new vscode.WorkspaceEdit();
-
-		// 1. Modify the [node ...] line to add/extend node_paths
-		const nodePathsMatch = targetNodeText.match(/node_paths=PackedStringArray\(([^)]*)\)/);
-		let modifiedNodeLine: string;
-		if (nodePathsMatch) {
-			const existingEntries = nodePathsMatch[1];
-			const newEntries = existingEntries
-				? `${existingEntries}, "${propertyName}"`
-				: `"${propertyName}"`;
-			modifiedNodeLine = targetNodeText.replace(
-				/node_paths=PackedStringArray\([^)]*\)/,
-				`node_paths=PackedStringArray(${newEntries})`,
-			);
+	/**
+	 * Drop several nodes at once: a block of declarations, one per node. With the export styles,
+	 * all the NodePaths are assigned in a single scene edit.
+	 */
+	private async dropNodes(
+		document: TextDocument,
+		nodes: DroppedNode[],
+		scenePath: string,
+		owner: SceneNode | undefined,
+		useSecondaryStyle: boolean,
+	): Promise<DocumentDropEdit> {
+		// Members are named after their node, and nodes in different branches can share a name
+		const taken = new Set<string>();
+		const savePath = (node: DroppedNode) => (owner ? pathFromOwner(owner, node.path) : node.relativePath) || node.name;
+		const lines: string[] = [];
+		let sceneEdit: vscode.WorkspaceEdit | undefined;
+
+		if (document.languageId === "gdscript") {
+			const onready = (await get_project_version())?.startsWith("4") ? "@onready" : "onready";
+			for (const node of nodes) {
+				const relativePath = savePath(node);
+				const qualifiedPath = node.unique
+					? `%${node.name}`
+					: `$${relativePath.startsWith(".") ? `'${relativePath}'` : relativePath}`;
+				const name = bindingMemberName(node_name_to_snake(node.name), taken);
+				lines.push(`${onready} var ${name}: ${node.type} = ${qualifiedPath}`);
+			}
+		} else if (document.languageId === "csharp") {
+			const config = vscode.workspace.getConfiguration("godotToolsCsharp.csharp");
+			const styleKey = useSecondaryStyle
+				? config.get<string>("secondaryNodeReferenceStyle", "lazyField")
+				: config.get<string>("nodeReferenceStyle", DEFAULT_CSHARP_STYLE);
+			const style = CSHARP_STYLE_OPTIONS[styleKey] || CSHARP_STYLE_OPTIONS[DEFAULT_CSHARP_STYLE];
+			const properties: [string, string][] = [];
+			for (const node of nodes) {
+				const propertyName = bindingMemberName(node_name_to_pascal(node.name), taken);
+				const fieldName = propertyName.charAt(0).toLowerCase() + propertyName.slice(1);
+				const nodePath = node.unique ? `%${node.name}` : savePath(node);
+				const result = style.generator(node.type, propertyName, fieldName, nodePath);
+				lines.push(csharpStyleText(result));
+				if (result.scenePropertyName) {
+					properties.push([result.scenePropertyName, nodePath]);
+				}
+			}
+			if (properties.length && owner) {
+				sceneEdit = await this.sceneModificationEdit(scenePath, owner, properties);
+			}
 		} else {
-			modifiedNodeLine = targetNodeText.replace(
-				/\]$/,
-				` node_paths=PackedStringArray("${propertyName}")]`,
-			);
+			return undefined;
 		}
-		edit.replace(sceneUri, new vscode.Range(nodeLineStart, nodeLineEnd), modifiedNodeLine);
-
-		// 2. Insert the NodePath property line at the end of the node's body
-		const insertPos = doc.positionAt(bodyEnd);
-		edit.insert(sceneUri, insertPos, `\n${propertyName} = NodePath("${nodePath}")`);
 
-		await vscode.workspace.applyEdit(edit);
-		await doc.save();
-		log.info(`Modified scene file: added ${propertyName} = NodePath("${nodePath}") to node ${targetNodeLabel}`);
+		// As a snippet, the lines after the first get the indentation of the line dropped on
+		const drop = new vscode.DocumentDropEdit(new vscode.SnippetString().appendText(lines.join("\n")));
+		drop.additionalEdit = sceneEdit;
+		return drop;
 	}
 }
 
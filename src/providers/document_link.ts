@@ -8,13 +8,13 @@ import {
 	type DocumentLinkProvider,
 	type ExtensionContext,
 } from "vscode";
-import { SceneParser } from "../scene_tools";
+import { globals } from "../extension";
+import { collectResourceRefs } from "../scene_tools";
 import { convert_resource_path_to_uri, convert_uids_to_uris, convert_uri_to_resource_path, createLogger } from "../utils";
 
 const log = createLogger("providers.document_links");
 
 export class GDDocumentLinkProvider implements DocumentLinkProvider {
-	public parser = new SceneParser();
 
 	constructor(private context: ExtensionContext) {
 		const selector = [
@@ -29,37 +29,31 @@ export class GDDocumentLinkProvider implements DocumentLinkProvider {
 	}
 
 	async provideDocumentLinks(document: TextDocument, token: CancellationToken): Promise<DocumentLink[]> {
-		const scene = this.parser.parse_scene(document);
 		const text = document.getText();
 		const path = document.uri.fsPath;
 
 		const links: DocumentLink[] = [];
 
 		if (["gdresource", "gdscene"].includes(document.languageId)) {
-			for (const match of text.matchAll(/ExtResource\(\s?"?(\w+)\s?"?\)/g)) {
-				const id = match[1];
-				const uri = Uri.from({
-					scheme: "file",
-					path: path,
-					fragment: `${scene.externalResources.get(id).line},0`,
-				});
-
-				const r = this.create_range(document, match);
-				const link = new DocumentLink(r, uri);
-				link.tooltip = "Jump to resource definition";
-				links.push(link);
-			}
+			const scene = globals.projectIndex.parser.parse_scene(document);
 
-			for (const match of text.matchAll(/SubResource\(\s?"?(\w+)\s?"?\)/g)) {
-				const id = match[1];
+			for (const ref of collectResourceRefs(scene.document)) {
+				const isExternal = ref.kind === "ext_resource";
+				const resource = isExternal ? scene.externalResources.get(ref.id) : scene.subResources.get(ref.id);
+				if (!resource) {
+					continue;
+				}
 				const uri = Uri.from({
 					scheme: "file",
 					path: path,
-					fragment: `${scene.subResources.get(id).line},0`,
+					fragment: `${resource.line},0`,
 				});
 
-				const r = this.create_range(document, match);
+				const r = new Range(document.positionAt(ref.range.start), document.positionAt(ref.range.end));
 				const link = new DocumentLink(r, uri);
+				if (isExternal) {
+					link.tooltip = "Jump to resource definition";
+				}
 				links.push(link);
 			}
 		}
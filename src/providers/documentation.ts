@@ -15,6 +15,8 @@ import type {
 	GodotNativeClassInfo,
 	GodotCapabilities,
 } from "./documentation_types";
+import { SymbolKind } from "vscode-languageclient";
+import { type SignalSignature, parseSignalSignature } from "../scene_tools/signal_handlers";
 import { make_html_content } from "./documentation_builder";
 import { createLogger, get_configuration, get_extension_uri, make_docs_uri } from "../utils";
 import { globals } from "../extension";
@@ -81,6 +83,45 @@ export class GDDocumentationProvider implements CustomReadonlyEditorProvider {
 		}
 	}
 
+	/**
+	 * The signals of a native class and of the classes it inherits, nearest first.
+	 * Empty until the language server has sent its class capabilities.
+	 */
+	public async get_class_signals(className: string): Promise<(SignalSignature & { native_class: string })[]> {
+		const signals: (SignalSignature & { native_class: string })[] = [];
+		const visited = new Set<string>();
+		for (let current = className; this.ready && this.classInfo.has(current) && !visited.has(current); ) {
+			visited.add(current);
+			const symbol = await this.get_native_symbol(current);
+			for (const child of (symbol?.children ?? []) as GodotNativeSymbol[]) {
+				const signal = child.kind === SymbolKind.Event && parseSignalSignature(child.detail);
+				if (signal) {
+					signals.push({ ...signal, native_class: current });
+				}
+			}
+			current = this.classInfo.get(current).inherits;
+		}
+		return signals;
+	}
+
+	private async get_native_symbol(className: string): Promise<GodotNativeSymbol | undefined> {
+		let symbol = this.symbolDb.get(className);
+
+		if (!symbol && this.classInfo.has(className)) {
+			const params: NativeSymbolInspectParams = {
+				native_class: className,
+				symbol_name: className,
+			};
+
+			const response = await globals.lsp.client.send_request("textDocument/nativeSymbol", params);
+
+			symbol = response as GodotNativeSymbol;
+			symbol.class_info = this.classInfo.get(symbol.name);
+			this.symbolDb.set(symbol.name, symbol);
+		}
+		return symbol;
+	}
+
 	public openCustomDocument(
 		uri: Uri,
 		openContext: CustomDocumentOpenContext,
@@ -150,20 +191,7 @@ export class GDDocumentationProvider implements CustomReadonlyEditorProvider {
 			}
 		}
 
-		symbol = this.symbolDb.get(className);
-
-		if (!symbol && this.classInfo.has(className)) {
-			const params: NativeSymbolInspectParams = {
-				native_class: className,
-				symbol_name: className,
-			};
-
-			const response = await globals.lsp.client.send_request("textDocument/nativeSymbol", params);
-
-			symbol = response as GodotNativeSymbol;
-			symbol.class_info = this.classInfo.get(symbol.name);
-			this.symbolDb.set(symbol.name, symbol);
-		}
+		symbol = await this.get_native_symbol(className);
 		if (!this.htmlDb.has(className)) {
 			this.htmlDb.set(className, make_html_content(panel.webview, symbol, target));
 		}
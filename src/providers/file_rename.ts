@@ -0,0 +1,220 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import {
+	type ExtensionContext,
+	type FileRenameEvent,
+	type FileWillRenameEvent,
+	Range,
+	type TextDocument,
+	Uri,
+	WorkspaceEdit,
+} from "vscode";
+import { globals } from "../extension";
+import {
+	type ResourceMove,
+	type SceneTextEdit,
+	mapResourcePath,
+	rewriteResourcePaths,
+	rewriteScriptPaths,
+} from "../scene_tools";
+import {
+	convert_uri_to_resource_path,
+	createLogger,
+	find_project_file,
+	get_configuration,
+	get_project_file,
+} from "../utils";
+
+const log = createLogger("providers.file_rename");
+
+/** Files Godot keeps next to a resource, which must move with it */
+const SIDECAR_EXTENSIONS = [".uid", ".import"];
+
+/**
+ * Keeps `res://` paths valid when files or folders are renamed or moved in the explorer:
+ * references in scenes, resources, scripts and project.godot are rewritten in the same
+ * edit as the move, and the `.uid`/`.import` files next to a moved file follow it.
+ */
+export class GDFileRenameProvider {
+	/**
+	 * Documents edited for a pending rename, by {@link rename_key}, saved once that rename is done.
+	 * A rename that is cancelled or fails never reports being done: its documents stay unsaved.
+	 */
+	private pendingSaves = new Map<string, Uri[]>();
+
+	constructor(private context: ExtensionContext) {
+		context.subscriptions.push(
+			vscode.workspace.onWillRenameFiles(this.on_will_rename_files.bind(this)),
+			vscode.workspace.onDidRenameFiles(this.on_did_rename_files.bind(this)),
+		);
+	}
+
+	private on_will_rename_files(event: FileWillRenameEvent) {
+		if (!get_configuration("files.updateReferencesOnMove", true)) {
+			return;
+		}
+		// File operations run one at a time: saves still pending are from a rename that didn't happen
+		this.pendingSaves.clear();
+		const saves: Uri[] = [];
+		this.pendingSaves.set(rename_key(event.files), saves);
+		event.waitUntil(
+			this.build_edit(event.files, saves).catch((error) => {
+				log.error("Failed to update references for renamed files:", error);
+				return new WorkspaceEdit();
+			}),
+		);
+	}
+
+	private async on_did_rename_files(event: FileRenameEvent) {
+		const key = rename_key(event.files);
+		const uris = this.pendingSaves.get(key) ?? [];
+		this.pendingSaves.delete(key);
+		for (const uri of uris) {
+			try {
+				const document = await vscode.workspace.openTextDocument(uri);
+				await document.save();
+			} catch (error) {
+				log.warn(`Failed to save ${uri.fsPath}:`, error);
+			}
+		}
+	}
+
+	/**
+	 * @param saves Receives the documents to save once the rename is done
+	 */
+	public async build_edit(files: readonly { oldUri: Uri; newUri: Uri }[], saves: Uri[] = []): Promise<WorkspaceEdit> {
+		const edit = new WorkspaceEdit();
+		const moves = await this.get_moves(files);
+		if (moves.length === 0) {
+			return edit;
+		}
+
+		const index = globals.projectIndex;
+		await index.ready;
+
+		const targets = new Set<string>();
+		for (const resource of index.graph.getResources()) {
+			if (resource.kind === "scene" || resource.kind === "resource") {
+				if (resource.dependencies.some((d) => d.path && mapResourcePath(d.path, moves))) {
+					targets.add(resource.fsPath);
+				}
+			}
+		}
+		// .import files name their source file, for moved files and for files inside moved folders
+		for (const [source, record] of index.graph.entries()) {
+			if (source.endsWith(".import") && mapResourcePath(record.resPath, moves)) {
+				targets.add(source);
+			}
+		}
+		const projectFile = await get_project_file();
+		if (projectFile) {
+			targets.add(projectFile);
+		}
+
+		let count = 0;
+		for (const fsPath of targets) {
+			count += await this.add_edits(edit, fsPath, (text) => rewriteResourcePaths(text, moves), files, saves);
+		}
+		for (const script of index.graph.getResources("script")) {
+			count += await this.add_edits(edit, script.fsPath, (text) => rewriteScriptPaths(text, moves), files, saves);
+		}
+
+		const sidecars = this.move_sidecars(edit, files);
+		log.info(`Updated ${count} references and moved ${sidecars} sidecar files for ${moves.length} renamed paths`);
+		return edit;
+	}
+
+	/**
+	 * The res:// paths that move. Files outside the Godot project, or moved out of it, are skipped.
+	 */
+	private async get_moves(files: readonly { oldUri: Uri; newUri: Uri }[]): Promise<ResourceMove[]> {
+		const moves: ResourceMove[] = [];
+		for (const { oldUri, newUri } of files) {
+			if (oldUri.scheme !== "file" || !find_project_file(oldUri.fsPath) || !find_project_file(newUri.fsPath)) {
+				continue;
+			}
+			const from = await convert_uri_to_resource_path(oldUri);
+			const to = await convert_uri_to_resource_path(newUri);
+			if (!from || !to || from === to || from.startsWith("res://..") || to.startsWith("res://..")) {
+				continue;
+			}
+			const folder = fs.existsSync(oldUri.fsPath) && fs.statSync(oldUri.fsPath).isDirectory();
+			moves.push({ from, to, folder });
+		}
+		return moves;
+	}
+
+	/**
+	 * Adds the edits for one file, returning how many were added. Open documents are edited
+	 * as they are in the editor; files that weren't modified are saved after the rename.
+	 */
+	private async add_edits(
+		edit: WorkspaceEdit,
+		fsPath: string,
+		rewrite: (text: string) => SceneTextEdit[],
+		files: readonly { oldUri: Uri; newUri: Uri }[],
+		saves: Uri[],
+	): Promise<number> {
+		try {
+			const open = vscode.workspace.textDocuments.find((d) => d.uri.fsPath === fsPath);
+			const text = open ? open.getText() : await fs.promises.readFile(fsPath, "utf-8");
+			if (!text.includes("res://")) {
+				return 0;
+			}
+			const edits = rewrite(text);
+			if (edits.length === 0) {
+				return 0;
+			}
+
+			const document: TextDocument = open ?? (await vscode.workspace.openTextDocument(fsPath));
+			for (const e of edits) {
+				const range = new Range(document.positionAt(e.start), document.positionAt(e.end));
+				edit.replace(document.uri, range, e.newText);
+			}
+			if (!open?.isDirty) {
+				saves.push(this.renamed_uri(document.uri, files));
+			}
+			return edits.length;
+		} catch (error) {
+			log.warn(`Failed to update references in ${fsPath}:`, error);
+			return 0;
+		}
+	}
+
+	/**
+	 * Moves the `.uid` and `.import` files next to each renamed file, unless they are part of
+	 * the rename already. Files inside a renamed folder move with the folder.
+	 */
+	private move_sidecars(edit: WorkspaceEdit, files: readonly { oldUri: Uri; newUri: Uri }[]): number {
+		const renamed = new Set(files.map((f) => f.oldUri.fsPath));
+		let count = 0;
+		for (const { oldUri, newUri } of files) {
+			for (const extension of SIDECAR_EXTENSIONS) {
+				const oldSidecar = Uri.file(`${oldUri.fsPath}${extension}`);
+				if (renamed.has(oldSidecar.fsPath) || !fs.existsSync(oldSidecar.fsPath)) {
+					continue;
+				}
+				edit.renameFile(oldSidecar, Uri.file(`${newUri.fsPath}${extension}`), { ignoreIfExists: true });
+				count++;
+			}
+		}
+		return count;
+	}
+
+	/** Where a file edited before the rename ends up afterwards */
+	private renamed_uri(uri: Uri, files: readonly { oldUri: Uri; newUri: Uri }[]): Uri {
+		for (const { oldUri, newUri } of files) {
+			const old = oldUri.fsPath;
+			if (uri.fsPath === old || uri.fsPath === `${old}.import` || uri.fsPath.startsWith(old + path.sep)) {
+				return Uri.file(newUri.fsPath + uri.fsPath.slice(old.length));
+			}
+		}
+		return uri;
+	}
+}
+
+/** Identifies a rename, the same in its will-rename and did-rename events */
+function rename_key(files: readonly { oldUri: Uri; newUri: Uri }[]): string {
+	return files.map(({ oldUri, newUri }) => `${oldUri.toString()} -> ${newUri.toString()}`).join("\n");
+}
@@ -0,0 +1,157 @@
+import * as vscode from "vscode";
+import {
+	CodeAction,
+	CodeActionKind,
+	type CodeActionContext,
+	type CodeActionProvider,
+	Diagnostic,
+	type DiagnosticCollection,
+	DiagnosticSeverity,
+	type ExtensionContext,
+	Range,
+	type TextDocument,
+	WorkspaceEdit,
+} from "vscode";
+import { globals } from "../extension";
+import { findUnknownGroups } from "../scene_tools";
+import { createLogger } from "../utils";
+
+const log = createLogger("providers.group_diagnostics");
+
+const LANGUAGES = ["gdscript", "csharp"];
+// Delay between the last keystroke and re-checking the document (ms)
+const CHANGE_DEBOUNCE = 500;
+const CODE = "unknown-group";
+
+interface AnalyzedDocument {
+	version: number;
+	/** Each diagnostic with the known group it probably meant, for its quick fix */
+	entries: { diagnostic: Diagnostic; suggestion?: string }[];
+}
+
+/**
+ * Flags group names in `is_in_group("...")`, `GetNodesInGroup("...")` and the other group
+ * calls of open scripts that no scene, script or global group uses, with a quick fix when
+ * the name looks like a typo of a known group.
+ */
+export class GDGroupDiagnosticsProvider implements CodeActionProvider {
+	private collection: DiagnosticCollection = vscode.languages.createDiagnosticCollection("godot-groups");
+	private analyzed = new Map<string, AnalyzedDocument>();
+	private timers = new Map<string, NodeJS.Timeout>();
+
+	constructor(private context: ExtensionContext) {
+		const selector = LANGUAGES.map((language) => ({ language, scheme: "file" }));
+		context.subscriptions.push(
+			this.collection,
+			vscode.languages.registerCodeActionsProvider(selector, this, {
+				providedCodeActionKinds: [CodeActionKind.QuickFix],
+			}),
+			vscode.workspace.onDidOpenTextDocument((document) => this.analyze(document)),
+			vscode.workspace.onDidChangeTextDocument((event) => this.schedule(event.document)),
+			vscode.workspace.onDidCloseTextDocument((document) => this.clear(document)),
+			// Scenes, scripts and project.godot changing change which groups exist
+			globals.projectIndex.onDidChange(() => this.analyze_all()),
+			{ dispose: () => this.timers.forEach(clearTimeout) },
+		);
+		this.analyze_all();
+	}
+
+	public provideCodeActions(document: TextDocument, _range: Range, context: CodeActionContext): CodeAction[] {
+		const analyzed = this.analyzed.get(document.uri.toString());
+		if (!analyzed || analyzed.version !== document.version) {
+			return [];
+		}
+
+		const actions: CodeAction[] = [];
+		for (const diagnostic of context.diagnostics) {
+			const suggestion = analyzed.entries.find(
+				(e) => diagnostic.code === CODE && e.diagnostic.range.isEqual(diagnostic.range),
+			)?.suggestion;
+			if (!suggestion) {
+				continue;
+			}
+			const action = new CodeAction(`Change to "${suggestion}"`, CodeActionKind.QuickFix);
+			action.diagnostics = [diagnostic];
+			action.isPreferred = true;
+			action.edit = new WorkspaceEdit();
+			action.edit.replace(document.uri, diagnostic.range, suggestion);
+			actions.push(action);
+		}
+		return actions;
+	}
+
+	private analyze_all() {
+		for (const document of vscode.workspace.textDocuments) {
+			this.analyze(document);
+		}
+	}
+
+	private schedule(document: TextDocument) {
+		if (!LANGUAGES.includes(document.languageId)) {
+			return;
+		}
+		const key = document.uri.toString();
+		clearTimeout(this.timers.get(key));
+		this.timers.set(
+			key,
+			setTimeout(() => {
+				this.timers.delete(key);
+				this.analyze(document);
+			}, CHANGE_DEBOUNCE),
+		);
+	}
+
+	private async analyze(document: TextDocument) {
+		if (!LANGUAGES.includes(document.languageId) || document.uri.scheme !== "file") {
+			return;
+		}
+		const index = globals.projectIndex;
+		await index.ready;
+		// Scripts outside the project can't be in its groups
+		if (document.isClosed || !index.toResPath(document.uri.fsPath)) {
+			return;
+		}
+
+		try {
+			const version = document.version;
+			const known = new Set(index.getGroups().keys());
+			const entries = findUnknownGroups(document.getText(), known).map(({ reference, suggestion }) => {
+				const range = new Range(
+					document.positionAt(reference.range.start),
+					document.positionAt(reference.range.end),
+				);
+				// A name close to a known group is most likely a typo; anything else may be
+				// a group only created at runtime, e.g. `add_to_group(name)`
+				const diagnostic = suggestion
+					? new Diagnostic(
+							range,
+							`Unknown group "${reference.name}". Did you mean "${suggestion}"?`,
+							DiagnosticSeverity.Warning,
+						)
+					: new Diagnostic(
+							range,
+							`No scene or script adds nodes to group "${reference.name}", and it isn't a global group.`,
+							DiagnosticSeverity.Information,
+						);
+				diagnostic.source = "godot";
+				diagnostic.code = CODE;
+				return { diagnostic, suggestion };
+			});
+			this.analyzed.set(document.uri.toString(), { version, entries });
+			this.collection.set(
+				document.uri,
+				entries.map((e) => e.diagnostic),
+			);
+		} catch (error) {
+			log.warn(`Failed to check groups in ${document.uri.fsPath}:`, error);
+		}
+	}
+
+	private clear(document: TextDocument) {
+		const key = document.uri.toString();
+		clearTimeout(this.timers.get(key));
+		this.timers.delete(key);
+		this.analyzed.delete(key);
+		this.collection.delete(document.uri);
+	}
+}
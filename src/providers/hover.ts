@@ -9,7 +9,8 @@ import {
 	MarkdownString,
 	Hover,
 } from "vscode";
-import { SceneParser } from "../scene_tools";
+import { globals } from "../extension";
+import { findGroupReferences, findValueAt } from "../scene_tools";
 import { convert_resource_path_to_uri, createLogger, convert_uid_to_uri, convert_uri_to_resource_path } from "../utils";
 
 const log = createLogger("providers.hover");
@@ -20,7 +21,6 @@ const MAX_PREVIEW_LINES = 50;
 const MAX_LINE_LENGTH = 200;
 
 export class GDHoverProvider implements HoverProvider {
-	public parser = new SceneParser();
 
 	constructor(private context: ExtensionContext) {
 		const selector = [
@@ -79,6 +79,42 @@ export class GDHoverProvider implements HoverProvider {
 		return result;
 	}
 
+	/**
+	 * Describes the group named in a group call such as `GetNodesInGroup("enemies")`:
+	 * its project settings description and the scenes and scripts that use it.
+	 */
+	private group_hover(document: TextDocument, position: Position): Hover | undefined {
+		const offset = document.offsetAt(position);
+		const line = document.lineAt(position.line);
+		const lineStart = document.offsetAt(line.range.start);
+		const reference = findGroupReferences(line.text).find(
+			(r) => lineStart + r.range.start <= offset && offset <= lineStart + r.range.end,
+		);
+		if (!reference) {
+			return undefined;
+		}
+
+		const group = globals.projectIndex?.getGroups().get(reference.name);
+		const contents = new MarkdownString();
+		contents.appendMarkdown(`**${group?.global ? "Global group" : "Group"}** \`${reference.name}\`\n\n`);
+		if (!group) {
+			contents.appendMarkdown("No scene, script or global group uses this group.");
+		} else {
+			if (group.description) {
+				contents.appendText(`${group.description}\n\n`);
+			}
+			for (const resPath of group.usedBy) {
+				const fsPath = globals.projectIndex.toFsPath(resPath);
+				contents.appendMarkdown(fsPath ? `* [${resPath}](${Uri.file(fsPath)})\n` : `* ${resPath}\n`);
+			}
+		}
+		const range = new vscode.Range(
+			document.positionAt(lineStart + reference.range.start),
+			document.positionAt(lineStart + reference.range.end),
+		);
+		return new Hover(contents, range);
+	}
+
 	async provideHover(document: TextDocument, position: Position, token: CancellationToken): Promise<Hover> {
 		// Check cancellation early
 		if (token.isCancellationRequested) {
@@ -86,20 +122,20 @@ export class GDHoverProvider implements HoverProvider {
 		}
 
 		if (["gdresource", "gdscene"].includes(document.languageId)) {
-			const scene = this.parser.parse_scene(document);
+			const scene = globals.projectIndex.parser.parse_scene(document);
 
 			// Check cancellation after potentially expensive parse
 			if (token.isCancellationRequested) {
 				return null;
 			}
 
-			const wordPattern = /(?:Ext|Sub)Resource\(\s?"?(\w+)\s?"?\)/;
-			const word = document.getText(document.getWordRangeAtPosition(position, wordPattern));
+			const value = findValueAt(scene.document, document.offsetAt(position));
 
-			if (word.startsWith("ExtResource")) {
-				const match = word.match(wordPattern);
-				const id = match[1];
-				const resource = scene.externalResources.get(id);
+			if (value?.kind === "ext_resource") {
+				const resource = scene.externalResources.get(value.id);
+				if (!resource) {
+					return null;
+				}
 				const definition = resource.body;
 				const links = await this.get_links(definition);
 
@@ -133,11 +169,13 @@ export class GDHoverProvider implements HoverProvider {
 				return hover;
 			}
 
-			if (word.startsWith("SubResource")) {
-				const match = word.match(wordPattern);
-				const id = match[1];
+			if (value?.kind === "sub_resource") {
+				const resource = scene.subResources.get(value.id);
+				if (!resource) {
+					return null;
+				}
 
-				let definition = scene.subResources.get(id).body;
+				let definition = resource.body;
 				// don't display contents of giant arrays
 				definition = definition?.replace(/Array\([0-9,\.\- ]*\)/, "Array(...)");
 
@@ -148,6 +186,13 @@ export class GDHoverProvider implements HoverProvider {
 			}
 		}
 
+		if (["gdscript", "csharp"].includes(document.languageId)) {
+			const hover = this.group_hover(document, position);
+			if (hover) {
+				return hover;
+			}
+		}
+
 		// Check cancellation before regex operations
 		if (token.isCancellationRequested) {
 			return null;
@@ -3,7 +3,12 @@ export * from "./definition";
 export * from "./document_drops";
 export * from "./document_link";
 export * from "./documentation";
+export * from "./file_rename";
+export * from "./group_diagnostics";
 export * from "./hover";
 export * from "./inlay_hints";
+export * from "./node_path_diagnostics";
+export * from "./references";
+export * from "./scene_diagnostics";
 export * from "./semantic_tokens";
 export * from "./tasks";
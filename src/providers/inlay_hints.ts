@@ -14,7 +14,7 @@ import {
 	TextEdit,
 } from "vscode";
 import { globals } from "../extension";
-import { SceneParser } from "../scene_tools";
+import { collectResourceRefs } from "../scene_tools";
 import { createLogger, get_configuration } from "../utils";
 
 const log = createLogger("providers.inlay_hints");
@@ -62,7 +62,6 @@ async function addByHover(document: TextDocument, hoverPosition: vscode.Position
 }
 
 export class GDInlayHintsProvider implements InlayHintsProvider {
-	public parser = new SceneParser();
 
 	private _onDidChangeInlayHints = new EventEmitter<void>();
 	get onDidChangeInlayHints(): Event<void> {
@@ -241,26 +240,30 @@ export class GDInlayHintsProvider implements InlayHintsProvider {
 			return hints;
 		}
 
-		const scene = this.parser.parse_scene(document);
+		const scene = globals.projectIndex.parser.parse_scene(document);
+		const rangeStart = document.offsetAt(range.start);
+		const rangeEnd = document.offsetAt(range.end);
 
-		for (const match of text.matchAll(/ExtResource\(\s?"?(\w+)\s?"?\)/g)) {
-			const id = match[1];
-			const end = document.positionAt(match.index + match[0].length);
-			const resource = scene.externalResources.get(id);
-
-			const label = `${resource.type}: "${resource.path}"`;
-
-			const hint = new InlayHint(end, label, InlayHintKind.Type);
-			hint.paddingLeft = true;
-			hints.push(hint);
-		}
-
-		for (const match of text.matchAll(/SubResource\(\s?"?(\w+)\s?"?\)/g)) {
-			const id = match[1];
-			const end = document.positionAt(match.index + match[0].length);
-			const resource = scene.subResources.get(id);
+		for (const ref of collectResourceRefs(scene.document)) {
+			if (ref.range.end < rangeStart || ref.range.end > rangeEnd) {
+				continue;
+			}
+			const end = document.positionAt(ref.range.end);
 
-			const label = `${resource.type}`;
+			let label: string;
+			if (ref.kind === "ext_resource") {
+				const resource = scene.externalResources.get(ref.id);
+				if (!resource) {
+					continue;
+				}
+				label = `${resource.type}: "${resource.path}"`;
+			} else {
+				const resource = scene.subResources.get(ref.id);
+				if (!resource) {
+					continue;
+				}
+				label = `${resource.type}`;
+			}
 
 			const hint = new InlayHint(end, label, InlayHintKind.Type);
 			hint.paddingLeft = true;
@@ -0,0 +1,278 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { globals } from "../extension";
+import {
+	type NodeBindingScope,
+	type NodeBindingsSource,
+	type Scene,
+	type SceneNode,
+	type ScriptContext,
+	bindingMemberName,
+	exportedBindingNames,
+	findCSharpClass,
+	generateNodeBindings,
+	nodeBindingsPath,
+	readNodeBindingsSource,
+	relativeNodePath,
+	toPathNodes,
+	toScenePath,
+} from "../scene_tools";
+import { SceneEditor } from "../scene_tools/scene_editor";
+import { createLogger, node_name_to_pascal, register_command } from "../utils";
+import { CSHARP_STYLE_OPTIONS, DEFAULT_CSHARP_STYLE, csharpStyleText } from "./document_drops";
+
+const log = createLogger("providers.node_bindings");
+
+/**
+ * "Generate Node Bindings": writes a `<Script>.Nodes.cs` partial class next to a C# script with
+ * a typed member for each node of its scene, in one of the drag & drop code styles. Bindings
+ * files are regenerated when their scene changes, unless `csharp.nodeBindings.autoUpdate` is off.
+ */
+export class NodeBindingsGenerator {
+	private editor: SceneEditor;
+
+	constructor(private context: vscode.ExtensionContext) {
+		this.editor = new SceneEditor(context);
+		context.subscriptions.push(register_command("generateNodeBindings", this.generate.bind(this)));
+		// Subscribed once the index is built, skipping the changes of the initial build: every file of the project
+		globals.projectIndex.ready.then(() => {
+			context.subscriptions.push(
+				globals.projectIndex.onDidChange((changes) => {
+					for (const change of changes) {
+						if (change.type !== "deleted" && change.resPath.endsWith(".tscn")) {
+							this.update(change.fsPath).catch((error) =>
+								log.warn(`Failed to update node bindings of ${change.resPath}:`, error),
+							);
+						}
+					}
+				}),
+			);
+		});
+	}
+
+	private async generate(uri?: vscode.Uri): Promise<void> {
+		const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+		if (!target || ![".tscn", ".cs"].includes(path.extname(target.fsPath))) {
+			vscode.window.showWarningMessage("Generate Node Bindings works on .tscn files and C# scripts.");
+			return;
+		}
+		const index = globals.projectIndex;
+		await index.ready;
+
+		const context = target.fsPath.endsWith(".cs")
+			? await this.pick_scene(target.fsPath)
+			: await this.pick_script(target.fsPath);
+		if (!context) {
+			return;
+		}
+
+		const scriptFsPath = index.toFsPath(context.owner.scriptPath);
+		const bindingsFsPath = nodeBindingsPath(scriptFsPath);
+		const previous = fs.existsSync(bindingsFsPath)
+			? readNodeBindingsSource(fs.readFileSync(bindingsFsPath, "utf-8"))
+			: undefined;
+
+		const scope = await this.pick_scope(context, previous?.scope);
+		if (!scope) {
+			return;
+		}
+		const config = vscode.workspace.getConfiguration("godotToolsCsharp.csharp");
+		const style = await this.pick_style(
+			previous?.style ?? config.get<string>("nodeReferenceStyle", DEFAULT_CSHARP_STYLE),
+		);
+		if (!style) {
+			return;
+		}
+
+		const source = { scene: index.toResPath(context.fsPath), scope, style };
+		if (await this.write(context, source)) {
+			await vscode.window.showTextDocument(vscode.Uri.file(bindingsFsPath));
+		}
+	}
+
+	/** Regenerates the bindings files generated from a scene that changed */
+	private async update(sceneFsPath: string): Promise<void> {
+		if (
+			!vscode.workspace.getConfiguration("godotToolsCsharp.csharp").get<boolean>("nodeBindings.autoUpdate", true)
+		) {
+			return;
+		}
+		const index = globals.projectIndex;
+		const sceneResPath = index.toResPath(sceneFsPath);
+		if (!sceneResPath) {
+			return;
+		}
+
+		// The C# scripts the scene loads with bindings generated from it, found without parsing the scene
+		const sources = new Map<string, NodeBindingsSource>();
+		for (const resPath of index.getDependencies(sceneResPath)) {
+			const bindingsFsPath = resPath.endsWith(".cs") && nodeBindingsPath(index.toFsPath(resPath));
+			if (!bindingsFsPath || !fs.existsSync(bindingsFsPath)) {
+				continue;
+			}
+			const source = readNodeBindingsSource(await fs.promises.readFile(bindingsFsPath, "utf-8"));
+			if (source?.scene === sceneResPath) {
+				sources.set(resPath, source);
+			}
+		}
+		if (!sources.size) {
+			return;
+		}
+
+		const document = await vscode.workspace.openTextDocument(sceneFsPath);
+		const scene = await index.parser.parse_scene_recursive(document);
+		for (const owner of this.script_owners(scene)) {
+			const source = sources.get(owner.scriptPath);
+			if (source) {
+				await this.write({ fsPath: sceneFsPath, scene, owner }, source);
+			}
+		}
+	}
+
+	/**
+	 * Writes the bindings file, and for the `[Export]` styles assigns the NodePaths on the
+	 * script's node in the scene. Returns false when the script can't get a partial class.
+	 */
+	private async write(context: ScriptContext, source: NodeBindingsSource): Promise<boolean> {
+		const scriptFsPath = globals.projectIndex.toFsPath(context.owner.scriptPath);
+		const scriptText = await fs.promises.readFile(scriptFsPath, "utf-8");
+		const csharpClass = findCSharpClass(scriptText, path.basename(scriptFsPath, ".cs"));
+		if (!csharpClass?.partial) {
+			vscode.window.showWarningMessage(
+				`${path.basename(scriptFsPath)} needs to declare a partial class for node bindings to be added to it.`,
+			);
+			return false;
+		}
+
+		const style = CSHARP_STYLE_OPTIONS[source.style] ?? CSHARP_STYLE_OPTIONS[DEFAULT_CSHARP_STYLE];
+		const { nodes, owner } = toPathNodes(context.scene.nodes.values(), context.owner);
+		const taken = new Set([csharpClass.name]);
+		const members: string[] = [];
+		const nodePaths: [string, string][] = [];
+		for (const node of nodes) {
+			// Nodes of instanced scenes belong to those scenes, and may change without this one changing
+			if (node === owner || !node.declared || (source.scope === "unique" && !node.unique)) {
+				continue;
+			}
+			const name = node.relativePath.slice(node.relativePath.lastIndexOf("/") + 1);
+			const propertyName = bindingMemberName(node_name_to_pascal(name), taken);
+			const fieldName = propertyName.charAt(0).toLowerCase() + propertyName.slice(1);
+			const nodePath = node.unique && owner.declared ? `%${name}` : relativeNodePath(owner, node);
+			const result = style.generator(node.className, propertyName, fieldName, nodePath);
+			members.push(csharpStyleText(result));
+			if (result.scenePropertyName) {
+				nodePaths.push([result.scenePropertyName, nodePath]);
+			}
+		}
+
+		const bindingsFsPath = nodeBindingsPath(scriptFsPath);
+		const text = generateNodeBindings(source, csharpClass, members, scriptText);
+		const existing = fs.existsSync(bindingsFsPath)
+			? await fs.promises.readFile(bindingsFsPath, "utf-8")
+			: undefined;
+		if (text !== existing) {
+			await vscode.workspace.fs.writeFile(vscode.Uri.file(bindingsFsPath), Buffer.from(text, "utf-8"));
+			log.info(`Wrote ${members.length} node bindings to ${bindingsFsPath}`);
+		}
+
+		// Export properties only get their nodes once the scene assigns them: paths of moved nodes
+		// are updated, and those of members the bindings no longer declare are removed
+		const stale = existing ? exportedBindingNames(existing) : [];
+		if (nodePaths.length || stale.length) {
+			const modified = await this.editor.applySceneEdit(context.fsPath, (builder) =>
+				builder.syncNodePathProperties(toScenePath(context.owner.relativePath), nodePaths, stale),
+			);
+			if (modified) {
+				globals.dropsProvider?.scenePreview?.showRebuildBanner();
+			}
+		}
+		return true;
+	}
+
+	/** The scene to generate from for a C# script, asking when several scenes attach it */
+	private async pick_scene(scriptFsPath: string): Promise<ScriptContext | undefined> {
+		const resPath = globals.projectIndex.toResPath(scriptFsPath);
+		// Only scenes attaching the script themselves: in the scenes instancing them, its nodes aren't editable
+		const contexts = resPath
+			? (await globals.projectIndex.getScriptContexts(resPath)).filter((context) => context.owner.scriptId)
+			: [];
+		if (contexts.length <= 1) {
+			if (!contexts.length) {
+				vscode.window.showWarningMessage(`No scene attaches ${path.basename(scriptFsPath)} to a node.`);
+			}
+			return contexts[0];
+		}
+		const picked = await vscode.window.showQuickPick(
+			contexts.map((context) => ({
+				label: path.basename(context.fsPath),
+				description: globals.projectIndex.toResPath(context.fsPath),
+				context,
+			})),
+			{ placeHolder: "Scene to generate the node bindings from" },
+		);
+		return picked?.context;
+	}
+
+	/** The C# script of a scene to generate for, asking when several of its nodes have one */
+	private async pick_script(sceneFsPath: string): Promise<ScriptContext | undefined> {
+		const document = await vscode.workspace.openTextDocument(sceneFsPath);
+		const scene = await globals.projectIndex.parser.parse_scene_recursive(document);
+		const owners = this.script_owners(scene);
+		if (owners.length <= 1) {
+			if (!owners.length) {
+				vscode.window.showWarningMessage(`No node of ${path.basename(sceneFsPath)} has a C# script.`);
+			}
+			return owners[0] && { fsPath: sceneFsPath, scene, owner: owners[0] };
+		}
+		const picked = await vscode.window.showQuickPick(
+			owners.map((owner) => ({
+				label: path.basename(owner.scriptPath),
+				description: owner.relativePath || owner.label,
+				owner,
+			})),
+			{ placeHolder: "Script to generate the node bindings for" },
+		);
+		return picked && { fsPath: sceneFsPath, scene, owner: picked.owner };
+	}
+
+	/** Nodes of the scene itself with a C# script, the root first */
+	private script_owners(scene: Scene): SceneNode[] {
+		return [...scene.nodes.values()].filter(
+			(node) => node.scriptId && node.scriptPath?.endsWith(".cs") && !node.contextValue?.includes("fromInstance"),
+		);
+	}
+
+	private async pick_scope(
+		context: ScriptContext,
+		current?: NodeBindingScope,
+	): Promise<NodeBindingScope | undefined> {
+		const nodes = [...context.scene.nodes.values()].filter(
+			(node) => node !== context.owner && !node.contextValue?.includes("fromInstance"),
+		);
+		const items = [
+			{
+				label: "Unique Nodes",
+				description: `${nodes.filter((node) => node.unique).length} nodes accessed as %Name`,
+				scope: "unique" as const,
+			},
+			{ label: "All Nodes", description: `${nodes.length} nodes`, scope: "all" as const },
+		];
+		if (current === "all") {
+			items.reverse();
+		}
+		const picked = await vscode.window.showQuickPick(items, { placeHolder: "Nodes to generate a member for" });
+		return picked?.scope;
+	}
+
+	private async pick_style(current: string): Promise<string | undefined> {
+		const items = Object.entries(CSHARP_STYLE_OPTIONS).map(([key, option]) => ({
+			label: option.label,
+			description: option.description,
+			key,
+		}));
+		items.sort((a, b) => Number(b.key === current) - Number(a.key === current));
+		const picked = await vscode.window.showQuickPick(items, { placeHolder: "Code style of the members" });
+		return picked?.key;
+	}
+}
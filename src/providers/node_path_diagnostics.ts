@@ -0,0 +1,323 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import {
+	CodeAction,
+	CodeActionKind,
+	type CodeActionContext,
+	type CodeActionProvider,
+	Diagnostic,
+	type DiagnosticCollection,
+	DiagnosticSeverity,
+	type ExtensionContext,
+	Range,
+	type TextDocument,
+	WorkspaceEdit,
+} from "vscode";
+import { globals } from "../extension";
+import {
+	type ClassLookup,
+	type NodePathReference,
+	type PathNode,
+	SceneEditBuilder,
+	computeMinimalEdit,
+	findNodePathReferences,
+	formatNodePathReference,
+	nodeMatchesType,
+	relativeNodePath,
+	resolveNodePath,
+	scriptLanguage,
+	suggestNodePath,
+	toPathNodes,
+	toScenePath,
+} from "../scene_tools";
+import type { TextRange } from "../scene_tools/resource_ast";
+import { createLogger } from "../utils";
+
+const log = createLogger("providers.node_path_diagnostics");
+
+const LANGUAGES = ["gdscript", "csharp"];
+// Delay between the last keystroke and re-checking the document (ms)
+const CHANGE_DEBOUNCE = 500;
+
+/** A scene using the script, and the node the script runs on in it */
+interface PathContext {
+	scene: string;
+	nodes: PathNode[];
+	owner: PathNode;
+}
+
+type Fix =
+	| { title: string; preferred?: boolean; range: TextRange; newText: string }
+	/** Sets unique_name_in_owner on a node of a scene */
+	| { title: string; preferred?: boolean; scene: string; nodePath: string };
+
+interface Problem {
+	range: TextRange;
+	message: string;
+	code: string;
+	fixes: Fix[];
+}
+
+interface AnalyzedDocument {
+	version: number;
+	entries: { diagnostic: Diagnostic; problem: Problem }[];
+}
+
+/**
+ * Checks the node paths scripts look up (`GetNode<T>("...")`, `$Path`, `%Name`) against
+ * the scenes the script is attached in: paths that don't resolve, `%Name` on nodes that
+ * aren't unique, and `GetNode<T>` with a class the node isn't.
+ */
+export class GDNodePathDiagnosticsProvider implements CodeActionProvider {
+	private collection: DiagnosticCollection = vscode.languages.createDiagnosticCollection("godot-node-paths");
+	private analyzed = new Map<string, AnalyzedDocument>();
+	private timers = new Map<string, NodeJS.Timeout>();
+
+	constructor(private context: ExtensionContext) {
+		const selector = LANGUAGES.map((language) => ({ language, scheme: "file" }));
+		context.subscriptions.push(
+			this.collection,
+			vscode.languages.registerCodeActionsProvider(selector, this, {
+				providedCodeActionKinds: [CodeActionKind.QuickFix],
+			}),
+			vscode.workspace.onDidOpenTextDocument((document) => this.analyze(document)),
+			vscode.workspace.onDidChangeTextDocument((event) => this.schedule(event.document)),
+			vscode.workspace.onDidCloseTextDocument((document) => this.clear(document)),
+			globals.projectIndex.onDidChange((changes) => {
+				if (changes.some((c) => c.fsPath.endsWith(".tscn"))) {
+					this.analyze_all();
+				}
+			}),
+			{ dispose: () => this.timers.forEach(clearTimeout) },
+		);
+		this.analyze_all();
+	}
+
+	public async provideCodeActions(
+		document: TextDocument,
+		_range: Range,
+		context: CodeActionContext,
+	): Promise<CodeAction[]> {
+		const analyzed = this.analyzed.get(document.uri.toString());
+		if (!analyzed || analyzed.version !== document.version) {
+			return [];
+		}
+
+		const actions: CodeAction[] = [];
+		for (const diagnostic of context.diagnostics) {
+			const entry = analyzed.entries.find(
+				(e) => e.diagnostic.code === diagnostic.code && e.diagnostic.range.isEqual(diagnostic.range),
+			);
+			for (const fix of entry?.problem.fixes ?? []) {
+				const edit =
+					"scene" in fix ? await this.unique_name_edit(fix.scene, fix.nodePath) : new WorkspaceEdit();
+				if (!edit) {
+					continue;
+				}
+				if ("range" in fix) {
+					edit.replace(document.uri, this.to_range(document, fix.range), fix.newText);
+				}
+				const action = new CodeAction(fix.title, CodeActionKind.QuickFix);
+				action.diagnostics = [diagnostic];
+				action.isPreferred = fix.preferred;
+				action.edit = edit;
+				actions.push(action);
+			}
+		}
+		return actions;
+	}
+
+	private analyze_all() {
+		for (const document of vscode.workspace.textDocuments) {
+			this.analyze(document);
+		}
+	}
+
+	private schedule(document: TextDocument) {
+		if (!LANGUAGES.includes(document.languageId)) {
+			return;
+		}
+		const key = document.uri.toString();
+		clearTimeout(this.timers.get(key));
+		this.timers.set(
+			key,
+			setTimeout(() => {
+				this.timers.delete(key);
+				this.analyze(document);
+			}, CHANGE_DEBOUNCE),
+		);
+	}
+
+	private async analyze(document: TextDocument) {
+		if (!LANGUAGES.includes(document.languageId) || document.uri.scheme !== "file") {
+			return;
+		}
+		const index = globals.projectIndex;
+		await index.ready;
+		const resPath = index.toResPath(document.uri.fsPath);
+		if (document.isClosed || !resPath) {
+			return;
+		}
+
+		try {
+			const version = document.version;
+			const references = findNodePathReferences(document.getText(), scriptLanguage(document.uri.fsPath));
+			// Scripts no scene uses have nothing to be checked against
+			const contexts = references.length ? await this.get_contexts(resPath) : [];
+			if (document.version !== version) {
+				return;
+			}
+
+			const problems = contexts.length ? references.map((r) => this.check(r, contexts)).filter(Boolean) : [];
+			const entries = problems.map((problem) => ({ diagnostic: this.to_diagnostic(document, problem), problem }));
+			this.analyzed.set(document.uri.toString(), { version, entries });
+			this.collection.set(
+				document.uri,
+				entries.map((e) => e.diagnostic),
+			);
+		} catch (error) {
+			log.warn(`Failed to check node paths in ${document.uri.fsPath}:`, error);
+		}
+	}
+
+	/**
+	 * A path is fine when it resolves in any scene using the script, since scenes may
+	 * legitimately differ, and isn't reported when a scene can't tell (e.g. `../` above its root).
+	 */
+	private check(reference: NodePathReference, contexts: PathContext[]): Problem | undefined {
+		const results = contexts.map((context) => ({
+			context,
+			resolution: resolveNodePath(context.nodes, context.owner, reference.path),
+		}));
+
+		const found: PathNode[] = [];
+		for (const { resolution } of results) {
+			if (resolution.status === "found") {
+				found.push(resolution.node);
+			}
+		}
+		if (found.length) {
+			const classes = this.get_classes();
+			if (
+				!reference.typeName ||
+				!found.every((node) => nodeMatchesType(node, reference.typeName, classes) === false)
+			) {
+				return undefined;
+			}
+			const className = found[0].className;
+			return {
+				range: reference.typeRange,
+				message: `"${reference.path}" is a ${className}, not a ${reference.typeName}.`,
+				code: "node-type",
+				fixes: [{ title: `Change to ${className}`, range: reference.typeRange, newText: className }],
+			};
+		}
+		if (results.some(({ resolution }) => resolution.status === "unknown")) {
+			return undefined;
+		}
+
+		for (const { context, resolution } of results) {
+			if (resolution.status !== "not-unique") {
+				continue;
+			}
+			const sceneName = path.basename(context.scene);
+			const nodePath = relativeNodePath(context.owner, resolution.node);
+			return {
+				range: reference.range,
+				message: `"${reference.path.slice(1)}" isn't marked as a unique name in ${sceneName}.`,
+				code: "node-not-unique",
+				fixes: [
+					{
+						title: `Access as Unique Name in ${sceneName}`,
+						preferred: true,
+						scene: context.scene,
+						nodePath: resolution.node.relativePath,
+					},
+					{
+						title: `Change to "${nodePath}"`,
+						range: reference.range,
+						newText: formatNodePathReference(reference, nodePath),
+					},
+				],
+			};
+		}
+
+		const [first] = results;
+		const suggestion = suggestNodePath(first.context.nodes, first.context.owner, reference.path);
+		const scenes = contexts.map((context) => path.basename(context.scene));
+		const where =
+			scenes.length > 2 ? `${scenes.slice(0, 2).join(", ")} and ${scenes.length - 2} more` : scenes.join(" or ");
+		return {
+			range: reference.range,
+			message: `Node "${reference.path}" not found in ${where}.`,
+			code: "node-not-found",
+			fixes: suggestion
+				? [
+						{
+							title: `Change to "${suggestion}"`,
+							preferred: true,
+							range: reference.range,
+							newText: formatNodePathReference(reference, suggestion),
+						},
+					]
+				: [],
+		};
+	}
+
+	/** The scenes using the script, by res:// path */
+	private async get_contexts(resPath: string): Promise<PathContext[]> {
+		const contexts = await globals.projectIndex.getScriptContexts(resPath);
+		return contexts.map(({ fsPath, scene, owner }) => ({
+			scene: fsPath,
+			...toPathNodes(scene.nodes.values(), owner),
+		}));
+	}
+
+	/** Class inheritance from the language server, when it's connected */
+	private get_classes(): ClassLookup {
+		const classInfo = globals.docsProvider?.classInfo;
+		return {
+			getBaseClass: (className) => classInfo?.get(className)?.inherits || undefined,
+			isNativeClass: (className) => classInfo?.has(className) ?? false,
+		};
+	}
+
+	private async unique_name_edit(sceneFsPath: string, nodePath: string): Promise<WorkspaceEdit | undefined> {
+		const uri = vscode.Uri.file(sceneFsPath);
+		const document = await vscode.workspace.openTextDocument(uri);
+		const text = document.getText();
+		const change = computeMinimalEdit(
+			text,
+			new SceneEditBuilder(text).setUnique(toScenePath(nodePath), true) ?? text,
+		);
+		if (!change) {
+			return undefined;
+		}
+		const edit = new WorkspaceEdit();
+		edit.replace(uri, this.to_range(document, change), change.newText);
+		return edit;
+	}
+
+	private clear(document: TextDocument) {
+		const key = document.uri.toString();
+		clearTimeout(this.timers.get(key));
+		this.timers.delete(key);
+		this.analyzed.delete(key);
+		this.collection.delete(document.uri);
+	}
+
+	private to_diagnostic(document: TextDocument, problem: Problem): Diagnostic {
+		const diagnostic = new Diagnostic(
+			this.to_range(document, problem.range),
+			problem.message,
+			DiagnosticSeverity.Warning,
+		);
+		diagnostic.source = "godot";
+		diagnostic.code = problem.code;
+		return diagnostic;
+	}
+
+	private to_range(document: TextDocument, range: { start: number; end: number }): Range {
+		return new Range(document.positionAt(range.start), document.positionAt(range.end));
+	}
+}
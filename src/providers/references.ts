@@ -0,0 +1,237 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import {
+	type CancellationToken,
+	type ExtensionContext,
+	Location,
+	type Position,
+	Range,
+	type ReferenceContext,
+	type ReferenceProvider,
+	type TextDocument,
+	type TreeDataProvider,
+	TreeItem,
+	TreeItemCollapsibleState,
+	type TreeView,
+	window,
+} from "vscode";
+import { globals } from "../extension";
+import { type ResourceReference, findResourceReferences, parseResourceText, walkValue } from "../scene_tools";
+import { createLogger, get_project_file, register_command } from "../utils";
+
+const log = createLogger("providers.references");
+
+export interface GodotReference {
+	location: Location;
+	label: string;
+}
+
+/**
+ * Finds the scenes, resources and project settings that use a script, scene or resource,
+ * through `[ext_resource]` paths and `uid://` identifiers.
+ */
+export class GDReferenceProvider implements ReferenceProvider {
+	private tree = new GodotReferencesTreeProvider();
+
+	constructor(private context: ExtensionContext) {
+		const selector = [
+			{ language: "gdresource", scheme: "file" },
+			{ language: "gdscene", scheme: "file" },
+			{ language: "gdscript", scheme: "file" },
+			{ language: "csharp", scheme: "file" },
+		];
+		context.subscriptions.push(
+			vscode.languages.registerReferenceProvider(selector, this),
+			register_command("findGodotReferences", this.show_references.bind(this)),
+			this.tree.view,
+		);
+	}
+
+	async provideReferences(
+		document: TextDocument,
+		position: Position,
+		_context: ReferenceContext,
+		token: CancellationToken,
+	): Promise<Location[]> {
+		if (!this.is_file_symbol(document, position)) {
+			return [];
+		}
+		const references = await this.find_references(document.uri);
+		if (token.isCancellationRequested) {
+			return [];
+		}
+		return references.map((r) => r.location);
+	}
+
+	/**
+	 * Lists the references to a file in the Godot References view.
+	 * Uses the active editor's file when invoked from the command palette.
+	 */
+	private async show_references(uri?: vscode.Uri): Promise<void> {
+		const target = uri ?? window.activeTextEditor?.document.uri;
+		if (!target) {
+			return;
+		}
+		const references = await this.find_references(target);
+		this.tree.show(target, references);
+		vscode.commands.executeCommand("godotToolsCsharp.references.focus");
+	}
+
+	/**
+	 * In a script, only the script's own class refers to the file: the C# class named after
+	 * it, or a GDScript's `class_name`/`extends` line. Other symbols are left to the language server.
+	 */
+	private is_file_symbol(document: TextDocument, position: Position): boolean {
+		if (document.languageId === "gdscene" || document.languageId === "gdresource") {
+			return true;
+		}
+		if (document.languageId === "csharp") {
+			const range = document.getWordRangeAtPosition(position);
+			return !!range && document.getText(range) === path.basename(document.uri.fsPath, ".cs");
+		}
+		return /^\s*(class_name|extends)\b/.test(document.lineAt(position.line).text);
+	}
+
+	public async find_references(uri: vscode.Uri): Promise<GodotReference[]> {
+		const index = globals.projectIndex;
+		await index.ready;
+
+		const resPath = index.toResPath(uri.fsPath);
+		if (!resPath) {
+			return [];
+		}
+		const target = { path: resPath, uid: index.graph.getUid(resPath) };
+
+		const references: GodotReference[] = [];
+		for (const dependent of index.getDependents(resPath)) {
+			const fsPath = index.getResource(dependent)?.fsPath;
+			if (!fsPath) {
+				continue;
+			}
+			try {
+				const document = await vscode.workspace.openTextDocument(fsPath);
+				for (const reference of findResourceReferences(parseResourceText(document.getText()), target)) {
+					references.push({
+						location: new Location(document.uri, this.to_range(document, reference.range)),
+						label: this.describe(reference),
+					});
+				}
+			} catch (error) {
+				log.warn(`Failed to read references in ${fsPath}:`, error);
+			}
+		}
+
+		references.push(...(await this.find_project_references(target)));
+		return references;
+	}
+
+	/**
+	 * project.godot refers to files by plain strings: main scene, autoloads (`*res://...`), icons.
+	 */
+	private async find_project_references(target: { path: string; uid?: string }): Promise<GodotReference[]> {
+		const projectFile = await get_project_file();
+		if (!projectFile) {
+			return [];
+		}
+
+		const matches = new Set([target.path, `*${target.path}`, target.uid].filter(Boolean));
+		const document = await vscode.workspace.openTextDocument(projectFile);
+		const project = parseResourceText(document.getText());
+		const references: GodotReference[] = [];
+
+		const sections = [{ tag: "", properties: project.preamble }, ...project.sections];
+		for (const section of sections) {
+			for (const property of section.properties) {
+				walkValue(property.value, (value) => {
+					if (value.kind === "string" && matches.has(value.value)) {
+						references.push({
+							location: new Location(document.uri, this.to_range(document, value.range)),
+							label: section.tag ? `[${section.tag}] ${property.key}` : property.key,
+						});
+					}
+				});
+			}
+		}
+		return references;
+	}
+
+	private describe(reference: ResourceReference): string {
+		if (reference.kind === "declaration") {
+			return "ext_resource";
+		}
+		if (reference.nodePath) {
+			const node = reference.nodePath === "." ? "root node" : reference.nodePath;
+			return `${node}: ${reference.property}`;
+		}
+		return `[${reference.sectionTag}] ${reference.property}`;
+	}
+
+	private to_range(document: TextDocument, range: { start: number; end: number }): Range {
+		return new Range(document.positionAt(range.start), document.positionAt(range.end));
+	}
+}
+
+interface ReferenceFileElement {
+	uri: vscode.Uri;
+	references: GodotReference[];
+}
+
+type ReferenceTreeElement = ReferenceFileElement | GodotReference;
+
+/**
+ * The "Godot References" view: referencing files, each with the references it contains.
+ */
+class GodotReferencesTreeProvider implements TreeDataProvider<ReferenceTreeElement> {
+	private changeTreeEvent = new vscode.EventEmitter<void>();
+	onDidChangeTreeData = this.changeTreeEvent.event;
+
+	private files: ReferenceFileElement[] = [];
+	public view: TreeView<ReferenceTreeElement>;
+
+	constructor() {
+		this.view = window.createTreeView("godotToolsCsharp.references", {
+			treeDataProvider: this,
+			showCollapseAll: true,
+		});
+	}
+
+	public show(target: vscode.Uri, references: GodotReference[]) {
+		const files = new Map<string, ReferenceFileElement>();
+		for (const reference of references) {
+			const key = reference.location.uri.fsPath;
+			if (!files.has(key)) {
+				files.set(key, { uri: reference.location.uri, references: [] });
+			}
+			files.get(key).references.push(reference);
+		}
+		this.files = [...files.values()];
+
+		this.view.description = path.basename(target.fsPath);
+		this.view.message = references.length === 0 ? `No references to ${path.basename(target.fsPath)}` : undefined;
+		this.changeTreeEvent.fire();
+	}
+
+	public getChildren(element?: ReferenceTreeElement): ReferenceTreeElement[] {
+		if (!element) {
+			return this.files;
+		}
+		return "references" in element ? element.references : [];
+	}
+
+	public getTreeItem(element: ReferenceTreeElement): TreeItem {
+		if ("references" in element) {
+			const item = new TreeItem(element.uri, TreeItemCollapsibleState.Expanded);
+			item.description = `${element.references.length}`;
+			return item;
+		}
+
+		const item = new TreeItem(element.label, TreeItemCollapsibleState.None);
+		item.description = `line ${element.location.range.start.line + 1}`;
+		item.command = {
+			command: "vscode.open",
+			title: "Open Reference",
+			arguments: [element.location.uri, { selection: element.location.range }],
+		};
+		return item;
+	}
+}
@@ -0,0 +1,154 @@
+import * as fs from "node:fs";
+import * as vscode from "vscode";
+import {
+	CodeAction,
+	CodeActionKind,
+	type CodeActionContext,
+	type CodeActionProvider,
+	Diagnostic,
+	type DiagnosticCollection,
+	DiagnosticSeverity,
+	DiagnosticTag,
+	type ExtensionContext,
+	Range,
+	type TextDocument,
+	WorkspaceEdit,
+} from "vscode";
+import { globals } from "../extension";
+import { type ProjectLookup, type SceneProblem, analyzeSceneText } from "../scene_tools";
+import { createLogger } from "../utils";
+
+const log = createLogger("providers.scene_diagnostics");
+
+const LANGUAGES = ["gdscene", "gdresource"];
+// Delay between the last keystroke and re-checking the document (ms)
+const CHANGE_DEBOUNCE = 500;
+
+interface AnalyzedDocument {
+	version: number;
+	entries: { diagnostic: Diagnostic; problem: SceneProblem }[];
+}
+
+/**
+ * Reports broken references, unknown parents, duplicate names and stale `load_steps` in open
+ * `.tscn` and `.tres` files, with quick fixes where the repair is unambiguous.
+ */
+export class GDSceneDiagnosticsProvider implements CodeActionProvider {
+	private collection: DiagnosticCollection = vscode.languages.createDiagnosticCollection("godot-scenes");
+	private analyzed = new Map<string, AnalyzedDocument>();
+	private timers = new Map<string, NodeJS.Timeout>();
+
+	constructor(private context: ExtensionContext) {
+		const selector = LANGUAGES.map((language) => ({ language, scheme: "file" }));
+		context.subscriptions.push(
+			this.collection,
+			vscode.languages.registerCodeActionsProvider(selector, this, {
+				providedCodeActionKinds: [CodeActionKind.QuickFix],
+			}),
+			vscode.workspace.onDidOpenTextDocument((document) => this.analyze(document)),
+			vscode.workspace.onDidChangeTextDocument((event) => this.schedule(event.document)),
+			vscode.workspace.onDidCloseTextDocument((document) => this.clear(document)),
+			// Files appearing or disappearing change which references are broken
+			globals.projectIndex.onDidChange(() => this.analyze_all()),
+			{ dispose: () => this.timers.forEach(clearTimeout) },
+		);
+		this.analyze_all();
+	}
+
+	public provideCodeActions(document: TextDocument, _range: Range, context: CodeActionContext): CodeAction[] {
+		const analyzed = this.analyzed.get(document.uri.toString());
+		if (!analyzed || analyzed.version !== document.version) {
+			return [];
+		}
+
+		const actions: CodeAction[] = [];
+		for (const diagnostic of context.diagnostics) {
+			const entry = analyzed.entries.find(
+				(e) => e.diagnostic.code === diagnostic.code && e.diagnostic.range.isEqual(diagnostic.range),
+			);
+			for (const fix of entry?.problem.fixes ?? []) {
+				const action = new CodeAction(fix.title, CodeActionKind.QuickFix);
+				action.diagnostics = [diagnostic];
+				action.isPreferred = fix.preferred;
+				action.edit = new WorkspaceEdit();
+				action.edit.replace(document.uri, this.to_range(document, fix.edit), fix.edit.newText);
+				actions.push(action);
+			}
+		}
+		return actions;
+	}
+
+	private analyze_all() {
+		for (const document of vscode.workspace.textDocuments) {
+			this.analyze(document);
+		}
+	}
+
+	private schedule(document: TextDocument) {
+		const key = document.uri.toString();
+		clearTimeout(this.timers.get(key));
+		this.timers.set(
+			key,
+			setTimeout(() => {
+				this.timers.delete(key);
+				this.analyze(document);
+			}, CHANGE_DEBOUNCE),
+		);
+	}
+
+	private async analyze(document: TextDocument) {
+		if (!LANGUAGES.includes(document.languageId) || document.uri.scheme !== "file") {
+			return;
+		}
+		const index = globals.projectIndex;
+		await index.ready;
+		if (document.isClosed) {
+			return;
+		}
+
+		const project: ProjectLookup = {
+			fileExists: (resPath) => {
+				const fsPath = index.toFsPath(resPath);
+				return !!fsPath && fs.existsSync(fsPath);
+			},
+			resolveUid: (uid) => index.graph.resolveUid(uid),
+			getUid: (resPath) => index.graph.getUid(resPath),
+		};
+
+		try {
+			const version = document.version;
+			const problems = analyzeSceneText(document.getText(), index.toResPath(document.uri.fsPath) && project);
+			const entries = problems.map((problem) => ({ diagnostic: this.to_diagnostic(document, problem), problem }));
+			this.analyzed.set(document.uri.toString(), { version, entries });
+			this.collection.set(
+				document.uri,
+				entries.map((e) => e.diagnostic),
+			);
+		} catch (error) {
+			log.warn(`Failed to check ${document.uri.fsPath}:`, error);
+		}
+	}
+
+	private clear(document: TextDocument) {
+		const key = document.uri.toString();
+		clearTimeout(this.timers.get(key));
+		this.timers.delete(key);
+		this.analyzed.delete(key);
+		this.collection.delete(document.uri);
+	}
+
+	private to_diagnostic(document: TextDocument, problem: SceneProblem): Diagnostic {
+		const severity = problem.severity === "error" ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning;
+		const diagnostic = new Diagnostic(this.to_range(document, problem.range), problem.message, severity);
+		diagnostic.source = "godot";
+		diagnostic.code = problem.code;
+		if (problem.unnecessary) {
+			diagnostic.tags = [DiagnosticTag.Unnecessary];
+		}
+		return diagnostic;
+	}
+
+	private to_range(document: TextDocument, range: { start: number; end: number }): Range {
+		return new Range(document.positionAt(range.start), document.positionAt(range.end));
+	}
+}
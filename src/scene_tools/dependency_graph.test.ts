@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import {
+	buildDependencyGraph,
+	dependencyNeighbourhood,
+	filterDependencyGraph,
+	findDependencyCycles,
+	layerDependencyGraph,
+	sceneLoad,
+} from "./dependency_graph";
+import type { IndexedResource } from "./resource_index";
+
+function resource(resPath: string, ...dependencies: [string, string][]): IndexedResource {
+	return {
+		resPath,
+		fsPath: resPath.replace("res://", "/game/"),
+		kind: resPath.endsWith(".tscn") ? "scene" : resPath.endsWith(".tres") ? "resource" : "script",
+		dependencies: dependencies.map(([type, path]) => ({ type, path })),
+	};
+}
+
+const RESOURCES = [
+	resource("res://main.tscn", ["PackedScene", "res://level.tscn"], ["Script", "res://main.gd"]),
+	resource(
+		"res://level.tscn",
+		["PackedScene", "res://enemy.tscn"],
+		["PackedScene", "res://enemy.tscn"],
+		["Texture2D", "res://tiles.png"],
+	),
+	resource("res://enemy.tscn", ["PackedScene", "res://spawner.tscn"]),
+	resource("res://spawner.tscn", ["PackedScene", "res://enemy.tscn"]),
+	resource("res://main.gd"),
+	resource("res://theme.tres"),
+];
+
+suite("Dependency graph", () => {
+	const graph = buildDependencyGraph(RESOURCES, (dependency) => dependency.path);
+
+	test("builds one edge per referenced file", () => {
+		expect(graph.edges).to.have.length(6);
+		expect(graph.nodes.find((node) => node.resPath === "res://tiles.png")).to.deep.equal({
+			resPath: "res://tiles.png",
+			kind: "asset",
+			type: "Texture2D",
+			missing: true,
+		});
+	});
+
+	test("finds cycles and lays them out in one column", () => {
+		expect(findDependencyCycles(graph).map((cycle) => cycle.sort())).to.deep.equal([
+			["res://enemy.tscn", "res://spawner.tscn"],
+		]);
+		const layers = layerDependencyGraph(graph);
+		expect(layers).to.deep.include({
+			"res://main.tscn": 0,
+			"res://level.tscn": 1,
+			"res://main.gd": 1,
+			"res://enemy.tscn": 2,
+			"res://spawner.tscn": 2,
+			"res://tiles.png": 2,
+			"res://theme.tres": 0,
+		});
+	});
+
+	test("focuses on a resource's neighbourhood", () => {
+		const around = dependencyNeighbourhood(graph, "res://level.tscn", 1, "both");
+		expect(around.nodes.map((node) => node.resPath).sort()).to.deep.equal([
+			"res://enemy.tscn",
+			"res://level.tscn",
+			"res://main.tscn",
+			"res://tiles.png",
+		]);
+		const users = dependencyNeighbourhood(graph, "res://spawner.tscn", -1, "dependents");
+		expect(users.nodes).to.have.length(4);
+
+		const scenes = filterDependencyGraph(around, { kinds: ["scene"], text: "EN", keep: ["res://level.tscn"] });
+		expect(scenes.nodes.map((node) => node.resPath)).to.deep.equal(["res://level.tscn", "res://enemy.tscn"]);
+		expect(scenes.edges).to.deep.equal([{ from: "res://level.tscn", to: "res://enemy.tscn", type: "PackedScene" }]);
+	});
+
+	test("explains what loading a scene pulls in", () => {
+		const load = sceneLoad(graph, "res://main.tscn");
+		expect(load.loaded).to.have.length(6);
+		expect(load.chains["res://spawner.tscn"]).to.deep.equal([
+			"res://main.tscn",
+			"res://level.tscn",
+			"res://enemy.tscn",
+			"res://spawner.tscn",
+		]);
+		expect(load.weights).to.deep.include({ "res://main.tscn": 6, "res://level.tscn": 4, "res://enemy.tscn": 2 });
+	});
+});
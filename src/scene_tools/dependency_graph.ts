@@ -0,0 +1,283 @@
+import { type IndexedKind, type IndexedResource, type ResourceDependency, kindFromPath } from "./resource_index";
+
+export interface DependencyNode {
+	resPath: string;
+	kind: IndexedKind;
+	/** The scene root's type, or the type the resource is loaded as */
+	type?: string;
+	/** Referenced, but not in the project */
+	missing?: boolean;
+}
+
+/** One `[ext_resource]` reference: `from` loads `to` */
+export interface DependencyEdge {
+	from: string;
+	to: string;
+	/** The ext_resource's type, e.g. `PackedScene` or `Script` */
+	type: string;
+}
+
+export interface DependencyGraph {
+	nodes: DependencyNode[];
+	edges: DependencyEdge[];
+}
+
+/** Which references to follow from a resource */
+export type DependencyDirection = "dependencies" | "dependents" | "both";
+
+export interface DependencyFilter {
+	kinds?: IndexedKind[];
+	/** Case-insensitive part of the res:// path */
+	text?: string;
+	/** Resources kept whatever the filter, e.g. the focused scene */
+	keep?: string[];
+}
+
+/** What loading a scene brings into memory */
+export interface SceneLoad {
+	/** Everything loading the scene loads, the scene first */
+	loaded: string[];
+	/** For each loaded resource, the shortest chain of references from the scene to it */
+	chains: Record<string, string[]>;
+	/** For each loaded resource, how many resources loading it pulls in, itself included */
+	weights: Record<string, number>;
+}
+
+/**
+ * The graph of `[ext_resource]` references between the project's resources. References to
+ * files the project doesn't have become `missing` nodes.
+ */
+export function buildDependencyGraph(
+	resources: IndexedResource[],
+	resolve: (dependency: ResourceDependency) => string | undefined,
+): DependencyGraph {
+	const nodes = new Map<string, DependencyNode>();
+	for (const resource of resources) {
+		nodes.set(resource.resPath, { resPath: resource.resPath, kind: resource.kind, type: resource.rootType });
+	}
+
+	const edges: DependencyEdge[] = [];
+	const seen = new Set<string>();
+	for (const resource of resources) {
+		for (const dependency of resource.dependencies) {
+			const to = resolve(dependency);
+			const key = `${resource.resPath}\n${to}`;
+			if (!to || seen.has(key)) {
+				continue;
+			}
+			seen.add(key);
+			edges.push({ from: resource.resPath, to, type: dependency.type });
+
+			const node = nodes.get(to);
+			if (!node) {
+				nodes.set(to, { resPath: to, kind: kindFromPath(to), type: dependency.type, missing: true });
+			} else {
+				node.type ??= dependency.type;
+			}
+		}
+	}
+	return { nodes: [...nodes.values()], edges };
+}
+
+/** Groups of resources that load each other, directly or through others */
+export function findDependencyCycles(graph: DependencyGraph): string[][] {
+	const selfReferences = new Set(graph.edges.filter((edge) => edge.from === edge.to).map((edge) => edge.from));
+	return stronglyConnected(graph).filter((component) => component.length > 1 || selfReferences.has(component[0]));
+}
+
+/**
+ * The part of the graph within `depth` references of a resource, following its
+ * dependencies, its dependents or both. A negative depth has no limit.
+ */
+export function dependencyNeighbourhood(
+	graph: DependencyGraph,
+	focus: string,
+	depth: number,
+	direction: DependencyDirection,
+): DependencyGraph {
+	const included = new Set([focus]);
+	const walk = (next: Map<string, string[]>) => {
+		let frontier = [focus];
+		const visited = new Set(frontier);
+		for (let level = 0; frontier.length && (depth < 0 || level < depth); level++) {
+			const following: string[] = [];
+			for (const resPath of frontier) {
+				for (const neighbour of next.get(resPath) ?? []) {
+					if (!visited.has(neighbour)) {
+						visited.add(neighbour);
+						included.add(neighbour);
+						following.push(neighbour);
+					}
+				}
+			}
+			frontier = following;
+		}
+	};
+	if (direction !== "dependents") {
+		walk(adjacency(graph, "from"));
+	}
+	if (direction !== "dependencies") {
+		walk(adjacency(graph, "to"));
+	}
+	return subgraph(graph, included);
+}
+
+export function filterDependencyGraph(graph: DependencyGraph, filter: DependencyFilter): DependencyGraph {
+	const text = filter.text?.toLowerCase();
+	const keep = new Set(filter.keep ?? []);
+	const included = new Set(
+		graph.nodes
+			.filter(
+				(node) =>
+					keep.has(node.resPath) ||
+					((!filter.kinds || filter.kinds.includes(node.kind)) &&
+						(!text || node.resPath.toLowerCase().includes(text))),
+			)
+			.map((node) => node.resPath),
+	);
+	return subgraph(graph, included);
+}
+
+/** Everything loading a scene loads, and which references pull in the most of it */
+export function sceneLoad(graph: DependencyGraph, scene: string): SceneLoad {
+	const next = adjacency(graph, "from");
+	const chains: Record<string, string[]> = { [scene]: [scene] };
+	const loaded = [scene];
+	for (let i = 0; i < loaded.length; i++) {
+		for (const dependency of next.get(loaded[i]) ?? []) {
+			if (!chains[dependency]) {
+				chains[dependency] = [...chains[loaded[i]], dependency];
+				loaded.push(dependency);
+			}
+		}
+	}
+
+	const weights: Record<string, number> = {};
+	for (const resPath of loaded) {
+		const reached = new Set([resPath]);
+		const queue = [resPath];
+		while (queue.length) {
+			for (const dependency of next.get(queue.pop()) ?? []) {
+				if (!reached.has(dependency)) {
+					reached.add(dependency);
+					queue.push(dependency);
+				}
+			}
+		}
+		weights[resPath] = reached.size;
+	}
+	return { loaded, chains, weights };
+}
+
+/**
+ * A column for each resource so that references point right: resources that load each other
+ * share a column, and everything else sits one column right of the furthest resource loading it.
+ */
+export function layerDependencyGraph(graph: DependencyGraph): Record<string, number> {
+	const components = stronglyConnected(graph);
+	const componentOf = new Map<string, number>();
+	components.forEach((component, i) => {
+		for (const resPath of component) {
+			componentOf.set(resPath, i);
+		}
+	});
+
+	// Components come out of Tarjan's algorithm after everything they reach, so walking
+	// them backwards visits each one after everything that loads it
+	const next = adjacency(graph, "from");
+	const componentLayers = new Array<number>(components.length).fill(0);
+	for (let i = components.length - 1; i >= 0; i--) {
+		for (const resPath of components[i]) {
+			for (const dependency of next.get(resPath) ?? []) {
+				const target = componentOf.get(dependency);
+				if (target !== i) {
+					componentLayers[target] = Math.max(componentLayers[target], componentLayers[i] + 1);
+				}
+			}
+		}
+	}
+
+	const layers: Record<string, number> = {};
+	for (const [resPath, component] of componentOf) {
+		layers[resPath] = componentLayers[component];
+	}
+	return layers;
+}
+
+function subgraph(graph: DependencyGraph, included: Set<string>): DependencyGraph {
+	return {
+		nodes: graph.nodes.filter((node) => included.has(node.resPath)),
+		edges: graph.edges.filter((edge) => included.has(edge.from) && included.has(edge.to)),
+	};
+}
+
+/** res:// path -> the resources at the other end of its edges, leaving from `side` */
+function adjacency(graph: DependencyGraph, side: "from" | "to"): Map<string, string[]> {
+	const other = side === "from" ? "to" : "from";
+	const result = new Map<string, string[]>();
+	for (const edge of graph.edges) {
+		if (!result.has(edge[side])) {
+			result.set(edge[side], []);
+		}
+		result.get(edge[side]).push(edge[other]);
+	}
+	return result;
+}
+
+/**
+ * Tarjan's strongly connected components, each emitted after every component it reaches.
+ * Iterative, since dependency chains can be deeper than the stack allows.
+ */
+function stronglyConnected(graph: DependencyGraph): string[][] {
+	const next = adjacency(graph, "from");
+	const indices = new Map<string, number>();
+	const lowLinks = new Map<string, number>();
+	const stack: string[] = [];
+	const onStack = new Set<string>();
+	const components: string[][] = [];
+
+	for (const { resPath: start } of graph.nodes) {
+		if (indices.has(start)) {
+			continue;
+		}
+		const work: { resPath: string; neighbour: number }[] = [{ resPath: start, neighbour: 0 }];
+		while (work.length) {
+			const frame = work[work.length - 1];
+			const { resPath } = frame;
+			if (frame.neighbour === 0 && !indices.has(resPath)) {
+				indices.set(resPath, indices.size);
+				lowLinks.set(resPath, indices.get(resPath));
+				stack.push(resPath);
+				onStack.add(resPath);
+			}
+
+			const neighbours = next.get(resPath) ?? [];
+			if (frame.neighbour < neighbours.length) {
+				const neighbour = neighbours[frame.neighbour++];
+				if (!indices.has(neighbour)) {
+					work.push({ resPath: neighbour, neighbour: 0 });
+				} else if (onStack.has(neighbour)) {
+					lowLinks.set(resPath, Math.min(lowLinks.get(resPath), indices.get(neighbour)));
+				}
+				continue;
+			}
+
+			work.pop();
+			if (work.length) {
+				const parent = work[work.length - 1].resPath;
+				lowLinks.set(parent, Math.min(lowLinks.get(parent), lowLinks.get(resPath)));
+			}
+			if (lowLinks.get(resPath) === indices.get(resPath)) {
+				const component: string[] = [];
+				let member: string;
+				do {
+					member = stack.pop();
+					onStack.delete(member);
+					component.push(member);
+				} while (member !== resPath);
+				components.push(component);
+			}
+		}
+	}
+	return components;
+}
@@ -0,0 +1,309 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { globals } from "../extension";
+import { createLogger, get_nonce, register_command } from "../utils";
+import {
+	type DependencyDirection,
+	type DependencyGraph,
+	type DependencyNode,
+	buildDependencyGraph,
+	dependencyNeighbourhood,
+	filterDependencyGraph,
+	findDependencyCycles,
+	layerDependencyGraph,
+	sceneLoad,
+} from "./dependency_graph";
+import type { IndexedKind } from "./resource_index";
+
+const log = createLogger("scenes.dependencies", { output: "Godot Scene Parser" });
+
+/** More boxes than this are unreadable, and slow the webview down */
+const MAX_GRAPH_NODES = 300;
+
+interface GraphOptions {
+	/** References to follow from the focused resource, -1 for all */
+	depth: number;
+	direction: DependencyDirection;
+	kinds: IndexedKind[];
+	text: string;
+}
+
+/**
+ * "Show Dependency Graph": the `[ext_resource]` references between the project's scenes,
+ * scripts and resources, drawn in a webview. Focusing on a scene shows its neighbourhood and
+ * what loading it pulls into memory; cycles are highlighted.
+ */
+export class SceneDependencyGraphViewer {
+	private panel?: vscode.WebviewPanel;
+	/** res:// path of the focused resource, or undefined for the whole project */
+	private focus?: string;
+	private options: GraphOptions = {
+		depth: 2,
+		direction: "both",
+		kinds: ["scene", "resource", "script", "asset"],
+		text: "",
+	};
+	private updateTimer?: NodeJS.Timeout;
+
+	constructor(private context: vscode.ExtensionContext) {
+		context.subscriptions.push(
+			register_command("showDependencyGraph", this.show.bind(this)),
+			globals.projectIndex.onDidChange(() => {
+				if (this.panel) {
+					// Saving several files at once reports them one at a time
+					clearTimeout(this.updateTimer);
+					this.updateTimer = setTimeout(() => this.update(), 300);
+				}
+			}),
+			{ dispose: () => clearTimeout(this.updateTimer) },
+		);
+	}
+
+	private async show(uri?: vscode.Uri): Promise<void> {
+		const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+		const index = globals.projectIndex;
+		await index.ready;
+		const resPath = target && index.toResPath(target.fsPath);
+		this.focus = resPath && index.getResource(resPath) ? resPath : undefined;
+		this.show_panel();
+		await this.update();
+	}
+
+	private show_panel() {
+		const title = this.focus ? `Dependencies: ${path.basename(this.focus)}` : "Dependency Graph";
+		if (this.panel) {
+			this.panel.title = title;
+			this.panel.reveal();
+			return;
+		}
+
+		this.panel = vscode.window.createWebviewPanel(
+			"godotToolsCsharp.dependencyGraph",
+			title,
+			vscode.ViewColumn.Active,
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true,
+				localResourceRoots: [this.context.extensionUri],
+			},
+		);
+		this.panel.iconPath = vscode.Uri.joinPath(
+			this.context.extensionUri,
+			"resources",
+			"godot_icons",
+			"dark",
+			"PackedScene.svg",
+		);
+		this.panel.webview.html = this.get_html(this.panel.webview);
+		this.panel.webview.onDidReceiveMessage((message) => this.handle_message(message));
+		this.panel.onDidDispose(() => {
+			this.panel = undefined;
+			clearTimeout(this.updateTimer);
+		});
+	}
+
+	private async update(): Promise<void> {
+		const index = globals.projectIndex;
+		await index.ready;
+		if (!this.panel) {
+			return;
+		}
+		if (this.focus && !index.getResource(this.focus)) {
+			this.focus = undefined;
+		}
+
+		// Assets don't reference anything, they only show up when something loads them
+		const resources = index.graph.getResources().filter((resource) => resource.kind !== "asset");
+		const project = buildDependencyGraph(resources, (dependency) => index.graph.resolveDependency(dependency));
+		const { depth, direction, kinds, text } = this.options;
+		const around = this.focus ? dependencyNeighbourhood(project, this.focus, depth, direction) : project;
+		const filtered = filterDependencyGraph(around, { kinds, text, keep: this.focus ? [this.focus] : [] });
+		const graph = this.truncate(filtered);
+		const layers = layerDependencyGraph(graph);
+
+		const cycles = findDependencyCycles(project);
+		const cycleOf = new Map<string, number>();
+		cycles.forEach((cycle, i) => {
+			for (const resPath of cycle) {
+				cycleOf.set(resPath, i);
+			}
+		});
+		const focusNode = project.nodes.find((node) => node.resPath === this.focus);
+		const load = focusNode?.kind === "scene" ? sceneLoad(project, this.focus) : undefined;
+
+		const iconsUri = this.panel.webview.asWebviewUri(
+			vscode.Uri.joinPath(this.context.extensionUri, "resources", "godot_icons", "dark"),
+		);
+		this.panel.title = this.focus ? `Dependencies: ${path.basename(this.focus)}` : "Dependency Graph";
+		this.panel.webview.postMessage({
+			type: "updateGraph",
+			focus: this.focus,
+			options: this.options,
+			nodes: graph.nodes.map((node) => ({
+				...node,
+				icon: this.icon(node),
+				layer: layers[node.resPath],
+				cycle: cycleOf.get(node.resPath),
+				weight: load?.weights[node.resPath],
+				chain: load?.chains[node.resPath],
+			})),
+			edges: graph.edges.map((edge) => ({
+				...edge,
+				cyclic: cycleOf.has(edge.from) && cycleOf.get(edge.from) === cycleOf.get(edge.to),
+			})),
+			total: filtered.nodes.length,
+			cycles,
+			load: load && this.load_summary(project, load.loaded, load.weights),
+			darkIconsBaseUri: iconsUri.toString(),
+		});
+	}
+
+	/** The first MAX_GRAPH_NODES resources, going left to right */
+	private truncate(graph: DependencyGraph): DependencyGraph {
+		if (graph.nodes.length <= MAX_GRAPH_NODES) {
+			return graph;
+		}
+		const layers = layerDependencyGraph(graph);
+		const nodes = [...graph.nodes]
+			.sort((a, b) => layers[a.resPath] - layers[b.resPath] || a.resPath.localeCompare(b.resPath))
+			.slice(0, MAX_GRAPH_NODES);
+		const kept = new Set(nodes.map((node) => node.resPath));
+		return { nodes, edges: graph.edges.filter((edge) => kept.has(edge.from) && kept.has(edge.to)) };
+	}
+
+	/** How many resources of each kind loading the focused scene loads, and its heaviest references */
+	private load_summary(project: DependencyGraph, loaded: string[], weights: Record<string, number>) {
+		const kinds = new Map(project.nodes.map((node) => [node.resPath, node.kind]));
+		const counts: Partial<Record<IndexedKind, number>> = {};
+		for (const resPath of loaded.slice(1)) {
+			counts[kinds.get(resPath)] = (counts[kinds.get(resPath)] ?? 0) + 1;
+		}
+		const heaviest = project.edges
+			.filter((edge) => edge.from === this.focus && edge.to !== this.focus)
+			.map((edge) => ({ resPath: edge.to, weight: weights[edge.to] }))
+			.sort((a, b) => b.weight - a.weight)
+			.slice(0, 5);
+		return { total: loaded.length - 1, counts, heaviest };
+	}
+
+	private icon(node: DependencyNode): string {
+		if (node.kind === "script") {
+			return node.resPath.endsWith(".cs") ? "CSharpScript" : "GDScript";
+		}
+		if (node.kind === "scene") {
+			return node.type && node.type !== "PackedScene" ? node.type : "PackedScene";
+		}
+		return node.type ?? "Object";
+	}
+
+	private async handle_message(message: any): Promise<void> {
+		switch (message.type) {
+			case "open":
+				await this.open(message.resPath);
+				break;
+			case "openReference":
+				await this.open_reference(message.from, message.to);
+				break;
+			case "focus":
+				this.focus = message.resPath;
+				await this.update();
+				break;
+			case "showAll":
+				this.focus = undefined;
+				await this.update();
+				break;
+			case "setOptions":
+				this.options = { ...this.options, ...message.options };
+				await this.update();
+				break;
+			case "refresh":
+				await this.update();
+				break;
+		}
+	}
+
+	private async open(resPath: string): Promise<void> {
+		const uri = vscode.Uri.file(globals.projectIndex.toFsPath(resPath));
+		// Textures and other assets open in their own editors
+		await vscode.commands.executeCommand("vscode.open", uri, vscode.ViewColumn.Beside);
+	}
+
+	/** Opens the resource at the `[ext_resource]` line through which it loads `to` */
+	private async open_reference(from: string, to: string): Promise<void> {
+		const index = globals.projectIndex;
+		const fromFsPath = index.toFsPath(from);
+		try {
+			const document = await vscode.workspace.openTextDocument(fromFsPath);
+			const scene = index.parser.parse_scene(document);
+			const resource = [...scene.externalResources.values()].find(
+				(resource) => index.graph.resolveDependency(resource) === to,
+			);
+			const selection = resource?.section
+				? new vscode.Range(
+						document.positionAt(resource.section.headerRange.start),
+						document.positionAt(resource.section.headerRange.end),
+					)
+				: undefined;
+			await vscode.window.showTextDocument(document, { selection, viewColumn: vscode.ViewColumn.Beside });
+		} catch (error) {
+			log.warn(`Failed to open the reference from ${from} to ${to}:`, error);
+			await this.open(from);
+		}
+	}
+
+	private get_html(webview: vscode.Webview): string {
+		const nonce = get_nonce();
+		const media = (...segments: string[]) =>
+			webview.asWebviewUri(vscode.Uri.joinPath(this.context.extensionUri, "media", ...segments));
+		const codiconsUri = webview.asWebviewUri(
+			vscode.Uri.joinPath(this.context.extensionUri, "node_modules", "@vscode/codicons", "dist", "codicon.css"),
+		);
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource}; img-src ${webview.cspSource};">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<link href="${codiconsUri}" rel="stylesheet">
+	<link href="${media("scene_preview", "styles.css")}" rel="stylesheet">
+	<link href="${media("dependency_graph", "styles.css")}" rel="stylesheet">
+	<title>Dependency Graph</title>
+</head>
+<body>
+	<div class="container">
+		<div class="graph-toolbar">
+			<input class="graph-filter" id="filterInput" type="text" placeholder="Filter by path">
+			<span class="graph-kinds" id="kindFilters"></span>
+			<select class="graph-select" id="depthSelect" title="References to follow from the focused resource">
+				<option value="1">Depth 1</option>
+				<option value="2">Depth 2</option>
+				<option value="3">Depth 3</option>
+				<option value="-1">All</option>
+			</select>
+			<select class="graph-select" id="directionSelect" title="References to follow from the focused resource">
+				<option value="both">Both ways</option>
+				<option value="dependencies">Loads</option>
+				<option value="dependents">Loaded by</option>
+			</select>
+			<button class="graph-button" id="showAllButton" title="Show the Whole Project">
+				<span class="codicon codicon-type-hierarchy"></span>
+			</button>
+			<button class="graph-button" id="refreshButton" title="Refresh">
+				<span class="codicon codicon-refresh"></span>
+			</button>
+		</div>
+		<div class="graph-summary" id="graphSummary"></div>
+		<div class="graph-body">
+			<div class="graph-canvas" id="graphCanvas">
+				<div class="welcome-message">Reading the project index...</div>
+			</div>
+			<div class="graph-details" id="graphDetails"></div>
+		</div>
+	</div>
+	<script nonce="${nonce}" src="${media("scene_preview", "node_icons.js")}"></script>
+	<script nonce="${nonce}" src="${media("dependency_graph", "main.js")}"></script>
+</body>
+</html>`;
+	}
+}
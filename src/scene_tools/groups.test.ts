@@ -0,0 +1,68 @@
+import { expect } from "chai";
+import { findAddedGroups, findUnknownGroups, groupArgumentAt, readGlobalGroups, suggestGroup } from "./groups";
+
+const CSHARP = `public partial class Main : Node
+{
+	public override void _Ready()
+	{
+		AddToGroup("players");
+		foreach (var enemy in GetTree().GetNodesInGroup("enemys"))
+		{
+			GetTree().CallGroupFlags((long)SceneTree.GroupCallFlags.Deferred, "hud", "Refresh");
+		}
+		GD.Print("enemies");
+	}
+}
+`;
+
+const GDSCRIPT = `func _on_body_entered(body: Node2D) -> void:
+	if body.is_in_group(&"pickups"):
+		get_tree().call_group('Enemies', "alert")
+`;
+
+suite("Groups", () => {
+	test("finds group names in group calls only", () => {
+		const known = new Set(["enemies", "hud", "pickups"]);
+		expect(findAddedGroups(CSHARP)).to.deep.equal(["players"]);
+		const unknown = findUnknownGroups(CSHARP, known);
+		expect(unknown).to.have.length(1);
+		expect(unknown[0].suggestion).to.equal("enemies");
+		expect(CSHARP.slice(unknown[0].reference.range.start, unknown[0].reference.range.end)).to.equal("enemys");
+
+		const gdscript = findUnknownGroups(GDSCRIPT, known);
+		expect(gdscript.map((u) => [u.reference.name, u.suggestion])).to.deep.equal([["Enemies", "enemies"]]);
+	});
+
+	test("suggests only close names", () => {
+		expect(suggestGroup("enemys", ["players", "enemies"])).to.equal("enemies");
+		expect(suggestGroup("ui", ["hud"])).to.be.undefined;
+		expect(suggestGroup("items", ["enemies"])).to.be.undefined;
+		expect(suggestGroup("hud", ["HUD"])).to.equal("HUD");
+	});
+
+	test("completes inside the group argument", () => {
+		expect(groupArgumentAt('GetTree().GetNodesInGroup("ene')).to.equal("ene");
+		expect(groupArgumentAt("\tif is_in_group(&'")).to.equal("");
+		expect(groupArgumentAt('GetTree().GetNodesInGroup("enemies")')).to.be.undefined;
+		expect(groupArgumentAt('GD.Print("ene')).to.be.undefined;
+	});
+
+	test("reads global groups from project.godot", () => {
+		const project = `config_version=5
+
+[application]
+
+config/name="Game"
+
+[global_group]
+
+enemies="Anything the player can hit"
+"boss room"=""
+
+[rendering]
+
+textures/canvas_textures/default_texture_filter=0
+`;
+		expect(readGlobalGroups(project)).to.deep.equal({ enemies: "Anything the player can hit", "boss room": "" });
+	});
+});
@@ -0,0 +1,146 @@
+import type { TextRange } from "./resource_ast";
+import { editDistance } from "./search";
+
+/** Methods taking a group name as their first argument, in GDScript and C# spelling */
+const GROUP_METHODS = [
+	"add_to_group",
+	"remove_from_group",
+	"is_in_group",
+	"get_nodes_in_group",
+	"get_first_node_in_group",
+	"get_node_count_in_group",
+	"has_group",
+	"call_group",
+	"set_group",
+	"notify_group",
+	"AddToGroup",
+	"RemoveFromGroup",
+	"IsInGroup",
+	"GetNodesInGroup",
+	"GetFirstNodeInGroup",
+	"GetNodeCountInGroup",
+	"HasGroup",
+	"CallGroup",
+	"SetGroup",
+	"NotifyGroup",
+];
+
+/** Methods taking flags first and the group name second */
+const GROUP_FLAGS_METHODS = [
+	"call_group_flags",
+	"set_group_flags",
+	"notify_group_flags",
+	"CallGroupFlags",
+	"SetGroupFlags",
+	"NotifyGroupFlags",
+];
+
+/** Calls that put a node in a group, so the group exists even if no scene uses it */
+const ADDING_METHODS = new Set(["add_to_group", "AddToGroup"]);
+
+/** A call up to the opening quote of its group argument; GDScript may use a `&"StringName"` */
+const CALL_PATTERN = `\\b(?:(${GROUP_METHODS.join("|")})\\s*\\(\\s*|(${GROUP_FLAGS_METHODS.join("|")})\\s*\\(\\s*[\\w.|() ]+?,\\s*)&?(["'])`;
+
+/** A group name passed as a string literal to one of the group methods */
+export interface GroupReference {
+	name: string;
+	/** Range of the name, without the quotes */
+	range: TextRange;
+	method: string;
+	/** The call adds a node to the group rather than reading it */
+	adds: boolean;
+}
+
+/**
+ * Finds group names in the group API calls of a C# or GDScript script, e.g.
+ * `GetTree().GetNodesInGroup("enemies")` or `is_in_group("enemies")`.
+ */
+export function findGroupReferences(text: string): GroupReference[] {
+	const references: GroupReference[] = [];
+	for (const match of text.matchAll(new RegExp(`${CALL_PATTERN}([^"'\\n]*)\\3`, "g"))) {
+		const method = match[1] ?? match[2];
+		const start = match.index + match[0].length - match[4].length - 1;
+		references.push({
+			name: match[4],
+			range: { start, end: start + match[4].length },
+			method,
+			adds: ADDING_METHODS.has(method),
+		});
+	}
+	return references;
+}
+
+/** Groups a script adds nodes to with `add_to_group` / `AddToGroup` */
+export function findAddedGroups(text: string): string[] {
+	const names = findGroupReferences(text)
+		.filter((reference) => reference.adds && reference.name)
+		.map((reference) => reference.name);
+	return [...new Set(names)];
+}
+
+/**
+ * When `linePrefix` ends inside the group argument of a group call, the part of the
+ * name typed so far.
+ */
+export function groupArgumentAt(linePrefix: string): string | undefined {
+	return new RegExp(`${CALL_PATTERN}([^"'\\n]*)$`).exec(linePrefix)?.[4];
+}
+
+/**
+ * The `[global_group]` section of project.godot (Godot 4.3+): group names and
+ * their descriptions.
+ */
+export function readGlobalGroups(projectText: string): Record<string, string> {
+	const groups: Record<string, string> = {};
+	let inSection = false;
+	for (const line of projectText.split(/\r?\n/)) {
+		const section = /^\s*\[([^\]]+)\]/.exec(line);
+		if (section) {
+			inSection = section[1].trim() === "global_group";
+			continue;
+		}
+		const entry = inSection && /^\s*("(?:[^"\\]|\\.)*"|[^=\s]+)\s*=\s*"((?:[^"\\]|\\.)*)"/.exec(line);
+		if (entry) {
+			const name = entry[1].startsWith('"') ? entry[1].slice(1, -1) : entry[1];
+			groups[name] = entry[2].replace(/\\(.)/g, "$1");
+		}
+	}
+	return groups;
+}
+
+/**
+ * The known group `name` was most likely meant to be: one differing only in case, or
+ * by a couple of typos. Undefined when nothing is close enough.
+ */
+export function suggestGroup(name: string, known: Iterable<string>): string | undefined {
+	// Short names allow fewer typos, or everything would look like a typo of everything
+	let bestDistance = Math.min(2, Math.floor(name.length / 3)) + 1;
+	let best: string | undefined;
+	for (const candidate of known) {
+		if (candidate.toLowerCase() === name.toLowerCase()) {
+			return candidate;
+		}
+		const distance = editDistance(name, candidate);
+		if (distance < bestDistance) {
+			best = candidate;
+			bestDistance = distance;
+		}
+	}
+	return best;
+}
+
+export interface UnknownGroup {
+	reference: GroupReference;
+	/** The known group it is probably a typo of */
+	suggestion?: string;
+}
+
+/**
+ * Group names a script reads that no scene, script or global group puts nodes in.
+ * Groups the script adds nodes to itself are left alone: that call is what creates them.
+ */
+export function findUnknownGroups(text: string, known: Set<string>): UnknownGroup[] {
+	return findGroupReferences(text)
+		.filter((reference) => !reference.adds && reference.name && !known.has(reference.name))
+		.map((reference) => ({ reference, suggestion: suggestGroup(reference.name, known) }));
+}
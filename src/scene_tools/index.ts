@@ -2,3 +2,21 @@ export * from "./scene_preview_webview";
 export * from "./parser";
 export * from "./types";
 export * from "./search";
+export * from "./resource_ast";
+export * from "./resource_parser";
+export * from "./scene_edits";
+export * from "./scene_diagnostics";
+export * from "./scene_editor";
+export * from "./script_templates";
+export * from "./resource_index";
+export * from "./project_index";
+export * from "./resource_paths";
+export * from "./scene_diff";
+export * from "./scene_diff_viewer";
+export * from "./dependency_graph";
+export * from "./dependency_graph_viewer";
+export * from "./scene_conflict_resolver";
+export * from "./project_node_search";
+export * from "./groups";
+export * from "./node_paths";
+export * from "./node_bindings";
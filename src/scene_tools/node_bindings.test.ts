@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import {
+	bindingMemberName,
+	exportedBindingNames,
+	findCSharpClass,
+	generateNodeBindings,
+	nodeBindingsPath,
+	readNodeBindingsSource,
+} from "./node_bindings";
+
+const SCRIPT = `using Godot;
+
+namespace Game.UI
+{
+    public partial class Hud : Control
+    {
+    }
+}
+`;
+
+suite("Node bindings", () => {
+	test("finds the script's class and namespace", () => {
+		expect(findCSharpClass(SCRIPT, "Hud")).to.deep.equal({
+			name: "Hud",
+			modifiers: "public partial",
+			partial: true,
+			namespace: "Game.UI",
+			fileScopedNamespace: false,
+		});
+		const fileScoped = findCSharpClass(
+			"namespace Game;\n\nclass Helper {}\npublic class Player : Node {}",
+			"Player",
+		);
+		expect(fileScoped).to.deep.include({ name: "Player", partial: false, fileScopedNamespace: true });
+	});
+
+	test("names members uniquely", () => {
+		const taken = new Set(["Hud"]);
+		expect(
+			["Score", "Score", "Hud", "2D View", "Label.2"].map((name) => bindingMemberName(name, taken)),
+		).to.deep.equal(["Score", "Score2", "Hud2", "_2DView", "Label2"]);
+	});
+
+	test("generates a partial class the header can be read back from", () => {
+		const source = { scene: "res://ui/hud.tscn", scope: "unique" as const, style: "exportPublic" };
+		const text = generateNodeBindings(
+			source,
+			findCSharpClass(SCRIPT, "Hud"),
+			["[Export] public Label Score { get; set; }"],
+			SCRIPT,
+		);
+		expect(text).to.contain(`namespace Game.UI
+{
+    public partial class Hud
+    {
+        [Export] public Label Score { get; set; }
+    }
+}
+`);
+		expect(readNodeBindingsSource(text)).to.deep.equal(source);
+		expect(readNodeBindingsSource(SCRIPT)).to.be.undefined;
+		expect(nodeBindingsPath("/game/ui/Hud.cs")).to.equal("/game/ui/Hud.Nodes.cs");
+	});
+
+	test("lists the exported members the scene assigns", () => {
+		const text = [
+			"[Export] public Label Score { get; set; }",
+			"[Export] private Button _startButton { get; set; }",
+			"[Export] private Node2D player;",
+			'private Sprite2D Icon => GetNode<Sprite2D>("%Icon");',
+		].join("\n");
+		expect(exportedBindingNames(text)).to.deep.equal(["Score", "_startButton", "player"]);
+	});
+});
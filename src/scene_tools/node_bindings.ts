@@ -0,0 +1,130 @@
+import { indentUnit } from "./signal_handlers";
+
+/** Which nodes of the scene get a member */
+export type NodeBindingScope = "unique" | "all";
+
+/** What a bindings file was generated from, kept in its header so it can be regenerated */
+export interface NodeBindingsSource {
+	/** res:// path of the scene */
+	scene: string;
+	scope: NodeBindingScope;
+	/** Key of the C# node reference style */
+	style: string;
+}
+
+/** The class a C# script declares, as far as adding a partial part to it is concerned */
+export interface CSharpClass {
+	name: string;
+	/** Modifiers as written, e.g. `public partial` */
+	modifiers: string;
+	partial: boolean;
+	namespace?: string;
+	/** `namespace X;` rather than `namespace X { ... }` */
+	fileScopedNamespace: boolean;
+}
+
+const HEADER_PATTERN = /^\/\/ Node bindings for (res:\/\/\S+) \((unique|all) nodes, (\w+) style\)/m;
+
+/** The bindings file of a C# script: `Player.cs` → `Player.Nodes.cs` */
+export function nodeBindingsPath(scriptPath: string): string {
+	return scriptPath.replace(/\.cs$/i, ".Nodes.cs");
+}
+
+export function isNodeBindingsPath(scriptPath: string): boolean {
+	return /\.Nodes\.cs$/i.test(scriptPath);
+}
+
+/** What a generated bindings file was generated from, or undefined for any other file */
+export function readNodeBindingsSource(text: string): NodeBindingsSource | undefined {
+	const match = HEADER_PATTERN.exec(text);
+	return match ? { scene: match[1], scope: match[2] as NodeBindingScope, style: match[3] } : undefined;
+}
+
+/**
+ * The `[Export]` members of a bindings file, which the scene assigns NodePaths to under the
+ * same names
+ */
+export function exportedBindingNames(text: string): string[] {
+	return [...text.matchAll(/\[Export\][^;{\n]*?(\w+)\s*[{;=]/g)].map((match) => match[1]);
+}
+
+/**
+ * The class a C# script declares: the one named after the file when there are several,
+ * since that's the one Godot attaches.
+ */
+export function findCSharpClass(text: string, fileName: string): CSharpClass | undefined {
+	const classes = [
+		...text.matchAll(
+			/^[ \t]*((?:(?:public|internal|private|protected|sealed|abstract|static|partial)\s+)*)class\s+(\w+)/gm,
+		),
+	];
+	const declaration = classes.find((match) => match[2] === fileName) ?? classes[0];
+	if (!declaration) {
+		return undefined;
+	}
+	const namespace = /^[ \t]*namespace\s+([\w.]+)\s*(;)?/m.exec(text);
+	return {
+		name: declaration[2],
+		modifiers: declaration[1].trim(),
+		partial: /\bpartial\b/.test(declaration[1]),
+		namespace: namespace?.[1],
+		fileScopedNamespace: namespace?.[2] === ";",
+	};
+}
+
+/**
+ * A C# member name for a node, unique among `taken` (which it's added to). Characters
+ * C# doesn't allow in identifiers are dropped, and a leading digit gets an underscore.
+ */
+export function bindingMemberName(name: string, taken: Set<string>): string {
+	let base = name.replace(/[^\w]/g, "") || "Node";
+	if (/^\d/.test(base)) {
+		base = `_${base}`;
+	}
+	let candidate = base;
+	for (let i = 2; taken.has(candidate); i++) {
+		candidate = `${base}${i}`;
+	}
+	taken.add(candidate);
+	return candidate;
+}
+
+/**
+ * The text of a bindings file: a partial part of the script's class holding one member per
+ * node, in the same namespace and with the same indentation as the script.
+ *
+ * @param members The member declarations, one line each
+ */
+export function generateNodeBindings(
+	source: NodeBindingsSource,
+	csharpClass: CSharpClass,
+	members: string[],
+	scriptText: string,
+): string {
+	const indent = indentUnit(scriptText);
+	const classIndent = csharpClass.namespace && !csharpClass.fileScopedNamespace ? indent : "";
+	const modifiers = csharpClass.modifiers || "partial";
+	const body = [
+		`${classIndent}${modifiers} class ${csharpClass.name}`,
+		`${classIndent}{`,
+		...members.map((member) => `${classIndent}${indent}${member}`),
+		`${classIndent}}`,
+	];
+
+	const lines = [
+		"// <auto-generated>",
+		`// Node bindings for ${source.scene} (${source.scope} nodes, ${source.style} style)`,
+		'// Regenerate with "Generate Node Bindings"; changes made here will be lost.',
+		"// </auto-generated>",
+		"using Godot;",
+		"",
+	];
+	if (!csharpClass.namespace) {
+		lines.push(...body);
+	} else if (csharpClass.fileScopedNamespace) {
+		lines.push(`namespace ${csharpClass.namespace};`, "", ...body);
+	} else {
+		lines.push(`namespace ${csharpClass.namespace}`, "{", ...body, "}");
+	}
+	return `${lines.join("\n")}\n`;
+}
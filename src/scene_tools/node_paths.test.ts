@@ -0,0 +1,110 @@
+import { expect } from "chai";
+import {
+	type PathNode,
+	findNodePathReferences,
+	formatNodePathReference,
+	nodeMatchesType,
+	nodePathArgumentAt,
+	resolveNodePath,
+	suggestNodePath,
+} from "./node_paths";
+
+const NODES: PathNode[] = [
+	{ relativePath: "", className: "Control", unique: false, declared: true, scriptPath: "res://ui/Hud.cs" },
+	{ relativePath: "Panel", className: "Panel", unique: false, declared: true },
+	{ relativePath: "Panel/Score", className: "Label", unique: true, declared: true },
+	{ relativePath: "Panel/Lives", className: "Label", unique: false, declared: true },
+	{ relativePath: "Player", className: "CharacterBody2D", unique: false, declared: true },
+	{ relativePath: "Player/Sprite", className: "Sprite2D", unique: true, declared: false },
+];
+
+const CLASSES = {
+	getBaseClass: (name: string) =>
+		({ Label: "Control", Panel: "Control", Button: "BaseButton", BaseButton: "Control", Control: "Node" })[name],
+	isNativeClass: (name: string) => ["Node", "Control", "Label", "Panel", "Button", "BaseButton"].includes(name),
+};
+
+suite("Node paths", () => {
+	test("finds C# GetNode calls", () => {
+		const text = `var score = GetNode<Label>("Panel/Score");
+// GetNode("Commented")
+var lives = GetNodeOrNull("%Lives");`;
+		const references = findNodePathReferences(text, "csharp");
+		expect(references.map((r) => [r.path, r.typeName])).to.deep.equal([
+			["Panel/Score", "Label"],
+			["%Lives", undefined],
+		]);
+		const [score] = references;
+		expect(text.slice(score.range.start, score.range.end)).to.equal("Panel/Score");
+		expect(text.slice(score.typeRange.start, score.typeRange.end)).to.equal("Label");
+	});
+
+	test("finds GDScript get_node, $ and % references", () => {
+		const text = `@onready var label: Label = $Panel/Label
+@onready var sprite := $"../Player/Sprite" as Sprite2D
+var lives = get_node("Panel/Lives")
+var text = "costs $5 and 50%"
+var rest = count % total
+func _ready():
+	%Score.text = str(100 %2)`;
+		const references = findNodePathReferences(text, "gdscript");
+		expect(references.map((r) => [r.path, r.typeName])).to.deep.equal([
+			["Panel/Label", "Label"],
+			["../Player/Sprite", "Sprite2D"],
+			["Panel/Lives", undefined],
+			["%Score", undefined],
+		]);
+		const sprite = references[1];
+		expect(text.slice(sprite.range.start, sprite.range.end)).to.equal('$"../Player/Sprite"');
+		expect(formatNodePathReference(sprite, "Sprite")).to.equal("$Sprite");
+		expect(formatNodePathReference(references[0], "../Player")).to.equal('$"../Player"');
+		expect(formatNodePathReference(references[2], "%Score")).to.equal("%Score");
+	});
+
+	test("resolves paths relative to the owner", () => {
+		const [root, panel] = NODES;
+		expect(resolveNodePath(NODES, root, "Panel/Score")).to.deep.include({ status: "found", node: NODES[2] });
+		expect(resolveNodePath(NODES, panel, "../Player/Sprite")).to.deep.include({ node: NODES[5] });
+		expect(resolveNodePath(NODES, panel, "%Score")).to.deep.include({ node: NODES[2] });
+		expect(resolveNodePath(NODES, root, "%Lives")).to.deep.include({ status: "not-unique" });
+		expect(resolveNodePath(NODES, root, "%Sprite")).to.deep.equal({ status: "missing" });
+		expect(resolveNodePath(NODES, root, "Panel/Scor")).to.deep.equal({ status: "missing" });
+		expect(resolveNodePath(NODES, root, "../HUD")).to.deep.equal({ status: "unknown" });
+		expect(resolveNodePath(NODES, root, "/root/Global")).to.deep.equal({ status: "unknown" });
+	});
+
+	test("suggests the closest existing path", () => {
+		const [root, panel] = NODES;
+		expect(suggestNodePath(NODES, root, "Lives")).to.equal("Panel/Lives");
+		expect(suggestNodePath(NODES, panel, "Scroe")).to.equal("Score");
+		expect(suggestNodePath(NODES, root, "Camera")).to.be.undefined;
+	});
+
+	test("checks the expected class", () => {
+		expect(nodeMatchesType(NODES[2], "Control", CLASSES)).to.be.true;
+		expect(nodeMatchesType(NODES[2], "Godot.Label", CLASSES)).to.be.true;
+		expect(nodeMatchesType(NODES[2], "Button", CLASSES)).to.be.false;
+		expect(nodeMatchesType(NODES[0], "Hud", CLASSES)).to.be.true;
+		expect(nodeMatchesType(NODES[4], "Player", CLASSES)).to.be.undefined;
+	});
+
+	test("finds the node path being typed", () => {
+		expect(nodePathArgumentAt('var label = GetNode("Panel/Sc', "csharp")).to.deep.equal({
+			typed: "Panel/Sc",
+			form: "string",
+			typeArgument: { start: 19, end: 19 },
+		});
+		expect(nodePathArgumentAt('GetNode<>("', "csharp")).to.deep.include({ typeArgument: { start: 7, end: 9 } });
+		expect(nodePathArgumentAt('GetNodeOrNull<Label>("P', "csharp")).to.deep.include({ typeArgument: undefined });
+		expect(nodePathArgumentAt('// GetNode("', "csharp")).to.be.undefined;
+		expect(nodePathArgumentAt("\tvar s = $Panel/", "gdscript")).to.deep.equal({
+			typed: "$Panel/",
+			form: "shorthand",
+		});
+		expect(nodePathArgumentAt('\t$"Pa', "gdscript")).to.deep.equal({ typed: '$"Pa', form: "shorthand" });
+		expect(nodePathArgumentAt("\treturn %Sc", "gdscript")).to.deep.equal({ typed: "%Sc", form: "unique" });
+		expect(nodePathArgumentAt("\tvar r = count %", "gdscript")).to.be.undefined;
+		expect(nodePathArgumentAt('get_node("Pa', "gdscript")).to.deep.equal({ typed: "Pa", form: "string" });
+		expect(nodePathArgumentAt('print("$Pa', "gdscript")).to.be.undefined;
+	});
+});
@@ -0,0 +1,346 @@
+import type { TextRange } from "./resource_ast";
+import type { ScriptLanguage } from "./script_templates";
+import { editDistance } from "./search";
+import type { SceneNode } from "./types";
+
+/** A node path a script looks up, e.g. `GetNode<Label>("HUD/Score")`, `$HUD/Score` or `%Score` */
+export interface NodePathReference {
+	path: string;
+	/**
+	 * What to replace to change the path: the text between the quotes of a string, or the
+	 * whole `$Path`/`%Name` expression, sigil included
+	 */
+	range: TextRange;
+	/** The path is written with GDScript's `$`/`%` syntax rather than as a string */
+	shorthand: boolean;
+	/** The class the code expects the node to be, from `GetNode<T>`, `as T` or a typed variable */
+	typeName?: string;
+	typeRange?: TextRange;
+}
+
+/** A node of a scene using the script, as far as resolving paths is concerned */
+export interface PathNode {
+	/** Path from the scene root, "" for the root itself */
+	relativePath: string;
+	className: string;
+	unique: boolean;
+	/** Declared by the scene file itself, not by a scene it instances */
+	declared: boolean;
+	/** res:// path of the node's script */
+	scriptPath?: string;
+}
+
+/**
+ * The nodes of a parsed scene as PathNodes, and the script's owner among them.
+ *
+ * @param owner The node the script runs on, from `ProjectIndex.findScriptOwner`
+ */
+export function toPathNodes(nodes: Iterable<SceneNode>, owner: SceneNode): { nodes: PathNode[]; owner: PathNode } {
+	let ownerNode: PathNode | undefined;
+	const pathNodes: PathNode[] = [];
+	for (const node of nodes) {
+		const pathNode = {
+			relativePath: node.relativePath,
+			className: node.className,
+			unique: node.unique,
+			declared: !node.contextValue?.includes("fromInstance"),
+			scriptPath: node.scriptPath,
+		};
+		pathNodes.push(pathNode);
+		if (node === owner) {
+			// An instance of a scene with the script on its root: `%Name` refers to that
+			// scene's unique nodes, not this one's
+			ownerNode = owner.scriptId ? pathNode : { ...pathNode, declared: false };
+		}
+	}
+	return { nodes: pathNodes, owner: ownerNode };
+}
+
+export type PathResolution =
+	| { status: "found"; node: PathNode }
+	| { status: "missing" }
+	/** `%Name` where a node named Name exists but isn't marked as unique */
+	| { status: "not-unique"; node: PathNode }
+	/** The path leaves the scene or depends on a scene we can't see into */
+	| { status: "unknown" };
+
+/** Keywords a `%` can follow in GDScript when it's a unique node and not the modulo operator */
+const GDSCRIPT_KEYWORDS = new Set(["return", "in", "and", "or", "not", "if", "elif", "while", "await", "match"]);
+
+/**
+ * Whether `offset` is code rather than inside a string or a line comment. Only the
+ * current line is considered, which is enough for the single line expressions we look for.
+ */
+function isCode(text: string, offset: number, language: ScriptLanguage): boolean {
+	let quote: string | undefined;
+	for (let i = text.lastIndexOf("\n", offset - 1) + 1; i < offset; i++) {
+		const char = text[i];
+		if (quote) {
+			if (char === "\\") i++;
+			else if (char === quote) quote = undefined;
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (language === "gdscript" ? char === "#" : char === "/" && text[i + 1] === "/") {
+			return false;
+		}
+	}
+	return quote === undefined;
+}
+
+/** A `%` in GDScript starts a unique node only where an operand is expected */
+function startsOperand(text: string, offset: number): boolean {
+	const before = text.slice(text.lastIndexOf("\n", offset - 1) + 1, offset).trimEnd();
+	if (!before || /[=(\[,{:!+\-*/<>]$/.test(before)) {
+		return true;
+	}
+	return GDSCRIPT_KEYWORDS.has(/(\w+)$/.exec(before)?.[1]);
+}
+
+/**
+ * Finds the node paths a script looks up: `GetNode`/`GetNodeOrNull` calls in C#, and
+ * `get_node`, `$Path` and `%Name` in GDScript. Paths built at runtime are skipped.
+ */
+export function findNodePathReferences(text: string, language: ScriptLanguage): NodePathReference[] {
+	const references: NodePathReference[] = [];
+	// The type comes before the path (`GetNode<T>`, `var x: T =`) unless it's a cast (`as T`)
+	const typeAt = (
+		match: RegExpMatchArray,
+		before: number,
+		cast?: number,
+	): Pick<NodePathReference, "typeName" | "typeRange"> => {
+		const typeName = match[cast] ?? match[before];
+		if (!typeName) {
+			return {};
+		}
+		const offset = match[cast] ? match[0].lastIndexOf(typeName) : match[0].indexOf(typeName);
+		const start = match.index + offset;
+		return { typeName, typeRange: { start, end: start + typeName.length } };
+	};
+
+	if (language === "csharp") {
+		const call = /\bGetNode(?:OrNull)?\s*(?:<\s*([\w.]+)\s*>)?\s*\(\s*"([^"\\\n]*)"\s*\)/g;
+		for (const match of text.matchAll(call)) {
+			if (!isCode(text, match.index, language)) continue;
+			const start = match.index + match[0].lastIndexOf(`"${match[2]}"`) + 1;
+			references.push({
+				path: match[2],
+				range: { start, end: start + match[2].length },
+				shorthand: false,
+				...typeAt(match, 1),
+			});
+		}
+		return references;
+	}
+
+	// An optional `var name: Type = ` in front, and an optional ` as Type` after
+	const typedVar = String.raw`(?:\bvar\s+\w+\s*:\s*([\w.]+)\s*=\s*)?`;
+	const cast = String.raw`(?:\s+as\s+([\w.]+))?`;
+
+	const call = new RegExp(
+		`${typedVar}\\bget_node(?:_or_null)?\\s*\\(\\s*(["'])([^"'\\\\\\n]*)\\2\\s*\\)${cast}`,
+		"g",
+	);
+	for (const match of text.matchAll(call)) {
+		const callStart = match.index + match[0].indexOf("get_node");
+		if (!isCode(text, callStart, language)) continue;
+		const quoted = `${match[2]}${match[3]}${match[2]}`;
+		const start = match.index + match[0].lastIndexOf(quoted) + 1;
+		references.push({
+			path: match[3],
+			range: { start, end: start + match[3].length },
+			shorthand: false,
+			...typeAt(match, 1, 4),
+		});
+	}
+
+	const shorthand = new RegExp(`${typedVar}([$%])(?:"([^"\\n]*)"|'([^'\\n]*)'|([\\w/%]+))${cast}`, "g");
+	for (const match of text.matchAll(shorthand)) {
+		const sigil = match[2];
+		const sigilStart = match.index + (match[1] ? match[0].indexOf(sigil, match[0].indexOf("=")) : 0);
+		if (!isCode(text, sigilStart, language) || (sigil === "%" && !startsOperand(text, sigilStart))) continue;
+		const written = match[3] ?? match[4] ?? match[5];
+		const end = sigilStart + 1 + (match[5] ? written.length : written.length + 2);
+		references.push({
+			path: sigil === "%" ? `%${written}` : written,
+			range: { start: sigilStart, end },
+			shorthand: true,
+			...typeAt(match, 1, 6),
+		});
+	}
+	return references.sort((a, b) => a.range.start - b.range.start);
+}
+
+/** A node path being typed, as found by `nodePathArgumentAt` */
+export interface NodePathArgument {
+	/** The text completions replace: the path typed so far, plus the `$`/`%` sigil and quote for the shorthand */
+	typed: string;
+	/** `string` inside `GetNode("`/`get_node("`, `shorthand` after `$`, `unique` after `%` */
+	form: "string" | "shorthand" | "unique";
+	/**
+	 * C# calls without a type argument: the range of the line prefix to replace with `<T>`,
+	 * empty right after `GetNode`, or the `<>` when left empty
+	 */
+	typeArgument?: TextRange;
+}
+
+/**
+ * When `linePrefix` ends inside a node path: `GetNode<T>("`/`GetNodeOrNull("` in C#,
+ * `get_node("`, `$` and `%` in GDScript.
+ */
+export function nodePathArgumentAt(linePrefix: string, language: ScriptLanguage): NodePathArgument | undefined {
+	if (language === "csharp") {
+		const match = /\b(GetNode(?:OrNull)?)\s*(<\s*([\w.]*)\s*>)?\s*\(\s*"([^"\\\n]*)$/.exec(linePrefix);
+		if (!match || !isCode(linePrefix, match.index, language)) {
+			return undefined;
+		}
+		const typeStart = match.index + match[1].length;
+		const typeArgument = match[3] ? undefined : { start: typeStart, end: typeStart + (match[2]?.length ?? 0) };
+		return { typed: match[4], form: "string", typeArgument };
+	}
+
+	const call = /\bget_node(?:_or_null)?\s*\(\s*(["'])([^"'\\\n]*)$/.exec(linePrefix);
+	if (call) {
+		return isCode(linePrefix, call.index, language) ? { typed: call[2], form: "string" } : undefined;
+	}
+	const shorthand = /([$%])("[^"\n]*|'[^'\n]*|[\w/%]*)$/.exec(linePrefix);
+	if (!shorthand || !isCode(linePrefix, shorthand.index, language)) {
+		return undefined;
+	}
+	if (shorthand[1] === "%") {
+		return startsOperand(linePrefix, shorthand.index) && /^\w*$/.test(shorthand[2])
+			? { typed: shorthand[0], form: "unique" }
+			: undefined;
+	}
+	return { typed: shorthand[0], form: "shorthand" };
+}
+
+/** How to write `path` in place of a reference's range */
+export function formatNodePathReference(reference: Pick<NodePathReference, "shorthand">, path: string): string {
+	if (!reference.shorthand) {
+		return path;
+	}
+	const unique = path.startsWith("%");
+	const rest = unique ? path.slice(1) : path;
+	return `${unique ? "%" : "$"}${/^[\w/%]+$/.test(rest) ? rest : `"${rest}"`}`;
+}
+
+function nodeName(relativePath: string): string {
+	return relativePath.slice(relativePath.lastIndexOf("/") + 1);
+}
+
+/**
+ * Resolves a node path relative to `owner`, the node the script runs on, the way
+ * `get_node` does. `%Name` is looked up among the nodes of the owner's own scene file.
+ */
+export function resolveNodePath(nodes: PathNode[], owner: PathNode, path: string): PathResolution {
+	// Absolute paths depend on the running scene tree, and subnames (`:property`) on resources
+	if (!path || path.startsWith("/") || path.includes(":")) {
+		return { status: "unknown" };
+	}
+
+	const byPath = new Map(nodes.map((node) => [node.relativePath, node]));
+	let current = owner.relativePath;
+	const segments = path.split("/");
+	for (let i = 0; i < segments.length; i++) {
+		const segment = segments[i];
+		if (segment === "." || segment === "") {
+			continue;
+		}
+		if (segment === "..") {
+			if (current === "") {
+				return { status: "unknown" };
+			}
+			current = current.includes("/") ? current.slice(0, current.lastIndexOf("/")) : "";
+			continue;
+		}
+		if (segment.startsWith("%")) {
+			// Past the first segment, the unique name belongs to whichever scene that node comes from
+			if (i > 0 || !owner.declared) {
+				return { status: "unknown" };
+			}
+			const name = segment.slice(1);
+			const unique = nodes.find((node) => node.declared && node.unique && nodeName(node.relativePath) === name);
+			if (!unique) {
+				const named = nodes.find(
+					(node) => node.declared && node.relativePath && nodeName(node.relativePath) === name,
+				);
+				return named ? { status: "not-unique", node: named } : { status: "missing" };
+			}
+			current = unique.relativePath;
+			continue;
+		}
+		current = current ? `${current}/${segment}` : segment;
+		if (!byPath.has(current)) {
+			return { status: "missing" };
+		}
+	}
+	const node = byPath.get(current);
+	return node ? { status: "found", node } : { status: "missing" };
+}
+
+/** The path from `owner` to `node`, e.g. `Child/Grandchild` or `../Sibling` */
+export function relativeNodePath(owner: PathNode, node: PathNode): string {
+	const from = owner.relativePath ? owner.relativePath.split("/") : [];
+	const to = node.relativePath ? node.relativePath.split("/") : [];
+	let common = 0;
+	while (common < from.length && common < to.length && from[common] === to[common]) {
+		common++;
+	}
+	const path = [...Array(from.length - common).fill(".."), ...to.slice(common)].join("/");
+	return path || ".";
+}
+
+/**
+ * The existing path closest to a path that doesn't resolve, among the paths from the
+ * owner to every other node and the `%Name` of unique nodes. Undefined when nothing is close.
+ */
+export function suggestNodePath(nodes: PathNode[], owner: PathNode, path: string): string | undefined {
+	const candidates: string[] = [];
+	for (const node of nodes) {
+		if (node === owner) continue;
+		candidates.push(relativeNodePath(owner, node));
+		if (node.unique && node.declared && owner.declared) {
+			candidates.push(`%${nodeName(node.relativePath)}`);
+		}
+	}
+
+	let best: string | undefined;
+	let bestDistance = Math.max(3, Math.ceil(path.length / 2)) + 1;
+	for (const candidate of candidates) {
+		// Moving a node keeps its name: a candidate ending in the same name is a better bet
+		const sameName = nodeName(candidate).replace(/^%/, "") === nodeName(path).replace(/^%/, "");
+		const distance = sameName ? 0 : editDistance(path.toLowerCase(), candidate.toLowerCase());
+		if (distance < bestDistance) {
+			best = candidate;
+			bestDistance = distance;
+		}
+	}
+	return best;
+}
+
+export interface ClassLookup {
+	/** The class a Godot class inherits from */
+	getBaseClass: (className: string) => string | undefined;
+	/** Whether a name is a Godot class, as opposed to a script class we can't see the base of */
+	isNativeClass: (className: string) => boolean;
+}
+
+/**
+ * Whether `node` can be used as `typeName`: undefined when it can't be told, e.g. for
+ * script classes or without the class list from the language server.
+ */
+export function nodeMatchesType(node: PathNode, typeName: string, classes: ClassLookup): boolean | undefined {
+	const type = typeName.replace(/^Godot\./, "");
+	const script = node.scriptPath?.slice(node.scriptPath.lastIndexOf("/") + 1).replace(/\.\w+$/, "");
+	if (script === type) {
+		return true;
+	}
+	const visited = new Set<string>();
+	for (let current = node.className; current && !visited.has(current); current = classes.getBaseClass(current)) {
+		if (current === type) {
+			return true;
+		}
+		visited.add(current);
+	}
+	return classes.isNativeClass(type) && classes.isNativeClass(node.className) ? false : undefined;
+}
@@ -3,8 +3,16 @@ import * as path from "node:path";
 import { basename, extname } from "node:path";
 import * as vscode from "vscode";
 import { TextDocument, Uri } from "vscode";
-import { SceneNode, Scene } from "./types";
-import { createLogger, convert_resource_path_to_uri } from "../utils";
+import { SceneNode, Scene, type GDResource } from "./types";
+import {
+	findRootNodeSection,
+	getAttribute,
+	getAttributeString,
+	getProperty,
+	parseResourceText,
+	valueAsStringArray,
+} from "./resource_parser";
+import { createLogger, convert_resource_path_to_uri, get_project_dir } from "../utils";
 
 const log = createLogger("scenes.parser", { output: "Godot Scene Parser" });
 
@@ -23,8 +31,9 @@ export class SceneParser {
 	}
 
 	/**
-	 * Get the root node type from a scene file without fully parsing it.
-	 * Uses a lightweight regex scan and caches results.
+	 * Get the root node type from a scene file without building a full Scene.
+	 * Inherited scenes are followed until a base scene declares the type.
+	 * Results are cached per resource path.
 	 * @param resourcePath The res:// path to the scene file
 	 * @returns The root node type, or "PackedScene" if not found
 	 */
@@ -34,31 +43,11 @@ export class SceneParser {
 			return this.rootTypeCache.get(resourcePath);
 		}
 
-		try {
-			const uri = await convert_resource_path_to_uri(resourcePath);
-			if (!uri || !fs.existsSync(uri.fsPath)) {
-				return "PackedScene";
-			}
-
-			// Read just the first part of the file to find the root node
-			const content = fs.readFileSync(uri.fsPath, "utf-8");
-
-			// Find the first [node ...] line (root node has no parent attribute)
-			const rootNodeMatch = content.match(/\[node\s+name="[^"]+"\s+type="(\w+)"/);
-			if (rootNodeMatch?.[1]) {
-				const rootType = rootNodeMatch[1];
-				this.rootTypeCache.set(resourcePath, rootType);
-				return rootType;
-			}
-
-			// If no type found, it might be a scene that inherits from another scene
-			// In that case, we'd need to parse recursively, so just return PackedScene
-			this.rootTypeCache.set(resourcePath, "PackedScene");
-			return "PackedScene";
-		} catch (error) {
-			log.warn(`Failed to get root type from ${resourcePath}:`, error);
+		const projectDir = await get_project_dir();
+		if (!projectDir) {
 			return "PackedScene";
 		}
+		return this.resolveRootType(resourcePath, projectDir);
 	}
 
 	/**
@@ -72,106 +61,96 @@ export class SceneParser {
 			return this.rootTypeCache.get(resourcePath);
 		}
 
-		try {
-			// We need to resolve the resource path synchronously
-			// This is a simplified version that works with the workspace folder
-			const workspaceFolders = vscode.workspace.workspaceFolders;
-			if (!workspaceFolders || workspaceFolders.length === 0) {
-				return "PackedScene";
-			}
-
-			// Convert res:// to filesystem path
-			const resPath = resourcePath.replace(/^res:\/\//, "");
-			const fullPath = path.join(workspaceFolders[0].uri.fsPath, resPath);
-
-			if (!fs.existsSync(fullPath)) {
-				return "PackedScene";
-			}
-
-			const content = fs.readFileSync(fullPath, "utf-8");
-
-			// Find the first [node ...] line with a type (root node has no parent attribute)
-			const rootNodeMatch = content.match(/\[node\s+name="[^"]+"\s+type="(\w+)"/);
-			if (rootNodeMatch?.[1]) {
-				const rootType = rootNodeMatch[1];
-				this.rootTypeCache.set(resourcePath, rootType);
-				return rootType;
-			}
-
-			this.rootTypeCache.set(resourcePath, "PackedScene");
-			return "PackedScene";
-		} catch (error) {
-			log.warn(`Failed to get root type from ${resourcePath}:`, error);
+		// We need to resolve the resource path synchronously
+		// This is a simplified version that works with the workspace folder
+		const workspaceFolders = vscode.workspace.workspaceFolders;
+		if (!workspaceFolders || workspaceFolders.length === 0) {
 			return "PackedScene";
 		}
+		return this.resolveRootType(resourcePath, workspaceFolders[0].uri.fsPath);
 	}
 
 	/**
-	 * Get the root node's script res:// path from a scene file without fully parsing it.
-	 * Reads the file, finds ext_resource Script entries, then finds which one the root node uses.
+	 * Get the root node's script res:// path from a scene file without building a full Scene.
+	 * Inherited scenes are followed until a base scene attaches a script to its root.
 	 * @param resourcePath The res:// path to the scene file
 	 * @returns The script's res:// path, or undefined if not found
 	 */
 	public getRootScriptFromSceneSync(resourcePath: string): string | undefined {
-		try {
-			const workspaceFolders = vscode.workspace.workspaceFolders;
-			if (!workspaceFolders || workspaceFolders.length === 0) {
-				return undefined;
-			}
-
-			const resPath = resourcePath.replace(/^res:\/\//, "");
-			const fullPath = path.join(workspaceFolders[0].uri.fsPath, resPath);
-
-			if (!fs.existsSync(fullPath)) {
-				return undefined;
-			}
-
-			const content = fs.readFileSync(fullPath, "utf-8");
+		const workspaceFolders = vscode.workspace.workspaceFolders;
+		if (!workspaceFolders || workspaceFolders.length === 0) {
+			return undefined;
+		}
 
-			// Build a map of ext_resource IDs to paths for Script resources
-			const scriptResources = new Map<string, string>();
-			const extResRegex = /\[ext_resource\s+type="Script"[^\]]*path="([^"]+)"[^\]]*id="([^"]+)"/g;
-			for (const match of content.matchAll(extResRegex)) {
-				scriptResources.set(match[2], match[1]);
-			}
+		try {
+			return this.resolveInheritedRoot(resourcePath, workspaceFolders[0].uri.fsPath).script;
+		} catch (error) {
+			log.warn(`Failed to get root script from ${resourcePath}:`, error);
+			return undefined;
+		}
+	}
 
-			if (scriptResources.size === 0) {
-				return undefined;
-			}
+	private resolveRootType(resourcePath: string, baseDir: string): string {
+		try {
+			const rootType = this.resolveInheritedRoot(resourcePath, baseDir).type ?? "PackedScene";
+			this.rootTypeCache.set(resourcePath, rootType);
+			return rootType;
+		} catch (error) {
+			log.warn(`Failed to get root type from ${resourcePath}:`, error);
+			return "PackedScene";
+		}
+	}
 
-			// Find the root node (first [node ...] without parent attribute)
-			// and check if it has a script = ExtResource(...) in its body
-			const nodeRegex = /\[node[^\]]*\]/g;
-			let rootNodeEnd = -1;
-			for (const match of content.matchAll(nodeRegex)) {
-				const line = match[0];
-				if (!line.includes("parent=")) {
-					// This is the root node - look for script in its body
-					rootNodeEnd = match.index + line.length;
-					break;
-				}
-			}
+	/**
+	 * Reads the root node of a scene. When the root is an instance of another scene
+	 * (an inherited scene) and doesn't declare its own type or script, the base scene
+	 * is read next, all the way down the inheritance chain.
+	 */
+	private resolveInheritedRoot(
+		resourcePath: string,
+		baseDir: string,
+		visited: Set<string> = new Set(),
+	): { type?: string; script?: string } {
+		if (visited.has(resourcePath)) {
+			log.debug(`Circular scene inheritance detected: ${resourcePath}`);
+			return {};
+		}
+		visited.add(resourcePath);
 
-			if (rootNodeEnd < 0) {
-				return undefined;
-			}
+		const fullPath = path.join(baseDir, resourcePath.replace(/^res:\/\//, ""));
+		if (!fs.existsSync(fullPath)) {
+			return {};
+		}
 
-			// Find the body after root node until next section header
-			const nextSection = content.indexOf("\n[", rootNodeEnd);
-			const body = nextSection >= 0
-				? content.slice(rootNodeEnd, nextSection)
-				: content.slice(rootNodeEnd);
+		const document = parseResourceText(fs.readFileSync(fullPath, "utf-8"));
+		const root = findRootNodeSection(document);
+		if (!root) {
+			return {};
+		}
 
-			const scriptMatch = body.match(/script\s*=\s*ExtResource\(\s*"?(\w+)"?\s*\)/);
-			if (scriptMatch?.[1]) {
-				return scriptResources.get(scriptMatch[1]);
+		const extResourcePath = (id: string) => {
+			const section = document.sections.find(
+				(s) => s.tag === "ext_resource" && getAttributeString(s, "id") === id,
+			);
+			return section && getAttributeString(section, "path");
+		};
+
+		const script = getProperty(root, "script")?.value;
+		const result = {
+			type: getAttributeString(root, "type"),
+			script: script?.kind === "ext_resource" ? extResourcePath(script.id) : undefined,
+		};
+
+		const instance = getAttribute(root, "instance");
+		if ((!result.type || !result.script) && instance?.kind === "ext_resource") {
+			const basePath = extResourcePath(instance.id);
+			if (basePath) {
+				const base = this.resolveInheritedRoot(basePath, baseDir, visited);
+				result.type ??= base.type;
+				result.script ??= base.script;
 			}
-
-			return undefined;
-		} catch (error) {
-			log.warn(`Failed to get root script from ${resourcePath}:`, error);
-			return undefined;
 		}
+		return result;
 	}
 
 	/**
@@ -194,73 +173,72 @@ export class SceneParser {
 			log.debug(`Cache MISS for ${basename(scenePath)}`);
 		}
 
+		const scene = this.build_scene(document, stats.mtimeMs);
+		this.scenes.set(scenePath, scene);
+		return scene;
+	}
+
+	/**
+	 * Build a fresh Scene from a document, bypassing the cache.
+	 */
+	private build_scene(document: TextDocument, mtime: number): Scene {
+		const scenePath = document.uri.fsPath;
 		const scene = new Scene();
 		scene.path = scenePath;
-		scene.mtime = stats.mtimeMs;
+		scene.mtime = mtime;
 		scene.title = basename(scenePath);
 
-		this.scenes.set(scenePath, scene);
-
 		const text = document.getText();
+		const lineOf = (offset: number) => document.positionAt(offset).line + 1;
 
-		for (const match of text.matchAll(/\[ext_resource.*/g)) {
-			const line = match[0];
-			const type = line.match(/type="([\w]+)"/)?.[1];
-			const path = line.match(/path="([\w.:/]+)"/)?.[1];
-			const uid = line.match(/uid="([\w:/]+)"/)?.[1];
-			const id = line.match(/ id="?([\w]+)"?/)?.[1];
-
-			scene.externalResources.set(id, {
-				body: line,
-				path: path,
-				type: type,
-				uid: uid,
-				id: id,
-				index: match.index,
-				line: document.lineAt(document.positionAt(match.index)).lineNumber + 1,
-			});
+		scene.document = parseResourceText(text);
+		for (const error of scene.document.errors) {
+			log.debug(`${basename(scenePath)}:${lineOf(error.range.start)}: ${error.message}`);
 		}
 
-		let lastResource = null;
-		for (const match of text.matchAll(/\[sub_resource.*/g)) {
-			const line = match[0];
-			const type = line.match(/type="([\w]+)"/)?.[1];
-			const path = line.match(/path="([\w.:/]+)"/)?.[1];
-			const uid = line.match(/uid="([\w:/]+)"/)?.[1];
-			const id = line.match(/ id="?([\w]+)"?/)?.[1];
-			const resource = {
-				path: path,
-				type: type,
-				uid: uid,
-				id: id,
-				index: match.index,
-				line: document.lineAt(document.positionAt(match.index)).lineNumber + 1,
-			};
-			if (lastResource) {
-				lastResource.body = text.slice(lastResource.index, match.index).trimEnd();
+		let root = "";
+		const nodes: { [key: string]: SceneNode } = {};
+
+		for (const section of scene.document.sections) {
+			if (section.tag === "ext_resource" || section.tag === "sub_resource") {
+				const resource: GDResource = {
+					path: getAttributeString(section, "path"),
+					type: getAttributeString(section, "type"),
+					uid: getAttributeString(section, "uid"),
+					id: getAttributeString(section, "id"),
+					index: section.headerRange.start,
+					line: lineOf(section.headerRange.start),
+					section: section,
+				};
+				if (section.tag === "ext_resource") {
+					resource.body = text.slice(section.headerRange.start, section.headerRange.end);
+					scene.externalResources.set(resource.id, resource);
+				} else {
+					resource.body = text.slice(section.range.start, section.range.end);
+					scene.subResources.set(resource.id, resource);
+				}
+				continue;
 			}
 
-			scene.subResources.set(id, resource);
-			lastResource = resource;
-		}
+			if (section.tag === "connection") {
+				scene.connections.push({
+					signal: getAttributeString(section, "signal") ?? "",
+					from: getAttributeString(section, "from") ?? ".",
+					to: getAttributeString(section, "to") ?? ".",
+					method: getAttributeString(section, "method") ?? "",
+					section,
+				});
+				continue;
+			}
 
-		let root = "";
-		const nodes: { [key: string]: SceneNode } = {};
-		let lastNode = null;
-
-		const nodeRegex = /\[node.*/g;
-		let nodeMatchCount = 0;
-		for (const match of text.matchAll(nodeRegex)) {
-			nodeMatchCount++;
-			const line = match[0];
-			const name = line.match(/name="([^"]+)"/)?.[1];
-			const type = line.match(/type="([\w]+)"/)?.[1] ?? "PackedScene";
-			let parent = line.match(/parent="([^"]+)"/)?.[1];
-			const instance = line.match(/instance=ExtResource\(\s*"?([\w]+)"?\s*\)/)?.[1];
-
-			// leaving this in case we have a reason to use these node paths in the future
-			// const rawNodePaths = line.match(/node_paths=PackedStringArray\(([\w",\s]*)\)/)?.[1];
-			// const nodePaths = rawNodePaths?.split(",").forEach(x => x.trim().replace("\"", ""));
+			if (section.tag !== "node") {
+				continue;
+			}
+
+			const name = getAttributeString(section, "name");
+			const type = getAttributeString(section, "type") ?? "PackedScene";
+			let parent = getAttributeString(section, "parent");
+			const instance = getAttribute(section, "instance");
 
 			let _path = "";
 			let relativePath = "";
@@ -277,30 +255,30 @@ export class SceneParser {
 				parent = `${root}/${parent}`;
 				_path = `${parent}/${name}`;
 			}
-			if (lastNode) {
-				lastNode.body = text.slice(lastNode.position, match.index);
-				lastNode.parse_body();
-			}
-			if (lastResource) {
-				lastResource.body = text.slice(lastResource.index, match.index).trimEnd();
-				lastResource = null;
-			}
 
 			const node = new SceneNode(name, type);
 			node.path = _path;
 			node.description = type;
 			node.relativePath = relativePath;
 			node.parent = parent;
-			node.text = match[0];
-			node.position = match.index;
+			node.text = text.slice(section.headerRange.start, section.headerRange.end);
+			node.position = section.headerRange.start;
+			node.section = section;
+			node.sourceScene = scenePath;
+			node.groups = valueAsStringArray(getAttribute(section, "groups"));
+			node.body = text.slice(section.range.start, section.range.end);
+			node.parse_body();
+			if (node.hasScript) {
+				node.scriptPath = scene.externalResources.get(node.scriptId)?.path;
+			}
 			node.resourceUri = Uri.from({
 				scheme: "godot",
 				path: _path,
 			});
 			scene.nodes.set(_path, node);
 
-			if (instance) {
-				const res = scene.externalResources.get(instance);
+			if (instance?.kind === "ext_resource") {
+				const res = scene.externalResources.get(instance.id);
 				if (res) {
 					node.tooltip = res.path;
 					node.resourcePath = res.path;
@@ -325,32 +303,19 @@ export class SceneParser {
 				nodes[parent].children.push(node);
 			}
 			nodes[_path] = node;
-
-			lastNode = node;
-		}
-
-		if (lastNode) {
-			lastNode.body = text.slice(lastNode.position, text.length);
-			lastNode.parse_body();
 		}
 
-		const resourceRegex = /\[resource\]/g;
-		for (const match of text.matchAll(resourceRegex)) {
-			if (lastResource) {
-				lastResource.body = text.slice(lastResource.index, match.index).trimEnd();
-				lastResource = null;
-			}
-		}
 		return scene;
 	}
 
 	/**
 	 * Parse a scene file and recursively load all instanced PackedScenes.
-	 * This provides a complete tree including nodes from instanced scenes.
+	 * This provides a complete tree including nodes from instanced and inherited scenes.
+	 * The result is built fresh and never cached, because it depends on every scene it instances.
 	 *
 	 * @param document The scene document to parse
 	 * @param maxDepth Maximum recursion depth to prevent infinite loops (default 10)
-	 * @param visited Set of already visited scene paths to prevent circular references
+	 * @param visited Scene paths currently being expanded, used to break circular references
 	 */
 	public async parse_scene_recursive(
 		document: TextDocument,
@@ -364,10 +329,9 @@ export class SceneParser {
 			log.debug(`Circular reference detected, skipping: ${scenePath}`);
 			return this.parse_scene(document);
 		}
-		visited.add(scenePath);
 
 		// First, parse the scene without recursion
-		const scene = this.parse_scene(document);
+		const scene = this.build_scene(document, fs.statSync(scenePath).mtimeMs);
 
 		// If we've hit max depth, stop recursing
 		if (maxDepth <= 0) {
@@ -375,17 +339,12 @@ export class SceneParser {
 			return scene;
 		}
 
-		// Find all nodes that are instances of other scenes
-		const instancedNodes: SceneNode[] = [];
-
-		// Check root node
-		if (scene.root?.resourcePath) {
-			instancedNodes.push(scene.root);
-		}
+		visited.add(scenePath);
 
-		// Check all other nodes
+		// Find all nodes that are instances of other scenes, the root first for inherited scenes
+		const instancedNodes: SceneNode[] = [];
 		for (const node of scene.nodes.values()) {
-			if (node.resourcePath && node !== scene.root) {
+			if (node.resourcePath?.endsWith(".tscn")) {
 				instancedNodes.push(node);
 			}
 		}
@@ -395,11 +354,6 @@ export class SceneParser {
 			try {
 				const resPath = instanceNode.resourcePath;
 
-				// Only process .tscn files
-				if (!resPath.endsWith(".tscn")) {
-					continue;
-				}
-
 				// Convert res:// path to file URI
 				const instanceUri = await convert_resource_path_to_uri(resPath);
 				if (!instanceUri) {
@@ -430,6 +384,16 @@ export class SceneParser {
 			}
 		}
 
+		visited.delete(scenePath);
+
+		// Nodes added under a node that only exists in a base scene can be attached now
+		for (const node of scene.nodes.values()) {
+			const parent = node !== scene.root && scene.nodes.get(node.parent);
+			if (parent && !parent.children.includes(node)) {
+				parent.children.push(node);
+			}
+		}
+
 		return scene;
 	}
 
@@ -442,79 +406,102 @@ export class SceneParser {
 		instanceScene: Scene,
 		parentScene: Scene
 	): void {
-		// Clone and reparent all children of the instanced scene's root
-		const rootChildren = instanceScene.root?.children || [];
+		const instanceRoot = instanceScene.root;
 
-		// Build a set of child names already present as overrides in the parent scene
-		const existingChildNames = new Set(
-			instanceNode.children.map(c => c.label as string)
-		);
+		// The instance inherits the script of the instanced scene's root unless it sets its own
+		if (!instanceNode.hasScript && instanceRoot.scriptPath) {
+			instanceNode.hasScript = true;
+			instanceNode.scriptPath = instanceRoot.scriptPath;
+		}
+		instanceNode.groups = mergeGroups(instanceRoot.groups, instanceNode.groups);
 
-		for (const child of rootChildren) {
-			// Override node exists — fix its type if it defaulted to "PackedScene"
-			if (existingChildNames.has(child.label as string)) {
-				const overrideNode = instanceNode.children.find(c => c.label === child.label);
-				if (overrideNode && overrideNode.className === "PackedScene") {
-					overrideNode.className = child.className;
-					overrideNode.description = child.className;
-				}
-				continue;
-			}
-			// Clone the node to avoid modifying the cached instance scene
-			const clonedChild = this.cloneNodeTree(child, instanceNode, parentScene);
-			instanceNode.children.push(clonedChild);
+		for (const child of instanceRoot.children) {
+			this.mergeNodeTree(child, instanceNode, parentScene);
 		}
 	}
 
 	/**
-	 * Deep clone a node and its children, updating paths relative to new parent.
+	 * Merge a node from an instanced scene, and its children, under `newParent`.
+	 * Nodes the parent scene already declares at the same path are overrides (editable
+	 * children, or base nodes of an inherited scene): they are kept and completed with the
+	 * instanced node's type and script. Everything else is cloned and marked as coming from
+	 * the instance, so the cached instanced scene is never modified.
 	 */
-	private cloneNodeTree(
+	private mergeNodeTree(
 		node: SceneNode,
 		newParent: SceneNode,
 		targetScene: Scene
-	): SceneNode {
+	): void {
+		const nodePath = `${newParent.path}/${node.label}`;
+		let merged = targetScene.nodes.get(nodePath);
+
+		if (merged) {
+			// Override node exists — fix its type if it defaulted to "PackedScene"
+			if (merged.className === "PackedScene" && !merged.resourcePath) {
+				merged.className = node.className;
+				merged.description = node.className;
+			}
+			merged.resourcePath ??= node.resourcePath;
+			if (!merged.hasScript && node.scriptPath) {
+				merged.hasScript = true;
+				merged.scriptPath = node.scriptPath;
+			}
+			merged.unique ||= node.unique;
+			merged.groups = mergeGroups(node.groups, merged.groups);
+			if (!newParent.children.includes(merged)) {
+				newParent.children.push(merged);
+			}
+		} else {
+			merged = this.cloneNode(node, newParent);
+			targetScene.nodes.set(merged.path, merged);
+			newParent.children.push(merged);
+		}
+
+		for (const child of node.children) {
+			this.mergeNodeTree(child, merged, targetScene);
+		}
+	}
+
+	/**
+	 * Clone a single node, updating paths relative to its new parent.
+	 */
+	private cloneNode(node: SceneNode, newParent: SceneNode): SceneNode {
 		// Create a new node with the same properties
 		const clonedNode = new SceneNode(node.label as string, node.className, node.collapsibleState);
 
 		// Update path to be relative to the new parent
 		clonedNode.path = `${newParent.path}/${node.label}`;
 		clonedNode.parent = newParent.path;
-		clonedNode.relativePath = node.relativePath
-			? `${this.getRelativePathFromRoot(newParent)}/${node.relativePath}`
-			: `${this.getRelativePathFromRoot(newParent)}/${node.label}`;
+		clonedNode.relativePath = newParent.relativePath
+			? `${newParent.relativePath}/${node.label}`
+			: (node.label as string);
 
 		// Copy other properties
 		clonedNode.text = node.text;
 		clonedNode.position = node.position;
 		clonedNode.body = node.body;
 		clonedNode.unique = node.unique;
+		clonedNode.groups = node.groups;
 		clonedNode.hasScript = node.hasScript;
 		clonedNode.scriptId = node.scriptId;
+		clonedNode.scriptPath = node.scriptPath;
+		clonedNode.section = node.section;
+		clonedNode.sourceScene = node.sourceScene;
 		clonedNode.resourcePath = node.resourcePath;
 		clonedNode.description = node.description;
 		clonedNode.tooltip = node.tooltip;
 		clonedNode.contextValue = node.contextValue;
 
 		// Mark as coming from an instanced scene for UI purposes
-		clonedNode.contextValue = `${clonedNode.contextValue || ""}fromInstance`;
-
-		// Add to parent scene's nodes map
-		targetScene.nodes.set(clonedNode.path, clonedNode);
-
-		// Recursively clone children
-		for (const child of node.children) {
-			const clonedChild = this.cloneNodeTree(child, clonedNode, targetScene);
-			clonedNode.children.push(clonedChild);
+		if (!clonedNode.contextValue?.includes("fromInstance")) {
+			clonedNode.contextValue = `${clonedNode.contextValue || ""}fromInstance`;
 		}
 
 		return clonedNode;
 	}
+}
 
-	/**
-	 * Get the relative path from the scene root to a node.
-	 */
-	private getRelativePathFromRoot(node: SceneNode): string {
-		return node.relativePath || node.label as string;
-	}
+/** Groups of a node in an instanced or base scene, plus the ones the overriding node adds */
+function mergeGroups(base: string[], added: string[]): string[] {
+	return [...new Set([...base, ...added])];
 }
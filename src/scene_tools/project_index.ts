@@ -0,0 +1,317 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { createLogger, get_project_dir, register_uid_resolver } from "../utils";
+import { SceneParser } from "./parser";
+import type { Scene, SceneNode } from "./types";
+import {
+	type GroupInfo,
+	type IndexRecord,
+	type IndexedResource,
+	ResourceGraph,
+	createIndexRecord,
+} from "./resource_index";
+
+const log = createLogger("scenes.index", { output: "Godot Scene Parser" });
+
+const STATE_KEY = "godotToolsCsharp.projectIndex";
+/** Bump when IndexRecord changes shape, to discard indexes persisted by older versions */
+const INDEX_VERSION = 2;
+const INDEXED_FILES = "**/*.{tscn,tres,gd,cs,uid,import,godot}";
+const EXCLUDED_FILES = "**/.godot/**";
+// Scenes a script is looked up in at most, for scripts shared by many scenes
+const MAX_SCRIPT_SCENES = 20;
+
+interface PersistedIndex {
+	version: number;
+	projectDir: string;
+	records: [string, IndexRecord][];
+}
+
+export interface IndexChange {
+	type: "created" | "changed" | "deleted";
+	resPath: string;
+	fsPath: string;
+}
+
+/** A scene a script runs in */
+export interface ScriptContext {
+	fsPath: string;
+	scene: Scene;
+	/** The node the script runs on, see findScriptOwner */
+	owner: SceneNode;
+}
+
+/**
+ * Project-wide index of scenes, resources, scripts, UIDs, ext_resource references and groups.
+ *
+ * Built once at startup (reusing the copy persisted in workspaceState for files whose
+ * mtime hasn't changed), then kept up to date one file at a time from file system events.
+ * Providers share its SceneParser rather than creating their own.
+ */
+export class ProjectIndex {
+	public readonly parser = new SceneParser();
+	public readonly graph = new ResourceGraph();
+	public readonly ready: Promise<void>;
+
+	private projectDir?: string;
+	private saveTimer?: NodeJS.Timeout;
+	private watcher = vscode.workspace.createFileSystemWatcher(INDEXED_FILES);
+	private changeEmitter = new vscode.EventEmitter<IndexChange[]>();
+	public readonly onDidChange = this.changeEmitter.event;
+	/** Parsed scenes each script runs in, by res:// path, until a scene changes */
+	private scriptContexts = new Map<string, Promise<ScriptContext[]>>();
+
+	constructor(private context: vscode.ExtensionContext) {
+		context.subscriptions.push(
+			this.onDidChange((changes) => {
+				if (changes.some((change) => change.resPath.endsWith(".tscn"))) {
+					this.scriptContexts.clear();
+				}
+			}),
+			this.watcher.onDidCreate((uri) => this.update(uri, "created")),
+			this.watcher.onDidChange((uri) => this.update(uri, "changed")),
+			this.watcher.onDidDelete((uri) => this.remove(uri)),
+			this.watcher,
+			this.changeEmitter,
+			{ dispose: () => clearTimeout(this.saveTimer) },
+			register_uid_resolver((uid) => this.resolveUid(uid)),
+		);
+		this.ready = this.build().catch((error) => log.error("Failed to build project index:", error));
+	}
+
+	public getScenes(): IndexedResource[] {
+		return this.graph.getResources("scene");
+	}
+
+	public getResource(resPath: string): IndexedResource | undefined {
+		return this.graph.getResource(resPath);
+	}
+
+	/** Scenes that attach the script to one of their nodes */
+	public getScenesUsingScript(scriptResPath: string): IndexedResource[] {
+		return this.graph
+			.getDependents(scriptResPath)
+			.map((resPath) => this.graph.getResource(resPath))
+			.filter((resource) => resource?.kind === "scene");
+	}
+
+	/** Global groups and the groups scenes and scripts use, by name */
+	public getGroups(): Map<string, GroupInfo> {
+		return this.graph.getGroups();
+	}
+
+	/**
+	 * The node of a scene the script runs on: the node it's attached to, or an instance of
+	 * a scene whose root has the script. Node paths in the script are relative to it.
+	 */
+	public findScriptOwner(scene: Scene, scriptResPath: string): SceneNode | undefined {
+		// Pass 1: Direct script in scene ext_resources
+		let scriptId = "";
+		for (const res of scene.externalResources.values()) {
+			if (res.path === scriptResPath) {
+				scriptId = res.id;
+				break;
+			}
+		}
+		if (scriptId) {
+			if (scene.root?.scriptId === scriptId) {
+				return scene.root;
+			}
+			for (const node of scene.nodes.values()) {
+				if (node.scriptId === scriptId) {
+					return node;
+				}
+			}
+		}
+
+		// Pass 2: Check instanced scene root scripts (e.g., ChildScene.tscn whose root has the script)
+		for (const node of scene.nodes.values()) {
+			if (node.resourcePath?.endsWith(".tscn") && this.getSceneRoot(node.resourcePath).script === scriptResPath) {
+				return node;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * The scenes a script runs in, parsed, with the node it runs on in each: the scenes
+	 * attaching it, and the scenes instancing those, where paths leaving their root lead.
+	 */
+	public getScriptContexts(scriptResPath: string): Promise<ScriptContext[]> {
+		if (!this.scriptContexts.has(scriptResPath)) {
+			this.scriptContexts.set(scriptResPath, this.loadScriptContexts(scriptResPath));
+		}
+		return this.scriptContexts.get(scriptResPath);
+	}
+
+	private async loadScriptContexts(scriptResPath: string): Promise<ScriptContext[]> {
+		const scenes = new Set<string>();
+		for (const scene of this.getScenesUsingScript(scriptResPath)) {
+			scenes.add(scene.fsPath);
+			for (const dependent of this.getDependents(scene.resPath)) {
+				const resource = this.getResource(dependent);
+				if (resource?.kind === "scene") {
+					scenes.add(resource.fsPath);
+				}
+			}
+		}
+
+		const contexts: ScriptContext[] = [];
+		for (const fsPath of [...scenes].slice(0, MAX_SCRIPT_SCENES)) {
+			try {
+				const document = await vscode.workspace.openTextDocument(fsPath);
+				const scene = await this.parser.parse_scene_recursive(document);
+				const owner = this.findScriptOwner(scene, scriptResPath);
+				if (owner) {
+					contexts.push({ fsPath, scene, owner });
+				}
+			} catch (error) {
+				log.warn(`Failed to read ${fsPath}:`, error);
+			}
+		}
+		return contexts;
+	}
+
+	/** res:// paths the resource loads directly */
+	public getDependencies(resPath: string): string[] {
+		return this.graph.getDependencies(resPath);
+	}
+
+	/** res:// paths of the scenes and resources that load this one directly */
+	public getDependents(resPath: string): string[] {
+		return this.graph.getDependents(resPath);
+	}
+
+	/**
+	 * The root type and script of a scene, following inherited scenes.
+	 * Scenes the index hasn't seen yet are read from disk.
+	 */
+	public getSceneRoot(resPath: string): { type?: string; script?: string } {
+		if (!this.graph.getResource(resPath)) {
+			return {
+				type: this.parser.getRootTypeFromSceneSync(resPath),
+				script: this.parser.getRootScriptFromSceneSync(resPath),
+			};
+		}
+		return this.graph.getSceneRoot(resPath);
+	}
+
+	public resolveUid(uid: string): vscode.Uri | undefined {
+		const resPath = this.graph.resolveUid(uid);
+		const fsPath = resPath && this.toFsPath(resPath);
+		return fsPath ? vscode.Uri.file(fsPath) : undefined;
+	}
+
+	public toResPath(fsPath: string): string | undefined {
+		if (!this.projectDir) {
+			return undefined;
+		}
+		const relative = path.relative(this.projectDir, fsPath);
+		if (relative.startsWith("..") || path.isAbsolute(relative)) {
+			return undefined;
+		}
+		return `res://${relative.split(path.sep).join(path.posix.sep)}`;
+	}
+
+	public toFsPath(resPath: string): string | undefined {
+		if (!this.projectDir || !resPath.startsWith("res://")) {
+			return undefined;
+		}
+		return path.join(this.projectDir, resPath.substring("res://".length));
+	}
+
+	private async build(): Promise<void> {
+		this.projectDir = await get_project_dir();
+		if (!this.projectDir) {
+			return;
+		}
+
+		const start = Date.now();
+		const persisted = this.context.workspaceState.get<PersistedIndex>(STATE_KEY);
+		if (persisted?.version === INDEX_VERSION && persisted.projectDir === this.projectDir) {
+			for (const [source, record] of persisted.records) {
+				this.graph.set(source, record);
+			}
+		}
+
+		const uris = await vscode.workspace.findFiles(INDEXED_FILES, EXCLUDED_FILES);
+		const found = new Set<string>();
+		const changes: IndexChange[] = [];
+		for (const uri of uris) {
+			found.add(uri.fsPath);
+			const change = await this.index(uri.fsPath);
+			if (change) {
+				changes.push(change);
+			}
+		}
+		for (const [source] of this.graph.entries()) {
+			if (!found.has(source)) {
+				const record = this.graph.delete(source);
+				changes.push({ type: "deleted", resPath: record.resPath, fsPath: source });
+			}
+		}
+
+		log.info(`Indexed ${this.graph.size} files (${changes.length} updated) in ${Date.now() - start}ms`);
+		this.scheduleSave();
+		this.changeEmitter.fire(changes);
+	}
+
+	/**
+	 * Re-reads a file when it changed since it was last indexed.
+	 */
+	private async index(fsPath: string): Promise<IndexChange | undefined> {
+		const resPath = this.toResPath(fsPath);
+		if (!resPath) {
+			return undefined;
+		}
+
+		try {
+			const { mtimeMs } = await fs.promises.stat(fsPath);
+			const existing = this.graph.get(fsPath);
+			if (existing?.mtime === mtimeMs) {
+				return undefined;
+			}
+
+			const text = await fs.promises.readFile(fsPath, "utf-8");
+			const record = createIndexRecord(resPath, text, mtimeMs);
+			this.graph.set(fsPath, record);
+			return { type: existing ? "changed" : "created", resPath: record.resPath, fsPath };
+		} catch (error) {
+			log.warn(`Failed to index ${fsPath}:`, error);
+			return undefined;
+		}
+	}
+
+	private async update(uri: vscode.Uri, type: IndexChange["type"]): Promise<void> {
+		await this.ready;
+		const change = await this.index(uri.fsPath);
+		if (change) {
+			this.changeEmitter.fire([{ ...change, type }]);
+			this.scheduleSave();
+		}
+	}
+
+	private async remove(uri: vscode.Uri): Promise<void> {
+		await this.ready;
+		this.parser.scenes.delete(uri.fsPath);
+		const record = this.graph.delete(uri.fsPath);
+		if (record) {
+			this.changeEmitter.fire([{ type: "deleted", resPath: record.resPath, fsPath: uri.fsPath }]);
+			this.scheduleSave();
+		}
+	}
+
+	/** Persisting is debounced so a burst of file events writes the state once */
+	private scheduleSave(): void {
+		clearTimeout(this.saveTimer);
+		this.saveTimer = setTimeout(() => {
+			const state: PersistedIndex = {
+				version: INDEX_VERSION,
+				projectDir: this.projectDir,
+				records: this.graph.entries(),
+			};
+			this.context.workspaceState.update(STATE_KEY, state);
+		}, 1000);
+	}
+}
@@ -0,0 +1,96 @@
+import * as fs from "node:fs";
+import * as vscode from "vscode";
+import { globals } from "../extension";
+import { createLogger, register_command } from "../utils";
+import { type ProjectNode, readSceneNodes, searchProjectNodes } from "./search";
+
+const log = createLogger("scenes.search", { output: "Godot Scene Parser" });
+
+/** Results shown at once; the rest are reachable by refining the query */
+const MAX_RESULTS = 200;
+
+interface SceneNodes {
+	mtime: number;
+	nodes: (ProjectNode & { scene: string; resPath: string })[];
+}
+
+type NodeItem = vscode.QuickPickItem & { node: SceneNodes["nodes"][number] };
+
+/**
+ * "Search Nodes in Project": a quick pick over the nodes of every scene in the project,
+ * matched by name, class, script or group. Picking one shows it in the Scene Preview.
+ */
+export class ProjectNodeSearch {
+	/** Nodes per scene file, re-read when the file changes */
+	private cache = new Map<string, SceneNodes>();
+
+	constructor(private context: vscode.ExtensionContext) {
+		context.subscriptions.push(register_command("searchNodesInProject", this.search.bind(this)));
+	}
+
+	private async search(): Promise<void> {
+		const quickPick = vscode.window.createQuickPick<NodeItem>();
+		quickPick.placeholder = "Search nodes in all scenes by name, type, script or group";
+		quickPick.busy = true;
+		quickPick.show();
+
+		let nodes: SceneNodes["nodes"] = [];
+		const update = () => {
+			const results = searchProjectNodes(nodes, quickPick.value).slice(0, MAX_RESULTS);
+			// Results are already filtered and sorted, keep the quick pick from filtering them again
+			quickPick.items = results.map(({ node, matchType }) => ({
+				label: `$(symbol-class) ${node.name}`,
+				description: matchType === "group" ? `${node.className}  ·  ${node.groups.join(", ")}` : node.className,
+				detail: `${node.resPath}  ›  ${node.relativePath || "(root)"}`,
+				alwaysShow: true,
+				node,
+			}));
+		};
+		quickPick.onDidChangeValue(update);
+		quickPick.onDidAccept(() => {
+			const node = quickPick.selectedItems[0]?.node;
+			quickPick.hide();
+			if (node) {
+				globals.scenePreviewProvider.revealNode(node.scene, node.path);
+			}
+		});
+		quickPick.onDidHide(() => quickPick.dispose());
+
+		nodes = await this.load_nodes();
+		quickPick.busy = false;
+		update();
+	}
+
+	private async load_nodes(): Promise<SceneNodes["nodes"]> {
+		await globals.projectIndex.ready;
+		const scenes = globals.projectIndex.getScenes();
+		const nodes: SceneNodes["nodes"] = [];
+		for (const scene of scenes) {
+			try {
+				const stats = await fs.promises.stat(scene.fsPath);
+				let cached = this.cache.get(scene.fsPath);
+				if (cached?.mtime !== stats.mtimeMs) {
+					const text = await fs.promises.readFile(scene.fsPath, "utf-8");
+					cached = {
+						mtime: stats.mtimeMs,
+						nodes: readSceneNodes(text).map((node) => ({
+							...node,
+							scene: scene.fsPath,
+							resPath: scene.resPath,
+						})),
+					};
+					this.cache.set(scene.fsPath, cached);
+				}
+				nodes.push(...cached.nodes);
+			} catch (error) {
+				log.warn(`Failed to read ${scene.fsPath}:`, error);
+			}
+		}
+		// Scenes that no longer exist
+		const paths = new Set(scenes.map((scene) => scene.fsPath));
+		for (const fsPath of this.cache.keys()) {
+			if (!paths.has(fsPath)) this.cache.delete(fsPath);
+		}
+		return nodes;
+	}
+}
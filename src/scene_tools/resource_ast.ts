@@ -0,0 +1,140 @@
+/**
+ * Typed AST for Godot's text resource format (.tscn, .tres, project.godot).
+ *
+ * Every node carries the character offsets it was parsed from, so providers can
+ * map AST nodes back to document ranges without re-scanning the text.
+ */
+
+export interface TextRange {
+	start: number;
+	end: number;
+}
+
+export interface ParseError {
+	message: string;
+	range: TextRange;
+}
+
+interface BaseValue {
+	range: TextRange;
+}
+
+export interface NullValue extends BaseValue {
+	kind: "null";
+}
+
+export interface BoolValue extends BaseValue {
+	kind: "bool";
+	value: boolean;
+}
+
+export interface NumberValue extends BaseValue {
+	kind: "number";
+	value: number;
+	/** The number exactly as written, e.g. `1e-05` or `-inf` */
+	raw: string;
+	isFloat: boolean;
+}
+
+export interface StringValue extends BaseValue {
+	kind: "string";
+	value: string;
+}
+
+/** `&"name"` */
+export interface StringNameValue extends BaseValue {
+	kind: "string_name";
+	value: string;
+}
+
+/** `^"path"` */
+export interface NodePathValue extends BaseValue {
+	kind: "node_path";
+	value: string;
+}
+
+/** Bare identifiers that aren't keywords, e.g. the class name in `Object(Node, ...)` */
+export interface IdentifierValue extends BaseValue {
+	kind: "identifier";
+	name: string;
+}
+
+export interface ArrayValue extends BaseValue {
+	kind: "array";
+	items: VariantValue[];
+}
+
+export interface DictionaryEntry {
+	key: VariantValue;
+	value: VariantValue;
+}
+
+export interface DictionaryValue extends BaseValue {
+	kind: "dictionary";
+	entries: DictionaryEntry[];
+}
+
+/** `ExtResource("1_abc")` / `SubResource("Theme_xyz")` */
+export interface ResourceRefValue extends BaseValue {
+	kind: "ext_resource" | "sub_resource";
+	id: string;
+	idRange: TextRange;
+}
+
+/**
+ * Any other `Name(args...)` form: `Vector2(1, 2)`, `PackedStringArray("a")`,
+ * `NodePath("..")`, `Resource("res://...")` and `Object(Class, "key": value)`.
+ * Typed collections such as `Array[int]([1])` keep their element types in `typeArgs`.
+ */
+export interface ConstructorValue extends BaseValue {
+	kind: "constructor";
+	name: string;
+	typeArgs: VariantValue[];
+	args: VariantValue[];
+}
+
+export type VariantValue =
+	| NullValue
+	| BoolValue
+	| NumberValue
+	| StringValue
+	| StringNameValue
+	| NodePathValue
+	| IdentifierValue
+	| ArrayValue
+	| DictionaryValue
+	| ResourceRefValue
+	| ConstructorValue;
+
+/** `key=value` inside a section header */
+export interface Attribute {
+	name: string;
+	value: VariantValue;
+	range: TextRange;
+}
+
+/** `key = value` on its own line below a section header */
+export interface Property {
+	key: string;
+	keyRange: TextRange;
+	value: VariantValue;
+	range: TextRange;
+}
+
+export interface Section {
+	/** `gd_scene`, `gd_resource`, `ext_resource`, `sub_resource`, `node`, `connection`, `resource`, ... */
+	tag: string;
+	attributes: Attribute[];
+	properties: Property[];
+	/** Span of the `[tag ...]` header */
+	headerRange: TextRange;
+	/** Span of the header plus all of its properties */
+	range: TextRange;
+}
+
+export interface ResourceDocument {
+	/** Properties that appear before the first section, as in `project.godot` */
+	preamble: Property[];
+	sections: Section[];
+	errors: ParseError[];
+}
@@ -0,0 +1,143 @@
+import { expect } from "chai";
+import { ResourceGraph, createIndexRecord, findResourceReferences } from "./resource_index";
+import { parseResourceText } from "./resource_parser";
+
+const BASE_SCENE = `[gd_scene load_steps=2 format=3 uid="uid://base"]
+
+[ext_resource type="Script" uid="uid://script" path="res://enemy.gd" id="1_a"]
+
+[node name="Enemy" type="CharacterBody2D"]
+script = ExtResource("1_a")
+`;
+
+const INHERITED_SCENE = `[gd_scene load_steps=3 format=3 uid="uid://boss"]
+
+[ext_resource type="PackedScene" uid="uid://base" path="res://old/enemy.tscn" id="1_b"]
+[ext_resource type="Texture2D" path="res://boss.png" id="2_c"]
+
+[node name="Boss" instance=ExtResource("1_b")]
+`;
+
+function buildGraph(): ResourceGraph {
+	const graph = new ResourceGraph();
+	graph.set("/p/enemy.tscn", createIndexRecord("res://enemy.tscn", BASE_SCENE, 1));
+	graph.set("/p/boss.tscn", createIndexRecord("res://boss.tscn", INHERITED_SCENE, 1));
+	graph.set("/p/enemy.gd", createIndexRecord("res://enemy.gd", "", 1));
+	graph.set("/p/enemy.gd.uid", createIndexRecord("res://enemy.gd.uid", "uid://script\n", 1));
+	return graph;
+}
+
+suite("ResourceGraph", () => {
+	test("reads scene records", () => {
+		const record = createIndexRecord("res://boss.tscn", INHERITED_SCENE, 5);
+		expect(record.kind).to.equal("scene");
+		expect(record.uid).to.equal("uid://boss");
+		expect(record.rootType).to.be.undefined;
+		expect(record.rootInstance).to.equal("res://old/enemy.tscn");
+		expect(record.dependencies).to.deep.equal([
+			{ type: "PackedScene", path: "res://old/enemy.tscn", uid: "uid://base" },
+			{ type: "Texture2D", path: "res://boss.png", uid: undefined },
+		]);
+	});
+
+	test("merges UIDs from sidecar files", () => {
+		const graph = buildGraph();
+		expect(graph.resolveUid("uid://script")).to.equal("res://enemy.gd");
+		expect(graph.getResource("res://enemy.gd").uid).to.equal("uid://script");
+		expect(graph.getResources("scene").map((r) => r.resPath)).to.have.members([
+			"res://enemy.tscn",
+			"res://boss.tscn",
+		]);
+	});
+
+	test("resolves dependencies by UID before path", () => {
+		const graph = buildGraph();
+		expect(graph.getDependencies("res://boss.tscn")).to.deep.equal(["res://enemy.tscn", "res://boss.png"]);
+		expect(graph.getDependents("res://enemy.tscn")).to.deep.equal(["res://boss.tscn"]);
+		expect(graph.getDependents("res://enemy.gd")).to.deep.equal(["res://enemy.tscn"]);
+	});
+
+	test("follows inherited scenes to the root type and script", () => {
+		const graph = buildGraph();
+		expect(graph.getSceneRoot("res://boss.tscn")).to.deep.equal({
+			type: "CharacterBody2D",
+			script: "res://enemy.gd",
+		});
+	});
+
+	test("updates incrementally", () => {
+		const graph = buildGraph();
+		graph.set("/p/boss.tscn", createIndexRecord("res://boss.tscn", "[gd_scene format=3]\n", 2));
+		expect(graph.getDependents("res://enemy.tscn")).to.be.empty;
+
+		graph.delete("/p/enemy.gd.uid");
+		expect(graph.resolveUid("uid://script")).to.be.undefined;
+		expect(graph.getResource("res://enemy.gd")).to.exist;
+	});
+
+	test("collects groups from scenes, scripts and project.godot", () => {
+		const graph = new ResourceGraph();
+		graph.set(
+			"/p/level.tscn",
+			createIndexRecord(
+				"res://level.tscn",
+				'[gd_scene format=3]\n\n[node name="Level" type="Node2D"]\n\n[node name="Guard" type="Node2D" parent="." groups=["enemies", "guards"]]\n',
+				1,
+			),
+		);
+		graph.set(
+			"/p/spawner.gd",
+			createIndexRecord("res://spawner.gd", 'func _ready():\n\tadd_to_group("enemies")\n', 1),
+		);
+		graph.set(
+			"/p/project.godot",
+			createIndexRecord("res://project.godot", '[global_group]\n\nbosses="Big enemies"\n', 1),
+		);
+
+		const groups = graph.getGroups();
+		expect([...groups.keys()]).to.have.members(["enemies", "guards", "bosses"]);
+		expect(groups.get("enemies").usedBy).to.deep.equal(["res://level.tscn", "res://spawner.gd"]);
+		expect(groups.get("bosses")).to.deep.equal({
+			name: "bosses",
+			global: true,
+			description: "Big enemies",
+			usedBy: [],
+		});
+	});
+});
+
+suite("findResourceReferences", () => {
+	const LEVEL = `[gd_scene load_steps=3 format=3]
+
+[ext_resource type="Script" uid="uid://script" path="res://moved/enemy.gd" id="1_a"]
+[ext_resource type="PackedScene" path="res://enemy.tscn" id="2_b"]
+
+[node name="Level" type="Node2D"]
+
+[node name="Enemy" parent="." instance=ExtResource("2_b")]
+
+[node name="Guard" type="CharacterBody2D" parent="Enemy"]
+script = ExtResource("1_a")
+`;
+
+	test("finds declarations and usages by path", () => {
+		const text = LEVEL;
+		const references = findResourceReferences(parseResourceText(text), { path: "res://enemy.tscn" });
+		expect(references.map((r) => [r.kind, r.nodePath, r.property])).to.deep.equal([
+			["declaration", undefined, undefined],
+			["usage", "Enemy", "instance"],
+		]);
+		expect(text.slice(references[0].range.start, references[0].range.end)).to.equal('"res://enemy.tscn"');
+	});
+
+	test("finds references by UID when the path is stale", () => {
+		const references = findResourceReferences(parseResourceText(LEVEL), {
+			path: "res://enemy.gd",
+			uid: "uid://script",
+		});
+		expect(references.map((r) => [r.kind, r.nodePath, r.property])).to.deep.equal([
+			["declaration", undefined, undefined],
+			["usage", "Enemy/Guard", "script"],
+		]);
+	});
+});
@@ -0,0 +1,409 @@
+import { findAddedGroups, readGlobalGroups } from "./groups";
+import type { ResourceDocument, Section, TextRange, VariantValue } from "./resource_ast";
+import {
+	findRootNodeSection,
+	getAttribute,
+	getAttributeString,
+	getProperty,
+	parseResourceText,
+	valueAsStringArray,
+	walkValue,
+} from "./resource_parser";
+
+export type IndexedKind = "scene" | "resource" | "script" | "asset";
+
+/** One `[ext_resource]` entry */
+export interface ResourceDependency {
+	type: string;
+	path?: string;
+	uid?: string;
+}
+
+/**
+ * What the index knows about one file on disk. `.uid` and `.import` files only
+ * contribute the UID of the resource they sit next to, and are marked `sidecar`.
+ */
+export interface IndexRecord {
+	/** res:// path of the resource this file describes */
+	resPath: string;
+	kind: IndexedKind;
+	mtime: number;
+	sidecar?: boolean;
+	uid?: string;
+	dependencies?: ResourceDependency[];
+	/** Scenes only: the root node's type, script and, for inherited scenes, base scene */
+	rootType?: string;
+	rootScript?: string;
+	rootInstance?: string;
+	/** Groups the scene's nodes are in, or that the script adds nodes to */
+	groups?: string[];
+	/** project.godot only: the global groups and their descriptions */
+	globalGroups?: Record<string, string>;
+}
+
+export interface IndexedResource {
+	resPath: string;
+	fsPath: string;
+	kind: IndexedKind;
+	uid?: string;
+	dependencies: ResourceDependency[];
+	rootType?: string;
+	rootScript?: string;
+	rootInstance?: string;
+}
+
+export function kindFromPath(resPath: string): IndexedKind {
+	if (resPath.endsWith(".tscn")) return "scene";
+	if (resPath.endsWith(".tres")) return "resource";
+	if (resPath.endsWith(".gd") || resPath.endsWith(".cs")) return "script";
+	return "asset";
+}
+
+/**
+ * Builds the record for a file from its contents. `resPath` is the file's own res:// path;
+ * for `.uid` and `.import` files the record describes the resource next to them.
+ */
+export function createIndexRecord(resPath: string, text: string, mtime: number): IndexRecord {
+	if (resPath.endsWith(".uid") || resPath.endsWith(".import")) {
+		const target = resPath.slice(0, resPath.lastIndexOf("."));
+		const uid = text.match(/uid:\/\/[0-9a-zA-Z]+/)?.[0];
+		return { resPath: target, kind: kindFromPath(target), mtime, sidecar: true, uid };
+	}
+
+	if (resPath === "res://project.godot") {
+		return { resPath, kind: "asset", mtime, globalGroups: readGlobalGroups(text) };
+	}
+
+	const kind = kindFromPath(resPath);
+	if (kind === "script") {
+		const groups = findAddedGroups(text);
+		return groups.length ? { resPath, kind, mtime, groups } : { resPath, kind, mtime };
+	}
+	if (kind !== "scene" && kind !== "resource") {
+		return { resPath, kind, mtime };
+	}
+
+	const document = parseResourceText(text);
+	const header = document.sections[0];
+	const record: IndexRecord = {
+		resPath,
+		kind,
+		mtime,
+		uid: header && getAttributeString(header, "uid"),
+		dependencies: [],
+	};
+
+	const extResources = new Map<string, ResourceDependency>();
+	for (const section of document.sections) {
+		if (section.tag !== "ext_resource") continue;
+		const dependency: ResourceDependency = {
+			type: getAttributeString(section, "type") ?? "",
+			path: getAttributeString(section, "path"),
+			uid: getAttributeString(section, "uid"),
+		};
+		record.dependencies.push(dependency);
+		extResources.set(getAttributeString(section, "id"), dependency);
+	}
+
+	const groups = new Set<string>();
+	for (const section of document.sections) {
+		if (section.tag !== "node") continue;
+		for (const group of valueAsStringArray(getAttribute(section, "groups"))) {
+			groups.add(group);
+		}
+	}
+	if (groups.size) {
+		record.groups = [...groups];
+	}
+
+	const root = kind === "scene" && findRootNodeSection(document);
+	if (root) {
+		const script = getProperty(root, "script")?.value;
+		const instance = getAttribute(root, "instance");
+		record.rootType = getAttributeString(root, "type");
+		record.rootScript = script?.kind === "ext_resource" ? extResources.get(script.id)?.path : undefined;
+		record.rootInstance = instance?.kind === "ext_resource" ? extResources.get(instance.id)?.path : undefined;
+	}
+	return record;
+}
+
+export interface GroupInfo {
+	name: string;
+	/** Declared in the project settings' Global Groups */
+	global: boolean;
+	description?: string;
+	/** res:// paths of the scenes with nodes in the group and the scripts adding nodes to it */
+	usedBy: string[];
+}
+
+/** A place in a scene or resource file that points at another resource */
+export interface ResourceReference {
+	/** `declaration` is the `[ext_resource]` entry, `usage` an `ExtResource(...)` that uses it */
+	kind: "declaration" | "usage";
+	range: TextRange;
+	/** Tag of the section the reference is in */
+	sectionTag: string;
+	/** Path of the node using the resource, as written in `parent=` ("." for the root) */
+	nodePath?: string;
+	/** Property or attribute holding the reference, e.g. `script` or `instance` */
+	property?: string;
+}
+
+function sectionNodePath(section: Section): string | undefined {
+	if (section.tag !== "node") {
+		return undefined;
+	}
+	const name = getAttributeString(section, "name") ?? "";
+	const parent = getAttributeString(section, "parent");
+	if (parent === undefined) {
+		return ".";
+	}
+	return parent === "." ? name : `${parent}/${name}`;
+}
+
+/**
+ * Finds the `[ext_resource]` entries of a parsed scene or resource that point at `target`,
+ * by path or by UID, and every `ExtResource(...)` that uses them.
+ */
+export function findResourceReferences(
+	document: ResourceDocument,
+	target: { path: string; uid?: string },
+): ResourceReference[] {
+	const references: ResourceReference[] = [];
+	const ids = new Set<string>();
+
+	for (const section of document.sections) {
+		if (section.tag !== "ext_resource") continue;
+		const path = getAttribute(section, "path");
+		const uid = getAttribute(section, "uid");
+		const byPath = path?.kind === "string" && path.value === target.path;
+		const byUid = !!target.uid && uid?.kind === "string" && uid.value === target.uid;
+		if (!byPath && !byUid) continue;
+
+		ids.add(getAttributeString(section, "id"));
+		references.push({
+			kind: "declaration",
+			range: byPath ? path.range : uid.range,
+			sectionTag: section.tag,
+		});
+	}
+
+	if (ids.size === 0) {
+		return references;
+	}
+
+	const collect = (section: Section, property: string, value: VariantValue) => {
+		walkValue(value, (v) => {
+			if (v.kind === "ext_resource" && ids.has(v.id)) {
+				references.push({
+					kind: "usage",
+					range: v.range,
+					sectionTag: section.tag,
+					nodePath: sectionNodePath(section),
+					property,
+				});
+			}
+		});
+	};
+	for (const section of document.sections) {
+		for (const attribute of section.attributes) {
+			collect(section, attribute.name, attribute.value);
+		}
+		for (const property of section.properties) {
+			collect(section, property.key, property.value);
+		}
+	}
+	return references;
+}
+
+/**
+ * In-memory dependency graph of a project's resources, keyed by the file each record
+ * was read from so it can be updated one file at a time.
+ */
+export class ResourceGraph {
+	private records: Map<string, IndexRecord> = new Map();
+	/** res:// path -> source file of the resource's own record */
+	private sources: Map<string, string> = new Map();
+	private uidToPath: Map<string, string> = new Map();
+	private pathToUid: Map<string, string> = new Map();
+	/** dependency path or uid -> res:// paths of the resources that use it */
+	private dependents: Map<string, Set<string>> = new Map();
+
+	public get size(): number {
+		return this.records.size;
+	}
+
+	public get(source: string): IndexRecord | undefined {
+		return this.records.get(source);
+	}
+
+	public entries(): [string, IndexRecord][] {
+		return [...this.records.entries()];
+	}
+
+	public set(source: string, record: IndexRecord): void {
+		this.delete(source);
+		this.records.set(source, record);
+
+		if (!record.sidecar) {
+			this.sources.set(record.resPath, source);
+		}
+		if (record.uid) {
+			this.uidToPath.set(record.uid, record.resPath);
+			this.pathToUid.set(record.resPath, record.uid);
+		}
+		for (const key of this.dependencyKeys(record)) {
+			if (!this.dependents.has(key)) {
+				this.dependents.set(key, new Set());
+			}
+			this.dependents.get(key).add(record.resPath);
+		}
+	}
+
+	public delete(source: string): IndexRecord | undefined {
+		const record = this.records.get(source);
+		if (!record) {
+			return undefined;
+		}
+		this.records.delete(source);
+
+		if (this.sources.get(record.resPath) === source) {
+			this.sources.delete(record.resPath);
+		}
+		if (record.uid && this.uidToPath.get(record.uid) === record.resPath) {
+			this.uidToPath.delete(record.uid);
+			this.pathToUid.delete(record.resPath);
+		}
+		for (const key of this.dependencyKeys(record)) {
+			this.dependents.get(key)?.delete(record.resPath);
+		}
+		return record;
+	}
+
+	public clear(): void {
+		this.records.clear();
+		this.sources.clear();
+		this.uidToPath.clear();
+		this.pathToUid.clear();
+		this.dependents.clear();
+	}
+
+	public getResource(resPath: string): IndexedResource | undefined {
+		const source = this.sources.get(resPath);
+		const record = source && this.records.get(source);
+		if (!record) {
+			return undefined;
+		}
+		return {
+			resPath,
+			fsPath: source,
+			kind: record.kind,
+			uid: this.pathToUid.get(resPath),
+			dependencies: record.dependencies ?? [],
+			rootType: record.rootType,
+			rootScript: record.rootScript,
+			rootInstance: record.rootInstance,
+		};
+	}
+
+	public getResources(kind?: IndexedKind): IndexedResource[] {
+		const resources: IndexedResource[] = [];
+		for (const resPath of this.sources.keys()) {
+			const resource = this.getResource(resPath);
+			if (!kind || resource.kind === kind) {
+				resources.push(resource);
+			}
+		}
+		return resources;
+	}
+
+	public resolveUid(uid: string): string | undefined {
+		return this.uidToPath.get(uid);
+	}
+
+	public getUid(resPath: string): string | undefined {
+		return this.pathToUid.get(resPath);
+	}
+
+	/**
+	 * The res:// path a dependency points to. Like Godot, a known UID wins over a stale path.
+	 */
+	public resolveDependency(dependency: ResourceDependency): string | undefined {
+		return (dependency.uid && this.uidToPath.get(dependency.uid)) || dependency.path;
+	}
+
+	/** res:// paths the resource loads directly */
+	public getDependencies(resPath: string): string[] {
+		const resource = this.getResource(resPath);
+		return (resource?.dependencies ?? []).map((d) => this.resolveDependency(d)).filter((p) => p !== undefined);
+	}
+
+	/** res:// paths of the resources that load this one directly */
+	public getDependents(resPath: string): string[] {
+		const candidates = new Set([
+			...(this.dependents.get(resPath) ?? []),
+			...(this.dependents.get(this.pathToUid.get(resPath)) ?? []),
+		]);
+		return [...candidates].filter((candidate) => this.getDependencies(candidate).includes(resPath));
+	}
+
+	/**
+	 * The root type and script of a scene, following inherited scenes down to the base
+	 * scene that declares them.
+	 */
+	public getSceneRoot(resPath: string, visited: Set<string> = new Set()): { type?: string; script?: string } {
+		const resource = this.getResource(resPath);
+		if (!resource || visited.has(resPath)) {
+			return {};
+		}
+		visited.add(resPath);
+
+		// The root's script and base scene are ext_resources, which may be known by UID
+		const resolve = (resPath: string | undefined) => {
+			const dependency = resource.dependencies.find((d) => d.path === resPath);
+			return dependency ? this.resolveDependency(dependency) : resPath;
+		};
+
+		const result = { type: resource.rootType, script: resolve(resource.rootScript) };
+		if ((!result.type || !result.script) && resource.rootInstance) {
+			const base = this.getSceneRoot(resolve(resource.rootInstance), visited);
+			result.type ??= base.type;
+			result.script ??= base.script;
+		}
+		return result;
+	}
+
+	/**
+	 * Every group the project knows about: global groups from project.godot, groups
+	 * nodes are put in by scenes, and groups scripts add nodes to.
+	 */
+	public getGroups(): Map<string, GroupInfo> {
+		const groups = new Map<string, GroupInfo>();
+		const get = (name: string) => {
+			if (!groups.has(name)) {
+				groups.set(name, { name, global: false, usedBy: [] });
+			}
+			return groups.get(name);
+		};
+		for (const record of this.records.values()) {
+			for (const [name, description] of Object.entries(record.globalGroups ?? {})) {
+				const group = get(name);
+				group.global = true;
+				group.description = description || undefined;
+			}
+			for (const name of record.groups ?? []) {
+				get(name).usedBy.push(record.resPath);
+			}
+		}
+		return groups;
+	}
+
+	private dependencyKeys(record: IndexRecord): string[] {
+		const keys: string[] = [];
+		for (const dependency of record.dependencies ?? []) {
+			if (dependency.path) keys.push(dependency.path);
+			if (dependency.uid) keys.push(dependency.uid);
+		}
+		return keys;
+	}
+}
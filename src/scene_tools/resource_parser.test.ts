@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import {
+	collectResourceRefs,
+	findValueAt,
+	formatVariant,
+	getAttributeString,
+	parseResourceText,
+	valueAsStringArray,
+} from "./resource_parser";
+
+const SCENE = `[gd_scene load_steps=3 format=3 uid="uid://bsonfthpqa3dx"]
+
+[ext_resource type="Script" path="res://Player.gd" id="1_abcde"]
+
+[sub_resource type="StyleBoxFlat" id="StyleBoxFlat_1"]
+bg_color = Color(1, 0, 0.5, 1)
+
+[node name="Player" type="CharacterBody2D" groups=["players"]]
+script = ExtResource("1_abcde")
+metadata/_edit_group_ = true
+
+[node name="Panel" type="Panel" parent="." node_paths=PackedStringArray("target")]
+theme_override_styles/panel = SubResource("StyleBoxFlat_1")
+target = NodePath("..")
+
+[connection signal="pressed" from="Panel" to="." method="_on_pressed"]
+`;
+
+suite("ResourceParser", () => {
+	test("parses section headers and attributes", () => {
+		const document = parseResourceText(SCENE);
+		expect(document.errors).to.be.empty;
+		expect(document.sections.map((s) => s.tag)).to.deep.equal([
+			"gd_scene",
+			"ext_resource",
+			"sub_resource",
+			"node",
+			"node",
+			"connection",
+		]);
+		expect(getAttributeString(document.sections[0], "uid")).to.equal("uid://bsonfthpqa3dx");
+		expect(getAttributeString(document.sections[0], "load_steps")).to.equal("3");
+		expect(valueAsStringArray(document.sections[3].attributes[2].value)).to.deep.equal(["players"]);
+		expect(valueAsStringArray(document.sections[4].attributes[3].value)).to.deep.equal(["target"]);
+	});
+
+	test("attaches properties to the preceding section", () => {
+		const document = parseResourceText(SCENE);
+		const player = document.sections[3];
+		expect(player.properties.map((p) => p.key)).to.deep.equal(["script", "metadata/_edit_group_"]);
+		expect(player.properties[0].value).to.include({ kind: "ext_resource", id: "1_abcde" });
+		expect(player.properties[1].value).to.include({ kind: "bool", value: true });
+		expect(SCENE.slice(player.range.start, player.range.end)).to.match(
+			/^\[node name="Player".*_edit_group_ = true$/s,
+		);
+	});
+
+	test("parses every variant literal", () => {
+		const text = `[resource]
+int = -12
+float = 1e-05
+infinite = -inf
+string = "multi
+line \\"quoted\\""
+name = &"pressed"
+path = ^"../Node"
+array = [1, 2.5, null]
+typed = Array[int]([1, 2])
+dict = {
+"a": Vector2(1, 2),
+"b": [false]
+}
+object = Object(InputEventKey,"resource_local_to_scene":false,"keycode":65)
+`;
+		const document = parseResourceText(text);
+		expect(document.errors).to.be.empty;
+		const values = Object.fromEntries(document.sections[0].properties.map((p) => [p.key, p.value]));
+		expect(values.int).to.include({ kind: "number", value: -12, isFloat: false });
+		expect(values.float).to.include({ kind: "number", value: 1e-5, isFloat: true });
+		expect(values.infinite).to.include({ kind: "number", value: Number.NEGATIVE_INFINITY });
+		expect(values.string).to.include({ kind: "string", value: 'multi\nline "quoted"' });
+		expect(values.name).to.include({ kind: "string_name", value: "pressed" });
+		expect(values.path).to.include({ kind: "node_path", value: "../Node" });
+		expect(formatVariant(values.array)).to.equal("[1, 2.5, null]");
+		expect(formatVariant(values.typed)).to.equal("Array[int]([1, 2])");
+		expect(formatVariant(values.dict)).to.equal('{\n"a": Vector2(1, 2),\n"b": [false]\n}');
+		expect(formatVariant(values.object)).to.equal(
+			'Object(InputEventKey, "resource_local_to_scene": false, "keycode": 65)',
+		);
+	});
+
+	test("reads properties before the first section", () => {
+		const document = parseResourceText('config_version=5\n\n[application]\n\nconfig/name="Demo"\n');
+		expect(document.preamble.map((p) => p.key)).to.deep.equal(["config_version"]);
+		expect(document.sections[0].properties[0]).to.include({ key: "config/name" });
+	});
+
+	test("collects resource references", () => {
+		const refs = collectResourceRefs(parseResourceText(SCENE));
+		expect(refs.map((r) => `${r.kind}:${r.id}`)).to.deep.equal([
+			"ext_resource:1_abcde",
+			"sub_resource:StyleBoxFlat_1",
+		]);
+	});
+
+	test("finds the innermost value at an offset", () => {
+		const document = parseResourceText(SCENE);
+		const offset = SCENE.indexOf('SubResource("StyleBoxFlat_1")') + 3;
+		expect(findValueAt(document, offset)).to.include({ kind: "sub_resource", id: "StyleBoxFlat_1" });
+	});
+
+	test("recovers from syntax errors", () => {
+		const text = `[node name="A" type="Node"]
+<<<<<<< HEAD
+position = Vector2(1, 2)
+=======
+[node name="B" type="Node" parent="."]
+`;
+		const document = parseResourceText(text);
+		expect(document.errors).to.have.length(2);
+		expect(document.sections.map((s) => getAttributeString(s, "name"))).to.deep.equal(["A", "B"]);
+		expect(document.sections[0].properties.map((p) => p.key)).to.deep.equal(["position"]);
+	});
+});
@@ -0,0 +1,693 @@
+import type {
+	Attribute,
+	ConstructorValue,
+	DictionaryEntry,
+	ParseError,
+	Property,
+	ResourceDocument,
+	ResourceRefValue,
+	Section,
+	TextRange,
+	VariantValue,
+} from "./resource_ast";
+
+type TokenType =
+	| "bracket_open"
+	| "bracket_close"
+	| "curly_open"
+	| "curly_close"
+	| "paren_open"
+	| "paren_close"
+	| "colon"
+	| "comma"
+	| "equal"
+	| "identifier"
+	| "string"
+	| "string_name"
+	| "node_path"
+	| "number"
+	| "eof"
+	| "error";
+
+interface Token {
+	type: TokenType;
+	/** Decoded value for strings, the raw text for everything else */
+	value: string;
+	range: TextRange;
+}
+
+const PUNCTUATION: Record<string, TokenType> = {
+	"[": "bracket_open",
+	"]": "bracket_close",
+	"{": "curly_open",
+	"}": "curly_close",
+	"(": "paren_open",
+	")": "paren_close",
+	":": "colon",
+	",": "comma",
+	"=": "equal",
+};
+
+const ESCAPES: Record<string, string> = {
+	n: "\n",
+	t: "\t",
+	r: "\r",
+	b: "\b",
+	f: "\f",
+	a: "\x07",
+	v: "\v",
+	'"': '"',
+	"'": "'",
+	"\\": "\\",
+};
+
+class ResourceSyntaxError extends Error {
+	constructor(
+		message: string,
+		public range: TextRange,
+	) {
+		super(message);
+	}
+}
+
+/**
+ * Pull-based tokenizer for the Godot text resource format.
+ * Mirrors the engine's VariantParser: whitespace and `;` comments are skipped,
+ * strings may span several lines, and `&"..."`/`^"..."` produce StringName/NodePath tokens.
+ */
+export class ResourceTokenizer {
+	public pos = 0;
+
+	constructor(private text: string) {}
+
+	public peek(): Token {
+		const saved = this.pos;
+		const token = this.next();
+		this.pos = saved;
+		return token;
+	}
+
+	public next(): Token {
+		this.skipWhitespace();
+		const start = this.pos;
+		if (start >= this.text.length) {
+			return { type: "eof", value: "", range: { start, end: start } };
+		}
+
+		const char = this.text[start];
+		if (char in PUNCTUATION) {
+			this.pos++;
+			return { type: PUNCTUATION[char], value: char, range: { start, end: this.pos } };
+		}
+		if (char === '"') {
+			return this.readString("string", start);
+		}
+		if ((char === "&" || char === "^") && this.text[start + 1] === '"') {
+			this.pos++;
+			return this.readString(char === "&" ? "string_name" : "node_path", start);
+		}
+		if (isDigit(char) || ((char === "-" || char === "+" || char === ".") && isDigit(this.text[start + 1]))) {
+			return this.readNumber(start);
+		}
+		if (char === "-" && isIdentifierStart(this.text[start + 1])) {
+			// -inf, written by the engine for negative infinity
+			this.pos++;
+			const ident = this.readIdentifier(this.pos);
+			return { type: "number", value: `-${ident.value}`, range: { start, end: this.pos } };
+		}
+		if (isIdentifierStart(char)) {
+			return this.readIdentifier(start);
+		}
+
+		this.pos++;
+		return { type: "error", value: `Unexpected character '${char}'`, range: { start, end: this.pos } };
+	}
+
+	/**
+	 * Reads a property name up to the `=` sign. Property names are not identifiers:
+	 * they may contain `/`, `:` and digits (`theme_override_colors/font_color`, `0/name`)
+	 * or be quoted when they contain anything stranger.
+	 */
+	public readPropertyKey(): { key: string; range: TextRange } {
+		this.skipWhitespace();
+		const start = this.pos;
+		if (this.text[start] === '"') {
+			const token = this.readString("string", start);
+			if (token.type === "error") {
+				throw new ResourceSyntaxError(token.value, token.range);
+			}
+			return { key: token.value, range: token.range };
+		}
+		while (this.pos < this.text.length) {
+			const char = this.text[this.pos];
+			if (char === "=" || char === "\n" || char === "[") {
+				break;
+			}
+			this.pos++;
+		}
+		const raw = this.text.slice(start, this.pos);
+		const key = raw.trim();
+		const range = { start, end: start + raw.trimEnd().length };
+		if (this.text[this.pos] !== "=" || key === "") {
+			throw new ResourceSyntaxError(`Expected '=' after property name '${key}'`, range);
+		}
+		return { key, range };
+	}
+
+	/** Skips whitespace and comments, then reports the next character without consuming it */
+	public peekChar(): string | undefined {
+		this.skipWhitespace();
+		return this.text[this.pos];
+	}
+
+	/** Moves to the start of the next line, used to resynchronize after a syntax error */
+	public skipLine(): void {
+		const newline = this.text.indexOf("\n", this.pos);
+		this.pos = newline < 0 ? this.text.length : newline + 1;
+	}
+
+	private skipWhitespace(): void {
+		while (this.pos < this.text.length) {
+			const char = this.text[this.pos];
+			if (char === ";") {
+				const newline = this.text.indexOf("\n", this.pos);
+				this.pos = newline < 0 ? this.text.length : newline;
+			} else if (char === " " || char === "\t" || char === "\n" || char === "\r" || char === "\uFEFF") {
+				this.pos++;
+			} else {
+				break;
+			}
+		}
+	}
+
+	private readString(type: TokenType, start: number): Token {
+		// this.pos points at the opening quote
+		this.pos++;
+		let value = "";
+		while (this.pos < this.text.length) {
+			const char = this.text[this.pos];
+			if (char === '"') {
+				this.pos++;
+				return { type, value, range: { start, end: this.pos } };
+			}
+			if (char === "\\") {
+				const escaped = this.text[this.pos + 1];
+				if (escaped === "u" || escaped === "U") {
+					const length = escaped === "u" ? 4 : 6;
+					const hex = this.text.slice(this.pos + 2, this.pos + 2 + length);
+					value += String.fromCodePoint(Number.parseInt(hex, 16) || 0);
+					this.pos += 2 + length;
+					continue;
+				}
+				value += ESCAPES[escaped] ?? escaped ?? "";
+				this.pos += 2;
+				continue;
+			}
+			value += char;
+			this.pos++;
+		}
+		return { type: "error", value: "Unterminated string", range: { start, end: this.pos } };
+	}
+
+	private readNumber(start: number): Token {
+		const match = this.text.slice(start).match(/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/);
+		this.pos = start + match[0].length;
+		return { type: "number", value: match[0], range: { start, end: this.pos } };
+	}
+
+	private readIdentifier(start: number): Token {
+		let end = start;
+		while (end < this.text.length && isIdentifierPart(this.text[end])) {
+			end++;
+		}
+		this.pos = end;
+		return { type: "identifier", value: this.text.slice(start, end), range: { start, end } };
+	}
+}
+
+function isDigit(char: string | undefined): boolean {
+	return char !== undefined && char >= "0" && char <= "9";
+}
+
+function isIdentifierStart(char: string | undefined): boolean {
+	return char !== undefined && /[A-Za-z_]/.test(char);
+}
+
+function isIdentifierPart(char: string | undefined): boolean {
+	return char !== undefined && /[A-Za-z0-9_]/.test(char);
+}
+
+/**
+ * Recursive-descent parser producing a {@link ResourceDocument}.
+ * Syntax errors are collected instead of thrown; the parser skips to the next
+ * line and keeps going, so a half-merged scene still yields every intact section.
+ */
+export class ResourceParser {
+	private tokenizer: ResourceTokenizer;
+	private errors: ParseError[] = [];
+
+	constructor(private text: string) {
+		this.tokenizer = new ResourceTokenizer(text);
+	}
+
+	public parse(): ResourceDocument {
+		const document: ResourceDocument = { preamble: [], sections: [], errors: this.errors };
+		let current: Section | undefined;
+
+		while (true) {
+			const char = this.tokenizer.peekChar();
+			if (char === undefined) {
+				break;
+			}
+			const before = this.tokenizer.pos;
+			try {
+				if (char === "[") {
+					current = this.parseSection();
+					document.sections.push(current);
+				} else {
+					const property = this.parseProperty();
+					if (current) {
+						current.properties.push(property);
+						current.range.end = property.range.end;
+					} else {
+						document.preamble.push(property);
+					}
+				}
+			} catch (error) {
+				if (!(error instanceof ResourceSyntaxError)) {
+					throw error;
+				}
+				this.errors.push({ message: error.message, range: error.range });
+				if (this.tokenizer.pos <= before) {
+					this.tokenizer.pos = before;
+				}
+				this.tokenizer.skipLine();
+			}
+		}
+
+		return document;
+	}
+
+	private parseSection(): Section {
+		const open = this.expect("bracket_open");
+		const tag = this.expect("identifier", "Expected section name after '['");
+		const section: Section = {
+			tag: tag.value,
+			attributes: [],
+			properties: [],
+			headerRange: { start: open.range.start, end: open.range.end },
+			range: { start: open.range.start, end: open.range.end },
+		};
+
+		while (true) {
+			const token = this.tokenizer.next();
+			if (token.type === "bracket_close") {
+				section.headerRange.end = token.range.end;
+				section.range.end = token.range.end;
+				return section;
+			}
+			if (token.type !== "identifier") {
+				throw new ResourceSyntaxError(`Unexpected ${describe(token)} in [${section.tag}] header`, token.range);
+			}
+			this.expect("equal", `Expected '=' after attribute '${token.value}'`);
+			const value = this.parseValue();
+			const attribute: Attribute = {
+				name: token.value,
+				value,
+				range: { start: token.range.start, end: value.range.end },
+			};
+			section.attributes.push(attribute);
+		}
+	}
+
+	private parseProperty(): Property {
+		const { key, range: keyRange } = this.tokenizer.readPropertyKey();
+		this.expect("equal");
+		const value = this.parseValue();
+		return { key, keyRange, value, range: { start: keyRange.start, end: value.range.end } };
+	}
+
+	private parseValue(): VariantValue {
+		const token = this.tokenizer.next();
+		switch (token.type) {
+			case "string":
+				return { kind: "string", value: token.value, range: token.range };
+			case "string_name":
+				return { kind: "string_name", value: token.value, range: token.range };
+			case "node_path":
+				return { kind: "node_path", value: token.value, range: token.range };
+			case "number":
+				return numberValue(token.value, token.range);
+			case "bracket_open":
+				return this.parseArray(token);
+			case "curly_open":
+				return this.parseDictionary(token);
+			case "identifier":
+				return this.parseIdentifierValue(token);
+			case "error":
+				throw new ResourceSyntaxError(token.value, token.range);
+			default:
+				throw new ResourceSyntaxError(`Expected a value but found ${describe(token)}`, token.range);
+		}
+	}
+
+	private parseIdentifierValue(token: Token): VariantValue {
+		switch (token.value) {
+			case "true":
+			case "false":
+				return { kind: "bool", value: token.value === "true", range: token.range };
+			case "null":
+			case "nil":
+				return { kind: "null", range: token.range };
+			case "inf":
+			case "inf_neg":
+			case "nan":
+				return numberValue(token.value, token.range);
+		}
+
+		const next = this.tokenizer.peek();
+		if (next.type !== "paren_open" && next.type !== "bracket_open") {
+			return { kind: "identifier", name: token.value, range: token.range };
+		}
+
+		// Typed collections: Array[int]([...]), Dictionary[String, int]({...})
+		const typeArgs: VariantValue[] = [];
+		if (next.type === "bracket_open") {
+			this.tokenizer.next();
+			this.parseList("bracket_close", typeArgs);
+		}
+
+		this.expect("paren_open", `Expected '(' after ${token.value}`);
+
+		if (token.value === "ExtResource" || token.value === "SubResource") {
+			const idToken = this.tokenizer.next();
+			if (idToken.type !== "string" && idToken.type !== "number" && idToken.type !== "identifier") {
+				throw new ResourceSyntaxError(`Expected resource id in ${token.value}()`, idToken.range);
+			}
+			const close = this.expect("paren_close", `Expected ')' to close ${token.value}(`);
+			const ref: ResourceRefValue = {
+				kind: token.value === "ExtResource" ? "ext_resource" : "sub_resource",
+				id: idToken.value,
+				idRange: idToken.range,
+				range: { start: token.range.start, end: close.range.end },
+			};
+			return ref;
+		}
+
+		const value: ConstructorValue = {
+			kind: "constructor",
+			name: token.value,
+			typeArgs,
+			args: [],
+			range: { start: token.range.start, end: token.range.end },
+		};
+
+		if (token.value === "Object") {
+			// Object(ClassName, "property": value, ...)
+			value.args.push(this.parseValue());
+			const properties: DictionaryEntry[] = [];
+			const start = this.tokenizer.pos;
+			let close = this.tokenizer.next();
+			while (close.type === "comma") {
+				const key = this.parseValue();
+				this.expect("colon");
+				properties.push({ key, value: this.parseValue() });
+				close = this.tokenizer.next();
+			}
+			if (close.type !== "paren_close") {
+				throw new ResourceSyntaxError(`Expected ')' to close Object(`, close.range);
+			}
+			value.args.push({ kind: "dictionary", entries: properties, range: { start, end: close.range.start } });
+			value.range.end = close.range.end;
+			return value;
+		}
+
+		value.range.end = this.parseList("paren_close", value.args);
+		return value;
+	}
+
+	private parseArray(open: Token): VariantValue {
+		const items: VariantValue[] = [];
+		const end = this.parseList("bracket_close", items);
+		return { kind: "array", items, range: { start: open.range.start, end } };
+	}
+
+	private parseDictionary(open: Token): VariantValue {
+		const entries: DictionaryEntry[] = [];
+		while (true) {
+			if (this.tokenizer.peek().type === "curly_close") {
+				const close = this.tokenizer.next();
+				return { kind: "dictionary", entries, range: { start: open.range.start, end: close.range.end } };
+			}
+			const key = this.parseValue();
+			this.expect("colon", "Expected ':' after dictionary key");
+			const value = this.parseValue();
+			entries.push({ key, value });
+
+			const separator = this.tokenizer.next();
+			if (separator.type === "curly_close") {
+				return { kind: "dictionary", entries, range: { start: open.range.start, end: separator.range.end } };
+			}
+			if (separator.type !== "comma") {
+				throw new ResourceSyntaxError(`Expected ',' or '}' but found ${describe(separator)}`, separator.range);
+			}
+		}
+	}
+
+	/**
+	 * Parses comma separated values up to and including `closing`.
+	 * A trailing comma is accepted. Returns the end offset of the closing token.
+	 */
+	private parseList(closing: TokenType, into: VariantValue[]): number {
+		while (true) {
+			if (this.tokenizer.peek().type === closing) {
+				return this.tokenizer.next().range.end;
+			}
+			into.push(this.parseValue());
+			const separator = this.tokenizer.next();
+			if (separator.type === closing) {
+				return separator.range.end;
+			}
+			if (separator.type !== "comma") {
+				throw new ResourceSyntaxError(`Expected ',' but found ${describe(separator)}`, separator.range);
+			}
+		}
+	}
+
+	private expect(type: TokenType, message?: string): Token {
+		const token = this.tokenizer.next();
+		if (token.type !== type) {
+			throw new ResourceSyntaxError(
+				message ?? `Expected ${type.replace("_", " ")} but found ${describe(token)}`,
+				token.range,
+			);
+		}
+		return token;
+	}
+}
+
+function numberValue(raw: string, range: TextRange): VariantValue {
+	let value: number;
+	if (raw === "inf") {
+		value = Number.POSITIVE_INFINITY;
+	} else if (raw === "-inf" || raw === "inf_neg") {
+		value = Number.NEGATIVE_INFINITY;
+	} else if (raw === "nan") {
+		value = Number.NaN;
+	} else {
+		value = Number(raw);
+	}
+	const isFloat = !/^[-+]?\d+$/.test(raw);
+	return { kind: "number", value, raw, isFloat, range };
+}
+
+function describe(token: Token): string {
+	if (token.type === "eof") {
+		return "end of file";
+	}
+	if (token.type === "error") {
+		return token.value;
+	}
+	return `'${token.value}'`;
+}
+
+/**
+ * Parse the contents of a `.tscn`, `.tres` or `project.godot` file.
+ */
+export function parseResourceText(text: string): ResourceDocument {
+	return new ResourceParser(text).parse();
+}
+
+export function getAttribute(section: Section, name: string): VariantValue | undefined {
+	return section.attributes.find((a) => a.name === name)?.value;
+}
+
+export function getProperty(section: Section, key: string): Property | undefined {
+	return section.properties.find((p) => p.key === key);
+}
+
+/**
+ * The root node is the first [node] section without a parent attribute.
+ */
+export function findRootNodeSection(document: ResourceDocument): Section | undefined {
+	return document.sections.find((s) => s.tag === "node" && !s.attributes.some((a) => a.name === "parent"));
+}
+
+/**
+ * Returns the text of a string-like value (String, StringName, NodePath or a
+ * `NodePath("...")` constructor), the raw text of a number, or undefined.
+ */
+export function valueAsString(value: VariantValue | undefined): string | undefined {
+	if (!value) {
+		return undefined;
+	}
+	switch (value.kind) {
+		case "string":
+		case "string_name":
+		case "node_path":
+			return value.value;
+		case "number":
+			return value.raw;
+		case "identifier":
+			return value.name;
+		case "constructor":
+			if (value.name === "NodePath" && value.args.length === 1) {
+				return valueAsString(value.args[0]);
+			}
+			return undefined;
+		default:
+			return undefined;
+	}
+}
+
+/** Returns the strings of an array or `PackedStringArray(...)`, skipping anything that isn't a string */
+export function valueAsStringArray(value: VariantValue | undefined): string[] {
+	if (!value) {
+		return [];
+	}
+	let items: VariantValue[] = [];
+	if (value.kind === "array") {
+		items = value.items;
+	} else if (value.kind === "constructor" && (value.name === "PackedStringArray" || value.name === "Array")) {
+		items = value.args.length === 1 && value.args[0].kind === "array" ? value.args[0].items : value.args;
+	}
+	return items.map(valueAsString).filter((s) => s !== undefined);
+}
+
+export function getAttributeString(section: Section, name: string): string | undefined {
+	return valueAsString(getAttribute(section, name));
+}
+
+/**
+ * Calls `callback` for `value` and every value nested inside it, depth first.
+ */
+export function walkValue(value: VariantValue, callback: (value: VariantValue) => void): void {
+	callback(value);
+	switch (value.kind) {
+		case "array":
+			for (const item of value.items) {
+				walkValue(item, callback);
+			}
+			break;
+		case "dictionary":
+			for (const entry of value.entries) {
+				walkValue(entry.key, callback);
+				walkValue(entry.value, callback);
+			}
+			break;
+		case "constructor":
+			for (const arg of value.typeArgs) {
+				walkValue(arg, callback);
+			}
+			for (const arg of value.args) {
+				walkValue(arg, callback);
+			}
+			break;
+	}
+}
+
+/** Calls `callback` for every value in the document: preamble, header attributes and properties */
+export function walkDocument(document: ResourceDocument, callback: (value: VariantValue) => void): void {
+	for (const property of document.preamble) {
+		walkValue(property.value, callback);
+	}
+	for (const section of document.sections) {
+		for (const attribute of section.attributes) {
+			walkValue(attribute.value, callback);
+		}
+		for (const property of section.properties) {
+			walkValue(property.value, callback);
+		}
+	}
+}
+
+/** Collects every `ExtResource(...)` and `SubResource(...)` reference in the document */
+export function collectResourceRefs(document: ResourceDocument): ResourceRefValue[] {
+	const refs: ResourceRefValue[] = [];
+	walkDocument(document, (value) => {
+		if (value.kind === "ext_resource" || value.kind === "sub_resource") {
+			refs.push(value);
+		}
+	});
+	return refs;
+}
+
+/**
+ * Returns the innermost value whose range contains `offset`, or undefined.
+ */
+export function findValueAt(document: ResourceDocument, offset: number): VariantValue | undefined {
+	let found: VariantValue | undefined;
+	walkDocument(document, (value) => {
+		if (offset >= value.range.start && offset <= value.range.end) {
+			if (!found || value.range.end - value.range.start <= found.range.end - found.range.start) {
+				found = value;
+			}
+		}
+	});
+	return found;
+}
+
+export function escapeResourceString(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+/**
+ * Serializes a value back to the text resource format, the way the engine writes it.
+ */
+export function formatVariant(value: VariantValue): string {
+	switch (value.kind) {
+		case "null":
+			return "null";
+		case "bool":
+			return value.value ? "true" : "false";
+		case "number":
+			return value.raw;
+		case "string":
+			return `"${escapeResourceString(value.value)}"`;
+		case "string_name":
+			return `&"${escapeResourceString(value.value)}"`;
+		case "node_path":
+			return `^"${escapeResourceString(value.value)}"`;
+		case "identifier":
+			return value.name;
+		case "array":
+			return `[${value.items.map(formatVariant).join(", ")}]`;
+		case "dictionary":
+			if (value.entries.length === 0) {
+				return "{}";
+			}
+			return `{\n${value.entries.map((e) => `${formatVariant(e.key)}: ${formatVariant(e.value)}`).join(",\n")}\n}`;
+		case "ext_resource":
+			return `ExtResource("${value.id}")`;
+		case "sub_resource":
+			return `SubResource("${value.id}")`;
+		case "constructor": {
+			const typeArgs = value.typeArgs.length ? `[${value.typeArgs.map(formatVariant).join(", ")}]` : "";
+			if (value.name === "Object" && value.args.length === 2 && value.args[1].kind === "dictionary") {
+				const props = value.args[1].entries.map((e) => `, ${formatVariant(e.key)}: ${formatVariant(e.value)}`);
+				return `Object(${formatVariant(value.args[0])}${props.join("")})`;
+			}
+			return `${value.name}${typeArgs}(${value.args.map(formatVariant).join(", ")})`;
+		}
+	}
+}
@@ -0,0 +1,49 @@
+import { expect } from "chai";
+import { mapResourcePath, rewriteResourcePaths, rewriteScriptPaths } from "./resource_paths";
+import { applyTextEdits } from "./scene_edits";
+
+suite("resource_paths", () => {
+	const moves = [
+		{ from: "res://player.gd", to: "res://actors/player.gd" },
+		{ from: "res://art", to: "res://assets/art", folder: true },
+	];
+
+	test("maps moved files and folder contents", () => {
+		expect(mapResourcePath("res://player.gd", moves)).to.equal("res://actors/player.gd");
+		expect(mapResourcePath("res://art/hero.png", moves)).to.equal("res://assets/art/hero.png");
+		expect(mapResourcePath("res://artwork.png", moves)).to.be.undefined;
+		expect(mapResourcePath("res://player.gd.uid", moves)).to.be.undefined;
+	});
+
+	test("rewrites ext_resource paths and autoloads", () => {
+		const scene = `[gd_scene load_steps=3 format=3]
+
+[ext_resource type="Script" uid="uid://abc" path="res://player.gd" id="1_a"]
+[ext_resource type="Texture2D" path="res://art/hero.png" id="2_b"]
+
+[node name="Player" type="Sprite2D"]
+script = ExtResource("1_a")
+texture = ExtResource("2_b")
+`;
+		const result = applyTextEdits(scene, rewriteResourcePaths(scene, moves));
+		expect(result).to.contain('path="res://actors/player.gd" id="1_a"');
+		expect(result).to.contain('path="res://assets/art/hero.png" id="2_b"');
+
+		const project = '[autoload]\n\nPlayer="*res://player.gd"\n';
+		expect(applyTextEdits(project, rewriteResourcePaths(project, moves))).to.equal(
+			'[autoload]\n\nPlayer="*res://actors/player.gd"\n',
+		);
+	});
+
+	test("rewrites quoted paths in scripts", () => {
+		const script = `var texture = preload("res://art/hero.png")
+var other = load('res://player.gd') # res://player.gd
+var kept = "res://player.gd.bak"
+`;
+		const expected = `var texture = preload("res://assets/art/hero.png")
+var other = load('res://actors/player.gd') # res://player.gd
+var kept = "res://player.gd.bak"
+`;
+		expect(applyTextEdits(script, rewriteScriptPaths(script, moves))).to.equal(expected);
+	});
+});
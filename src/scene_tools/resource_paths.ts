@@ -0,0 +1,65 @@
+import type { SceneTextEdit } from "./scene_edits";
+import { escapeResourceString, parseResourceText, walkDocument } from "./resource_parser";
+
+/** A file or folder moving from one res:// path to another */
+export interface ResourceMove {
+	from: string;
+	to: string;
+	folder?: boolean;
+}
+
+/**
+ * The new res:// path of `resPath` after the moves, or undefined when it doesn't move.
+ */
+export function mapResourcePath(resPath: string, moves: ResourceMove[]): string | undefined {
+	for (const move of moves) {
+		if (move.folder) {
+			if (resPath.startsWith(`${move.from}/`)) {
+				return move.to + resPath.slice(move.from.length);
+			}
+		} else if (resPath === move.from) {
+			return move.to;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Edits that rewrite the moved paths in a file using Godot's resource format
+ * (.tscn, .tres, .import, project.godot). Every string value is checked, so
+ * `[ext_resource path=...]`, `source_file=...` and autoloads (`"*res://..."`) are all covered.
+ */
+export function rewriteResourcePaths(text: string, moves: ResourceMove[]): SceneTextEdit[] {
+	const edits: SceneTextEdit[] = [];
+	walkDocument(parseResourceText(text), (value) => {
+		if (value.kind !== "string") {
+			return;
+		}
+		const prefix = value.value.startsWith("*") ? "*" : "";
+		const moved = mapResourcePath(value.value.slice(prefix.length), moves);
+		if (moved !== undefined) {
+			edits.push({
+				start: value.range.start,
+				end: value.range.end,
+				newText: `"${escapeResourceString(prefix + moved)}"`,
+			});
+		}
+	});
+	return edits;
+}
+
+/**
+ * Edits that rewrite quoted res:// paths in GDScript and C# source,
+ * as used by `preload("res://...")` or `GD.Load<T>("res://...")`.
+ */
+export function rewriteScriptPaths(text: string, moves: ResourceMove[]): SceneTextEdit[] {
+	const edits: SceneTextEdit[] = [];
+	for (const match of text.matchAll(/(["'])(res:\/\/[^"'\n]*)\1/g)) {
+		const moved = mapResourcePath(match[2], moves);
+		if (moved !== undefined) {
+			const start = match.index + 1;
+			edits.push({ start, end: start + match[2].length, newText: moved });
+		}
+	}
+	return edits;
+}
@@ -0,0 +1,125 @@
+import { execFile } from "node:child_process";
+import * as path from "node:path";
+import { promisify } from "node:util";
+import * as vscode from "vscode";
+import { createLogger, register_command } from "../utils";
+import { type ConflictChoice, type MergeConflict, mergeScenes, splitConflictMarkers } from "./scene_merge";
+
+const log = createLogger("scenes.merge", { output: "Godot Scene Parser" });
+
+const execFileAsync = promisify(execFile);
+
+interface MergeInputs {
+	base?: string;
+	ours: string;
+	theirs: string;
+}
+
+/**
+ * "Resolve Scene Conflict": merges the conflicting versions of a `.tscn`/`.tres` file section by
+ * section, and only asks about the changes both sides made differently.
+ */
+export class SceneConflictResolver {
+	constructor(private context: vscode.ExtensionContext) {
+		context.subscriptions.push(register_command("resolveSceneConflict", this.resolve.bind(this)));
+	}
+
+	private async resolve(uri?: vscode.Uri): Promise<void> {
+		const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+		if (!target || ![".tscn", ".tres"].includes(path.extname(target.fsPath))) {
+			vscode.window.showWarningMessage("Resolve Scene Conflict works on .tscn and .tres files.");
+			return;
+		}
+		const document = await vscode.workspace.openTextDocument(target);
+		const inputs = (await this.read_index_stages(target.fsPath)) ?? splitConflictMarkers(document.getText());
+		if (!inputs) {
+			vscode.window.showInformationMessage(`${path.basename(target.fsPath)} has no merge conflict.`);
+			return;
+		}
+
+		let result = mergeScenes(inputs.base, inputs.ours, inputs.theirs);
+		if (result.conflicts.length > 0) {
+			const choices = await this.ask_choices(result.conflicts);
+			if (!choices) {
+				return;
+			}
+			result = mergeScenes(inputs.base, inputs.ours, inputs.theirs, choices);
+		}
+
+		const edit = new vscode.WorkspaceEdit();
+		edit.replace(
+			target,
+			new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)),
+			result.text,
+		);
+		if (!(await vscode.workspace.applyEdit(edit))) {
+			vscode.window.showErrorMessage(`Failed to write the merged ${path.basename(target.fsPath)}.`);
+			return;
+		}
+		await document.save();
+
+		const details = [`${result.conflicts.length} conflict(s) resolved manually`];
+		if (result.renumbered.length > 0) {
+			details.push(`${result.renumbered.length} resource id(s) renumbered`);
+		}
+		const stage = "Stage File";
+		const answer = await vscode.window.showInformationMessage(
+			`Merged ${path.basename(target.fsPath)}: ${details.join(", ")}.`,
+			stage,
+		);
+		if (answer === stage) {
+			vscode.commands.executeCommand("git.stage", target);
+		}
+	}
+
+	/**
+	 * The base, ours and theirs versions git keeps in the index while a merge is in progress
+	 * (stages 1, 2 and 3). The base is missing when both sides added the file.
+	 */
+	private async read_index_stages(fsPath: string): Promise<MergeInputs | undefined> {
+		const show = async (stage: number) => {
+			try {
+				const { stdout } = await execFileAsync("git", ["show", `:${stage}:./${path.basename(fsPath)}`], {
+					cwd: path.dirname(fsPath),
+					maxBuffer: 64 * 1024 * 1024,
+				});
+				return stdout;
+			} catch {
+				return undefined;
+			}
+		};
+		const [base, ours, theirs] = await Promise.all([show(1), show(2), show(3)]);
+		if (ours === undefined || theirs === undefined) {
+			log.debug(`No index stages for ${fsPath}, reading conflict markers instead`);
+			return undefined;
+		}
+		return { base, ours, theirs };
+	}
+
+	/** One quick pick per conflict; undefined when the user cancels */
+	private async ask_choices(conflicts: MergeConflict[]): Promise<Map<string, ConflictChoice> | undefined> {
+		const choices = new Map<string, ConflictChoice>();
+		const show = (value?: string) => value ?? "(not set)";
+		for (const [index, conflict] of conflicts.entries()) {
+			const items: (vscode.QuickPickItem & { choice: ConflictChoice })[] = [
+				{ label: "$(arrow-left) Keep Ours", description: show(conflict.ours), choice: "ours" },
+				{ label: "$(arrow-right) Take Theirs", description: show(conflict.theirs), choice: "theirs" },
+			];
+			if (conflict.base !== undefined || conflict.ours === undefined || conflict.theirs === undefined) {
+				for (const item of items) {
+					item.detail = `Base: ${show(conflict.base)}`;
+				}
+			}
+			const picked = await vscode.window.showQuickPick(items, {
+				title: `Scene Conflict ${index + 1}/${conflicts.length}: ${conflict.description}`,
+				placeHolder: "Choose which version to keep",
+				ignoreFocusOut: true,
+			});
+			if (!picked) {
+				return undefined;
+			}
+			choices.set(conflict.id, picked.choice);
+		}
+		return choices;
+	}
+}
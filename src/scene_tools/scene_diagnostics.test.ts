@@ -0,0 +1,83 @@
+import { expect } from "chai";
+import { type ProjectLookup, analyzeSceneText } from "./scene_diagnostics";
+import { applyTextEdits } from "./scene_edits";
+
+const project: ProjectLookup = {
+	fileExists: (resPath) => ["res://player.gd", "res://actors/enemy.tscn", "res://icon.png"].includes(resPath),
+	resolveUid: (uid) => ({ "uid://enemy": "res://actors/enemy.tscn" })[uid],
+	getUid: (resPath) => ({ "res://icon.png": "uid://icon" })[resPath],
+};
+
+suite("analyzeSceneText", () => {
+	test("accepts a healthy scene", () => {
+		const text = `[gd_scene load_steps=3 format=3]
+
+[ext_resource type="Script" path="res://player.gd" id="1_a"]
+[ext_resource type="PackedScene" uid="uid://enemy" path="res://actors/enemy.tscn" id="2_b"]
+
+[node name="Player" type="Node2D"]
+script = ExtResource("1_a")
+
+[node name="Enemy" parent="." instance=ExtResource("2_b")]
+
+[node name="Extra" type="Node" parent="Enemy/Body"]
+`;
+		expect(analyzeSceneText(text, project)).to.be.empty;
+	});
+
+	test("reports undeclared and unused resources", () => {
+		const text = `[gd_scene load_steps=3 format=3]
+
+[ext_resource type="Script" path="res://player.gd" id="1_a"]
+
+[sub_resource type="CircleShape2D" id="Shape_1"]
+
+[node name="Player" type="Node2D"]
+shape = SubResource("Shape_1")
+texture = ExtResource("9_z")
+`;
+		const problems = analyzeSceneText(text, project);
+		expect(problems.map((p) => p.code)).to.deep.equal(["undeclared-resource", "unused-resource"]);
+
+		const fixed = applyTextEdits(text, [problems[1].fixes[0].edit]);
+		expect(fixed).to.not.contain("ext_resource");
+		expect(fixed).to.contain("[gd_scene load_steps=2 format=3]\n\n[sub_resource");
+	});
+
+	test("reports missing files, stale paths and unknown UIDs", () => {
+		const text = `[gd_scene load_steps=4 format=3]
+
+[ext_resource type="PackedScene" uid="uid://enemy" path="res://enemy.tscn" id="1_a"]
+[ext_resource type="Texture2D" uid="uid://old" path="res://icon.png" id="2_b"]
+[ext_resource type="Script" path="res://missing.gd" id="3_c"]
+
+[node name="Level" type="Node2D"]
+script = ExtResource("3_c")
+texture = ExtResource("2_b")
+
+[node name="Enemy" parent="." instance=ExtResource("1_a")]
+`;
+		const problems = analyzeSceneText(text, project);
+		expect(problems.map((p) => p.code)).to.deep.equal(["stale-path", "unknown-uid", "missing-file"]);
+		expect(applyTextEdits(text, [problems[0].fixes[0].edit])).to.contain('path="res://actors/enemy.tscn"');
+		expect(applyTextEdits(text, [problems[1].fixes[0].edit])).to.contain('uid="uid://icon" path="res://icon.png"');
+		expect(analyzeSceneText(text)).to.be.empty;
+	});
+
+	test("reports unknown parents, duplicate names and load_steps", () => {
+		const text = `[gd_scene load_steps=5 format=3]
+
+[node name="Root" type="Node2D"]
+
+[node name="Child" type="Node" parent="Missing"]
+
+[node name="Sprite" type="Sprite2D" parent="."]
+
+[node name="Sprite" type="Sprite2D" parent="."]
+`;
+		const problems = analyzeSceneText(text);
+		expect(problems.map((p) => p.code)).to.deep.equal(["unknown-parent", "duplicate-name", "load-steps"]);
+		expect(applyTextEdits(text, [problems[1].fixes[0].edit])).to.contain('[node name="Sprite2" type="Sprite2D"');
+		expect(applyTextEdits(text, [problems[2].fixes[0].edit])).to.contain("load_steps=1");
+	});
+});
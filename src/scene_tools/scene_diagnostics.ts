@@ -0,0 +1,265 @@
+import type { Section, TextRange } from "./resource_ast";
+import { collectResourceRefs, escapeResourceString, getAttribute, getAttributeString } from "./resource_parser";
+import { SceneEditBuilder, type SceneTextEdit, computeMinimalEdit, makeUniqueName } from "./scene_edits";
+
+export type SceneProblemCode =
+	| "syntax-error"
+	| "undeclared-resource"
+	| "unused-resource"
+	| "missing-file"
+	| "unknown-uid"
+	| "stale-path"
+	| "unknown-parent"
+	| "duplicate-name"
+	| "load-steps";
+
+export interface SceneFix {
+	title: string;
+	edit: SceneTextEdit;
+	/** Whether the fix is safe to apply without looking, as for "Fix All" */
+	preferred?: boolean;
+}
+
+export interface SceneProblem {
+	code: SceneProblemCode;
+	severity: "error" | "warning";
+	message: string;
+	range: TextRange;
+	/** Unused declarations, shown faded out */
+	unnecessary?: boolean;
+	fixes: SceneFix[];
+}
+
+/** How the analysis sees the rest of the project */
+export interface ProjectLookup {
+	fileExists(resPath: string): boolean;
+	/** res:// path of a known `uid://`, or undefined */
+	resolveUid(uid: string): string | undefined;
+	getUid(resPath: string): string | undefined;
+}
+
+/**
+ * Finds the problems that stop Godot from loading a `.tscn` or `.tres` file, or that it
+ * would silently repair on the next save. Without `project`, only the file itself is checked.
+ */
+export function analyzeSceneText(text: string, project?: ProjectLookup): SceneProblem[] {
+	const builder = new SceneEditBuilder(text);
+	const problems: SceneProblem[] = builder.document.errors.map((error) => ({
+		code: "syntax-error",
+		severity: "error",
+		message: error.message,
+		range: error.range,
+		fixes: [],
+	}));
+
+	problems.push(...checkResourceIds(builder));
+	if (project) {
+		problems.push(...checkExternalFiles(builder, project));
+	}
+	problems.push(...checkNodeTree(builder));
+	problems.push(...checkLoadSteps(builder));
+	return problems;
+}
+
+function replaceWith(range: TextRange, newText: string): SceneTextEdit {
+	return { start: range.start, end: range.end, newText };
+}
+
+function checkResourceIds(builder: SceneEditBuilder): SceneProblem[] {
+	const problems: SceneProblem[] = [];
+	const declared = new Map<string, Section>();
+	for (const section of builder.document.sections) {
+		if (section.tag === "ext_resource" || section.tag === "sub_resource") {
+			declared.set(`${section.tag}:${getAttributeString(section, "id")}`, section);
+		}
+	}
+
+	const used = new Set<string>();
+	for (const ref of collectResourceRefs(builder.document)) {
+		const key = `${ref.kind}:${ref.id}`;
+		used.add(key);
+		if (!declared.has(key)) {
+			const name = ref.kind === "ext_resource" ? "ExtResource" : "SubResource";
+			problems.push({
+				code: "undeclared-resource",
+				severity: "error",
+				message: `${name}("${ref.id}") is not declared in this file`,
+				range: ref.idRange,
+				fixes: [],
+			});
+		}
+	}
+
+	for (const [key, section] of declared) {
+		if (used.has(key)) {
+			continue;
+		}
+		const tag = section.tag as "ext_resource" | "sub_resource";
+		const id = getAttributeString(section, "id");
+		const newText = builder.removeResource(tag, id);
+		problems.push({
+			code: "unused-resource",
+			severity: "warning",
+			message: `[${tag} id="${id}"] is never used`,
+			range: section.headerRange,
+			unnecessary: true,
+			fixes: newText
+				? [{ title: "Remove unused resource", edit: computeMinimalEdit(builder.text, newText) }]
+				: [],
+		});
+	}
+	return problems;
+}
+
+/**
+ * `[ext_resource]` paths and UIDs must point at existing files. Like Godot, a known UID
+ * wins over the path, so a stale path is only a warning.
+ */
+function checkExternalFiles(builder: SceneEditBuilder, project: ProjectLookup): SceneProblem[] {
+	const problems: SceneProblem[] = [];
+	for (const section of builder.document.sections) {
+		if (section.tag !== "ext_resource") {
+			continue;
+		}
+		const path = getAttribute(section, "path");
+		const uid = getAttribute(section, "uid");
+		const resPath = path?.kind === "string" ? path.value : undefined;
+		const uidValue = uid?.kind === "string" ? uid.value : undefined;
+		if (!resPath?.startsWith("res://")) {
+			continue;
+		}
+
+		const pathExists = project.fileExists(resPath);
+		const uidPath = uidValue && project.resolveUid(uidValue);
+		if (uidPath && uidPath !== resPath && !pathExists) {
+			problems.push({
+				code: "stale-path",
+				severity: "warning",
+				message: `${resPath} doesn't exist, ${uidValue} points to ${uidPath}`,
+				range: path.range,
+				fixes: [
+					{
+						title: `Update path to ${uidPath}`,
+						edit: replaceWith(path.range, `"${escapeResourceString(uidPath)}"`),
+						preferred: true,
+					},
+				],
+			});
+		} else if (!uidPath && !pathExists) {
+			problems.push({
+				code: "missing-file",
+				severity: "error",
+				message: `${resPath} doesn't exist`,
+				range: path.range,
+				fixes: [],
+			});
+		} else if (uidValue?.startsWith("uid://") && !uidPath) {
+			const actual = project.getUid(resPath);
+			const fix: SceneFix = actual
+				? { title: `Update UID to ${actual}`, edit: replaceWith(uid.range, `"${actual}"`), preferred: true }
+				: {
+						title: "Remove unknown UID",
+						edit: {
+							start: section.attributes.find((a) => a.name === "uid").range.start - 1,
+							end: uid.range.end,
+							newText: "",
+						},
+					};
+			problems.push({
+				code: "unknown-uid",
+				severity: "warning",
+				message: `${uidValue} is not a known UID, Godot falls back to ${resPath}`,
+				range: uid.range,
+				fixes: [fix],
+			});
+		}
+	}
+	return problems;
+}
+
+/**
+ * `parent=` must name a node declared earlier in the file, or a node inside an instanced
+ * scene, and siblings must have distinct names.
+ */
+function checkNodeTree(builder: SceneEditBuilder): SceneProblem[] {
+	const problems: SceneProblem[] = [];
+	const root = builder.nodes.find((n) => n.parentPath === undefined);
+	// In an inherited scene, nodes can be added under any node of the base scene
+	const inherited = !!root && !!getAttribute(root.section, "instance");
+
+	const declared = new Set<string>();
+	const instanced: string[] = [];
+	const siblings = new Map<string, string[]>();
+
+	for (const node of builder.nodes) {
+		if (node.parentPath !== undefined) {
+			const parent = node.parentPath;
+			const insideInstance = instanced.some((p) => parent.startsWith(`${p}/`));
+			if (!inherited && !declared.has(parent) && !insideInstance) {
+				problems.push({
+					code: "unknown-parent",
+					severity: "error",
+					message: `Parent node "${parent}" is not declared before "${node.name}"`,
+					range: getAttribute(node.section, "parent").range,
+					fixes: [],
+				});
+			}
+
+			const names = siblings.get(parent) ?? [];
+			if (names.includes(node.name)) {
+				const unique = makeUniqueName(node.name, names);
+				problems.push({
+					code: "duplicate-name",
+					severity: "error",
+					message: `"${parent}" already has a child named "${node.name}"`,
+					range: getAttribute(node.section, "name").range,
+					fixes: [
+						{
+							title: `Rename to "${unique}"`,
+							edit: replaceWith(getAttribute(node.section, "name").range, `"${unique}"`),
+						},
+					],
+				});
+				names.push(unique);
+			} else {
+				names.push(node.name);
+			}
+			siblings.set(parent, names);
+		}
+
+		declared.add(node.path);
+		if (getAttribute(node.section, "instance") || getAttribute(node.section, "instance_placeholder")) {
+			instanced.push(node.path);
+		}
+	}
+	return problems;
+}
+
+/** Godot writes `load_steps` as the number of ext and sub resources plus one */
+function checkLoadSteps(builder: SceneEditBuilder): SceneProblem[] {
+	const header = builder.document.sections[0];
+	const loadSteps = header && getAttribute(header, "load_steps");
+	if (loadSteps?.kind !== "number") {
+		return [];
+	}
+	const resources = builder.document.sections.filter((s) => s.tag === "ext_resource" || s.tag === "sub_resource");
+	const expected = resources.length + 1;
+	if (loadSteps.value === expected) {
+		return [];
+	}
+	return [
+		{
+			code: "load-steps",
+			severity: "warning",
+			message: `load_steps is ${loadSteps.raw}, but the file declares ${resources.length} resources (expected ${expected})`,
+			range: loadSteps.range,
+			fixes: [
+				{
+					title: `Set load_steps to ${expected}`,
+					edit: replaceWith(loadSteps.range, String(expected)),
+					preferred: true,
+				},
+			],
+		},
+	];
+}
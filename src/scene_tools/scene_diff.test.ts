@@ -0,0 +1,85 @@
+import { expect } from "chai";
+import { type SceneDiffNode, diffScenes } from "./scene_diff";
+
+const BEFORE = `[gd_scene load_steps=4 format=3]
+
+[ext_resource type="Script" path="res://player.gd" id="1_a"]
+[ext_resource type="Texture2D" path="res://hero.png" id="2_b"]
+
+[sub_resource type="CircleShape2D" id="Shape_x"]
+radius = 8.0
+
+[node name="Player" type="CharacterBody2D"]
+script = ExtResource("1_a")
+
+[node name="Sprite" type="Sprite2D" parent="."]
+texture = ExtResource("2_b")
+
+[node name="Shape" type="CollisionShape2D" parent="."]
+shape = SubResource("Shape_x")
+
+[node name="Old" type="Timer" parent="."]
+
+[node name="Pivot" type="Node2D" parent="."]
+
+[node name="Camera" type="Camera2D" parent="."]
+`;
+
+function find(node: SceneDiffNode, name: string): SceneDiffNode | undefined {
+	if (node.name === name) return node;
+	for (const child of node.children) {
+		const found = find(child, name);
+		if (found) return found;
+	}
+	return undefined;
+}
+
+suite("diffScenes", () => {
+	test("ignores renumbered resources and load_steps", () => {
+		const after = BEFORE.replace("load_steps=4", "load_steps=5")
+			.replaceAll("1_a", "7_q")
+			.replaceAll("Shape_x", "Shape_y");
+		const diff = diffScenes(BEFORE, after);
+		expect(diff.summary).to.deep.equal({ added: 0, removed: 0, moved: 0, renamed: 0, changed: 0 });
+		expect(diff.root.children.map((c) => c.status)).to.deep.equal(Array(5).fill("unchanged"));
+	});
+
+	test("finds added, removed, moved and renamed nodes", () => {
+		const after = BEFORE.replace('[node name="Old" type="Timer" parent="."]\n\n', "")
+			.replace(
+				'[node name="Camera" type="Camera2D" parent="."]',
+				'[node name="Camera" type="Camera2D" parent="Pivot"]',
+			)
+			.replace('[node name="Sprite" type="Sprite2D" parent="."]', '[node name="Body" type="Sprite2D" parent="."]')
+			.concat('\n[node name="Label" type="Label" parent="."]\n');
+		const diff = diffScenes(BEFORE, after);
+		expect(diff.summary).to.deep.equal({ added: 1, removed: 1, moved: 1, renamed: 1, changed: 0 });
+
+		expect(find(diff.root, "Camera")).to.include({ path: "Pivot/Camera", movedFrom: "." });
+		expect(find(diff.root, "Body")).to.include({ renamedFrom: "Sprite", status: "unchanged" });
+		expect(find(diff.root, "Label").status).to.equal("added");
+		expect(find(diff.root, "Old")).to.include({ status: "removed", path: "Old" });
+		expect(find(diff.root, "Pivot").children.map((c) => c.name)).to.deep.equal(["Camera"]);
+	});
+
+	test("reports property changes and script or resource swaps", () => {
+		const after = BEFORE.replace('path="res://player.gd"', 'path="res://hero.gd"')
+			.replace('path="res://hero.png"', 'path="res://hero_v2.png"')
+			.replace("radius = 8.0", "radius = 12.0");
+		const diff = diffScenes(BEFORE, after);
+
+		expect(diff.root.script).to.deep.equal({
+			key: "script",
+			before: 'ExtResource("res://player.gd")',
+			after: 'ExtResource("res://hero.gd")',
+		});
+		expect(find(diff.root, "Sprite").changes).to.deep.equal([
+			{ key: "texture", before: 'ExtResource("res://hero.png")', after: 'ExtResource("res://hero_v2.png")' },
+		]);
+		expect(find(diff.root, "Shape").changes[0].after).to.equal("CircleShape2D(radius: 12.0)");
+		expect(diff.resources).to.deep.equal({
+			added: ["res://hero.gd", "res://hero_v2.png"],
+			removed: ["res://player.gd", "res://hero.png"],
+		});
+	});
+});
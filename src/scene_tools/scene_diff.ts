@@ -0,0 +1,285 @@
+import type { Section, VariantValue } from "./resource_ast";
+import { formatVariant, getAttribute, getAttributeString } from "./resource_parser";
+import { SceneEditBuilder, type SceneNodeEntry } from "./scene_edits";
+
+export interface PropertyChange {
+	key: string;
+	/** Value in the old version, undefined when the property was added */
+	before?: string;
+	/** Value in the new version, undefined when the property was removed */
+	after?: string;
+}
+
+/**
+ * A node of either version, placed in the new tree. Removed nodes stay under their old parent
+ * (or its counterpart in the new version).
+ */
+export interface SceneDiffNode {
+	name: string;
+	type: string;
+	/** Path in the new version, or in the old one for removed nodes */
+	path: string;
+	status: "added" | "removed" | "changed" | "unchanged";
+	/** Set when the node has a different parent in the new version */
+	movedFrom?: string;
+	/** Set when the node has a different name in the new version */
+	renamedFrom?: string;
+	script?: PropertyChange;
+	changes: PropertyChange[];
+	children: SceneDiffNode[];
+}
+
+export interface SceneDiff {
+	root?: SceneDiffNode;
+	resources: { added: string[]; removed: string[] };
+	summary: { added: number; removed: number; moved: number; renamed: number; changed: number };
+}
+
+/** Attributes that describe what a node is rather than where it is, compared as properties */
+const COMPARED_ATTRIBUTES = ["type", "instance", "instance_placeholder", "groups"];
+
+interface VersionNode {
+	entry: SceneNodeEntry;
+	type: string;
+	/** Property and attribute values with resource ids replaced by what they point to */
+	values: Map<string, string>;
+}
+
+/**
+ * A version of a scene, with `ExtResource`/`SubResource` ids resolved so that
+ * renumbered ids don't show up as changes.
+ */
+export class SceneVersion {
+	public readonly nodes: VersionNode[];
+	private extResources = new Map<string, Section>();
+	private subResources = new Map<string, Section>();
+
+	constructor(builder: SceneEditBuilder) {
+		for (const section of builder.document.sections) {
+			const id = getAttributeString(section, "id");
+			if (section.tag === "ext_resource") this.extResources.set(id, section);
+			if (section.tag === "sub_resource") this.subResources.set(id, section);
+		}
+		this.nodes = builder.nodes.map((entry) => this.readNode(entry));
+	}
+
+	public resourcePaths(): string[] {
+		return [...this.extResources.values()].map(
+			(s) => getAttributeString(s, "path") ?? getAttributeString(s, "uid"),
+		);
+	}
+
+	private readNode(entry: SceneNodeEntry): VersionNode {
+		const values = new Map<string, string>();
+		for (const name of COMPARED_ATTRIBUTES) {
+			const value = getAttribute(entry.section, name);
+			if (value) {
+				values.set(name, this.describe(value));
+			}
+		}
+		for (const property of entry.section.properties) {
+			values.set(property.key, this.describe(property.value));
+		}
+		// Instanced scenes are shown by their file name, as in the scene dock
+		const instance = getAttribute(entry.section, "instance");
+		const instancePath = instance?.kind === "ext_resource" ? this.resourcePath(instance.id) : undefined;
+		const type = getAttributeString(entry.section, "type") ?? instancePath?.split("/").pop() ?? "";
+		return { entry, type, values };
+	}
+
+	/** What an ext_resource id points to: its path, or its UID when it has no path */
+	public resourcePath(id: string): string | undefined {
+		const section = this.extResources.get(id);
+		return section && (getAttributeString(section, "path") ?? getAttributeString(section, "uid"));
+	}
+
+	/**
+	 * Formats a value the way the engine would, with `ExtResource("1_abc")` written as the
+	 * resource's path and `SubResource("...")` as its contents.
+	 */
+	public describe(value: VariantValue, visited: Set<string> = new Set()): string {
+		switch (value.kind) {
+			case "ext_resource": {
+				const target = this.resourcePath(value.id);
+				return target ? `ExtResource("${target}")` : formatVariant(value);
+			}
+			case "sub_resource": {
+				const section = this.subResources.get(value.id);
+				if (!section || visited.has(value.id)) {
+					return formatVariant(value);
+				}
+				visited.add(value.id);
+				const properties = section.properties.map((p) => `${p.key}: ${this.describe(p.value, visited)}`);
+				visited.delete(value.id);
+				return `${getAttributeString(section, "type") ?? "Resource"}(${properties.join(", ")})`;
+			}
+			case "array":
+				return `[${value.items.map((v) => this.describe(v, visited)).join(", ")}]`;
+			case "dictionary":
+				return `{${value.entries.map((e) => `${this.describe(e.key, visited)}: ${this.describe(e.value, visited)}`).join(", ")}}`;
+			case "constructor": {
+				const typeArgs = value.typeArgs.length
+					? `[${value.typeArgs.map((v) => formatVariant(v)).join(", ")}]`
+					: "";
+				return `${value.name}${typeArgs}(${value.args.map((v) => this.describe(v, visited)).join(", ")})`;
+			}
+			default:
+				return formatVariant(value);
+		}
+	}
+}
+
+function uniqueId(node: VersionNode): string | undefined {
+	return getAttributeString(node.entry.section, "unique_id");
+}
+
+/**
+ * Pairs up the nodes of both versions. Nodes are matched by Godot's `unique_id` when both
+ * versions have one, then by path. What's left is matched as moved (same name and type
+ * under another parent) or renamed (same type and parent, nothing else of that type unmatched).
+ */
+function matchNodes(oldNodes: VersionNode[], newNodes: VersionNode[]): Map<VersionNode, VersionNode> {
+	const matches = new Map<VersionNode, VersionNode>();
+	const matchedNew = new Set<VersionNode>();
+	const pair = (a: VersionNode, b: VersionNode) => {
+		matches.set(a, b);
+		matchedNew.add(b);
+	};
+	const unmatchedOld = () => oldNodes.filter((n) => !matches.has(n));
+	const unmatchedNew = () => newNodes.filter((n) => !matchedNew.has(n));
+
+	const byId = new Map(newNodes.filter(uniqueId).map((n) => [uniqueId(n), n]));
+	for (const node of oldNodes) {
+		const match = uniqueId(node) && byId.get(uniqueId(node));
+		if (match) pair(node, match);
+	}
+
+	const byPath = new Map(unmatchedNew().map((n) => [n.entry.path, n]));
+	for (const node of unmatchedOld()) {
+		const match = byPath.get(node.entry.path);
+		if (match && !(uniqueId(node) && uniqueId(match))) pair(node, match);
+	}
+
+	const single = <T>(items: T[]) => (items.length === 1 ? items[0] : undefined);
+	for (const node of unmatchedOld()) {
+		const sameNameAndType = unmatchedNew().filter((n) => n.entry.name === node.entry.name && n.type === node.type);
+		const match = single(sameNameAndType);
+		if (match) pair(node, match);
+	}
+
+	for (const node of unmatchedOld()) {
+		const parent = oldNodes.find((n) => n.entry.path === node.entry.parentPath);
+		const newParentPath = parent && matches.get(parent)?.entry.path;
+		const candidates = unmatchedNew().filter((n) => n.entry.parentPath === newParentPath && n.type === node.type);
+		const competitors = unmatchedOld().filter(
+			(n) => n.entry.parentPath === node.entry.parentPath && n.type === node.type,
+		);
+		const match = competitors.length === 1 ? single(candidates) : undefined;
+		if (match) pair(node, match);
+	}
+	return matches;
+}
+
+function compareValues(before: Map<string, string>, after: Map<string, string>): PropertyChange[] {
+	const changes: PropertyChange[] = [];
+	for (const [key, value] of before) {
+		if (after.get(key) !== value) {
+			changes.push({ key, before: value, after: after.get(key) });
+		}
+	}
+	for (const [key, value] of after) {
+		if (!before.has(key)) {
+			changes.push({ key, after: value });
+		}
+	}
+	return changes;
+}
+
+/**
+ * Structural diff of two versions of a `.tscn` file: added, removed, moved and renamed nodes,
+ * property changes per node, script swaps and added or removed external resources.
+ * Changes that don't affect the scene, like renumbered resource ids or `load_steps`, are ignored.
+ */
+export function diffScenes(oldText: string, newText: string): SceneDiff {
+	const oldVersion = new SceneVersion(new SceneEditBuilder(oldText));
+	const newVersion = new SceneVersion(new SceneEditBuilder(newText));
+	const matches = matchNodes(oldVersion.nodes, newVersion.nodes);
+	const matchedNew = new Map([...matches].map(([a, b]) => [b, a]));
+
+	const summary = { added: 0, removed: 0, moved: 0, renamed: 0, changed: 0 };
+	const diffNodes = new Map<string, SceneDiffNode>();
+
+	for (const node of newVersion.nodes) {
+		const old = matchedNew.get(node);
+		const diffNode: SceneDiffNode = {
+			name: node.entry.name,
+			type: node.type,
+			path: node.entry.path,
+			status: old ? "unchanged" : "added",
+			changes: [],
+			children: [],
+		};
+		if (old) {
+			const oldParent = oldVersion.nodes.find((n) => n.entry.path === old.entry.parentPath);
+			const parentMoved = (oldParent ? matches.get(oldParent)?.entry.path : undefined) !== node.entry.parentPath;
+			if (parentMoved && old.entry.parentPath !== undefined) {
+				diffNode.movedFrom = old.entry.parentPath;
+				summary.moved++;
+			}
+			if (old.entry.name !== node.entry.name) {
+				diffNode.renamedFrom = old.entry.name;
+				summary.renamed++;
+			}
+			const changes = compareValues(old.values, node.values);
+			diffNode.script = changes.find((c) => c.key === "script");
+			diffNode.changes = changes.filter((c) => c.key !== "script");
+			if (changes.length > 0) {
+				diffNode.status = "changed";
+				summary.changed++;
+			}
+		} else {
+			summary.added++;
+		}
+		diffNodes.set(`new:${node.entry.path}`, diffNode);
+		const parent = node.entry.parentPath !== undefined && diffNodes.get(`new:${node.entry.parentPath}`);
+		if (parent) parent.children.push(diffNode);
+	}
+
+	for (const node of oldVersion.nodes) {
+		if (matches.has(node)) {
+			continue;
+		}
+		summary.removed++;
+		const diffNode: SceneDiffNode = {
+			name: node.entry.name,
+			type: node.type,
+			path: node.entry.path,
+			status: "removed",
+			changes: [],
+			children: [],
+		};
+		diffNodes.set(`old:${node.entry.path}`, diffNode);
+
+		const oldParent = oldVersion.nodes.find((n) => n.entry.path === node.entry.parentPath);
+		const newParent = oldParent && matches.get(oldParent);
+		const parent = newParent
+			? diffNodes.get(`new:${newParent.entry.path}`)
+			: diffNodes.get(`old:${node.entry.parentPath}`);
+		if (parent) parent.children.push(diffNode);
+	}
+
+	const newRoot = newVersion.nodes.find((n) => n.entry.parentPath === undefined);
+	const oldRoot = oldVersion.nodes.find((n) => n.entry.parentPath === undefined);
+	const root = newRoot ? diffNodes.get(`new:${newRoot.entry.path}`) : oldRoot && diffNodes.get("old:.");
+
+	const oldResources = new Set(oldVersion.resourcePaths());
+	const newResources = new Set(newVersion.resourcePaths());
+	return {
+		root,
+		resources: {
+			added: [...newResources].filter((p) => !oldResources.has(p)),
+			removed: [...oldResources].filter((p) => !newResources.has(p)),
+		},
+		summary,
+	};
+}
@@ -0,0 +1,168 @@
+import { execFile } from "node:child_process";
+import * as path from "node:path";
+import { promisify } from "node:util";
+import * as vscode from "vscode";
+import { createLogger, get_nonce, register_command } from "../utils";
+import { type SceneDiff, diffScenes } from "./scene_diff";
+import { SceneEditBuilder } from "./scene_edits";
+
+const log = createLogger("scenes.diff", { output: "Godot Scene Parser" });
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * "Compare Scene with HEAD": a structural diff of a `.tscn` file against its last committed
+ * version, rendered as a tree in a webview.
+ */
+export class SceneDiffViewer {
+	private panel?: vscode.WebviewPanel;
+	private sceneUri?: vscode.Uri;
+
+	constructor(private context: vscode.ExtensionContext) {
+		context.subscriptions.push(
+			register_command("compareSceneWithHead", this.compare_with_head.bind(this)),
+			vscode.workspace.onDidSaveTextDocument((document) => {
+				if (this.panel && document.uri.fsPath === this.sceneUri?.fsPath) {
+					this.update();
+				}
+			}),
+		);
+	}
+
+	private async compare_with_head(uri?: vscode.Uri): Promise<void> {
+		const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+		if (!target || path.extname(target.fsPath) !== ".tscn") {
+			vscode.window.showWarningMessage("Compare Scene with HEAD works on .tscn files.");
+			return;
+		}
+		this.sceneUri = target;
+		this.show_panel();
+		await this.update();
+	}
+
+	private show_panel() {
+		const title = `${path.basename(this.sceneUri.fsPath)} (HEAD ↔ Working Tree)`;
+		if (this.panel) {
+			this.panel.title = title;
+			this.panel.reveal();
+			return;
+		}
+
+		this.panel = vscode.window.createWebviewPanel("godotToolsCsharp.sceneDiff", title, vscode.ViewColumn.Active, {
+			enableScripts: true,
+			localResourceRoots: [this.context.extensionUri],
+		});
+		this.panel.iconPath = vscode.Uri.joinPath(
+			this.context.extensionUri,
+			"resources",
+			"godot_icons",
+			"dark",
+			"PackedScene.svg",
+		);
+		this.panel.webview.html = this.get_html(this.panel.webview);
+		this.panel.webview.onDidReceiveMessage((message) => this.handle_message(message));
+		this.panel.onDidDispose(() => {
+			this.panel = undefined;
+		});
+	}
+
+	private async update(): Promise<void> {
+		const uri = this.sceneUri;
+		let diff: SceneDiff;
+		try {
+			const headText = await this.read_head(uri.fsPath);
+			const document = await vscode.workspace.openTextDocument(uri);
+			diff = diffScenes(headText, document.getText());
+		} catch (error) {
+			log.warn(`Failed to compare ${uri.fsPath} with HEAD:`, error);
+			this.panel?.webview.postMessage({
+				type: "error",
+				message: `${path.basename(uri.fsPath)} has no committed version to compare with.`,
+			});
+			return;
+		}
+		if (!this.panel) {
+			return;
+		}
+
+		const iconsUri = this.panel.webview.asWebviewUri(
+			vscode.Uri.joinPath(this.context.extensionUri, "resources", "godot_icons", "dark"),
+		);
+		this.panel.webview.postMessage({
+			type: "updateDiff",
+			diff,
+			darkIconsBaseUri: iconsUri.toString(),
+		});
+	}
+
+	/** The file as committed at HEAD, through git in the file's own folder */
+	private async read_head(fsPath: string): Promise<string> {
+		const { stdout } = await execFileAsync("git", ["show", `HEAD:./${path.basename(fsPath)}`], {
+			cwd: path.dirname(fsPath),
+			maxBuffer: 64 * 1024 * 1024,
+		});
+		return stdout;
+	}
+
+	private async handle_message(message: any): Promise<void> {
+		switch (message.type) {
+			case "openNode": {
+				// Removed nodes only exist at HEAD, there's nothing to reveal
+				const document = await vscode.workspace.openTextDocument(this.sceneUri);
+				const node = new SceneEditBuilder(document.getText()).findNode(message.path);
+				if (node) {
+					const { start, end } = node.section.headerRange;
+					const selection = new vscode.Range(document.positionAt(start), document.positionAt(end));
+					vscode.window.showTextDocument(document, { selection, viewColumn: vscode.ViewColumn.Beside });
+				}
+				break;
+			}
+			case "openTextDiff":
+				vscode.commands.executeCommand("git.openChange", this.sceneUri);
+				break;
+			case "refresh":
+				this.update();
+				break;
+		}
+	}
+
+	private get_html(webview: vscode.Webview): string {
+		const nonce = get_nonce();
+		const media = (...segments: string[]) =>
+			webview.asWebviewUri(vscode.Uri.joinPath(this.context.extensionUri, "media", ...segments));
+		const codiconsUri = webview.asWebviewUri(
+			vscode.Uri.joinPath(this.context.extensionUri, "node_modules", "@vscode/codicons", "dist", "codicon.css"),
+		);
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource}; img-src ${webview.cspSource};">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<link href="${codiconsUri}" rel="stylesheet">
+	<link href="${media("scene_preview", "styles.css")}" rel="stylesheet">
+	<link href="${media("scene_diff", "styles.css")}" rel="stylesheet">
+	<title>Scene Diff</title>
+</head>
+<body>
+	<div class="container">
+		<div class="diff-toolbar">
+			<span class="diff-summary" id="diffSummary"></span>
+			<button class="diff-button" id="refreshButton" title="Refresh">
+				<span class="codicon codicon-refresh"></span>
+			</button>
+			<button class="diff-button" id="textDiffButton" title="Open Text Diff">
+				<span class="codicon codicon-git-compare"></span>
+			</button>
+		</div>
+		<div class="tree-container" id="treeContainer">
+			<div class="welcome-message">Comparing with HEAD...</div>
+		</div>
+	</div>
+	<script nonce="${nonce}" src="${media("scene_preview", "node_icons.js")}"></script>
+	<script nonce="${nonce}" src="${media("scene_diff", "main.js")}"></script>
+</body>
+</html>`;
+	}
+}
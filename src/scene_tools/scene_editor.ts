@@ -0,0 +1,605 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { globals } from "../extension";
+import {
+	convert_uri_to_resource_path,
+	createLogger,
+	get_project_version,
+	is_csharp_project,
+	node_name_to_pascal,
+	node_name_to_snake,
+} from "../utils";
+import {
+	SceneEditBuilder,
+	computeMinimalEdit,
+	generateResourceUid,
+	toScenePath,
+	validateNodeName,
+} from "./scene_edits";
+import {
+	SCRIPT_EXTENSIONS,
+	type ScriptLanguage,
+	type SignalArgument,
+	csharpScriptTemplate,
+	gdscriptTemplate,
+	scriptLanguage,
+} from "./script_templates";
+import { type SignalSignature, addSignalHandler, findScriptMethod } from "./signal_handlers";
+import type { Scene, SceneNode, SignalConnection } from "./types";
+
+const log = createLogger("scenes.editor", { output: "Godot Scene Parser" });
+
+/**
+ * Applies structural edits to .tscn files: add, rename, delete, duplicate, reparent,
+ * attaching or detaching scripts, and connecting signals.
+ *
+ * Every operation is computed by {@link SceneEditBuilder} and written back as a single
+ * WorkspaceEdit, so a whole operation can be undone with one Ctrl+Z in the scene file.
+ */
+export class SceneEditor {
+	constructor(private context: vscode.ExtensionContext) {}
+
+	/**
+	 * Runs `build` against the current text of the scene and applies the result.
+	 * `build` returns the new text, or undefined to leave the scene untouched.
+	 */
+	public async applySceneEdit(
+		sceneFsPath: string,
+		build: (builder: SceneEditBuilder) => string | undefined,
+	): Promise<boolean> {
+		const edit = await this.createSceneEdit(sceneFsPath, build);
+		if (!edit) {
+			return false;
+		}
+		if (!(await vscode.workspace.applyEdit(edit))) {
+			log.warn(`Failed to apply edit to ${sceneFsPath}`);
+			return false;
+		}
+		const document = await vscode.workspace.openTextDocument(vscode.Uri.file(sceneFsPath));
+		await document.save();
+		return true;
+	}
+
+	/**
+	 * Runs `build` against the current text of the scene, and returns the change as an edit
+	 * for the caller to apply, e.g. along with edits to other files so they're undone together.
+	 */
+	public async createSceneEdit(
+		sceneFsPath: string,
+		build: (builder: SceneEditBuilder) => string | undefined,
+		metadata?: vscode.WorkspaceEditEntryMetadata,
+	): Promise<vscode.WorkspaceEdit | undefined> {
+		const uri = vscode.Uri.file(sceneFsPath);
+		const document = await vscode.workspace.openTextDocument(uri);
+		const text = document.getText();
+
+		const change = computeMinimalEdit(text, build(new SceneEditBuilder(text)) ?? text);
+		if (!change) {
+			return undefined;
+		}
+
+		const edit = new vscode.WorkspaceEdit();
+		const range = new vscode.Range(document.positionAt(change.start), document.positionAt(change.end));
+		edit.replace(uri, range, change.newText, metadata);
+		return edit;
+	}
+
+	public async addChildNode(sceneFsPath: string, parent: SceneNode): Promise<boolean> {
+		const className = await this.pickNodeClass();
+		if (!className) {
+			return false;
+		}
+		const name = await vscode.window.showInputBox({
+			prompt: `Name of the new ${className} node`,
+			value: className,
+			validateInput: validateNodeName,
+		});
+		if (!name) {
+			return false;
+		}
+		return this.applySceneEdit(sceneFsPath, (builder) =>
+			this.ensureFound(builder, parent, () =>
+				builder.addChild(toScenePath(parent.relativePath), name, className),
+			),
+		);
+	}
+
+	public async renameNode(sceneFsPath: string, node: SceneNode): Promise<boolean> {
+		const name = await vscode.window.showInputBox({
+			prompt: `Rename ${node.label}`,
+			value: node.label as string,
+			validateInput: validateNodeName,
+		});
+		if (!name || name === node.label) {
+			return false;
+		}
+		return this.applySceneEdit(sceneFsPath, (builder) =>
+			this.ensureFound(builder, node, () => {
+				const path = toScenePath(node.relativePath);
+				const parentPath = builder.findNode(path).parentPath;
+				if (parentPath !== undefined && builder.childNames(parentPath).includes(name)) {
+					vscode.window.showWarningMessage(`A sibling node named "${name}" already exists.`);
+					return undefined;
+				}
+				return builder.rename(path, name);
+			}),
+		);
+	}
+
+	public async deleteNode(sceneFsPath: string, node: SceneNode): Promise<boolean> {
+		const answer = await vscode.window.showWarningMessage(
+			`Delete node "${node.label}" and its children?`,
+			{ modal: true },
+			"Delete",
+		);
+		if (answer !== "Delete") {
+			return false;
+		}
+		return this.applySceneEdit(sceneFsPath, (builder) =>
+			this.ensureFound(builder, node, () => builder.remove(toScenePath(node.relativePath))),
+		);
+	}
+
+	public async duplicateNode(sceneFsPath: string, node: SceneNode): Promise<boolean> {
+		return this.applySceneEdit(sceneFsPath, (builder) =>
+			this.ensureFound(builder, node, () => builder.duplicate(toScenePath(node.relativePath))?.text),
+		);
+	}
+
+	public async reparentNode(sceneFsPath: string, node: SceneNode, newParent: SceneNode): Promise<boolean> {
+		return this.applySceneEdit(sceneFsPath, (builder) =>
+			this.ensureFound(builder, node, () => {
+				const result = builder.reparent(toScenePath(node.relativePath), toScenePath(newParent.relativePath));
+				if (!result) {
+					vscode.window.showWarningMessage(`Can't move "${node.label}" under "${newParent.label}".`);
+				}
+				return result?.text;
+			}),
+		);
+	}
+
+	public async toggleUniqueName(sceneFsPath: string, node: SceneNode): Promise<boolean> {
+		return this.applySceneEdit(sceneFsPath, (builder) =>
+			this.ensureFound(builder, node, () => builder.setUnique(toScenePath(node.relativePath), !node.unique)),
+		);
+	}
+
+	/**
+	 * Attaches a new or existing script to a node. Replaces the node's current script, if any.
+	 */
+	public async attachScript(sceneFsPath: string, node: SceneNode): Promise<boolean> {
+		const scriptUri = await this.pickScript(sceneFsPath, node);
+		if (!scriptUri) {
+			return false;
+		}
+
+		const scriptPath = await convert_uri_to_resource_path(scriptUri);
+		if (!scriptPath || scriptPath.startsWith("res://..")) {
+			vscode.window.showWarningMessage("The script must be inside the Godot project folder.");
+			return false;
+		}
+
+		const uid = this.readScriptUid(scriptUri);
+		const attached = await this.applySceneEdit(sceneFsPath, (builder) =>
+			this.ensureFound(builder, node, () =>
+				builder.attachScript(toScenePath(node.relativePath), scriptPath, uid),
+			),
+		);
+		if (attached) {
+			vscode.window.showTextDocument(scriptUri, { preview: true });
+		}
+		return attached;
+	}
+
+	public async detachScript(sceneFsPath: string, node: SceneNode): Promise<boolean> {
+		return this.applySceneEdit(sceneFsPath, (builder) =>
+			this.ensureFound(builder, node, () => {
+				const text = builder.detachScript(toScenePath(node.relativePath));
+				if (!text) {
+					vscode.window.showInformationMessage(
+						`The script of "${node.label}" comes from an instanced scene and can't be detached here.`,
+					);
+				}
+				return text;
+			}),
+		);
+	}
+
+	/**
+	 * Connects a signal of `node` to a method of a node with a script, like the editor's
+	 * "Connect a Signal" dialog: writes the [connection] section, then adds a handler stub
+	 * to the target's script unless it already declares the method.
+	 */
+	public async connectSignal(sceneFsPath: string, scene: Scene, node: SceneNode): Promise<boolean> {
+		const targets = [...scene.nodes.values()].filter((n) => n.scriptPath && scriptLanguage(n.scriptPath));
+		if (!targets.length) {
+			vscode.window.showWarningMessage(
+				"Attach a C# or GDScript script to a node of this scene to receive signals.",
+			);
+			return false;
+		}
+
+		const signal = await this.pickSignal(node);
+		if (!signal) {
+			return false;
+		}
+
+		let target = targets[0];
+		if (targets.length > 1) {
+			const item = await vscode.window.showQuickPick(
+				targets.map((n) => ({
+					label: n.label as string,
+					description: n.relativePath || ".",
+					detail: n.scriptPath,
+					node: n,
+				})),
+				{ placeHolder: `Connect ${node.label}.${signal.name} to` },
+			);
+			if (!item) {
+				return false;
+			}
+			target = item.node;
+		}
+
+		const label = node.label as string;
+		const method = await vscode.window.showInputBox({
+			prompt: `Method of ${target.label} that receives ${signal.name}`,
+			value:
+				scriptLanguage(target.scriptPath) === "csharp"
+					? `On${node_name_to_pascal(label)}${node_name_to_pascal(signal.name)}`
+					: `_on_${node_name_to_snake(label)}_${signal.name}`,
+			validateInput: validateIdentifier,
+		});
+		if (!method) {
+			return false;
+		}
+
+		const connected = await this.applySceneEdit(sceneFsPath, (builder) =>
+			this.ensureFound(builder, node, () => {
+				const to = toScenePath(target.relativePath);
+				if (!builder.findNode(to)) {
+					vscode.window.showWarningMessage(`"${target.label}" is not declared in this scene file.`);
+					return undefined;
+				}
+				const text = builder.addConnection(signal.name, toScenePath(node.relativePath), to, method);
+				if (!text) {
+					vscode.window.showInformationMessage(`${label}.${signal.name} is already connected to ${method}.`);
+				}
+				return text;
+			}),
+		);
+		if (connected) {
+			await this.addHandlerStub(target.scriptPath, method, signal.args);
+		}
+		return connected;
+	}
+
+	public async disconnectSignal(sceneFsPath: string, connection: SignalConnection): Promise<boolean> {
+		return this.applySceneEdit(sceneFsPath, (builder) =>
+			builder.removeConnection(connection.signal, connection.from, connection.to, connection.method),
+		);
+	}
+
+	/**
+	 * Opens the script of the node a connection calls, at the method. When the method is
+	 * gone, offers to add the stub back.
+	 */
+	public async goToSignalHandler(scene: Scene, connection: SignalConnection): Promise<void> {
+		const handler = this.findSignalHandler(scene, connection);
+		if (!handler.fsPath) {
+			vscode.window.showWarningMessage(handler.problem ?? `Can't read the script of "${connection.to}".`);
+			return;
+		}
+		if (handler.offset === undefined) {
+			const answer = await vscode.window.showWarningMessage(handler.problem, "Add Method");
+			if (answer === "Add Method") {
+				const source = sceneNodeAt(scene, connection.from);
+				const signals = source ? await this.getSignals(source) : [];
+				const args = signals.find((s) => s.name === connection.signal)?.args ?? [];
+				await this.addHandlerStub(handler.scriptPath, connection.method, args);
+			}
+			return;
+		}
+		await this.showScriptMethod(vscode.Uri.file(handler.fsPath), connection.method);
+	}
+
+	/**
+	 * Where the method a connection calls is declared. `problem` describes why the call
+	 * would fail: the target node is missing, has no script, or the script lacks the method.
+	 * A script that can't be read is reported without a problem, since we can't tell.
+	 */
+	public findSignalHandler(
+		scene: Scene,
+		connection: SignalConnection,
+	): { scriptPath?: string; fsPath?: string; offset?: number; problem?: string } {
+		const target = sceneNodeAt(scene, connection.to);
+		if (!target) {
+			return { problem: `The target node "${connection.to}" doesn't exist.` };
+		}
+		if (!target.scriptPath) {
+			return { problem: `"${target.label}" has no script to receive ${connection.method}.` };
+		}
+
+		const language = scriptLanguage(target.scriptPath);
+		const fsPath = globals.projectIndex?.toFsPath(target.scriptPath);
+		const text = fsPath && language && readText(fsPath);
+		if (text === undefined) {
+			return { scriptPath: target.scriptPath };
+		}
+		const offset = findScriptMethod(text, language, connection.method);
+		return {
+			scriptPath: target.scriptPath,
+			fsPath,
+			offset,
+			problem:
+				offset === undefined ? `${connection.method} is not declared in ${path.basename(fsPath)}.` : undefined,
+		};
+	}
+
+	/** Adds a handler method to a script unless it already has one, and shows it */
+	private async addHandlerStub(scriptPath: string, method: string, args: SignalArgument[]): Promise<void> {
+		const fsPath = globals.projectIndex?.toFsPath(scriptPath);
+		const language = scriptLanguage(scriptPath);
+		if (!fsPath || !language || !fs.existsSync(fsPath)) {
+			log.warn(`Can't find ${scriptPath} to add ${method} to`);
+			return;
+		}
+
+		const uri = vscode.Uri.file(fsPath);
+		const document = await vscode.workspace.openTextDocument(uri);
+		const text = document.getText();
+		if (findScriptMethod(text, language, method) === undefined) {
+			const godot3 = (await get_project_version())?.startsWith("3") ?? false;
+			const className = path.basename(fsPath, path.extname(fsPath));
+			const stub = addSignalHandler(text, language, method, args, { className, godot3 });
+			if (!stub) {
+				vscode.window.showWarningMessage(
+					`Couldn't find a class in ${path.basename(fsPath)} to add ${method} to.`,
+				);
+				return;
+			}
+			const edit = new vscode.WorkspaceEdit();
+			edit.insert(uri, document.positionAt(stub.offset), stub.newText);
+			if (!(await vscode.workspace.applyEdit(edit))) {
+				log.warn(`Failed to add ${method} to ${fsPath}`);
+				return;
+			}
+			await document.save();
+		}
+		await this.showScriptMethod(uri, method);
+	}
+
+	private async showScriptMethod(uri: vscode.Uri, method: string): Promise<void> {
+		const editor = await vscode.window.showTextDocument(uri);
+		const text = editor.document.getText();
+		const offset = findScriptMethod(text, scriptLanguage(uri.fsPath), method);
+		if (offset !== undefined) {
+			const start = editor.document.positionAt(offset);
+			const range = new vscode.Range(start, start.translate(0, method.length));
+			editor.selection = new vscode.Selection(range.start, range.end);
+			editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+		}
+	}
+
+	/**
+	 * Signal picker for a node. Lists the signals of its class reported by the language
+	 * server, and always allows typing a name, e.g. for a signal its script declares.
+	 */
+	private async pickSignal(node: SceneNode): Promise<SignalSignature | undefined> {
+		const signals = await this.getSignals(node);
+		const other: vscode.QuickPickItem & { signal?: SignalSignature } = { label: "$(edit) Other Signal..." };
+		const items: (typeof other)[] = [];
+		let nativeClass: string;
+		for (const signal of signals) {
+			if (signal.native_class !== nativeClass) {
+				nativeClass = signal.native_class;
+				items.push({ label: nativeClass, kind: vscode.QuickPickItemKind.Separator });
+			}
+			items.push({
+				label: signal.name,
+				description: `(${signal.args.map((arg) => (arg.type ? `${arg.name}: ${arg.type}` : arg.name)).join(", ")})`,
+				signal,
+			});
+		}
+		items.push(other);
+
+		const choice = signals.length
+			? await vscode.window.showQuickPick(items, { placeHolder: `Signal of ${node.label} to connect` })
+			: other;
+		if (!choice) {
+			return undefined;
+		}
+		if (choice.signal) {
+			return choice.signal;
+		}
+		const name = await vscode.window.showInputBox({
+			prompt: `Name of the ${node.label} signal to connect`,
+			validateInput: validateIdentifier,
+		});
+		return name ? { name, args: [] } : undefined;
+	}
+
+	private async getSignals(node: SceneNode): Promise<(SignalSignature & { native_class: string })[]> {
+		try {
+			return (await globals.docsProvider?.get_class_signals(node.className)) ?? [];
+		} catch (error) {
+			log.warn(`Failed to list the signals of ${node.className}: ${error}`);
+			return [];
+		}
+	}
+
+	/**
+	 * Nodes inherited from a base scene have no [node] section of their own until they
+	 * are overridden, so they can't be edited here.
+	 */
+	private ensureFound(builder: SceneEditBuilder, node: SceneNode, build: () => string | undefined) {
+		if (!builder.findNode(toScenePath(node.relativePath))) {
+			vscode.window.showWarningMessage(`"${node.label}" is not declared in this scene file.`);
+			return undefined;
+		}
+		return build();
+	}
+
+	private async pickScript(sceneFsPath: string, node: SceneNode): Promise<vscode.Uri | undefined> {
+		const newScripts: (vscode.QuickPickItem & { language?: ScriptLanguage })[] = [
+			{ label: "$(new-file) New C# Script", language: "csharp" },
+			{ label: "$(new-file) New GDScript", language: "gdscript" },
+		];
+		if (!(await is_csharp_project())) {
+			newScripts.reverse();
+		}
+		const choice = await vscode.window.showQuickPick(
+			[...newScripts, { label: "$(folder-opened) Existing Script..." }],
+			{
+				placeHolder: node.hasScript
+					? `Replace the script of ${node.label}`
+					: `Attach a script to ${node.label}`,
+			},
+		);
+		if (!choice) {
+			return undefined;
+		}
+
+		const sceneDir = vscode.Uri.file(path.dirname(sceneFsPath));
+		if (!choice.language) {
+			const selected = await vscode.window.showOpenDialog({
+				defaultUri: sceneDir,
+				canSelectMany: false,
+				filters: { Scripts: Object.values(SCRIPT_EXTENSIONS) },
+			});
+			return selected?.[0];
+		}
+		return this.createScript(sceneDir, node, choice.language);
+	}
+
+	/**
+	 * Creates a script extending the node's class from the default template.
+	 * An existing file is attached as is, never overwritten.
+	 */
+	private async createScript(
+		dir: vscode.Uri,
+		node: SceneNode,
+		language: ScriptLanguage,
+	): Promise<vscode.Uri | undefined> {
+		const extension = SCRIPT_EXTENSIONS[language];
+		const label = node.label as string;
+		const fileName = language === "csharp" ? node_name_to_pascal(label) : node_name_to_snake(label);
+		const uri = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.joinPath(dir, `${fileName}.${extension}`),
+			filters: { [language === "csharp" ? "C# Script" : "GDScript"]: [extension] },
+		});
+		if (!uri) {
+			return undefined;
+		}
+		if (fs.existsSync(uri.fsPath)) {
+			log.info(`${uri.fsPath} already exists, attaching it unchanged`);
+			return uri;
+		}
+
+		const version = await get_project_version();
+		const godot3 = version?.startsWith("3") ?? false;
+		const content =
+			language === "csharp"
+				? csharpScriptTemplate(
+						node_name_to_pascal(path.basename(uri.fsPath, `.${extension}`)),
+						node.className,
+						godot3,
+					)
+				: gdscriptTemplate(node.className, godot3);
+		await vscode.workspace.fs.writeFile(uri, Buffer.from(content));
+
+		// Godot 4.4+ keeps script UIDs in a .uid file next to the script
+		const [major, minor] = (version ?? "").split(".").map(Number);
+		if (major > 4 || (major === 4 && minor >= 4)) {
+			await vscode.workspace.fs.writeFile(
+				vscode.Uri.file(`${uri.fsPath}.uid`),
+				Buffer.from(`${generateResourceUid()}\n`),
+			);
+		}
+		return uri;
+	}
+
+	private readScriptUid(uri: vscode.Uri): string | undefined {
+		try {
+			const uid = fs.readFileSync(`${uri.fsPath}.uid`, "utf8").trim();
+			return uid.startsWith("uid://") ? uid : undefined;
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Godot class picker. Uses the class list reported by the language server when it's
+	 * connected, otherwise the classes we ship icons for.
+	 */
+	private async pickNodeClass(): Promise<string | undefined> {
+		const classes = this.getNodeClasses();
+		const items: vscode.QuickPickItem[] = classes.map((name) => ({
+			label: name,
+			iconPath: this.getClassIcon(name),
+		}));
+		const item = await vscode.window.showQuickPick(items, {
+			placeHolder: "Select the type of the new node",
+		});
+		return item?.label;
+	}
+
+	private getNodeClasses(): string[] {
+		const classInfo = globals.docsProvider?.classInfo;
+		if (classInfo?.has("Node")) {
+			const classes: string[] = [];
+			const queue = ["Node"];
+			while (queue.length) {
+				const name = queue.shift();
+				classes.push(name);
+				queue.push(...(classInfo.get(name)?.extended_classes ?? []));
+			}
+			return classes.sort();
+		}
+
+		const iconDir = vscode.Uri.joinPath(this.context.extensionUri, "resources", "godot_icons", "dark").fsPath;
+		try {
+			return fs
+				.readdirSync(iconDir)
+				.filter((file) => file.endsWith(".svg"))
+				.map((file) => file.slice(0, -".svg".length))
+				.sort();
+		} catch {
+			return ["Node"];
+		}
+	}
+
+	private getClassIcon(className: string): { light: vscode.Uri; dark: vscode.Uri } {
+		const icons = vscode.Uri.joinPath(this.context.extensionUri, "resources", "godot_icons");
+		return {
+			light: vscode.Uri.joinPath(icons, "light", `${className}.svg`),
+			dark: vscode.Uri.joinPath(icons, "dark", `${className}.svg`),
+		};
+	}
+}
+
+/** The node at a path relative to the scene root, "." being the root itself */
+export function sceneNodeAt(scene: Scene, relativePath: string): SceneNode | undefined {
+	if (!scene.root) {
+		return undefined;
+	}
+	return relativePath === "." ? scene.root : scene.nodes.get(`${scene.root.path}/${relativePath}`);
+}
+
+function validateIdentifier(value: string): string | undefined {
+	return /^[A-Za-z_]\w*$/.test(value) ? undefined : "Not a valid identifier";
+}
+
+/** The text of a file, from its open editor if there's one so unsaved changes count */
+function readText(fsPath: string): string | undefined {
+	const document = vscode.workspace.textDocuments.find((doc) => doc.uri.fsPath === fsPath);
+	if (document) {
+		return document.getText();
+	}
+	try {
+		return fs.readFileSync(fsPath, "utf8");
+	} catch {
+		return undefined;
+	}
+}
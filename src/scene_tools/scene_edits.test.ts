@@ -0,0 +1,244 @@
+import { expect } from "chai";
+import {
+	SceneEditBuilder,
+	computeMinimalEdit,
+	generateResourceId,
+	generateResourceUid,
+	makeUniqueName,
+	validateNodeName,
+} from "./scene_edits";
+
+const SCENE = `[gd_scene format=3 uid="uid://bsonfthpqa3dx"]
+
+[node name="Main" type="Node2D"]
+
+[node name="UI" type="CanvasLayer" parent="."]
+
+[node name="Button" type="Button" parent="UI"]
+text = "Start"
+
+[node name="Label" type="Label" parent="UI/Button"]
+
+[node name="Player" type="CharacterBody2D" parent="."]
+
+[connection signal="pressed" from="UI/Button" to="." method="_on_start_pressed"]
+`;
+
+function nodeHeaders(text: string): string[] {
+	return text.split("\n").filter((line) => line.startsWith("[node") || line.startsWith("[connection"));
+}
+
+suite("SceneEditBuilder", () => {
+	test("adds a child after the parent's subtree", () => {
+		const text = new SceneEditBuilder(SCENE).addChild("UI", "Button", "Button");
+		expect(nodeHeaders(text)).to.deep.equal([
+			'[node name="Main" type="Node2D"]',
+			'[node name="UI" type="CanvasLayer" parent="."]',
+			'[node name="Button" type="Button" parent="UI"]',
+			'[node name="Label" type="Label" parent="UI/Button"]',
+			'[node name="Button2" type="Button" parent="UI"]',
+			'[node name="Player" type="CharacterBody2D" parent="."]',
+			'[connection signal="pressed" from="UI/Button" to="." method="_on_start_pressed"]',
+		]);
+	});
+
+	test("renames a node and rewrites paths below it", () => {
+		const builder = new SceneEditBuilder(SCENE);
+		const text = builder.rename("UI/Button", "Start");
+		expect(nodeHeaders(text)).to.include('[node name="Start" type="Button" parent="UI"]');
+		expect(nodeHeaders(text)).to.include('[node name="Label" type="Label" parent="UI/Start"]');
+		expect(nodeHeaders(text)).to.include(
+			'[connection signal="pressed" from="UI/Start" to="." method="_on_start_pressed"]',
+		);
+		expect(builder.rename("UI", "Player")).to.be.undefined;
+	});
+
+	test("removes a subtree with its connections", () => {
+		const text = new SceneEditBuilder(SCENE).remove("UI");
+		expect(text).to.equal(`[gd_scene format=3 uid="uid://bsonfthpqa3dx"]
+
+[node name="Main" type="Node2D"]
+
+[node name="Player" type="CharacterBody2D" parent="."]
+`);
+	});
+
+	test("duplicates a subtree under a unique name", () => {
+		const result = new SceneEditBuilder(SCENE).duplicate("UI/Button");
+		expect(result.name).to.equal("Button2");
+		const headers = nodeHeaders(result.text);
+		expect(headers).to.include('[node name="Button2" type="Button" parent="UI"]');
+		expect(headers).to.include('[node name="Label" type="Label" parent="UI/Button2"]');
+		expect(result.text.match(/text = "Start"/g)).to.have.length(2);
+	});
+
+	test("reparents a subtree", () => {
+		const builder = new SceneEditBuilder(SCENE);
+		const result = builder.reparent("UI/Button", "Player");
+		expect(result.path).to.equal("Player/Button");
+		expect(nodeHeaders(result.text)).to.deep.equal([
+			'[node name="Main" type="Node2D"]',
+			'[node name="UI" type="CanvasLayer" parent="."]',
+			'[node name="Player" type="CharacterBody2D" parent="."]',
+			'[node name="Button" type="Button" parent="Player"]',
+			'[node name="Label" type="Label" parent="Player/Button"]',
+			'[connection signal="pressed" from="Player/Button" to="." method="_on_start_pressed"]',
+		]);
+		expect(new SceneEditBuilder(result.text).findNode("Player/Button/Label")).to.exist;
+
+		expect(builder.reparent("UI", "UI/Button")).to.be.undefined;
+		expect(builder.reparent(".", "Player")).to.be.undefined;
+	});
+
+	test("rewrites NodePath values relative to their node on rename and reparent", () => {
+		const scene = SCENE.replace(
+			'[node name="Main" type="Node2D"]',
+			'[node name="Main" type="Node2D" node_paths=PackedStringArray("StartButton")]\nStartButton = NodePath("UI/Button")',
+		)
+			.replace('text = "Start"', 'text = "Start"\nlabel = NodePath("Label")\nlayer = NodePath("..")')
+			.replace(
+				'parent="UI/Button"]',
+				'parent="UI/Button"]\ntargets = [NodePath("../../../Player"), NodePath("%Score"), ^"..:text"]',
+			);
+
+		const renamed = new SceneEditBuilder(scene).rename("UI/Button", "Start");
+		expect(renamed).to.contain('StartButton = NodePath("UI/Start")');
+		expect(renamed).to.contain('label = NodePath("Label")\nlayer = NodePath("..")');
+		expect(renamed).to.contain('targets = [NodePath("../../../Player"), NodePath("%Score"), ^"..:text"]');
+
+		const moved = new SceneEditBuilder(scene).reparent("UI/Button", "Player").text;
+		expect(moved).to.contain('StartButton = NodePath("Player/Button")');
+		expect(moved).to.contain('label = NodePath("Label")\nlayer = NodePath("../../UI")');
+		expect(moved).to.contain('targets = [NodePath("../.."), NodePath("%Score"), ^"..:text"]');
+
+		const renamedUi = new SceneEditBuilder(scene).rename("UI", "HUD");
+		expect(renamedUi).to.contain('StartButton = NodePath("HUD/Button")');
+		expect(renamedUi).to.contain('layer = NodePath("..")');
+	});
+
+	test("toggles unique_name_in_owner", () => {
+		const unique = new SceneEditBuilder(SCENE).setUnique("Player", true);
+		expect(unique).to.contain('parent="."]\nunique_name_in_owner = true');
+		expect(new SceneEditBuilder(unique).setUnique("Player", false)).to.equal(SCENE);
+	});
+
+	test("adds exported NodePath properties", () => {
+		const builder = new SceneEditBuilder(SCENE);
+		const text = builder.addNodePathProperty(".", "StartButton", "UI/Button");
+		expect(text).to.contain(
+			'[node name="Main" type="Node2D" node_paths=PackedStringArray("StartButton")]\nStartButton = NodePath("UI/Button")',
+		);
+		const second = new SceneEditBuilder(text).addNodePathProperty(".", "Hero", "Player");
+		expect(second).to.contain('node_paths=PackedStringArray("StartButton", "Hero")');
+	});
+
+	test("adds several NodePath properties in one change", () => {
+		const text = new SceneEditBuilder(SCENE).addNodePathProperties(".", [
+			["StartButton", "UI/Button"],
+			["Hero", "Player"],
+		]);
+		expect(text).to.contain('node_paths=PackedStringArray("StartButton", "Hero")]');
+		expect(text).to.contain('Hero = NodePath("Player")');
+		expect(text).to.contain('StartButton = NodePath("UI/Button")');
+		expect(new SceneEditBuilder(text).addNodePathProperties(".", [["Hero", "Player"]])).to.be.undefined;
+	});
+
+	test("syncs NodePath properties, updating moved nodes and removing stale ones", () => {
+		const text = new SceneEditBuilder(SCENE).addNodePathProperties(".", [
+			["StartButton", "UI/Button"],
+			["Hero", "Player"],
+		]);
+		const synced = new SceneEditBuilder(text).syncNodePathProperties(
+			".",
+			[
+				["StartButton", "Player/Button"],
+				["Label", "UI/Button/Label"],
+			],
+			["StartButton", "Hero"],
+		);
+		expect(nodeHeaders(synced)[0]).to.equal(
+			'[node name="Main" type="Node2D" node_paths=PackedStringArray("StartButton", "Label")]',
+		);
+		expect(synced).to.contain('StartButton = NodePath("Player/Button")\nLabel = NodePath("UI/Button/Label")\n');
+		expect(synced).not.to.contain("Hero");
+		expect(new SceneEditBuilder(synced).syncNodePathProperties(".", [["Label", "UI/Button/Label"]])).to.be
+			.undefined;
+
+		const cleared = new SceneEditBuilder(synced).syncNodePathProperties(".", [], ["StartButton", "Label"]);
+		expect(cleared).to.equal(SCENE);
+	});
+
+	test("attaches, replaces and detaches scripts", () => {
+		const scene = SCENE.replace("[gd_scene format=3", "[gd_scene load_steps=1 format=3");
+		const attached = new SceneEditBuilder(scene).attachScript("Player", "res://player.gd", "uid://abc");
+		const id = attached.match(/id="(1_[a-z0-9]{5})"/)[1];
+		expect(attached).to.contain("[gd_scene load_steps=2 format=3");
+		expect(attached).to.contain(
+			`\n\n[ext_resource type="Script" uid="uid://abc" path="res://player.gd" id="${id}"]\n\n`,
+		);
+		expect(attached).to.contain(`parent="."]\nscript = ExtResource("${id}")`);
+
+		const replaced = new SceneEditBuilder(attached).attachScript("Player", "res://hero.gd");
+		expect(replaced).to.not.contain("res://player.gd");
+		expect(replaced).to.contain('[ext_resource type="Script" path="res://hero.gd"');
+		expect(replaced).to.contain("[gd_scene load_steps=2 format=3");
+
+		expect(new SceneEditBuilder(attached).detachScript("Player")).to.equal(scene);
+	});
+
+	test("keeps scripts that other nodes still use", () => {
+		const attached = new SceneEditBuilder(SCENE).attachScript("Player", "res://player.gd");
+		const shared = new SceneEditBuilder(attached).attachScript("UI", "res://player.gd");
+		expect(shared.match(/\[ext_resource/g)).to.have.length(1);
+
+		const detached = new SceneEditBuilder(shared).detachScript("UI");
+		expect(detached).to.equal(attached);
+	});
+
+	test("adds and removes signal connections", () => {
+		const hit = '[connection signal="body_entered" from="Player" to="." method="_on_player_hit"]';
+		const connected = new SceneEditBuilder(SCENE).addConnection("body_entered", "Player", ".", "_on_player_hit");
+		expect(connected).to.equal(`${SCENE}${hit}\n`);
+		expect(new SceneEditBuilder(connected).addConnection("body_entered", "Player", ".", "_on_player_hit")).to.be
+			.undefined;
+		expect(new SceneEditBuilder(SCENE).addConnection("pressed", "Missing", ".", "_on_pressed")).to.be.undefined;
+
+		const builder = new SceneEditBuilder(connected);
+		const withoutPressed = builder.removeConnection("pressed", "UI/Button", ".", "_on_start_pressed");
+		expect(withoutPressed).to.contain(`parent="."]\n\n${hit}\n`);
+		const withoutAny = new SceneEditBuilder(withoutPressed).removeConnection(
+			"body_entered",
+			"Player",
+			".",
+			"_on_player_hit",
+		);
+		expect(nodeHeaders(withoutAny).pop()).to.equal('[node name="Player" type="CharacterBody2D" parent="."]');
+		expect(
+			new SceneEditBuilder(withoutAny).addConnection("body_entered", "Player", ".", "_on_player_hit"),
+		).to.equal(withoutAny.replace(/\n$/, `\n\n${hit}\n`));
+	});
+});
+
+suite("Scene edit helpers", () => {
+	test("makeUniqueName", () => {
+		expect(makeUniqueName("Button", ["Label"])).to.equal("Button");
+		expect(makeUniqueName("Button", ["Button", "Button2"])).to.equal("Button3");
+		expect(makeUniqueName("Enemy7", ["Enemy7"])).to.equal("Enemy8");
+	});
+
+	test("validateNodeName", () => {
+		expect(validateNodeName("Player")).to.be.undefined;
+		expect(validateNodeName("a/b")).to.contain("/");
+		expect(validateNodeName(" ")).to.exist;
+	});
+
+	test("generates Godot style identifiers", () => {
+		expect(generateResourceUid()).to.match(/^uid:\/\/[a-y0-8]{1,13}$/);
+		expect(generateResourceId(["1_abcde", "2_fghij"])).to.match(/^3_[a-z0-9]{5}$/);
+	});
+
+	test("computeMinimalEdit", () => {
+		expect(computeMinimalEdit("abcdef", "abXYef")).to.deep.equal({ start: 2, end: 4, newText: "XY" });
+		expect(computeMinimalEdit("same", "same")).to.be.undefined;
+	});
+});
@@ -0,0 +1,715 @@
+import { randomBytes } from "node:crypto";
+import type { ResourceDocument, Section, TextRange, VariantValue } from "./resource_ast";
+import {
+	collectResourceRefs,
+	escapeResourceString,
+	getAttribute,
+	getAttributeString,
+	getProperty,
+	parseResourceText,
+	valueAsString,
+	valueAsStringArray,
+	walkValue,
+} from "./resource_parser";
+
+export interface SceneTextEdit {
+	start: number;
+	end: number;
+	newText: string;
+}
+
+/**
+ * A [node] section together with its path relative to the scene root,
+ * written the way `parent=` attributes are: "." for the root, "A/B" below it.
+ */
+export interface SceneNodeEntry {
+	section: Section;
+	/** Index of the section in the document */
+	index: number;
+	name: string;
+	path: string;
+	/** Path of the parent, undefined for the root */
+	parentPath?: string;
+}
+
+/** Characters Godot doesn't allow in node names */
+export const INVALID_NODE_NAME_CHARACTERS = [".", ":", "@", "/", '"', "%"];
+
+export function validateNodeName(name: string): string | undefined {
+	if (!name.trim()) {
+		return "Node name can't be empty";
+	}
+	const invalid = INVALID_NODE_NAME_CHARACTERS.filter((c) => name.includes(c));
+	if (invalid.length) {
+		return `Node name can't contain ${invalid.join(" ")}`;
+	}
+	return undefined;
+}
+
+/**
+ * Converts a SceneNode.relativePath ("" for the root) into a scene path ("." for the root).
+ */
+export function toScenePath(relativePath: string | undefined): string {
+	return relativePath ? relativePath : ".";
+}
+
+/**
+ * Apply non-overlapping edits to `text`. Edits sharing a start offset keep their order.
+ */
+export function applyTextEdits(text: string, edits: SceneTextEdit[]): string {
+	const sorted = edits
+		.map((edit, order) => ({ edit, order }))
+		.sort((a, b) => b.edit.start - a.edit.start || b.edit.end - a.edit.end || b.order - a.order);
+	let result = text;
+	for (const { edit } of sorted) {
+		result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+	}
+	return result;
+}
+
+/**
+ * Reduces a whole-document change to a single edit spanning only the changed text,
+ * so it can be applied (and undone) as one replacement.
+ */
+export function computeMinimalEdit(oldText: string, newText: string): SceneTextEdit | undefined {
+	if (oldText === newText) {
+		return undefined;
+	}
+	let prefix = 0;
+	const max = Math.min(oldText.length, newText.length);
+	while (prefix < max && oldText[prefix] === newText[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (suffix < max - prefix && oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) {
+		suffix++;
+	}
+	return {
+		start: prefix,
+		end: oldText.length - suffix,
+		newText: newText.slice(prefix, newText.length - suffix),
+	};
+}
+
+/**
+ * Makes `base` unique among `siblings` the way the Godot editor does: "Button" becomes
+ * "Button2", "Button2" becomes "Button3".
+ */
+export function makeUniqueName(base: string, siblings: Iterable<string>): string {
+	const taken = new Set(siblings);
+	if (!taken.has(base)) {
+		return base;
+	}
+	const match = base.match(/^(.*?)(\d+)$/);
+	const stem = match ? match[1] : base;
+	let counter = match ? Number.parseInt(match[2]) + 1 : 2;
+	while (taken.has(`${stem}${counter}`)) {
+		counter++;
+	}
+	return `${stem}${counter}`;
+}
+
+/**
+ * A new `uid://` identifier, encoded the way Godot's ResourceUID does: a random
+ * 63-bit integer written in base 34 with the digits a-y and 0-8.
+ */
+export function generateResourceUid(): string {
+	let id = randomBytes(8).readBigUInt64BE() & 0x7fffffffffffffffn;
+	let text = "";
+	do {
+		const digit = Number(id % 34n);
+		text = String.fromCharCode(digit < 25 ? 97 + digit : 48 + digit - 25) + text;
+		id /= 34n;
+	} while (id > 0n);
+	return `uid://${text}`;
+}
+
+/**
+ * A new ext_resource id in Godot 4 style, e.g. "3_k2x8p": the resource's index
+ * followed by a random suffix so ids stay unique across merges.
+ */
+export function generateResourceId(existingIds: string[]): string {
+	const characters = "abcdefghijklmnopqrstuvwxyz0123456789";
+	let id: string;
+	do {
+		let suffix = "";
+		for (let i = 0; i < 5; i++) {
+			suffix += characters[Math.floor(Math.random() * characters.length)];
+		}
+		id = `${existingIds.length + 1}_${suffix}`;
+	} while (existingIds.includes(id));
+	return id;
+}
+
+function isSameOrDescendant(path: string, ancestor: string): boolean {
+	if (ancestor === ".") {
+		return true;
+	}
+	return path === ancestor || path.startsWith(`${ancestor}/`);
+}
+
+function joinPath(parentPath: string, name: string): string {
+	return parentPath === "." ? name : `${parentPath}/${name}`;
+}
+
+/**
+ * Resolves a NodePath written on the node at `owner` to a scene path. Undefined when it isn't
+ * relative to the scene's nodes: empty, absolute, `%Unique`, or leading out of the scene.
+ */
+function resolveScenePath(owner: string, nodePath: string): string | undefined {
+	if (!nodePath || nodePath.startsWith("/") || nodePath.startsWith("%")) {
+		return undefined;
+	}
+	const segments = owner === "." ? [] : owner.split("/");
+	for (const name of nodePath.split("/")) {
+		if (name === "..") {
+			if (!segments.length) {
+				return undefined;
+			}
+			segments.pop();
+		} else if (name && name !== ".") {
+			segments.push(name);
+		}
+	}
+	return segments.length ? segments.join("/") : ".";
+}
+
+/** The NodePath from the node at `owner` to the node at `target`, both scene paths */
+function relativeScenePath(owner: string, target: string): string {
+	const from = owner === "." ? [] : owner.split("/");
+	const to = target === "." ? [] : target.split("/");
+	let common = 0;
+	while (common < from.length && common < to.length && from[common] === to[common]) {
+		common++;
+	}
+	const segments = [...from.slice(common).map(() => ".."), ...to.slice(common)];
+	return segments.length ? segments.join("/") : ".";
+}
+
+function quote(value: string): string {
+	return `"${escapeResourceString(value)}"`;
+}
+
+/**
+ * Computes the text of a .tscn file after a structural edit.
+ *
+ * Each operation works on the parsed {@link ResourceDocument} and returns the complete
+ * new text (or undefined when nothing changes), leaving it to the caller to turn that
+ * into a single undoable edit with {@link computeMinimalEdit}.
+ */
+export class SceneEditBuilder {
+	public readonly document: ResourceDocument;
+	public readonly nodes: SceneNodeEntry[] = [];
+
+	constructor(public readonly text: string) {
+		this.document = parseResourceText(text);
+
+		this.document.sections.forEach((section, index) => {
+			if (section.tag !== "node") {
+				return;
+			}
+			const name = getAttributeString(section, "name") ?? "";
+			const parentPath = getAttributeString(section, "parent");
+			const path = parentPath === undefined ? "." : joinPath(parentPath, name);
+			this.nodes.push({ section, index, name, path, parentPath });
+		});
+	}
+
+	public findNode(path: string): SceneNodeEntry | undefined {
+		return this.nodes.find((n) => n.path === path);
+	}
+
+	public childNames(parentPath: string): string[] {
+		return this.nodes.filter((n) => n.parentPath === parentPath).map((n) => n.name);
+	}
+
+	/** The node and all of its descendants, in document order */
+	public subtree(path: string): SceneNodeEntry[] {
+		return this.nodes.filter((n) => isSameOrDescendant(n.path, path));
+	}
+
+	public addChild(parentPath: string, name: string, type: string): string | undefined {
+		if (!this.findNode(parentPath)) {
+			return undefined;
+		}
+		const uniqueName = makeUniqueName(name, this.childNames(parentPath));
+		const header = `[node name=${quote(uniqueName)} type=${quote(type)} parent=${quote(parentPath)}]`;
+		return applyTextEdits(this.text, [this.insertAfterSubtree(parentPath, header)]);
+	}
+
+	public rename(path: string, newName: string): string | undefined {
+		const node = this.findNode(path);
+		if (!node || node.name === newName) {
+			return undefined;
+		}
+		if (node.parentPath !== undefined && this.childNames(node.parentPath).includes(newName)) {
+			return undefined;
+		}
+
+		const edits = [this.replaceAttribute(node.section, "name", quote(newName))];
+		if (node.parentPath !== undefined) {
+			edits.push(...this.rewritePathReferences(path, joinPath(node.parentPath, newName)));
+		}
+		return applyTextEdits(this.text, edits);
+	}
+
+	public remove(path: string): string | undefined {
+		const node = this.findNode(path);
+		if (!node || node.parentPath === undefined) {
+			return undefined;
+		}
+
+		const edits = this.subtree(path).map((n) => this.removeSection(n.index));
+		for (const [index, section] of this.document.sections.entries()) {
+			if (section.tag === "connection") {
+				const from = getAttributeString(section, "from");
+				const to = getAttributeString(section, "to");
+				if ((from && isSameOrDescendant(from, path)) || (to && isSameOrDescendant(to, path))) {
+					edits.push(this.removeSection(index));
+				}
+			} else if (section.tag === "editable") {
+				const editablePath = getAttributeString(section, "path");
+				if (editablePath && isSameOrDescendant(editablePath, path)) {
+					edits.push(this.removeSection(index));
+				}
+			}
+		}
+		return applyTextEdits(this.text, edits);
+	}
+
+	public duplicate(path: string): { text: string; name: string } | undefined {
+		const node = this.findNode(path);
+		if (!node || node.parentPath === undefined) {
+			return undefined;
+		}
+		const name = makeUniqueName(node.name, this.childNames(node.parentPath));
+		const block = this.subtreeText(path, node.parentPath, name);
+		return { text: applyTextEdits(this.text, [this.insertAfterSubtree(path, block)]), name };
+	}
+
+	/**
+	 * Moves a node, with all of its descendants, under a new parent.
+	 * Returns undefined when the move is impossible (root node, or a parent inside the moved subtree).
+	 */
+	public reparent(path: string, newParentPath: string): { text: string; path: string } | undefined {
+		const node = this.findNode(path);
+		if (!node || node.parentPath === undefined || !this.findNode(newParentPath)) {
+			return undefined;
+		}
+		if (node.parentPath === newParentPath || isSameOrDescendant(newParentPath, path)) {
+			return undefined;
+		}
+
+		const name = makeUniqueName(node.name, this.childNames(newParentPath));
+		const newPath = joinPath(newParentPath, name);
+		const moved = this.subtree(path);
+		const movedIndexes = new Set(moved.map((n) => n.index));
+
+		const edits = moved.map((n) => this.removeSection(n.index));
+		const anchor = this.subtree(newParentPath)
+			.filter((n) => !movedIndexes.has(n.index))
+			.pop();
+		edits.push({
+			start: anchor.section.range.end,
+			end: anchor.section.range.end,
+			newText: `\n\n${this.subtreeText(path, newParentPath, name)}`,
+		});
+		edits.push(...this.rewritePathReferences(path, newPath, movedIndexes));
+		return { text: applyTextEdits(this.text, edits), path: newPath };
+	}
+
+	/** Adds or removes `unique_name_in_owner = true`, the `%Name` access in scripts */
+	public setUnique(path: string, unique: boolean): string | undefined {
+		const node = this.findNode(path);
+		if (!node) {
+			return undefined;
+		}
+		const property = getProperty(node.section, "unique_name_in_owner");
+		const isUnique = property?.value.kind === "bool" && property.value.value;
+		if (isUnique === unique) {
+			return undefined;
+		}
+		if (property) {
+			if (unique) {
+				return applyTextEdits(this.text, [
+					{ start: property.value.range.start, end: property.value.range.end, newText: "true" },
+				]);
+			}
+			return applyTextEdits(this.text, [this.removeProperty(node.section, property.range)]);
+		}
+		return applyTextEdits(this.text, [this.insertProperty(node.section, "unique_name_in_owner = true")]);
+	}
+
+	/**
+	 * Assigns a NodePath to an exported property: the property name is added to the
+	 * header's `node_paths=PackedStringArray(...)` and `property = NodePath("...")` to the body.
+	 */
+	public addNodePathProperty(path: string, propertyName: string, nodePath: string): string | undefined {
+		const node = this.findNode(path);
+		if (!node || getProperty(node.section, propertyName)) {
+			return undefined;
+		}
+
+		const edits: SceneTextEdit[] = [];
+		const nodePaths = getAttribute(node.section, "node_paths");
+		if (nodePaths) {
+			const entries = [...valueAsStringArray(nodePaths), propertyName].map(quote);
+			edits.push({
+				start: nodePaths.range.start,
+				end: nodePaths.range.end,
+				newText: `PackedStringArray(${entries.join(", ")})`,
+			});
+		} else {
+			const closingBracket = node.section.headerRange.end - 1;
+			edits.push({
+				start: closingBracket,
+				end: closingBracket,
+				newText: ` node_paths=PackedStringArray(${quote(propertyName)})`,
+			});
+		}
+		edits.push(this.insertProperty(node.section, `${propertyName} = NodePath(${quote(nodePath)})`));
+		return applyTextEdits(this.text, edits);
+	}
+
+	/**
+	 * Several `addNodePathProperty` at once, as a single change. Properties the node already
+	 * has are skipped; undefined when it has them all.
+	 *
+	 * @param properties Property names and the node paths they point to
+	 */
+	public addNodePathProperties(path: string, properties: [string, string][]): string | undefined {
+		let text: string | undefined;
+		for (const [propertyName, nodePath] of properties) {
+			text = new SceneEditBuilder(text ?? this.text).addNodePathProperty(path, propertyName, nodePath) ?? text;
+		}
+		return text;
+	}
+
+	/**
+	 * Makes a node's NodePath properties match `properties`, adding them or changing the paths
+	 * they hold, and removes the `stale` ones along with their `node_paths` entries.
+	 * Undefined when nothing changes.
+	 *
+	 * @param properties Property names and the node paths they point to
+	 * @param stale Properties to remove, those in `properties` are kept
+	 */
+	public syncNodePathProperties(
+		path: string,
+		properties: [string, string][],
+		stale: string[] = [],
+	): string | undefined {
+		const node = this.findNode(path);
+		if (!node) {
+			return undefined;
+		}
+
+		const edits: SceneTextEdit[] = [];
+		const kept = new Set(properties.map(([propertyName]) => propertyName));
+		const removed = new Set(stale.filter((propertyName) => !kept.has(propertyName)));
+		for (const propertyName of removed) {
+			const property = getProperty(node.section, propertyName);
+			if (property) {
+				edits.push(this.removeProperty(node.section, property.range));
+			}
+		}
+		for (const [propertyName, nodePath] of properties) {
+			const newValue = `NodePath(${quote(nodePath)})`;
+			const property = getProperty(node.section, propertyName);
+			if (!property) {
+				edits.push(this.insertProperty(node.section, `${propertyName} = ${newValue}`));
+			} else if (valueAsString(property.value) !== nodePath) {
+				edits.push({ start: property.value.range.start, end: property.value.range.end, newText: newValue });
+			}
+		}
+
+		const nodePaths = getAttribute(node.section, "node_paths");
+		const current = valueAsStringArray(nodePaths);
+		const names = [
+			...current.filter((propertyName) => !removed.has(propertyName)),
+			...[...kept].filter((propertyName) => !current.includes(propertyName)),
+		];
+		if (names.join("\n") !== current.join("\n")) {
+			const newText = `PackedStringArray(${names.map(quote).join(", ")})`;
+			if (!nodePaths) {
+				const closingBracket = node.section.headerRange.end - 1;
+				edits.push({ start: closingBracket, end: closingBracket, newText: ` node_paths=${newText}` });
+			} else if (names.length) {
+				edits.push({ start: nodePaths.range.start, end: nodePaths.range.end, newText });
+			} else {
+				const attribute = node.section.attributes.find((a) => a.name === "node_paths");
+				// with the space before it
+				edits.push({ start: attribute.range.start - 1, end: attribute.range.end, newText: "" });
+			}
+		}
+		return edits.length ? applyTextEdits(this.text, edits) : undefined;
+	}
+
+	/**
+	 * Sets `script = ExtResource(...)` on a node, reusing the scene's ext_resource for
+	 * `scriptPath` or adding one. A script the node no longer uses is removed from the
+	 * scene when nothing else references it.
+	 */
+	public attachScript(path: string, scriptPath: string, uid?: string): string | undefined {
+		const node = this.findNode(path);
+		if (!node) {
+			return undefined;
+		}
+
+		const edits: SceneTextEdit[] = [];
+		const extResources = this.document.sections.filter((s) => s.tag === "ext_resource");
+		const existing = extResources.find((s) => getAttributeString(s, "path") === scriptPath);
+		let id = existing && getAttributeString(existing, "id");
+		let addedResources = 0;
+		if (!id) {
+			id = generateResourceId(extResources.map((s) => getAttributeString(s, "id")));
+			const uidAttribute = uid ? ` uid=${quote(uid)}` : "";
+			const header = `[ext_resource type="Script"${uidAttribute} path=${quote(scriptPath)} id=${quote(id)}]`;
+			const anchor = extResources[extResources.length - 1] ?? this.document.sections[0];
+			edits.push({ start: anchor.range.end, end: anchor.range.end, newText: `\n\n${header}` });
+			addedResources++;
+		}
+
+		const script = getProperty(node.section, "script");
+		const newValue = `ExtResource(${quote(id)})`;
+		if (script) {
+			if (script.value.kind === "ext_resource" && script.value.id === id) {
+				return undefined;
+			}
+			edits.push({ start: script.value.range.start, end: script.value.range.end, newText: newValue });
+			addedResources -= this.removeUnusedExtResource(script.value, edits);
+		} else {
+			edits.push(this.insertProperty(node.section, `script = ${newValue}`));
+		}
+
+		edits.push(...this.updateLoadSteps(addedResources));
+		return applyTextEdits(this.text, edits);
+	}
+
+	public detachScript(path: string): string | undefined {
+		const node = this.findNode(path);
+		const script = node && getProperty(node.section, "script");
+		if (!script) {
+			return undefined;
+		}
+
+		const edits = [this.removeProperty(node.section, script.range)];
+		const removed = this.removeUnusedExtResource(script.value, edits);
+		edits.push(...this.updateLoadSteps(-removed));
+		return applyTextEdits(this.text, edits);
+	}
+
+	/**
+	 * Adds a `[connection]` section after the scene's other connections, or after its
+	 * nodes when it has none. Returns undefined when either node is missing or the
+	 * connection already exists.
+	 */
+	public addConnection(signal: string, from: string, to: string, method: string): string | undefined {
+		if (!this.findNode(from) || !this.findNode(to) || this.findConnection(signal, from, to, method) !== -1) {
+			return undefined;
+		}
+		const header = `[connection signal=${quote(signal)} from=${quote(from)} to=${quote(to)} method=${quote(method)}]`;
+		const connections = this.document.sections.filter((s) => s.tag === "connection");
+		if (connections.length > 0) {
+			// Godot writes connections on consecutive lines
+			const last = connections[connections.length - 1];
+			return applyTextEdits(this.text, [{ start: last.range.end, end: last.range.end, newText: `\n${header}` }]);
+		}
+		const last = this.nodes[this.nodes.length - 1].section;
+		return applyTextEdits(this.text, [{ start: last.range.end, end: last.range.end, newText: `\n\n${header}` }]);
+	}
+
+	public removeConnection(signal: string, from: string, to: string, method: string): string | undefined {
+		const index = this.findConnection(signal, from, to, method);
+		if (index === -1) {
+			return undefined;
+		}
+		const section = this.document.sections[index];
+		const previous = this.document.sections[index - 1];
+		if (previous?.tag !== "connection" && this.document.sections[index + 1]?.tag === "connection") {
+			// Keep the blank line between the nodes and the connections that remain
+			return applyTextEdits(this.text, [{ start: section.range.start, end: section.range.end + 1, newText: "" }]);
+		}
+		return applyTextEdits(this.text, [this.removeSection(index)]);
+	}
+
+	/** Removes an `[ext_resource]` or `[sub_resource]` declaration, e.g. one that nothing uses */
+	public removeResource(tag: "ext_resource" | "sub_resource", id: string): string | undefined {
+		const index = this.document.sections.findIndex((s) => s.tag === tag && getAttributeString(s, "id") === id);
+		if (index === -1) {
+			return undefined;
+		}
+		return applyTextEdits(this.text, [this.removeSection(index), ...this.updateLoadSteps(-1)]);
+	}
+
+	/**
+	 * Queues the removal of the ext_resource `value` points to, if `value` is its only reference.
+	 * Returns the number of removed resources.
+	 */
+	private removeUnusedExtResource(value: VariantValue, edits: SceneTextEdit[]): number {
+		if (value.kind !== "ext_resource") {
+			return 0;
+		}
+		const references = collectResourceRefs(this.document).filter(
+			(ref) => ref.kind === "ext_resource" && ref.id === value.id,
+		);
+		const index = this.document.sections.findIndex(
+			(s) => s.tag === "ext_resource" && getAttributeString(s, "id") === value.id,
+		);
+		if (references.length > 1 || index === -1) {
+			return 0;
+		}
+		edits.push(this.removeSection(index));
+		return 1;
+	}
+
+	private findConnection(signal: string, from: string, to: string, method: string): number {
+		return this.document.sections.findIndex(
+			(s) =>
+				s.tag === "connection" &&
+				getAttributeString(s, "signal") === signal &&
+				getAttributeString(s, "from") === from &&
+				getAttributeString(s, "to") === to &&
+				getAttributeString(s, "method") === method,
+		);
+	}
+
+	/** Keeps `load_steps` in the scene header in step with the number of resources, when present */
+	private updateLoadSteps(delta: number): SceneTextEdit[] {
+		const header = this.document.sections[0];
+		const loadSteps = header && getAttribute(header, "load_steps");
+		if (!delta || loadSteps?.kind !== "number") {
+			return [];
+		}
+		return [this.replaceAttribute(header, "load_steps", String(loadSteps.value + delta))];
+	}
+
+	private replaceAttribute(section: Section, name: string, newText: string): SceneTextEdit {
+		const value = getAttribute(section, name);
+		return { start: value.range.start, end: value.range.end, newText };
+	}
+
+	private insertProperty(section: Section, line: string): SceneTextEdit {
+		return { start: section.range.end, end: section.range.end, newText: `\n${line}` };
+	}
+
+	private removeProperty(section: Section, range: TextRange): SceneTextEdit {
+		// Remove the line break before the property along with it
+		const start = this.text.lastIndexOf("\n", range.start);
+		return { start: Math.max(start, section.headerRange.end), end: range.end, newText: "" };
+	}
+
+	/** Removes a section together with the blank line that separates it from the previous one */
+	private removeSection(index: number): SceneTextEdit {
+		const previous = this.document.sections[index - 1];
+		const section = this.document.sections[index];
+		return { start: previous ? previous.range.end : section.range.start, end: section.range.end, newText: "" };
+	}
+
+	private insertAfterSubtree(path: string, block: string): SceneTextEdit {
+		const last = this.subtree(path).pop();
+		return { start: last.section.range.end, end: last.section.range.end, newText: `\n\n${block}` };
+	}
+
+	/**
+	 * The text of a node and its descendants, re-rooted under `parentPath` with the top node
+	 * named `name`. Descendant `parent=` attributes and NodePath values are rewritten to follow.
+	 */
+	private subtreeText(path: string, parentPath: string, name: string): string {
+		const newPath = joinPath(parentPath, name);
+		const rebase = (value: string) =>
+			isSameOrDescendant(value, path) ? newPath + value.slice(path.length) : undefined;
+		return this.subtree(path)
+			.map((n) => {
+				const { start, end } = n.section.range;
+				const edits: SceneTextEdit[] = this.rewriteNodePaths(n.section, n.path, rebase(n.path), rebase);
+				if (n.path === path) {
+					edits.push(this.replaceAttribute(n.section, "name", quote(name)));
+					edits.push(this.replaceAttribute(n.section, "parent", quote(parentPath)));
+				} else {
+					const rebased = newPath + n.parentPath.slice(path.length);
+					edits.push(this.replaceAttribute(n.section, "parent", quote(rebased)));
+				}
+				const local = edits.map((e) => ({ ...e, start: e.start - start, end: e.end - start }));
+				return applyTextEdits(this.text.slice(start, end), local);
+			})
+			.join("\n\n");
+	}
+
+	/**
+	 * Rewrites every path that points at `oldPath` or below it: `parent=` of descendants,
+	 * `from=`/`to=` of connections, `[editable path=...]` and NodePath property values, which
+	 * also change when the node holding them moves. Sections in `skip` are left alone.
+	 */
+	private rewritePathReferences(oldPath: string, newPath: string, skip: Set<number> = new Set()): SceneTextEdit[] {
+		const edits: SceneTextEdit[] = [];
+		const rebase = (value: string | undefined) =>
+			value !== undefined && isSameOrDescendant(value, oldPath)
+				? newPath + value.slice(oldPath.length)
+				: undefined;
+
+		for (const [index, section] of this.document.sections.entries()) {
+			if (skip.has(index)) {
+				continue;
+			}
+			const attributes =
+				section.tag === "node"
+					? ["parent"]
+					: section.tag === "connection"
+						? ["from", "to"]
+						: section.tag === "editable"
+							? ["path"]
+							: [];
+			for (const attribute of attributes) {
+				const rebased = rebase(getAttributeString(section, attribute));
+				if (rebased !== undefined) {
+					edits.push(this.replaceAttribute(section, attribute, quote(rebased)));
+				}
+			}
+			const node = section.tag === "node" && this.nodes.find((n) => n.index === index);
+			if (node) {
+				edits.push(...this.rewriteNodePaths(section, node.path, rebase(node.path), rebase));
+			}
+		}
+		return edits;
+	}
+
+	/**
+	 * Rewrites the NodePath values of a node's properties, which are relative to the node, after
+	 * it moves to `newPath` (undefined when it stays) or the nodes they point at move as `rebase` says.
+	 * Subnames such as `:position` are kept.
+	 */
+	private rewriteNodePaths(
+		section: Section,
+		path: string,
+		newPath: string | undefined,
+		rebase: (path: string) => string | undefined,
+	): SceneTextEdit[] {
+		const edits: SceneTextEdit[] = [];
+		for (const property of section.properties) {
+			walkValue(property.value, (value) => {
+				const isConstructor = value.kind === "constructor" && value.name === "NodePath";
+				if (value.kind !== "node_path" && !isConstructor) {
+					return;
+				}
+				const text = valueAsString(value) ?? "";
+				const colon = text.indexOf(":");
+				const nodePath = colon < 0 ? text : text.slice(0, colon);
+				const target = resolveScenePath(path, nodePath);
+				if (target === undefined) {
+					return;
+				}
+				const rebased = relativeScenePath(newPath ?? path, rebase(target) ?? target);
+				if (rebased === nodePath) {
+					return;
+				}
+				const newText = quote(rebased + (colon < 0 ? "" : text.slice(colon)));
+				edits.push({
+					start: value.range.start,
+					end: value.range.end,
+					newText: isConstructor ? `NodePath(${newText})` : `^${newText}`,
+				});
+			});
+		}
+		return edits;
+	}
+}
@@ -0,0 +1,92 @@
+import { expect } from "chai";
+import { mergeScenes, splitConflictMarkers } from "./scene_merge";
+
+const BASE = `[gd_scene load_steps=3 format=3 uid="uid://base"]
+
+[ext_resource type="Script" path="res://player.gd" id="1_a"]
+[ext_resource type="Texture2D" path="res://hero.png" id="2_b"]
+
+[node name="Player" type="CharacterBody2D"]
+script = ExtResource("1_a")
+speed = 100
+
+[node name="Sprite" type="Sprite2D" parent="."]
+texture = ExtResource("2_b")
+
+[node name="Timer" type="Timer" parent="."]
+wait_time = 1.0
+`;
+
+suite("mergeScenes", () => {
+	test("merges changes made on different nodes and properties", () => {
+		const ours = BASE.replace("speed = 100", "speed = 200").concat(
+			'\n[node name="Label" type="Label" parent="."]\n',
+		);
+		const theirs = BASE.replace("wait_time = 1.0", "wait_time = 2.0\nautostart = true").replace(
+			'[node name="Sprite" type="Sprite2D" parent="."]\ntexture = ExtResource("2_b")\n\n',
+			"",
+		);
+		const result = mergeScenes(BASE, ours, theirs);
+
+		expect(result.conflicts).to.deep.equal([]);
+		expect(result.text).to.equal(`[gd_scene load_steps=2 format=3 uid="uid://base"]
+
+[ext_resource type="Script" path="res://player.gd" id="1_a"]
+
+[node name="Player" type="CharacterBody2D"]
+script = ExtResource("1_a")
+speed = 200
+
+[node name="Timer" type="Timer" parent="."]
+wait_time = 2.0
+autostart = true
+
+[node name="Label" type="Label" parent="."]
+`);
+	});
+
+	test("renumbers resource ids both sides used for different files", () => {
+		const addNode = (id: string, file: string, name: string) =>
+			BASE.replace("load_steps=3", "load_steps=4")
+				.replace(
+					'id="2_b"]\n',
+					`id="2_b"]\n[ext_resource type="Texture2D" path="res://${file}.png" id="${id}"]\n`,
+				)
+				.concat(`\n[node name="${name}" type="Sprite2D" parent="."]\ntexture = ExtResource("${id}")\n`);
+		const result = mergeScenes(BASE, addNode("3_c", "sword", "Sword"), addNode("3_c", "shield", "Shield"));
+
+		expect(result.conflicts).to.deep.equal([]);
+		expect(result.renumbered).to.have.length(1);
+		const newId = result.renumbered[0].to;
+		expect(result.text).to.contain('[ext_resource type="Texture2D" path="res://sword.png" id="3_c"]');
+		expect(result.text).to.contain(`[ext_resource type="Texture2D" path="res://shield.png" id="${newId}"]`);
+		expect(result.text).to.contain(
+			`[node name="Shield" type="Sprite2D" parent="."]\ntexture = ExtResource("${newId}")`,
+		);
+		expect(result.text).to.contain("load_steps=5");
+	});
+
+	test("reports real conflicts and applies the chosen side", () => {
+		const ours = BASE.replace("speed = 100", "speed = 200");
+		const theirs = BASE.replace("speed = 100", "speed = 300").replace(
+			'path="res://hero.png"',
+			'path="res://hero2.png"',
+		);
+		const result = mergeScenes(BASE, ours, theirs);
+
+		expect(result.conflicts).to.deep.equal([
+			{ id: "node:.:property:speed", description: "Player: speed", base: "100", ours: "200", theirs: "300" },
+		]);
+		expect(result.text).to.contain("speed = 200");
+		expect(result.text).to.contain('path="res://hero2.png"');
+
+		const chosen = mergeScenes(BASE, ours, theirs, new Map([["node:.:property:speed", "theirs"]]));
+		expect(chosen.text).to.contain("speed = 300");
+	});
+
+	test("splits a file with conflict markers", () => {
+		const text = "a\n<<<<<<< HEAD\nb\n||||||| base\nc\n=======\nd\n>>>>>>> other\ne";
+		expect(splitConflictMarkers(text)).to.deep.equal({ ours: "a\nb\ne", theirs: "a\nd\ne", base: "a\nc\ne" });
+		expect(splitConflictMarkers("a\nb")).to.equal(undefined);
+	});
+});
@@ -0,0 +1,507 @@
+import type { ResourceRefValue, Section, VariantValue } from "./resource_ast";
+import { getAttributeString, valueAsString, walkValue } from "./resource_parser";
+import { SceneVersion } from "./scene_diff";
+import { SceneEditBuilder, generateResourceId } from "./scene_edits";
+import type { GDResource, Scene } from "./types";
+
+type Side = "base" | "ours" | "theirs";
+export type ConflictChoice = "ours" | "theirs";
+
+/** A change both sides made differently, left to the user */
+export interface MergeConflict {
+	/** Stable key, to pass the user's choice back to {@link mergeScenes} */
+	id: string;
+	/** What the conflict is about, e.g. `Player/Sprite: texture` */
+	description: string;
+	/** Each side's value, undefined when the side doesn't have it (property unset, node deleted) */
+	base?: string;
+	ours?: string;
+	theirs?: string;
+}
+
+export interface SceneMergeResult {
+	text: string;
+	conflicts: MergeConflict[];
+	/** Resource ids that were renumbered because both sides used them for different resources */
+	renumbered: { from: string; to: string }[];
+}
+
+/** One version of the file, read the same way the scene parser reads a Scene */
+interface MergeVersion extends Pick<Scene, "document" | "externalResources" | "subResources"> {
+	side: Side;
+	text: string;
+	values: SceneVersion;
+	header?: Section;
+	/** Mergeable sections: `[node]` by path ("node:Player/Sprite"), others such as `[resource]` by tag */
+	items: Map<string, Section>;
+	/** `[connection]` and `[editable]` sections, by their contents */
+	links: Map<string, Section>;
+}
+
+/** An attribute or property of the merged file, taken from one of the versions */
+interface MergedEntry {
+	name: string;
+	version: MergeVersion;
+	value: VariantValue;
+}
+
+interface MergedSection {
+	tag: string;
+	attributes: MergedEntry[];
+	properties: MergedEntry[];
+}
+
+function toResource(section: Section, text: string): GDResource {
+	return {
+		path: getAttributeString(section, "path"),
+		type: getAttributeString(section, "type"),
+		uid: getAttributeString(section, "uid"),
+		id: getAttributeString(section, "id"),
+		index: section.headerRange.start,
+		line: text.slice(0, section.headerRange.start).split("\n").length,
+		body: text.slice(section.range.start, section.range.end),
+		section,
+	};
+}
+
+function readVersion(side: Side, text: string): MergeVersion {
+	const builder = new SceneEditBuilder(text);
+	const version: MergeVersion = {
+		side,
+		text,
+		document: builder.document,
+		externalResources: new Map(),
+		subResources: new Map(),
+		values: new SceneVersion(builder),
+		header: builder.document.sections[0],
+		items: new Map(),
+		links: new Map(),
+	};
+	for (const node of builder.nodes) {
+		version.items.set(`node:${node.path}`, node.section);
+	}
+	for (const section of builder.document.sections.slice(1)) {
+		if (section.tag === "ext_resource") {
+			const resource = toResource(section, text);
+			version.externalResources.set(resource.id, resource);
+		} else if (section.tag === "sub_resource") {
+			const resource = toResource(section, text);
+			version.subResources.set(resource.id, resource);
+		} else if (section.tag === "connection" || section.tag === "editable") {
+			version.links.set(describeSection(version, section), section);
+		} else if (section.tag !== "node") {
+			version.items.set(section.tag, section);
+		}
+	}
+	return version;
+}
+
+function describeSection(version: MergeVersion, section: Section): string {
+	const attributes = section.attributes.map((a) => `${a.name}=${version.values.describe(a.value)}`);
+	const properties = section.properties.map((p) => `${p.key} = ${version.values.describe(p.value)}`);
+	return [`[${section.tag} ${attributes.join(" ")}]`, ...properties].join("\n");
+}
+
+/** Splits the text of a file with git conflict markers into both sides, and the base when diff3 markers have it */
+export function splitConflictMarkers(text: string): { ours: string; theirs: string; base?: string } | undefined {
+	const ours: string[] = [];
+	const theirs: string[] = [];
+	const base: string[] = [];
+	let hasBase = true;
+	let found = false;
+	let state: "both" | "ours" | "base" | "theirs" = "both";
+	let sawBase = false;
+
+	for (const line of text.split(/\r?\n/)) {
+		if (line.startsWith("<<<<<<<")) {
+			state = "ours";
+			sawBase = false;
+			found = true;
+		} else if (line.startsWith("|||||||") && state === "ours") {
+			state = "base";
+			sawBase = true;
+		} else if (line.startsWith("=======") && (state === "ours" || state === "base")) {
+			hasBase &&= sawBase;
+			state = "theirs";
+		} else if (line.startsWith(">>>>>>>") && state === "theirs") {
+			state = "both";
+		} else {
+			if (state === "both" || state === "ours") ours.push(line);
+			if (state === "both" || state === "theirs") theirs.push(line);
+			if (state === "both" || state === "base") base.push(line);
+		}
+	}
+	if (!found) {
+		return undefined;
+	}
+	return { ours: ours.join("\n"), theirs: theirs.join("\n"), base: hasBase ? base.join("\n") : undefined };
+}
+
+/**
+ * Three-way merge of two versions of a `.tscn`/`.tres` file, section by section rather than
+ * line by line. Nodes, properties, connections and resources changed on only one side are
+ * merged automatically; ext_resource and sub_resource ids that both sides used for different
+ * resources are renumbered. Changes both sides made differently are returned as conflicts,
+ * resolved with `choices` (ours by default).
+ *
+ * Without a base version, every difference between the sides is a conflict.
+ */
+export function mergeScenes(
+	baseText: string | undefined,
+	oursText: string,
+	theirsText: string,
+	choices: Map<string, ConflictChoice> = new Map(),
+): SceneMergeResult {
+	return new SceneMerger(baseText, oursText, theirsText, choices).merge();
+}
+
+class SceneMerger {
+	private base?: MergeVersion;
+	private ours: MergeVersion;
+	private theirs: MergeVersion;
+	private conflicts: MergeConflict[] = [];
+	private renumbered: { from: string; to: string }[] = [];
+	/** "side:kind:id" -> id in the merged file */
+	private finalIds = new Map<string, string>();
+
+	constructor(
+		baseText: string | undefined,
+		oursText: string,
+		theirsText: string,
+		private choices: Map<string, ConflictChoice>,
+	) {
+		this.base = baseText === undefined ? undefined : readVersion("base", baseText);
+		this.ours = readVersion("ours", oursText);
+		this.theirs = readVersion("theirs", theirsText);
+	}
+
+	public merge(): SceneMergeResult {
+		const items = this.mergeItems();
+		const links = this.mergeLinks();
+		const { ext, sub } = this.collectResources([...items, ...links]);
+		this.assignIds(ext, sub);
+
+		const extSections = ext.map(([version, id]) =>
+			this.copySection(version, version.externalResources.get(id).section),
+		);
+		const subSections = sub.map(([version, id]) => this.copySection(version, version.subResources.get(id).section));
+		const header = this.mergeHeader(ext.length + sub.length);
+
+		const groups = [
+			header ? this.render(header) : undefined,
+			extSections.map((s) => this.render(s)).join("\n"),
+			subSections.map((s) => this.render(s)).join("\n\n"),
+			items.map((s) => this.render(s)).join("\n\n"),
+			links.map((s) => this.render(s)).join("\n"),
+		];
+		const text = `${groups.filter(Boolean).join("\n\n")}\n`;
+		return { text, conflicts: this.conflicts, renumbered: this.renumbered };
+	}
+
+	/**
+	 * Decides which side's value to keep. Values are compared in their normalized form;
+	 * undefined means the side doesn't have the value.
+	 */
+	private pick(id: string, description: string, values: Partial<Record<Side, string>>): ConflictChoice {
+		if (values.ours === values.theirs) return "ours";
+		if (this.base && values.ours === values.base) return "theirs";
+		if (this.base && values.theirs === values.base) return "ours";
+		this.conflicts.push({ id, description, ...values });
+		return this.choices.get(id) ?? "ours";
+	}
+
+	private version(side: ConflictChoice): MergeVersion {
+		return side === "ours" ? this.ours : this.theirs;
+	}
+
+	/** A node and its descendants, to tell an unchanged subtree from an edited one */
+	private describeSubtree(version: MergeVersion, key: string): string | undefined {
+		if (!version.items.has(key)) {
+			return undefined;
+		}
+		const prefix = key === "node:." ? "node:" : `${key}/`;
+		return [...version.items]
+			.filter(([k]) => k === key || k.startsWith(prefix))
+			.map(([k, section]) => `${k}\n${describeSection(version, section)}`)
+			.join("\n");
+	}
+
+	/**
+	 * Merges `[node]` sections (and `[resource]` in .tres files), keeping our order and
+	 * placing sections only they have after the section that precedes them on their side.
+	 */
+	private mergeItems(): MergedSection[] {
+		const keys = [...this.ours.items.keys()];
+		let previous: string | undefined;
+		for (const key of this.theirs.items.keys()) {
+			if (!keys.includes(key)) {
+				keys.splice(previous === undefined ? 0 : keys.indexOf(previous) + 1, 0, key);
+			}
+			previous = key;
+		}
+		for (const key of this.base?.items.keys() ?? []) {
+			if (!keys.includes(key)) keys.push(key);
+		}
+
+		const merged = new Map<string, MergedSection>();
+		for (const key of keys) {
+			const section = this.ours.items.get(key) ?? this.theirs.items.get(key) ?? this.base?.items.get(key);
+			const label =
+				key === "node:."
+					? getAttributeString(section, "name")
+					: key.startsWith("node:")
+						? key.slice(5)
+						: `[${key}]`;
+			const inOurs = this.ours.items.has(key);
+			const inTheirs = this.theirs.items.has(key);
+			if (inOurs && inTheirs) {
+				const sections = {
+					base: this.base?.items.get(key),
+					ours: this.ours.items.get(key),
+					theirs: this.theirs.items.get(key),
+				};
+				merged.set(key, this.mergeSection(sections, key, label));
+				continue;
+			}
+			if (!inOurs && !inTheirs) {
+				continue;
+			}
+			const side = this.pick(`${key}:presence`, `${label} (deleted on one side)`, {
+				base: this.base && this.describeSubtree(this.base, key),
+				ours: this.describeSubtree(this.ours, key),
+				theirs: this.describeSubtree(this.theirs, key),
+			});
+			const kept = this.version(side).items.get(key);
+			if (kept) {
+				merged.set(key, this.copySection(this.version(side), kept));
+			}
+		}
+
+		// A node whose parent was deleted can't be kept
+		for (const key of merged.keys()) {
+			const path = key.startsWith("node:") && key.slice("node:".length);
+			if (path && path !== ".") {
+				const parent = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : ".";
+				if (!merged.has(`node:${parent}`)) merged.delete(key);
+			}
+		}
+		return [...merged.values()];
+	}
+
+	/** Merges a section both sides have, attribute by attribute and property by property */
+	private mergeSection(sections: Partial<Record<Side, Section>>, key: string, label: string): MergedSection {
+		const attributes = (side: Side) =>
+			(sections[side]?.attributes ?? []).map((a) => ({ name: a.name, value: a.value }));
+		const properties = (side: Side) =>
+			(sections[side]?.properties ?? []).map((p) => ({ name: p.key, value: p.value }));
+
+		return {
+			tag: sections.ours.tag,
+			attributes: this.mergeEntries(`${key}:attribute`, `${label} [%s]`, attributes),
+			properties: this.mergeEntries(`${key}:property`, `${label}: %s`, properties),
+		};
+	}
+
+	private mergeEntries(
+		id: string,
+		description: string,
+		entries: (side: Side) => { name: string; value: VariantValue }[],
+	): MergedEntry[] {
+		const versions = { base: this.base, ours: this.ours, theirs: this.theirs };
+		const names = [...entries("ours"), ...entries("theirs"), ...(this.base ? entries("base") : [])]
+			.map((e) => e.name)
+			.filter((name, index, all) => all.indexOf(name) === index);
+
+		const merged: MergedEntry[] = [];
+		for (const name of names) {
+			const values: Partial<Record<Side, string>> = {};
+			for (const side of ["base", "ours", "theirs"] as Side[]) {
+				const entry = versions[side] && entries(side).find((e) => e.name === name);
+				values[side] = entry ? versions[side].values.describe(entry.value) : undefined;
+			}
+			const side = this.pick(`${id}:${name}`, description.replace("%s", name), values);
+			const entry = entries(side).find((e) => e.name === name);
+			if (entry) {
+				merged.push({ name, version: this.version(side), value: entry.value });
+			}
+		}
+		return merged;
+	}
+
+	/** Connections and editable paths are sets: kept unless a side removed them */
+	private mergeLinks(): MergedSection[] {
+		const merged: MergedSection[] = [];
+		const keys = new Set([...this.ours.links.keys(), ...this.theirs.links.keys()]);
+		for (const key of keys) {
+			const inBase = this.base?.links.has(key) ?? false;
+			const inOurs = this.ours.links.has(key);
+			const inTheirs = this.theirs.links.has(key);
+			if ((inOurs && inTheirs) || !inBase) {
+				const version = inOurs ? this.ours : this.theirs;
+				merged.push(this.copySection(version, version.links.get(key)));
+			}
+		}
+		const tags = ["connection", "editable"];
+		return merged.sort((a, b) => tags.indexOf(a.tag) - tags.indexOf(b.tag));
+	}
+
+	private mergeHeader(resourceCount: number): MergedSection | undefined {
+		if (!this.ours.header) {
+			return undefined;
+		}
+		const sections = { base: this.base?.header, ours: this.ours.header, theirs: this.theirs.header };
+		const header = this.mergeSection(sections, "header", "File header");
+		// Godot counts one step per resource, plus one for the scene itself, so the sides' values don't matter
+		this.conflicts = this.conflicts.filter((c) => c.id !== "header:attribute:load_steps");
+		const loadSteps = header.attributes.find((a) => a.name === "load_steps");
+		if (loadSteps) {
+			const steps = resourceCount + 1;
+			loadSteps.value = {
+				kind: "number",
+				value: steps,
+				raw: String(steps),
+				isFloat: false,
+				range: { start: 0, end: 0 },
+			};
+		}
+		return header;
+	}
+
+	private copySection(version: MergeVersion, section: Section): MergedSection {
+		return {
+			tag: section.tag,
+			attributes: section.attributes.map((a) => ({ name: a.name, version, value: a.value })),
+			properties: section.properties.map((p) => ({ name: p.key, version, value: p.value })),
+		};
+	}
+
+	/**
+	 * The resources the merged sections use, as [version, id] pairs in file order. Sub-resources
+	 * come after the sub-resources they use, as Godot requires.
+	 */
+	private collectResources(sections: MergedSection[]): {
+		ext: [MergeVersion, string][];
+		sub: [MergeVersion, string][];
+	} {
+		const ext: [MergeVersion, string][] = [];
+		const sub: [MergeVersion, string][] = [];
+		const seen = new Set<string>();
+
+		const visit = (version: MergeVersion, value: VariantValue) => {
+			walkValue(value, (v) => {
+				if (v.kind !== "ext_resource" && v.kind !== "sub_resource") return;
+				const key = `${version.side}:${v.kind}:${v.id}`;
+				if (seen.has(key)) return;
+				seen.add(key);
+				if (v.kind === "ext_resource") {
+					if (version.externalResources.has(v.id)) ext.push([version, v.id]);
+					return;
+				}
+				const resource = version.subResources.get(v.id);
+				if (resource) {
+					for (const property of resource.section.properties) {
+						visit(version, property.value);
+					}
+					sub.push([version, v.id]);
+				}
+			});
+		};
+		for (const section of sections) {
+			for (const entry of [...section.attributes, ...section.properties]) {
+				visit(entry.version, entry.value);
+			}
+		}
+
+		const fileOrder = ([version, id]: [MergeVersion, string], map: "externalResources" | "subResources") =>
+			(version.side === "ours" ? 0 : 1e9) + version[map].get(id).index;
+		ext.sort((a, b) => fileOrder(a, "externalResources") - fileOrder(b, "externalResources"));
+		return { ext, sub };
+	}
+
+	/**
+	 * Gives every resource its id in the merged file. The same ext_resource (by path) keeps our id;
+	 * identical sub-resources are shared; an id both sides use for different resources is renumbered.
+	 */
+	private assignIds(ext: [MergeVersion, string][], sub: [MergeVersion, string][]) {
+		const assign = (kind: "ext_resource" | "sub_resource", resources: [MergeVersion, string][]) => {
+			const owners = new Map<string, string>();
+			const taken = () => [...owners.keys()];
+			for (const [version, id] of resources) {
+				const ref: ResourceRefValue = { kind, id, idRange: undefined, range: undefined };
+				const identity =
+					kind === "ext_resource"
+						? (version.values.resourcePath(id) ?? id)
+						: `${id}\n${version.values.describe(ref)}`;
+				const preferred =
+					kind === "ext_resource"
+						? ([...this.ours.externalResources.values()].find((r) => (r.path ?? r.uid) === identity)?.id ??
+							id)
+						: id;
+
+				let finalId = [...owners].find(([, owner]) => owner === identity)?.[0];
+				if (!finalId) {
+					finalId = owners.has(preferred) ? this.newId(kind, version, id, taken()) : preferred;
+					owners.set(finalId, identity);
+					if (finalId !== preferred) {
+						this.renumbered.push({ from: id, to: finalId });
+					}
+				}
+				this.finalIds.set(`${version.side}:${kind}:${id}`, finalId);
+			}
+		};
+		assign("ext_resource", ext);
+		assign("sub_resource", sub);
+	}
+
+	/** A fresh id in the style of the original: numbers for Godot 3, `3_abcde`/`Type_abcde` for Godot 4 */
+	private newId(kind: "ext_resource" | "sub_resource", version: MergeVersion, id: string, taken: string[]): string {
+		if (/^\d+$/.test(id)) {
+			return String(Math.max(0, ...taken.filter((t) => /^\d+$/.test(t)).map(Number)) + 1);
+		}
+		if (kind === "ext_resource") {
+			return generateResourceId(taken);
+		}
+		const type = version.subResources.get(id).type ?? "Resource";
+		let candidate: string;
+		do {
+			candidate = `${type}_${generateResourceId([]).split("_")[1]}`;
+		} while (taken.includes(candidate));
+		return candidate;
+	}
+
+	private render(section: MergedSection): string {
+		const attributes = section.attributes.map((a) => ` ${a.name}=${this.renderEntry(a, section.tag)}`);
+		const properties = section.properties.map((p) => `\n${p.name} = ${this.renderEntry(p, section.tag)}`);
+		return `[${section.tag}${attributes.join("")}]${properties.join("")}`;
+	}
+
+	/** The value as written in its version, with resource ids replaced by their merged ids */
+	private renderEntry(entry: MergedEntry, tag: string): string {
+		const { version, value } = entry;
+		if ((tag === "ext_resource" || tag === "sub_resource") && entry.name === "id") {
+			const id = valueAsString(value);
+			const finalId = this.finalIds.get(`${version.side}:${tag}:${id}`) ?? id;
+			return value.kind === "string" ? `"${finalId}"` : finalId;
+		}
+		if (value.kind === "number" && value.range.start === value.range.end) {
+			// load_steps, recomputed by mergeHeader
+			return value.raw;
+		}
+
+		const start = value.range.start;
+		let text = version.text.slice(start, value.range.end);
+		const refs: ResourceRefValue[] = [];
+		walkValue(value, (v) => {
+			if (v.kind === "ext_resource" || v.kind === "sub_resource") refs.push(v);
+		});
+		for (const ref of refs.sort((a, b) => b.idRange.start - a.idRange.start)) {
+			const finalId = this.finalIds.get(`${version.side}:${ref.kind}:${ref.id}`) ?? ref.id;
+			const quoted = version.text[ref.idRange.start] === '"';
+			text =
+				text.slice(0, ref.idRange.start - start) +
+				(quoted ? `"${finalId}"` : finalId) +
+				text.slice(ref.idRange.end - start);
+		}
+		return text;
+	}
+}
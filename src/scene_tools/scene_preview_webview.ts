@@ -6,15 +6,18 @@ import {
 	createLogger,
 	find_file,
 	get_configuration,
-	get_project_dir,
+	get_nonce,
 	make_docs_uri,
 	register_command,
 	set_context,
 	get_extension_uri,
 } from "../utils";
-import { SceneParser } from "./parser";
-import { searchNodes } from "./search";
-import { SceneNode, type Scene } from "./types";
+import { globals } from "../extension";
+import type { IndexChange } from "./project_index";
+import { SceneEditor, sceneNodeAt } from "./scene_editor";
+import { toScenePath } from "./scene_edits";
+import { parseSearchQuery, searchNodes } from "./search";
+import { SceneNode, type Scene, type SignalConnection } from "./types";
 
 const log = createLogger("scenes.preview.webview", { output: "Godot Scene Parser" });
 
@@ -35,6 +38,23 @@ interface SerializedNode {
 	children: SerializedNode[];
 	fromInstance: boolean;
 	isInstanced: boolean;
+	/** Declared in an instanced or inherited scene, so it can't be edited from this scene */
+	readOnly: boolean;
+	sourceScene: string;
+	groups: string[];
+	/** Signals of this node connected in the scene */
+	connections: SerializedConnection[];
+}
+
+interface SerializedConnection {
+	signal: string;
+	from: string;
+	to: string;
+	method: string;
+	/** Name of the node the method is called on */
+	target: string;
+	/** Why the connection would fail at runtime, e.g. the target method was removed */
+	problem?: string;
 }
 
 /**
@@ -49,11 +69,13 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 	private scenePreviewLocked = false;
 	private currentScene = "";
 	private sceneList: { fsPath: string; displayName: string; resPath: string }[] = [];
-	public parser = new SceneParser();
+	/** Node to reveal once the tree of the scene being loaded is sent */
+	private pendingReveal?: string;
+	public editor: SceneEditor;
 	public scene: Scene;
-	private watcher = vscode.workspace.createFileSystemWatcher("**/*.tscn");
 
 	constructor(private context: vscode.ExtensionContext) {
+		this.editor = new SceneEditor(context);
 		context.subscriptions.push(
 			register_command("scenePreview.lock", this.lock_preview.bind(this)),
 			register_command("scenePreview.unlock", this.unlock_preview.bind(this)),
@@ -67,10 +89,7 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 			register_command("scenePreview.openDocumentation", this.open_documentation.bind(this)),
 			register_command("scenePreview.refresh", this.refresh.bind(this)),
 			vscode.window.onDidChangeActiveTextEditor(this.text_editor_changed.bind(this)),
-			this.watcher.onDidChange(this.on_file_changed.bind(this)),
-			this.watcher.onDidCreate(this.on_scene_created_or_deleted.bind(this)),
-			this.watcher.onDidDelete(this.on_scene_created_or_deleted.bind(this)),
-			this.watcher,
+			globals.projectIndex.onDidChange(this.on_index_changed.bind(this)),
 		);
 
 		// Restore locked scene from workspace state
@@ -128,11 +147,14 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 				this.handleNodeClick(message.node);
 				break;
 			case "contextMenu":
-				this.handleContextMenu(message.node, message.action);
+				this.handleContextMenu(message.node, message.action, message.connection);
 				break;
 			case "selectScene":
 				this.handleSelectScene(message.fsPath);
 				break;
+			case "reparentNode":
+				this.handleReparent(message.node, message.target);
+				break;
 			case "expandNode":
 				// Handled in WebView, no action needed
 				break;
@@ -162,7 +184,9 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 		}
 
 		// Perform search and send filtered results
-		const results = searchNodes(this.scene, query);
+		const results = searchNodes(this.scene, query, {
+			getBaseClass: (className) => globals.docsProvider?.classInfo.get(className)?.inherits || undefined,
+		});
 		const flatNodes: SerializedNode[] = results.map((r) => ({
 			id: r.node.path,
 			label: r.node.label as string,
@@ -177,6 +201,10 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 			children: [],
 			fromInstance: r.node.contextValue?.includes("fromInstance") ?? false,
 			isInstanced: r.node.contextValue?.includes("instanced") ?? false,
+			readOnly: r.node.contextValue?.includes("fromInstance") ?? false,
+			sourceScene: r.node.sourceScene,
+			groups: r.node.groups,
+			connections: this.serializeConnections(r.node),
 		}));
 
 		// Get icon base URIs for the WebView
@@ -191,19 +219,27 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 			type: "searchResults",
 			results: flatNodes,
 			query: query,
+			// Only the plain words are fuzzy-matched, filters such as `group:` aren't highlighted
+			highlight: parseSearchQuery(query).text,
 			darkIconsBaseUri: darkIconsUri.toString(),
 			lightIconsBaseUri: lightIconsUri.toString(),
 		});
 	}
 
 	private handleNodeClick(nodeData: any): void {
-		// Could be used for selection state, currently no action needed
 		log.debug("Node clicked:", nodeData);
+
+		// Nodes expanded from an instanced scene live in another file: show them there
+		const node = this.scene?.nodes.get(nodeData.path);
+		if (node?.sourceScene && node.sourceScene !== this.scene.path) {
+			this.go_to_definition(node);
+		}
 	}
 
-	private handleContextMenu(nodeData: any, action: string): void {
+	private handleContextMenu(nodeData: any, action: string, connectionData?: SerializedConnection): void {
 		const node = this.scene?.nodes.get(nodeData.path);
 		if (!node) return;
+		const connection = connectionData && this.findConnection(connectionData);
 
 		switch (action) {
 			case "copyNodePath":
@@ -224,6 +260,80 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 			case "openDocumentation":
 				this.open_documentation(node);
 				break;
+			case "addChildNode":
+				this.editScene((scene) => this.editor.addChildNode(scene, node));
+				break;
+			case "renameNode":
+				this.editScene((scene) => this.editor.renameNode(scene, node));
+				break;
+			case "duplicateNode":
+				this.editScene((scene) => this.editor.duplicateNode(scene, node));
+				break;
+			case "deleteNode":
+				this.editScene((scene) => this.editor.deleteNode(scene, node));
+				break;
+			case "toggleUniqueName":
+				this.editScene((scene) => this.editor.toggleUniqueName(scene, node));
+				break;
+			case "attachScript":
+				this.editScene((scene) => this.editor.attachScript(scene, node));
+				break;
+			case "detachScript":
+				this.editScene((scene) => this.editor.detachScript(scene, node));
+				break;
+			case "connectSignal":
+				this.editScene((scene) => this.editor.connectSignal(scene, this.scene, node));
+				break;
+			case "goToHandler":
+				if (connection) this.editor.goToSignalHandler(this.scene, connection);
+				break;
+			case "disconnectSignal":
+				if (connection) this.editScene((scene) => this.editor.disconnectSignal(scene, connection));
+				break;
+		}
+	}
+
+	private findConnection(data: SerializedConnection): SignalConnection | undefined {
+		return this.scene?.connections.find(
+			(c) => c.signal === data.signal && c.from === data.from && c.to === data.to && c.method === data.method,
+		);
+	}
+
+	private serializeConnections(node: SceneNode): SerializedConnection[] {
+		const from = toScenePath(node.relativePath);
+		return (this.scene?.connections ?? [])
+			.filter((c) => c.from === from)
+			.map((c) => ({
+				signal: c.signal,
+				from: c.from,
+				to: c.to,
+				method: c.method,
+				target: (sceneNodeAt(this.scene, c.to)?.label as string) ?? c.to,
+				problem: this.editor.findSignalHandler(this.scene, c).problem,
+			}));
+	}
+
+	private handleReparent(nodeData: any, targetData: any): void {
+		const node = this.scene?.nodes.get(nodeData?.path);
+		const target = this.scene?.nodes.get(targetData?.path);
+		if (!node || !target) return;
+
+		this.editScene((scene) => this.editor.reparentNode(scene, node, target));
+	}
+
+	/**
+	 * Runs a structural edit against the previewed scene and refreshes the tree once it's written.
+	 */
+	private async editScene(edit: (sceneFsPath: string) => Promise<boolean>): Promise<void> {
+		if (!this.currentScene) return;
+
+		try {
+			if (await edit(this.currentScene)) {
+				await this.refresh();
+			}
+		} catch (error) {
+			log.error("Failed to edit scene:", error);
+			vscode.window.showErrorMessage(`Failed to edit scene: ${error}`);
 		}
 	}
 
@@ -237,41 +347,43 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 		return this.currentScene;
 	}
 
-	public async on_file_changed(uri: vscode.Uri): Promise<void> {
-		if (!uri.fsPath.endsWith(".tscn")) {
-			return;
+	private on_index_changed(changes: IndexChange[]): void {
+		const scenes = changes.filter((c) => c.fsPath.endsWith(".tscn"));
+		if (scenes.some((c) => c.type !== "changed")) {
+			this.scanWorkspaceScenes().then(() => this.sendSceneList());
 		}
-		setTimeout(async () => {
-			if (uri.fsPath === this.currentScene) {
-				this.refresh();
-			} else {
-				const document = await vscode.workspace.openTextDocument(uri);
-				this.parser.parse_scene(document);
+		if (scenes.some((c) => c.fsPath === this.currentScene || this.sceneDependsOn(c.fsPath))) {
+			this.refresh();
+		} else if (changes.some((c) => this.scriptReceivesSignals(c.resPath))) {
+			// Connections are flagged when their method is missing, which depends on the script
+			this.sendTreeData();
+		}
+	}
+
+	/**
+	 * Whether the previewed scene shows nodes declared in the given scene file,
+	 * i.e. it instances or inherits from it, directly or through other scenes.
+	 */
+	private sceneDependsOn(fsPath: string): boolean {
+		for (const node of this.scene?.nodes.values() ?? []) {
+			if (node.sourceScene === fsPath) {
+				return true;
 			}
-		}, 20);
+		}
+		return false;
 	}
 
-	private async on_scene_created_or_deleted(_uri: vscode.Uri): Promise<void> {
-		await this.scanWorkspaceScenes();
-		this.sendSceneList();
+	private scriptReceivesSignals(resPath: string): boolean {
+		return (this.scene?.connections ?? []).some((c) => sceneNodeAt(this.scene, c.to)?.scriptPath === resPath);
 	}
 
 	private async scanWorkspaceScenes(): Promise<void> {
-		const uris = await vscode.workspace.findFiles("**/*.tscn");
-		const projectDir = await get_project_dir();
-
-		const entries: { fsPath: string; fileName: string; resPath: string }[] = [];
-		for (const uri of uris) {
-			const fileName = path.basename(uri.fsPath);
-			let resPath = "";
-			if (projectDir) {
-				const relative = path.relative(projectDir, uri.fsPath).split(path.sep).join(path.posix.sep);
-				resPath = `res://${relative}`;
-			} else {
-				resPath = uri.fsPath;
-			}
-			entries.push({ fsPath: uri.fsPath, fileName, resPath });
-		}
+		await globals.projectIndex.ready;
+		const entries = globals.projectIndex.getScenes().map((scene) => ({
+			fsPath: scene.fsPath,
+			fileName: path.basename(scene.fsPath),
+			resPath: scene.resPath,
+		}));
 
 		// Detect duplicate filenames for disambiguation
 		const nameCount = new Map<string, number>();
@@ -314,6 +426,16 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 		this.refresh();
 	}
 
+	/**
+	 * Shows a scene in the preview, even when it's locked to another one,
+	 * with one of its nodes revealed and selected.
+	 */
+	public async revealNode(fsPath: string, nodePath: string): Promise<void> {
+		this.pendingReveal = nodePath;
+		await vscode.commands.executeCommand(`${ScenePreviewWebviewProvider.viewType}.focus`);
+		await this.handleSelectScene(fsPath);
+	}
+
 	public async text_editor_changed(): Promise<void> {
 		if (this.scenePreviewLocked) {
 			return;
@@ -365,7 +487,7 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 
 		const document = await vscode.workspace.openTextDocument(this.currentScene);
 
-		this.scene = await this.parser.parse_scene_recursive(document);
+		this.scene = await globals.projectIndex.parser.parse_scene_recursive(document);
 		this.sendTreeData();
 	}
 
@@ -389,6 +511,10 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 			children: node.children.map(serializeNode),
 			fromInstance: node.contextValue?.includes("fromInstance") ?? false,
 			isInstanced: node.contextValue?.includes("instanced") ?? false,
+			readOnly: node.contextValue?.includes("fromInstance") ?? false,
+			sourceScene: node.sourceScene,
+			groups: node.groups,
+			connections: this.serializeConnections(node),
 		});
 
 		const treeData = serializeNode(this.scene.root);
@@ -409,6 +535,11 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 			darkIconsBaseUri: darkIconsUri.toString(),
 			lightIconsBaseUri: lightIconsUri.toString(),
 		});
+
+		if (this.pendingReveal && this.viewReady && this.scene.nodes.has(this.pendingReveal)) {
+			this.postMessage({ type: "revealNode", path: this.pendingReveal });
+			this.pendingReveal = undefined;
+		}
 	}
 
 	private lock_preview(): void {
@@ -446,10 +577,9 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 	}
 
 	private async open_script(item: SceneNode): Promise<void> {
-		const resource = this.scene.externalResources.get(item.scriptId);
-		if (!resource) return;
+		if (!item.scriptPath) return;
 
-		const uri = await convert_resource_path_to_uri(resource.path);
+		const uri = await convert_resource_path_to_uri(item.scriptPath);
 		if (uri) {
 			vscode.window.showTextDocument(uri, { preview: true });
 		}
@@ -463,19 +593,16 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 	}
 
 	private async open_main_script(): Promise<void> {
-		if (this.currentScene && this.scene?.root?.hasScript) {
-			const resource = this.scene.externalResources.get(this.scene.root.scriptId);
-			if (resource) {
-				const uri = await convert_resource_path_to_uri(resource.path);
-				if (uri) {
-					vscode.window.showTextDocument(uri, { preview: true });
-				}
+		if (this.currentScene && this.scene?.root?.scriptPath) {
+			const uri = await convert_resource_path_to_uri(this.scene.root.scriptPath);
+			if (uri) {
+				vscode.window.showTextDocument(uri, { preview: true });
 			}
 		}
 	}
 
 	private async go_to_definition(item: SceneNode): Promise<void> {
-		const document = await vscode.workspace.openTextDocument(this.currentScene);
+		const document = await vscode.workspace.openTextDocument(item.sourceScene ?? this.currentScene);
 		const start = document.positionAt(item.position);
 		const end = document.positionAt(item.position + item.text.length);
 		const range = new vscode.Range(start, end);
@@ -487,13 +614,16 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 	}
 
 	private getHtmlContent(webview: vscode.Webview): string {
-		const nonce = getNonce();
+		const nonce = get_nonce();
 		const stylesUri = webview.asWebviewUri(
 			vscode.Uri.joinPath(this.context.extensionUri, "media", "scene_preview", "styles.css")
 		);
 		const scriptUri = webview.asWebviewUri(
 			vscode.Uri.joinPath(this.context.extensionUri, "media", "scene_preview", "main.js")
 		);
+		const iconsScriptUri = webview.asWebviewUri(
+			vscode.Uri.joinPath(this.context.extensionUri, "media", "scene_preview", "node_icons.js")
+		);
 		const codiconsUri = webview.asWebviewUri(
 			vscode.Uri.joinPath(this.context.extensionUri, "node_modules", "@vscode/codicons", "dist", "codicon.css")
 		);
@@ -524,6 +654,7 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 					id="searchInput"
 					class="search-input"
 					placeholder="Search nodes..."
+					title="Search by name or type, or filter with script:, group:, prop:name=value, signal:, unique: and type:Class+"
 					autocomplete="off"
 					spellcheck="false"
 				>
@@ -556,17 +687,9 @@ export class ScenePreviewWebviewProvider implements vscode.WebviewViewProvider {
 		</div>
 	</div>
 	<div id="contextMenu" class="context-menu"></div>
+	<script nonce="${nonce}" src="${iconsScriptUri}"></script>
 	<script nonce="${nonce}" src="${scriptUri}"></script>
 </body>
 </html>`;
 	}
 }
-
-function getNonce(): string {
-	let text = "";
-	const possible = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
-	for (let i = 0; i < 32; i++) {
-		text += possible.charAt(Math.floor(Math.random() * possible.length));
-	}
-	return text;
-}
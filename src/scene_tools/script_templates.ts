@@ -0,0 +1,94 @@
+/**
+ * Default script templates, matching the ones the Godot editor's "Attach Script" dialog creates.
+ */
+
+export type ScriptLanguage = "csharp" | "gdscript";
+
+export const SCRIPT_EXTENSIONS: Record<ScriptLanguage, string> = {
+	csharp: "cs",
+	gdscript: "gd",
+};
+
+/** The language of a script, from its file extension */
+export function scriptLanguage(scriptPath: string): ScriptLanguage | undefined {
+	const extension = scriptPath.slice(scriptPath.lastIndexOf(".") + 1).toLowerCase();
+	return (Object.keys(SCRIPT_EXTENSIONS) as ScriptLanguage[]).find((lang) => SCRIPT_EXTENSIONS[lang] === extension);
+}
+
+export function csharpScriptTemplate(className: string, baseClass: string, godot3 = false): string {
+	const partial = godot3 ? "" : "partial ";
+	const deltaType = godot3 ? "float" : "double";
+	return `using Godot;
+using System;
+
+public ${partial}class ${className} : ${baseClass}
+{
+	// Called when the node enters the scene tree for the first time.
+	public override void _Ready()
+	{
+	}
+
+	// Called every frame. 'delta' is the elapsed time since the previous frame.
+	public override void _Process(${deltaType} delta)
+	{
+	}
+}
+`;
+}
+
+export function gdscriptTemplate(baseClass: string, godot3 = false): string {
+	const returnType = godot3 ? "" : " -> void";
+	const deltaType = godot3 ? "" : ": float";
+	return `extends ${baseClass}
+
+
+# Called when the node enters the scene tree for the first time.
+func _ready()${returnType}:
+	pass # Replace with function body.
+
+
+# Called every frame. 'delta' is the elapsed time since the previous frame.
+func _process(delta${deltaType})${returnType}:
+	pass
+`;
+}
+
+/** A signal parameter, typed with its Godot (GDScript) type when known */
+export interface SignalArgument {
+	name: string;
+	type?: string;
+}
+
+/** The C# type Godot's source generators use for a GDScript/Variant type */
+export function csharpType(type: string | undefined, godot3 = false): string {
+	switch (type) {
+		case undefined:
+		case "":
+		case "Variant":
+			return godot3 ? "object" : "Variant";
+		case "int":
+			return godot3 ? "int" : "long";
+		case "float":
+			return godot3 ? "float" : "double";
+		case "String":
+			return "string";
+		case "Array":
+			return "Godot.Collections.Array";
+		case "Dictionary":
+			return "Godot.Collections.Dictionary";
+		default:
+			return type;
+	}
+}
+
+/** A signal handler as the editor's "Connect a Signal" dialog writes it, indented with `indent` */
+export function csharpSignalHandler(method: string, args: SignalArgument[], indent: string, godot3 = false): string {
+	const parameters = args.map((arg) => `${csharpType(arg.type, godot3)} ${arg.name}`).join(", ");
+	return `${indent}private void ${method}(${parameters})\n${indent}{\n${indent}}\n`;
+}
+
+export function gdscriptSignalHandler(method: string, args: SignalArgument[], indent: string, godot3 = false): string {
+	const parameters = args.map((arg) => (arg.type && !godot3 ? `${arg.name}: ${arg.type}` : arg.name)).join(", ");
+	const returnType = godot3 ? "" : " -> void";
+	return `func ${method}(${parameters})${returnType}:\n${indent}pass # Replace with function body.\n`;
+}
@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import { getAttribute, getAttributeString, parseResourceText, valueAsStringArray } from "./resource_parser";
+import { parseSearchQuery, readSceneNodes, searchNodes, searchProjectNodes } from "./search";
+import type { Scene, SceneNode } from "./types";
+
+const SCENE = `[gd_scene load_steps=2 format=3]
+
+[ext_resource type="Script" path="res://ui/main_menu.gd" id="1_a"]
+
+[node name="MainMenu" type="Control"]
+script = ExtResource("1_a")
+
+[node name="Play" type="Button" parent="." groups=["menu_buttons"]]
+unique_name_in_owner = true
+text = "Play Game"
+
+[node name="Quit" type="Button" parent="." groups=["menu_buttons"]]
+visible = false
+text = "Quit"
+
+[node name="Title" type="Label" parent="."]
+text = "My Game"
+
+[connection signal="pressed" from="Play" to="." method="_on_play_pressed"]
+`;
+
+const BASE_CLASSES: Record<string, string> = { Button: "BaseButton", BaseButton: "Control", Label: "Control" };
+
+/** A Scene as the parser builds it, without the vscode tree items */
+function buildScene(text: string): Scene {
+	const document = parseResourceText(text);
+	const nodes = new Map<string, SceneNode>();
+	for (const section of document.sections.filter((s) => s.tag === "node")) {
+		const name = getAttributeString(section, "name");
+		const parent = getAttributeString(section, "parent");
+		const relativePath = parent === undefined ? "" : parent === "." ? name : `${parent}/${name}`;
+		const script = section.properties.some((p) => p.key === "script");
+		nodes.set(relativePath || name, {
+			label: name,
+			className: getAttributeString(section, "type"),
+			relativePath,
+			section,
+			unique: section.properties.some((p) => p.key === "unique_name_in_owner"),
+			hasScript: script,
+			scriptPath: script ? "res://ui/main_menu.gd" : undefined,
+			groups: valueAsStringArray(getAttribute(section, "groups")),
+		} as SceneNode);
+	}
+	return { path: "/project/main_menu.tscn", document, nodes } as Scene;
+}
+
+function search(query: string): string[] {
+	const options = { getBaseClass: (name: string) => BASE_CLASSES[name] };
+	return searchNodes(buildScene(SCENE), query, options).map((r) => r.node.label as string);
+}
+
+suite("searchNodes", () => {
+	test("parses filters and quoted values", () => {
+		expect(parseSearchQuery('play type:Control+ prop:text="Play Game" other:x')).to.deep.equal({
+			text: "play other:x",
+			filters: [
+				{ kind: "type", value: "Control", includeSubclasses: true },
+				{ kind: "prop", value: "text", propertyValue: "Play Game" },
+			],
+		});
+	});
+
+	test("filters by type, including subclasses with +", () => {
+		expect(search("type:Control")).to.deep.equal(["MainMenu"]);
+		expect(search("type:BaseButton+")).to.deep.equal(["Play", "Quit"]);
+		expect(search("type:Control+")).to.deep.equal(["MainMenu", "Play", "Quit", "Title"]);
+	});
+
+	test("filters by script, group, property, signal and unique name", () => {
+		expect(search("script:main_menu")).to.deep.equal(["MainMenu"]);
+		expect(search("group:menu_buttons")).to.deep.equal(["Play", "Quit"]);
+		expect(search("prop:visible=false")).to.deep.equal(["Quit"]);
+		expect(search('prop:text="my game"')).to.deep.equal(["Title"]);
+		expect(search("signal:pressed")).to.deep.equal(["Play"]);
+		expect(search("unique:")).to.deep.equal(["Play"]);
+	});
+
+	test("combines filters with fuzzy text", () => {
+		expect(search("group:menu_buttons qt")).to.deep.equal(["Quit"]);
+		expect(search("type:Label+ pl")).to.deep.equal([]);
+	});
+});
+
+suite("searchProjectNodes", () => {
+	test("reads the nodes of a scene file", () => {
+		const nodes = readSceneNodes(SCENE);
+		expect(nodes.map((n) => n.path)).to.deep.equal([
+			"MainMenu",
+			"MainMenu/Play",
+			"MainMenu/Quit",
+			"MainMenu/Title",
+		]);
+		expect(nodes[0]).to.include({ relativePath: "", className: "Control", script: "res://ui/main_menu.gd" });
+		expect(nodes[1].groups).to.deep.equal(["menu_buttons"]);
+	});
+
+	test("matches names before classes, scripts and groups", () => {
+		const nodes = readSceneNodes(SCENE);
+		const results = searchProjectNodes(nodes, "menu");
+		expect(results.map((r) => [r.node.name, r.matchType])).to.deep.equal([
+			["MainMenu", "label"],
+			["Play", "group"],
+			["Quit", "group"],
+		]);
+		expect(searchProjectNodes(nodes, "btn").map((r) => r.node.name)).to.deep.equal(["Play", "Quit"]);
+	});
+});
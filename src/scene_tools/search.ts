@@ -1,3 +1,13 @@
+import type { Section } from "./resource_ast";
+import {
+	formatVariant,
+	getAttribute,
+	getAttributeString,
+	getProperty,
+	parseResourceText,
+	valueAsString,
+	valueAsStringArray,
+} from "./resource_parser";
 import type { Scene, SceneNode } from "./types";
 
 /**
@@ -6,7 +16,77 @@ import type { Scene, SceneNode } from "./types";
 export interface FuzzySearchResult {
 	node: SceneNode;
 	score: number;
-	matchType: "label" | "class" | "both";
+	/** "filter" when the query only has filters, so every node that passes them matches */
+	matchType: "label" | "class" | "both" | "filter";
+}
+
+/**
+ * A `key:value` term of a search query:
+ * - `script:Player` - the attached script's path contains "Player"
+ * - `group:enemies` - the node is in the "enemies" group
+ * - `prop:visible=false` - the node sets `visible` to `false` (`prop:visible` - sets it at all)
+ * - `signal:pressed` - the node's `pressed` signal is connected
+ * - `unique:` - the node has a scene-unique name (%Name)
+ * - `type:Control` - the node is a Control, `type:Control+` also matches classes inheriting Control
+ */
+export interface SearchFilter {
+	kind: "script" | "group" | "prop" | "signal" | "unique" | "type";
+	value: string;
+	/** `prop:` filters: the expected value, undefined to only require the property */
+	propertyValue?: string;
+	/** `type:` filters ending with `+` */
+	includeSubclasses?: boolean;
+}
+
+export interface SearchQuery {
+	/** The words that aren't filters, fuzzy-matched against node names and classes */
+	text: string;
+	filters: SearchFilter[];
+}
+
+export interface SearchOptions {
+	/**
+	 * Returns the base class of an engine class, for `type:Name+` filters.
+	 * Without it, `+` only matches the class itself.
+	 */
+	getBaseClass?: (className: string) => string | undefined;
+}
+
+const FILTER_KINDS: SearchFilter["kind"][] = ["script", "group", "prop", "signal", "unique", "type"];
+
+/**
+ * Splits a search query into filters and plain text. Values can be quoted to include
+ * spaces (`prop:text="Game Over"`); words with an unknown `key:` are plain text.
+ *
+ * @param query The search query, e.g. "type:Button+ signal:pressed play"
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+	const words: string[] = [];
+	const filters: SearchFilter[] = [];
+
+	for (const term of query.match(/(?:[^\s"]+|"[^"]*"?)+/g) ?? []) {
+		const separator = term.indexOf(":");
+		const kind = term.slice(0, separator).toLowerCase() as SearchFilter["kind"];
+		if (separator === -1 || !FILTER_KINDS.includes(kind)) {
+			words.push(term);
+			continue;
+		}
+
+		const value = term.slice(separator + 1).replace(/"/g, "");
+		if (kind === "prop") {
+			const equals = value.indexOf("=");
+			filters.push({
+				kind,
+				value: equals === -1 ? value : value.slice(0, equals),
+				propertyValue: equals === -1 ? undefined : value.slice(equals + 1),
+			});
+		} else if (kind === "type" && value.endsWith("+")) {
+			filters.push({ kind, value: value.slice(0, -1), includeSubclasses: true });
+		} else {
+			filters.push({ kind, value });
+		}
+	}
+	return { text: words.join(" "), filters };
 }
 
 /**
@@ -71,31 +151,173 @@ export function scoreFuzzyMatch(text: string, query: string): number {
 }
 
 /**
- * Searches scene nodes with fuzzy matching on label and className.
+ * Levenshtein distance: the number of single character insertions, deletions and
+ * substitutions turning `a` into `b`.
+ */
+export function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/**
+ * Whether a node is, or inherits from, the given class.
+ */
+function isClassOrSubclass(
+	className: string,
+	filter: SearchFilter,
+	options: SearchOptions,
+): boolean {
+	const expected = filter.value.toLowerCase();
+	const visited = new Set<string>();
+	let current = className;
+	while (current && !visited.has(current)) {
+		if (current.toLowerCase() === expected) {
+			return true;
+		}
+		if (!filter.includeSubclasses || !options.getBaseClass) {
+			return false;
+		}
+		visited.add(current);
+		current = options.getBaseClass(current);
+	}
+	return false;
+}
+
+/**
+ * The signals connected from each node of the scene, by the node's path
+ * relative to the scene root as used in `[connection]` sections.
+ */
+function collectConnectedSignals(scene: Scene): Map<string, Set<string>> {
+	const signals = new Map<string, Set<string>>();
+	for (const section of scene.document?.sections ?? []) {
+		if (section.tag !== "connection") {
+			continue;
+		}
+		const from = getAttributeString(section, "from");
+		const signal = getAttributeString(section, "signal");
+		if (from === undefined || !signal) {
+			continue;
+		}
+		const path = from === "." ? "" : from;
+		if (!signals.has(path)) {
+			signals.set(path, new Set());
+		}
+		signals.get(path).add(signal.toLowerCase());
+	}
+	return signals;
+}
+
+function propertyMatches(
+	section: Section | undefined,
+	filter: SearchFilter,
+): boolean {
+	const key = filter.value.toLowerCase();
+	const property = section?.properties.find(
+		(p) => p.key.toLowerCase() === key,
+	);
+	if (!property) {
+		return false;
+	}
+	if (filter.propertyValue === undefined) {
+		return true;
+	}
+	const expected = filter.propertyValue.toLowerCase();
+	return (
+		formatVariant(property.value).toLowerCase() === expected ||
+		valueAsString(property.value)?.toLowerCase() === expected
+	);
+}
+
+function matchesFilter(
+	scene: Scene,
+	node: SceneNode,
+	filter: SearchFilter,
+	options: SearchOptions,
+	signals: Map<string, Set<string>>,
+): boolean {
+	const value = filter.value.toLowerCase();
+	switch (filter.kind) {
+		case "script":
+			return (
+				node.hasScript &&
+				(node.scriptPath ?? "").toLowerCase().includes(value)
+			);
+		case "group":
+			return node.groups.some((group) => group.toLowerCase() === value);
+		case "prop":
+			return propertyMatches(node.section, filter);
+		case "signal":
+			// Nodes from instanced scenes are connected in their own scene file
+			return (
+				(!node.sourceScene || node.sourceScene === scene.path) &&
+				(signals.get(node.relativePath)?.has(value) ?? false)
+			);
+		case "unique":
+			return node.unique;
+		case "type":
+			return isClassOrSubclass(node.className, filter, options);
+	}
+}
+
+/**
+ * Searches scene nodes with fuzzy matching on label and className,
+ * narrowed down by the query's filters (see {@link parseSearchQuery}).
  *
  * @param scene The scene containing nodes to search
  * @param query The search query
+ * @param options Class hierarchy lookup for `type:Name+` filters
  * @returns Sorted array of matching results (best matches first)
  */
-export function searchNodes(scene: Scene, query: string): FuzzySearchResult[] {
+export function searchNodes(
+	scene: Scene,
+	query: string,
+	options: SearchOptions = {},
+): FuzzySearchResult[] {
 	if (!query.trim() || !scene?.nodes) {
 		return [];
 	}
 
-	const regex = createFuzzyRegex(query);
+	const { text, filters } = parseSearchQuery(query);
+	const regex = text ? createFuzzyRegex(text) : undefined;
+	const signals = collectConnectedSignals(scene);
 	const results: FuzzySearchResult[] = [];
 
 	for (const node of scene.nodes.values()) {
+		if (
+			!filters.every((filter) =>
+				matchesFilter(scene, node, filter, options, signals),
+			)
+		) {
+			continue;
+		}
+
+		if (!regex) {
+			// Filters only: keep the scene order
+			results.push({ node, score: 0, matchType: "filter" });
+			continue;
+		}
+
 		const nodeLabel = node.label as string;
 		const labelMatch = regex.test(nodeLabel);
 		const classMatch = regex.test(node.className);
 
 		if (labelMatch || classMatch) {
 			const labelScore = labelMatch
-				? scoreFuzzyMatch(nodeLabel, query)
+				? scoreFuzzyMatch(nodeLabel, text)
 				: 999;
 			const classScore = classMatch
-				? scoreFuzzyMatch(node.className, query)
+				? scoreFuzzyMatch(node.className, text)
 				: 999;
 
 			// Determine match type
@@ -126,6 +348,137 @@ export function searchNodes(scene: Scene, query: string): FuzzySearchResult[] {
 	return results.sort((a, b) => a.score - b.score);
 }
 
+/**
+ * A node of a scene file, read without building a full Scene, for searching
+ * across every scene of the project
+ */
+export interface ProjectNode {
+	name: string;
+	className: string;
+	/** Path as the Scene Preview shows it, starting with the root's name */
+	path: string;
+	/** Path relative to the scene root, empty for the root itself */
+	relativePath: string;
+	/** res:// path of the attached script */
+	script?: string;
+	groups: string[];
+}
+
+export interface ProjectSearchResult<T extends ProjectNode> {
+	node: T;
+	score: number;
+	matchType: "label" | "class" | "script" | "group";
+}
+
+/**
+ * Reads the nodes declared in a scene file. Nodes of instanced scenes are left out:
+ * they are found in their own scene.
+ *
+ * @param text The contents of a .tscn file
+ */
+export function readSceneNodes(text: string): ProjectNode[] {
+	const document = parseResourceText(text);
+	const resourcePaths = new Map<string, string>();
+	const nodes: ProjectNode[] = [];
+	let root = "";
+
+	for (const section of document.sections) {
+		if (section.tag === "ext_resource") {
+			resourcePaths.set(
+				getAttributeString(section, "id"),
+				getAttributeString(section, "path"),
+			);
+			continue;
+		}
+		if (section.tag !== "node") {
+			continue;
+		}
+
+		const name = getAttributeString(section, "name") ?? "";
+		const parent = getAttributeString(section, "parent");
+		let relativePath = "";
+		if (parent === undefined) {
+			root = name;
+		} else {
+			relativePath = parent === "." ? name : `${parent}/${name}`;
+		}
+
+		const script = getProperty(section, "script")?.value;
+		const instance = getAttribute(section, "instance");
+		const instancePath =
+			instance?.kind === "ext_resource" ? resourcePaths.get(instance.id) : undefined;
+		nodes.push({
+			name,
+			// Instanced scenes are shown by their file name, as in the scene dock
+			className:
+				getAttributeString(section, "type") ??
+				instancePath?.split("/").pop() ??
+				"Node",
+			path: relativePath ? `${root}/${relativePath}` : root,
+			relativePath,
+			script:
+				script?.kind === "ext_resource" ? resourcePaths.get(script.id) : undefined,
+			groups: valueAsStringArray(getAttribute(section, "groups")),
+		});
+	}
+	return nodes;
+}
+
+/**
+ * Fuzzy-matches nodes from any number of scenes by name, class, script file
+ * name or group, scored like {@link searchNodes}.
+ *
+ * @param nodes The nodes to search, e.g. from {@link readSceneNodes}
+ * @param query The search query
+ * @returns Sorted array of matching results (best matches first)
+ */
+export function searchProjectNodes<T extends ProjectNode>(
+	nodes: T[],
+	query: string,
+): ProjectSearchResult<T>[] {
+	const text = query.trim();
+	if (!text) {
+		return [];
+	}
+
+	const regex = createFuzzyRegex(text);
+	const results: ProjectSearchResult<T>[] = [];
+
+	for (const node of nodes) {
+		const scriptName = node.script
+			?.split("/")
+			.pop()
+			.replace(/\.\w+$/, "");
+		// Penalties prefer name matches, then class, then script and groups.
+		// Script and group penalties outweigh the prefix bonus, so that a node
+		// named "MainMenu" comes before the nodes of the "menu_items" group.
+		type Candidate = [ProjectSearchResult<T>["matchType"], string, number];
+		const candidates: Candidate[] = [
+			["label", node.name, 0],
+			["class", node.className, 5],
+			["script", scriptName, 30],
+			...node.groups.map((group): Candidate => ["group", group, 30]),
+		];
+
+		let best: ProjectSearchResult<T> | undefined;
+		for (const [matchType, value, penalty] of candidates) {
+			if (!value || !regex.test(value)) {
+				continue;
+			}
+			const score = scoreFuzzyMatch(value, text) + penalty;
+			if (!best || score < best.score) {
+				best = { node, score, matchType };
+			}
+		}
+		if (best) {
+			results.push(best);
+		}
+	}
+
+	// Sort by score (lower is better)
+	return results.sort((a, b) => a.score - b.score);
+}
+
 /**
  * Formats a search result label for display in QuickPick
  *
@@ -0,0 +1,63 @@
+import { expect } from "chai";
+import { addSignalHandler, findScriptMethod, parseSignalSignature } from "./signal_handlers";
+
+const CSHARP = `using Godot;
+
+namespace Game
+{
+	public partial class Player : CharacterBody2D
+	{
+		public override void _Ready()
+		{
+			var text = "}";
+			OnHit(null);
+		}
+
+		private async void OnDone() { await ToSignal(this, "ready"); }
+	}
+}
+`;
+
+const GDSCRIPT = `extends Node2D
+
+
+func _ready() -> void:
+	_on_hit()
+`;
+
+suite("Signal handlers", () => {
+	test("parses signal signatures from the language server", () => {
+		expect(parseSignalSignature("signal BaseButton.toggled(toggled_on: bool)")).to.deep.equal({
+			name: "toggled",
+			args: [{ name: "toggled_on", type: "bool" }],
+		});
+		expect(parseSignalSignature("signal BaseButton.pressed()")).to.deep.equal({ name: "pressed", args: [] });
+	});
+
+	test("finds method declarations, not calls", () => {
+		expect(findScriptMethod(CSHARP, "csharp", "OnHit")).to.be.undefined;
+		expect(findScriptMethod(CSHARP, "csharp", "OnDone")).to.equal(CSHARP.indexOf("OnDone"));
+		expect(findScriptMethod(CSHARP, "csharp", "_Ready")).to.equal(CSHARP.indexOf("_Ready"));
+		expect(findScriptMethod(GDSCRIPT, "gdscript", "_on_hit")).to.be.undefined;
+		expect(findScriptMethod(GDSCRIPT, "gdscript", "_ready")).to.equal(GDSCRIPT.indexOf("_ready"));
+	});
+
+	test("adds handler stubs at the end of the class", () => {
+		const edit = addSignalHandler(CSHARP, "csharp", "OnAreaEntered", [{ name: "area", type: "Area2D" }]);
+		const text = CSHARP.slice(0, edit.offset) + edit.newText + CSHARP.slice(edit.offset);
+		expect(text).to.contain(`"ready"); }
+
+		private void OnAreaEntered(Area2D area)
+		{
+		}
+	}
+}
+`);
+		expect(addSignalHandler(CSHARP, "csharp", "OnDone", [])).to.be.undefined;
+
+		const gdEdit = addSignalHandler(GDSCRIPT, "gdscript", "_on_value_changed", [{ name: "value", type: "float" }]);
+		expect(GDSCRIPT.slice(0, gdEdit.offset) + gdEdit.newText + GDSCRIPT.slice(gdEdit.offset)).to.equal(
+			`${GDSCRIPT}\n\nfunc _on_value_changed(value: float) -> void:\n\tpass # Replace with function body.\n`,
+		);
+	});
+});
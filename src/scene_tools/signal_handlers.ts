@@ -0,0 +1,152 @@
+import {
+	type ScriptLanguage,
+	type SignalArgument,
+	csharpSignalHandler,
+	gdscriptSignalHandler,
+} from "./script_templates";
+
+/** Words that can come right before a call, which would otherwise look like a return type */
+const CSHARP_NOT_TYPES = new Set([
+	"return",
+	"new",
+	"await",
+	"throw",
+	"else",
+	"yield",
+	"case",
+	"in",
+	"is",
+	"as",
+	"using",
+]);
+
+function escapeRegex(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export interface SignalSignature {
+	name: string;
+	args: SignalArgument[];
+}
+
+/**
+ * Parses a signal as the language server describes it, e.g.
+ * `signal BaseButton.toggled(toggled_on: bool)`.
+ */
+export function parseSignalSignature(detail: string): SignalSignature | undefined {
+	const parts = /\.([A-Za-z0-9_]+)\((.*)?\)/.exec(detail);
+	if (!parts) {
+		return undefined;
+	}
+	const args = (parts[2] ?? "")
+		.split(",")
+		.map((arg) => arg.trim())
+		.filter(Boolean)
+		.map((arg) => {
+			const [name, type] = arg.split(":").map((part) => part.trim());
+			return { name, type };
+		});
+	return { name: parts[1], args };
+}
+
+/**
+ * The offset of the declaration of `method` in a script, or undefined when the
+ * script doesn't declare it. The script is read as text, so it doesn't need to compile.
+ */
+export function findScriptMethod(text: string, language: ScriptLanguage, method: string): number | undefined {
+	const name = escapeRegex(method);
+	if (language === "gdscript") {
+		const match = new RegExp(`^[ \\t]*(?:static[ \\t]+)?func[ \\t]+${name}[ \\t]*\\(`, "m").exec(text);
+		return match ? match.index + match[0].indexOf(method) : undefined;
+	}
+
+	const declaration = new RegExp(`^[ \\t]*((?:[\\w<>\\[\\],.?]+[ \\t]+)+)${name}[ \\t]*(?:<[^>]*>)?\\(`, "gm");
+	for (const match of text.matchAll(declaration)) {
+		const words = match[1].trim().split(/[ \t]+/);
+		if (!CSHARP_NOT_TYPES.has(words[words.length - 1])) {
+			return match.index + match[0].lastIndexOf(method);
+		}
+	}
+	return undefined;
+}
+
+/** One level of the script's indentation: a tab, unless the file is indented with spaces */
+export function indentUnit(text: string): string {
+	const spaces = /^( +)\S/m.exec(text);
+	return spaces && !/^\t/m.test(text) ? " ".repeat(Math.min(spaces[1].length, 4)) : "\t";
+}
+
+/**
+ * The offset of the closing brace of the C# class `className` (or the first class
+ * when there's none by that name), skipping braces in strings and comments.
+ */
+function findClassEnd(text: string, className?: string): number | undefined {
+	const classes = [...text.matchAll(/\bclass\s+(\w+)/g)];
+	const declaration = classes.find((m) => m[1] === className) ?? classes[0];
+	if (!declaration) {
+		return undefined;
+	}
+
+	let depth = 0;
+	for (let i = text.indexOf("{", declaration.index); i !== -1 && i < text.length; i++) {
+		const char = text[i];
+		if (char === "/" && text[i + 1] === "/") {
+			i = text.indexOf("\n", i);
+			if (i === -1) return undefined;
+		} else if (char === "/" && text[i + 1] === "*") {
+			i = text.indexOf("*/", i + 2) + 1;
+			if (i === 0) return undefined;
+		} else if (char === '"' || char === "'") {
+			const verbatim = text[i - 1] === "@";
+			for (i++; i < text.length && text[i] !== char; i++) {
+				if (text[i] === "\\" && !verbatim) i++;
+			}
+		} else if (char === "{") {
+			depth++;
+		} else if (char === "}" && --depth === 0) {
+			return i;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * The edit that adds a handler stub for a signal to a script: at the end of the class in
+ * C#, at the end of the file in GDScript. Undefined when the script already has the method,
+ * or when no class can be found in a C# file.
+ *
+ * @param className The C# class to add the method to, by default the first one in the file
+ */
+export function addSignalHandler(
+	text: string,
+	language: ScriptLanguage,
+	method: string,
+	args: SignalArgument[],
+	options: { className?: string; godot3?: boolean } = {},
+): { offset: number; newText: string } | undefined {
+	if (findScriptMethod(text, language, method) !== undefined) {
+		return undefined;
+	}
+	const indent = indentUnit(text);
+
+	if (language === "gdscript") {
+		// The file keeps whatever it ended with after the new method
+		const end = text.trimEnd().length;
+		const stub = gdscriptSignalHandler(method, args, indent, options.godot3);
+		return { offset: end, newText: end > 0 ? `\n\n\n${stub.trimEnd()}` : stub };
+	}
+
+	const classEnd = findClassEnd(text, options.className);
+	if (classEnd === undefined) {
+		return undefined;
+	}
+	// Insert at the start of the closing brace's line, indented one level deeper than the brace
+	const lineStart = text.lastIndexOf("\n", classEnd - 1) + 1;
+	const braceIndent = /^[ \t]*/.exec(text.slice(lineStart, classEnd))[0];
+	const body = text.slice(0, lineStart).trimEnd();
+	const separator = body.endsWith("{") ? "" : "\n";
+	return {
+		offset: body.length,
+		newText: `\n${separator}${csharpSignalHandler(method, args, braceIndent + indent, options.godot3).trimEnd()}`,
+	};
+}
@@ -6,6 +6,7 @@ import {
 } from "vscode";
 import * as path from "node:path";
 import { get_extension_uri } from "../utils";
+import type { ResourceDocument, Section } from "./resource_ast";
 
 const iconDir = get_extension_uri("resources", "godot_icons").fsPath;
 
@@ -20,7 +21,14 @@ export class SceneNode extends TreeItem {
 	public unique = false;
 	public hasScript = false;
 	public scriptId = "";
+	/** res:// path of the attached script, including one inherited from an instanced scene's root */
+	public scriptPath?: string;
+	/** Groups from the `groups=[...]` attribute, including the instanced scene's */
+	public groups: string[] = [];
+	/** File system path of the scene that declares this node's [node] section */
+	public sourceScene?: string;
 	public children: SceneNode[] = [];
+	public section?: Section;
 
 	constructor(
 		public label: string,
@@ -45,19 +53,23 @@ export class SceneNode extends TreeItem {
 			if (line.startsWith("tile_data")) {
 				line = "tile_data = PoolIntArray(...)";
 			}
-			if (line.startsWith("unique_name_in_owner = true")) {
-				this.unique = true;
-			}
-			if (line.startsWith("script = ExtResource")) {
-				this.hasScript = true;
-				this.scriptId = line.match(/script = ExtResource\(\s*"?([\w]+)"?\s*\)/)[1];
-				this.contextValue += "hasScript";
-			}
 			if (line !== "") {
 				newLines.push(line);
 			}
 		}
 		this.body = newLines.join("\n");
+
+		for (const property of this.section?.properties ?? []) {
+			if (property.key === "unique_name_in_owner" && property.value.kind === "bool") {
+				this.unique = property.value.value;
+			}
+			if (property.key === "script" && property.value.kind === "ext_resource") {
+				this.hasScript = true;
+				this.scriptId = property.value.id;
+				this.contextValue += "hasScript";
+			}
+		}
+
 		const content = new MarkdownString();
 		content.appendCodeblock(this.body, "gdresource");
 		this.tooltip = content;
@@ -72,6 +84,17 @@ export interface GDResource {
 	body?: string;
 	index: number;
 	line: number;
+	section?: Section;
+}
+
+/** A `[connection]` section: `signal` of the node at `from` calls `method` on the node at `to` */
+export interface SignalConnection {
+	signal: string;
+	/** Node paths relative to the scene root, "." for the root itself */
+	from: string;
+	to: string;
+	method: string;
+	section: Section;
 }
 
 export class Scene {
@@ -79,7 +102,9 @@ export class Scene {
 	public title: string;
 	public mtime: number;
 	public root: SceneNode | undefined;
+	public document: ResourceDocument;
 	public externalResources: Map<string, GDResource> = new Map();
 	public subResources: Map<string, GDResource> = new Map();
 	public nodes: Map<string, SceneNode> = new Map();
+	public connections: SignalConnection[] = [];
 }
@@ -155,6 +155,23 @@ async function readFileHeaderAsync(filePath: string, bytes: number): Promise<str
 	});
 }
 
+let uidResolver: ((uid: string) => vscode.Uri | undefined) | undefined;
+
+/**
+ * Lets convert_uids_to_uris look UIDs up in the project index before searching the file system.
+ * The index registers itself, as utils can't import it without a cycle.
+ */
+export function register_uid_resolver(resolver: (uid: string) => vscode.Uri | undefined): vscode.Disposable {
+	uidResolver = resolver;
+	return {
+		dispose: () => {
+			if (uidResolver === resolver) {
+				uidResolver = undefined;
+			}
+		},
+	};
+}
+
 export async function convert_uids_to_uris(uids: string[]): Promise<Map<string, vscode.Uri>> {
 	const not_found_uids: string[] = [];
 	const uris: Map<string, vscode.Uri> = new Map();
@@ -167,6 +184,13 @@ export async function convert_uids_to_uris(uids: string[]): Promise<Map<string,
 			continue;
 		}
 
+		// The project index knows every UID without searching the file system
+		const indexed = uidResolver?.(uid);
+		if (indexed) {
+			uris.set(uid, indexed);
+			continue;
+		}
+
 		if (uidCache.has(uid)) {
 			const uri = uidCache.get(uid);
 			// Use async exists check
@@ -28,3 +28,13 @@ export function register_command(command: string, callback: (...args: any[]) =>
 export function get_extension_uri(...paths: string[]) {
 	return vscode.Uri.joinPath(vscode.extensions.getExtension("dantrz.godot-tools-csharp").extensionUri, ...paths ?? "");
 }
+
+/** A random nonce for a webview's Content-Security-Policy */
+export function get_nonce(): string {
+	let text = "";
+	const possible = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+	for (let i = 0; i < 32; i++) {
+		text += possible.charAt(Math.floor(Math.random() * possible.length));
+	}
+	return text;
+}